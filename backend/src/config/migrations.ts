@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import Lot from '../models/Lot';
+import Transaction from '../models/Transaction';
+import Return from '../models/Return';
+import Payment from '../models/Payment';
+import SupplierPayment from '../models/SupplierPayment';
+import StockAdjustment from '../models/StockAdjustment';
+import StockTake from '../models/StockTake';
+import StockMovement from '../models/StockMovement';
+import Tenant from '../models/Tenant';
+import { MINOR_UNITS_PER_UNIT } from '../models/money';
+import { compareWithLedger, getLedgerBalances, OPENING_BALANCE_NOTE } from '../utils/stockMovements';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+
+// One document per migration, with completedAt set once it has finished everywhere
+const getMigrations = () => mongoose.connection.collection<{ _id: string; completedAt: Date }>('migrations');
+
+// Pipeline expressions that turn a stored decimal amount into whole minor units; missing
+// optional amounts stay missing
+const scaled = (path: string) => ({
+  $cond: [
+    { $isNumber: path },
+    { $round: [{ $multiply: [path, MINOR_UNITS_PER_UNIT] }, 0] },
+    path
+  ]
+});
+
+const scaledFields = (prefix: string, fields: string[]) =>
+  Object.fromEntries(fields.map((field) => [field, scaled(`${prefix}${field}`)]));
+
+const scaledArray = (input: string, as: string, fields: string[], nested: Record<string, unknown> = {}) => ({
+  $map: {
+    input,
+    as,
+    in: { $mergeObjects: [`$$${as}`, scaledFields(`$$${as}.`, fields), nested] }
+  }
+});
+
+// Amounts used to be stored as decimal currency units and are now whole minor units.
+// Each document is scaled and marked in one update, and marked documents are skipped, so
+// the migration can stop partway, run again, or run on several servers at once.
+const UNMIGRATED = { amountsInMinorUnits: { $exists: false } };
+const MARK_MIGRATED = { amountsInMinorUnits: true };
+
+const migrateMoneyToMinorUnits = async () => {
+  await Promise.all([
+    Lot.collection.updateMany(UNMIGRATED, [{
+      $set: {
+        ...MARK_MIGRATED,
+        ...scaledFields('$', ['totalInvestment', 'totalRevenue', 'totalProfit', 'totalWriteOff']),
+        items: scaledArray('$items', 'color', [], {
+          sizes: scaledArray('$$color.sizes', 'size', ['purchaseCostPerPiece', 'sellCostPerPiece'])
+        })
+      }
+    }]),
+    Transaction.collection.updateMany(UNMIGRATED, [{
+      $set: {
+        ...MARK_MIGRATED,
+        ...scaledFields('$', ['totalDiscount', 'totalRevenue', 'totalTax', 'totalRefunded', 'taxRefunded', 'amountPaid']),
+        soldItems: scaledArray('$soldItems', 'item', ['listPricePerPiece', 'sellPricePerPiece', 'totalAmount', 'taxAmount']),
+        // Only sales with a sale-wide discount have one
+        discount: {
+          $cond: [
+            { $eq: [{ $type: '$discount' }, 'object'] },
+            { $mergeObjects: ['$discount', scaledFields('$discount.', ['amount'])] },
+            '$discount'
+          ]
+        }
+      }
+    }]),
+    Return.collection.updateMany(UNMIGRATED, [{
+      $set: {
+        ...MARK_MIGRATED,
+        ...scaledFields('$', ['totalRefund', 'totalTaxRefunded', 'totalProfitReversed']),
+        returnedItems: scaledArray('$returnedItems', 'item', ['sellPricePerPiece', 'totalAmount', 'taxAmount'])
+      }
+    }]),
+    Payment.collection.updateMany(UNMIGRATED, [{ $set: { ...MARK_MIGRATED, ...scaledFields('$', ['amount']) } }]),
+    SupplierPayment.collection.updateMany(UNMIGRATED, [{ $set: { ...MARK_MIGRATED, ...scaledFields('$', ['amount']) } }]),
+    StockAdjustment.collection.updateMany(UNMIGRATED, [{
+      $set: {
+        ...MARK_MIGRATED,
+        ...scaledFields('$', ['totalWriteOff']),
+        items: scaledArray('$items', 'item', ['purchaseCostPerPiece', 'writeOff'])
+      }
+    }]),
+    StockTake.collection.updateMany(UNMIGRATED, [{ $set: { ...MARK_MIGRATED, ...scaledFields('$', ['totalWriteOff']) } }])
+  ]);
+};
+
+// Lots stocked before the ledger existed have no opening receive, so their ledger only holds the
+// changes since. Each such variant gets the stock it must have started with: what it has now, less
+// what the ledger has moved since. It's dated with the lot so it reads first, and matched on its
+// note so a rerun finds the one already written.
+const migrateStockOpeningBalances = async () => {
+  for await (const lot of Lot.find().select('tenantId createdBy createdAt items').cursor()) {
+    const lotId = lot._id as mongoose.Types.ObjectId;
+    const ledger = (await getLedgerBalances(lot.tenantId, [lotId])).get(lotId.toString());
+    const unopened = compareWithLedger(lot, ledger).filter((mismatch) => mismatch.missingOpeningBalance);
+    if (unopened.length === 0) continue;
+
+    await StockMovement.collection.bulkWrite(unopened.map((mismatch) => ({
+      updateOne: {
+        filter: {
+          tenantId: lot.tenantId,
+          lotId,
+          color: mismatch.color,
+          size: mismatch.size,
+          type: 'receive',
+          note: OPENING_BALANCE_NOTE
+        },
+        update: {
+          $setOnInsert: {
+            quantity: mismatch.remainingQuantity - mismatch.ledgerQuantity,
+            createdBy: lot.createdBy,
+            createdAt: lot.createdAt
+          }
+        },
+        upsert: true
+      }
+    })));
+  }
+};
+
+// Notifications used to be brought up to date whenever they were read; now stock changes do it,
+// so catch up once with the stock as it stands
+const migrateLowStockNotifications = async () => {
+  for await (const tenant of Tenant.find().select('_id').cursor()) {
+    await refreshLowStockNotifications(tenant._id as mongoose.Types.ObjectId);
+  }
+};
+
+// Migrations must be safe to rerun and to run on several servers at once: each server runs
+// any that haven't completed before it takes requests
+const MIGRATIONS: { id: string; run: () => Promise<void> }[] = [
+  { id: 'money-minor-units', run: migrateMoneyToMinorUnits },
+  { id: 'stock-opening-balances', run: migrateStockOpeningBalances },
+  { id: 'low-stock-notifications', run: migrateLowStockNotifications }
+];
+
+export const runMigrations = async () => {
+  for (const migration of MIGRATIONS) {
+    if (await getMigrations().findOne({ _id: migration.id, completedAt: { $exists: true } })) continue;
+
+    console.log(`Running migration ${migration.id}`);
+    await migration.run();
+    await getMigrations().updateOne(
+      { _id: migration.id },
+      { $setOnInsert: { completedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+};
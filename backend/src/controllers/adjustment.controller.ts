@@ -0,0 +1,336 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Lot from '../models/Lot';
+import StockAdjustment, { ADJUSTMENT_REASONS, AdjustmentReason } from '../models/StockAdjustment';
+import { fromMinorUnits, sumMoney } from '../models/money';
+import { recordAuditEvent, toLotSnapshot } from '../utils/audit';
+import { applyStockAdjustment } from '../utils/adjustments';
+import { recordStockMovements } from '../utils/stockMovements';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+
+// Zod schemas for validation
+const adjustedItemSchema = z.object({
+  color: z.string().min(1, 'Color is required'),
+  size: z.string().min(1, 'Size is required'),
+  quantity: z.number().int().refine((quantity) => quantity !== 0, 'Quantity cannot be zero')
+});
+
+const createAdjustmentSchema = z.object({
+  items: z.array(adjustedItemSchema).min(1, 'At least one item is required'),
+  reason: z.enum(ADJUSTMENT_REASONS, 'Reason must be damage, loss, found or recount'),
+  note: z.string().optional()
+});
+
+interface ShrinkageTotals {
+  units: number;
+  writeOff: number;
+}
+
+interface ShrinkageMonth extends ShrinkageTotals {
+  // "YYYY-MM"
+  month: string;
+  byReason: Partial<Record<AdjustmentReason, ShrinkageTotals>>;
+}
+
+const shrinkageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export const createAdjustment = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const validatedData = createAdjustmentSchema.parse(req.body);
+
+    // Damage and loss only take stock out and found stock only puts it back; a recount goes either way
+    const wrongDirection = validatedData.items.find((item) =>
+      ((validatedData.reason === 'damage' || validatedData.reason === 'loss') && item.quantity > 0) ||
+      (validatedData.reason === 'found' && item.quantity < 0)
+    );
+
+    if (wrongDirection) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validatedData.reason === 'found'
+            ? 'Found stock must be a positive quantity'
+            : `A ${validatedData.reason} adjustment must be a negative quantity`
+        }
+      });
+    }
+
+    const lot = await Lot.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!lot) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    if (lot.deletedAt) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Restore this lot before adjusting its stock'
+        }
+      });
+    }
+
+    if (lot.stockTakeId) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This lot is being counted; differences are posted when the stock take is approved'
+        }
+      });
+    }
+
+    const before = toLotSnapshot(lot);
+    const applied = applyStockAdjustment(lot, validatedData.items);
+
+    if ('error' in applied) {
+      await session.abortTransaction();
+      return res.status(applied.notFound ? 404 : 400).json({
+        success: false,
+        error: {
+          code: applied.notFound ? 'NOT_FOUND' : 'VALIDATION_ERROR',
+          message: applied.error
+        }
+      });
+    }
+
+    await lot.save({ session });
+
+    const adjustment = await StockAdjustment.create([{
+      tenantId: req.user.tenantId,
+      lotId: lot._id,
+      items: applied.items,
+      reason: validatedData.reason,
+      note: validatedData.note,
+      totalWriteOff: applied.totalWriteOff,
+      adjustedBy: req.user.userId
+    }], { session });
+
+    await recordStockMovements(req, applied.items.map((item) => ({
+      lotId: lot._id,
+      color: item.color,
+      size: item.size,
+      type: 'adjustment',
+      quantity: item.quantity,
+      referenceId: adjustment[0]._id,
+      note: validatedData.reason
+    })), session);
+
+    await recordAuditEvent(req, {
+      action: 'lot.adjust',
+      entityType: 'lot',
+      entityId: lot._id,
+      entityLabel: lot.lotNumber,
+      before,
+      after: toLotSnapshot(lot)
+    }, session);
+
+    await session.commitTransaction();
+    await refreshLowStockNotifications(req.user.tenantId, [lot._id]);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        adjustment: adjustment[0],
+        lot
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create adjustment error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to adjust stock'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const getLotAdjustments = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const adjustments = await StockAdjustment.find({
+      tenantId: req.user.tenantId,
+      lotId: id
+    })
+      .sort({ createdAt: -1 })
+      .populate('adjustedBy', 'name email');
+
+    res.json({
+      success: true,
+      data: { adjustments }
+    });
+  } catch (error) {
+    console.error('Get adjustments error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch adjustments'
+      }
+    });
+  }
+};
+
+export const getShrinkageReport = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { from, to } = shrinkageQuerySchema.parse(req.query);
+
+    const match: any = { tenantId: req.user.tenantId };
+    if (from || to) {
+      match.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        // Include the whole "to" day
+        ...(to ? { $lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) } : {})
+      };
+    }
+
+    // Net units lost and cost written off per calendar month (UTC) and reason
+    const rows = await StockAdjustment.aggregate([
+      { $match: match },
+      { $unwind: '$items' },
+      {
+        $group: {
+          _id: {
+            month: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+            reason: '$reason'
+          },
+          units: { $sum: { $multiply: ['$items.quantity', -1] } },
+          writeOff: { $sum: '$items.writeOff' }
+        }
+      },
+      { $sort: { '_id.month': -1, '_id.reason': 1 } }
+    ]);
+
+    const months = new Map<string, ShrinkageMonth>();
+    for (const row of rows) {
+      const month: ShrinkageMonth = months.get(row._id.month) ?? { month: row._id.month, units: 0, writeOff: 0, byReason: {} };
+      // Summed in minor units by the aggregation
+      const writeOff = fromMinorUnits(row.writeOff);
+      month.units += row.units;
+      month.writeOff = sumMoney([month.writeOff, writeOff]);
+      month.byReason[row._id.reason as AdjustmentReason] = { units: row.units, writeOff };
+      months.set(row._id.month, month);
+    }
+
+    res.json({
+      success: true,
+      data: { months: [...months.values()] }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get shrinkage report error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch shrinkage report'
+      }
+    });
+  }
+};
@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import Tenant from '../models/Tenant';
+import { findLowStock } from '../utils/lowStock';
+
+export const getLowStockAlerts = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const tenant = await Tenant.findById(req.user.tenantId);
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Tenant not found'
+        }
+      });
+    }
+
+    const alerts = await findLowStock(req.user.tenantId, tenant.settings.lowStockThreshold);
+
+    res.json({
+      success: true,
+      data: {
+        alerts,
+        defaultThreshold: tenant.settings.lowStockThreshold
+      }
+    });
+  } catch (error) {
+    console.error('Get low-stock alerts error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch low-stock alerts'
+      }
+    });
+  }
+};
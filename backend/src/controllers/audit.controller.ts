@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import AuditEvent from '../models/AuditEvent';
+
+// Zod schemas for validation
+const auditQuerySchema = z.object({
+  actorId: z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), 'Invalid user ID').optional(),
+  entityType: z.enum(['lot', 'transaction', 'return', 'user', 'settings']).optional(),
+  entityId: z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), 'Invalid entity ID').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export const getAuditEvents = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 25;
+    const skip = (page - 1) * limit;
+    const { actorId, entityType, entityId, from, to } = auditQuerySchema.parse(req.query);
+
+    const query: any = { tenantId: req.user.tenantId };
+    if (actorId) {
+      query.actorId = actorId;
+    }
+    if (entityType) {
+      query.entityType = entityType;
+    }
+    if (entityId) {
+      query.entityId = entityId;
+    }
+    if (from || to) {
+      query.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        // Include the whole "to" day
+        ...(to ? { $lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) } : {})
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('actorId', 'name email'),
+      AuditEvent.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get audit events error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch audit log'
+      }
+    });
+  }
+};
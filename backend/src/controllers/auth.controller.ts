@@ -21,9 +21,12 @@ export const signup = async (req: Request, res: Response) => {
   try {
     const validatedData = signupSchema.parse(req.body);
 
-    // Check if tenant with email already exists
-    const existingTenant = await Tenant.findOne({ email: validatedData.email });
-    if (existingTenant) {
+    // Check if tenant or user with email already exists
+    const [existingTenant, existingUser] = await Promise.all([
+      Tenant.findOne({ email: validatedData.email }),
+      User.findOne({ email: validatedData.email })
+    ]);
+    if (existingTenant || existingUser) {
       return res.status(400).json({
         success: false,
         error: {
@@ -69,7 +72,9 @@ export const signup = async (req: Request, res: Response) => {
           email: user.email,
           role: user.role,
           tenantId: tenant._id,
-          businessName: tenant.businessName
+          businessName: tenant.businessName,
+          currency: tenant.settings.currency,
+          locale: tenant.settings.locale
         }
       }
     });
@@ -127,6 +132,16 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    if (!user.isActive) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'This account has been deactivated'
+        }
+      });
+    }
+
     // Get tenant info
     const tenant = await Tenant.findById(user.tenantId);
     if (!tenant) {
@@ -157,7 +172,9 @@ export const login = async (req: Request, res: Response) => {
           email: user.email,
           role: user.role,
           tenantId: tenant._id,
-          businessName: tenant.businessName
+          businessName: tenant.businessName,
+          currency: tenant.settings.currency,
+          locale: tenant.settings.locale
         }
       }
     });
@@ -218,7 +235,9 @@ export const getMe = async (req: Request, res: Response) => {
           email: user.email,
           role: user.role,
           tenantId: tenant._id,
-          businessName: tenant.businessName
+          businessName: tenant.businessName,
+          currency: tenant.settings.currency,
+          locale: tenant.settings.locale
         }
       }
     });
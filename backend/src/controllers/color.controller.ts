@@ -0,0 +1,338 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Color from '../models/Color';
+import Lot from '../models/Lot';
+import { findTermConflict, findUnlistedTerms, getVocabulary, toTermKey } from '../utils/vocabulary';
+
+// Zod schemas for validation
+const aliasesSchema = z.array(z.string().trim().min(1)).default([])
+  .transform((values) => [...new Set(values)]);
+
+const colorSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  aliases: aliasesSchema,
+  // Blank clears the swatch
+  hex: z.string().trim().regex(/^(#[0-9a-fA-F]{6})?$/, 'Swatch must be a hex color like #1A2B3C').optional()
+});
+
+const updateColorSchema = z.object({
+  name: colorSchema.shape.name.optional(),
+  aliases: aliasesSchema.optional(),
+  hex: colorSchema.shape.hex
+});
+
+const reorderSchema = z.object({
+  ids: z.array(z.string()).min(1, 'At least one color is required')
+});
+
+export const getColors = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const [colors, vocabulary, used] = await Promise.all([
+      Color.find({ tenantId: req.user.tenantId }).sort({ sortOrder: 1, name: 1 }),
+      getVocabulary(req.user.tenantId),
+      Lot.distinct('items.color', { tenantId: req.user.tenantId, deletedAt: null })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        colors,
+        // Colors on current lots that the list doesn't know, so they can be added or merged as aliases
+        unlisted: findUnlistedTerms(vocabulary.colors, used as string[])
+      }
+    });
+  } catch (error) {
+    console.error('Get colors error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch colors'
+      }
+    });
+  }
+};
+
+export const createColor = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = colorSchema.parse(req.body);
+
+    const colors = await Color.find({ tenantId: req.user.tenantId }).select('name aliases sortOrder');
+    const conflict = findTermConflict(colors, [validatedData.name, ...validatedData.aliases]);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${conflict.name} already uses that name`
+        }
+      });
+    }
+
+    // New colors go to the end of the list
+    const sortOrder = colors.reduce((max, color) => Math.max(max, color.sortOrder + 1), 0);
+
+    const color = await Color.create({
+      tenantId: req.user.tenantId,
+      name: validatedData.name,
+      key: toTermKey(validatedData.name),
+      aliases: validatedData.aliases,
+      hex: validatedData.hex || undefined,
+      sortOrder
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { color }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create color error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create color'
+      }
+    });
+  }
+};
+
+export const updateColor = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid color ID'
+        }
+      });
+    }
+
+    const validatedData = updateColorSchema.parse(req.body);
+
+    const colors = await Color.find({ tenantId: req.user.tenantId });
+    const color = colors.find((candidate) => candidate._id.equals(id));
+
+    if (!color) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Color not found'
+        }
+      });
+    }
+
+    const name = validatedData.name ?? color.name;
+    let aliases = validatedData.aliases ?? color.aliases;
+    // Lots keep the old spelling, so it stays an alias and they still match
+    if (name !== color.name && !aliases.some((alias) => toTermKey(alias) === color.key)) {
+      aliases = [...aliases, color.name];
+    }
+    aliases = aliases.filter((alias) => toTermKey(alias) !== toTermKey(name));
+
+    const conflict = findTermConflict(colors, [name, ...aliases], id);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${conflict.name} already uses that name`
+        }
+      });
+    }
+
+    color.name = name;
+    color.key = toTermKey(name);
+    color.aliases = aliases;
+    if (validatedData.hex !== undefined) {
+      color.hex = validatedData.hex || undefined;
+    }
+    await color.save();
+
+    res.json({
+      success: true,
+      data: { color }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update color error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update color'
+      }
+    });
+  }
+};
+
+export const reorderColors = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { ids } = reorderSchema.parse(req.body);
+
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid color ID'
+        }
+      });
+    }
+
+    await Color.bulkWrite(ids.map((id, index) => ({
+      updateOne: {
+        filter: { _id: new mongoose.Types.ObjectId(id), tenantId: req.user!.tenantId },
+        update: { $set: { sortOrder: index } }
+      }
+    })));
+
+    const colors = await Color.find({ tenantId: req.user.tenantId }).sort({ sortOrder: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: { colors }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Reorder colors error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to reorder colors'
+      }
+    });
+  }
+};
+
+// Lots keep the color as it was spelled; it just can't be picked for new lots
+export const deleteColor = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid color ID'
+        }
+      });
+    }
+
+    const color = await Color.findOneAndDelete({ _id: id, tenantId: req.user.tenantId });
+
+    if (!color) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Color not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Color removed from the list'
+    });
+  } catch (error) {
+    console.error('Delete color error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete color'
+      }
+    });
+  }
+};
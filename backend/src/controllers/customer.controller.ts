@@ -0,0 +1,430 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Customer from '../models/Customer';
+import Transaction from '../models/Transaction';
+import Lot from '../models/Lot';
+import { sumMoney } from '../models/money';
+import { getBalanceDue } from '../utils/payments';
+
+// Zod schemas for validation
+const customerSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional()
+});
+
+const updateCustomerSchema = customerSchema.partial();
+
+const migrateCustomersSchema = z.object({
+  dryRun: z.boolean().default(false)
+});
+
+// "  Ali  Khan" and "ali khan" are the same buyer
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getCustomers = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string || '';
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: any = { tenantId: req.user.tenantId };
+    if (search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: searchRegex }, { phone: searchRegex }];
+    }
+
+    // Execute query with pagination
+    const [customers, total] = await Promise.all([
+      Customer.find(query)
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(limit),
+      Customer.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        customers,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get customers error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch customers'
+      }
+    });
+  }
+};
+
+export const createCustomer = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = customerSchema.parse(req.body);
+
+    const customer = await Customer.create({
+      ...validatedData,
+      tenantId: req.user.tenantId,
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { customer }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create customer error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create customer'
+      }
+    });
+  }
+};
+
+export const getCustomer = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid customer ID'
+        }
+      });
+    }
+
+    const customer = await Customer.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Customer not found'
+        }
+      });
+    }
+
+    const transactions = await Transaction.find({
+      tenantId: req.user.tenantId,
+      customerId: customer._id
+    }).select('lotId soldItems totalRevenue totalTax totalRefunded taxRefunded amountPaid paymentStatus createdAt');
+
+    // Transactions don't store profit, so work it out from each lot's purchase cost
+    const lotIds = new Set<string>();
+    transactions.forEach((transaction) =>
+      transaction.soldItems.forEach((item) => {
+        const lotId = item.lotId || transaction.lotId;
+        if (lotId) lotIds.add(lotId.toString());
+      })
+    );
+
+    const lots = await Lot.find({
+      _id: { $in: [...lotIds] },
+      tenantId: req.user.tenantId
+    }).select('items');
+    const lotsById = new Map(lots.map((lot) => [lot._id.toString(), lot]));
+
+    let totalRevenue = 0;
+    let totalProfit = 0;
+    let outstandingBalance = 0;
+    let lastPurchaseAt: Date | null = null;
+
+    for (const transaction of transactions) {
+      totalRevenue = sumMoney([totalRevenue, transaction.totalRevenue, -(transaction.totalRefunded || 0)]);
+      if (transaction.paymentStatus !== 'paid') {
+        outstandingBalance = sumMoney([outstandingBalance, getBalanceDue(transaction)]);
+      }
+      if (!lastPurchaseAt || transaction.createdAt > lastPurchaseAt) {
+        lastPurchaseAt = transaction.createdAt;
+      }
+
+      for (const item of transaction.soldItems) {
+        const lot = lotsById.get((item.lotId || transaction.lotId)?.toString() || '');
+        const sizeItem = lot?.items
+          .find((color) => color.color === item.color)
+          ?.sizes.find((s) => s.size === item.size);
+        const keptQuantity = item.quantity - (item.returnedQuantity || 0);
+
+        if (sizeItem) {
+          totalProfit = sumMoney([
+            totalProfit,
+            keptQuantity * item.sellPricePerPiece,
+            -keptQuantity * sizeItem.purchaseCostPerPiece
+          ]);
+        }
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        customer,
+        stats: {
+          totalRevenue,
+          totalProfit,
+          outstandingBalance,
+          transactionCount: transactions.length,
+          lastPurchaseAt
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get customer error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch customer'
+      }
+    });
+  }
+};
+
+export const updateCustomer = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid customer ID'
+        }
+      });
+    }
+
+    const validatedData = updateCustomerSchema.parse(req.body);
+
+    const customer = await Customer.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      { $set: validatedData },
+      { new: true }
+    );
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Customer not found'
+        }
+      });
+    }
+
+    // Keep the name copied onto past sales in step with the directory
+    if (validatedData.name) {
+      await Transaction.updateMany(
+        { tenantId: req.user.tenantId, customerId: customer._id },
+        { $set: { customerName: customer.name } }
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { customer }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update customer error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update customer'
+      }
+    });
+  }
+};
+
+export const migrateCustomerNames = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { dryRun } = migrateCustomersSchema.parse(req.body ?? {});
+
+    const [transactions, customers] = await Promise.all([
+      Transaction.find({
+        tenantId: req.user.tenantId,
+        customerId: { $exists: false },
+        customerName: { $exists: true, $ne: '' }
+      }).select('customerName'),
+      Customer.find({ tenantId: req.user.tenantId })
+    ]);
+
+    const customersByName = new Map(customers.map((customer) => [normalizeName(customer.name), customer]));
+
+    // Group free-text names that only differ by case or spacing
+    const groups = new Map<string, { spellings: Map<string, number>; transactionIds: mongoose.Types.ObjectId[] }>();
+    for (const transaction of transactions) {
+      const spelling = transaction.customerName!.trim().replace(/\s+/g, ' ');
+      const key = normalizeName(spelling);
+      if (!key) continue;
+
+      if (!groups.has(key)) {
+        groups.set(key, { spellings: new Map(), transactionIds: [] });
+      }
+      const group = groups.get(key)!;
+      group.spellings.set(spelling, (group.spellings.get(spelling) || 0) + 1);
+      group.transactionIds.push(transaction._id as mongoose.Types.ObjectId);
+    }
+
+    const results = [];
+    for (const [key, group] of groups) {
+      // Name new customers after the spelling used most often
+      const name = [...group.spellings.entries()].sort((a, b) => b[1] - a[1])[0][0];
+      let customer = customersByName.get(key);
+      const isNew = !customer;
+
+      if (!dryRun) {
+        if (!customer) {
+          customer = await Customer.create({
+            tenantId: req.user.tenantId,
+            name,
+            createdBy: req.user.userId
+          });
+          customersByName.set(key, customer);
+        }
+
+        await Transaction.updateMany(
+          { _id: { $in: group.transactionIds }, tenantId: req.user.tenantId },
+          { $set: { customerId: customer._id, customerName: customer.name } }
+        );
+      }
+
+      results.push({
+        name: customer?.name || name,
+        customerId: customer?._id,
+        isNew,
+        spellings: [...group.spellings.keys()],
+        transactionCount: group.transactionIds.length
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        dryRun,
+        customersCreated: results.filter((result) => result.isNew).length,
+        transactionsLinked: results.reduce((sum, result) => sum + result.transactionCount, 0),
+        results
+      },
+      message: dryRun ? 'Preview only - nothing was changed' : 'Customer names migrated'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Migrate customer names error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to migrate customer names'
+      }
+    });
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import Lot from '../models/Lot';
 import Transaction from '../models/Transaction';
+import { fromMinorUnits, sumMoney } from '../models/money';
 
 export const getDashboardStats = async (req: Request, res: Response) => {
   try {
@@ -18,25 +19,85 @@ export const getDashboardStats = async (req: Request, res: Response) => {
     const lots = await Lot.find({ tenantId: req.user.tenantId });
 
     // Calculate aggregated stats
-    const totalInvestment = lots.reduce((sum, lot) => sum + lot.totalInvestment, 0);
-    const totalRevenue = lots.reduce((sum, lot) => sum + lot.totalRevenue, 0);
+    const totalInvestment = sumMoney(lots.map((lot) => lot.totalInvestment));
+    const totalRevenue = sumMoney(lots.map((lot) => lot.totalRevenue));
     // Profit should only reflect margin on SOLD items, not total investment
     // Each lot tracks its own profit from sales: (sell price - cost price) per sold item
-    const totalProfit = lots.reduce((sum, lot) => sum + lot.totalProfit, 0);
-    const activeLots = lots.length;
+    const totalProfit = sumMoney(lots.map((lot) => lot.totalProfit));
+
+    // Archived lots still count towards money already spent and earned, but not current inventory
+    const currentLots = lots.filter(lot => !lot.deletedAt);
+    const activeLots = currentLots.length;
 
     // Count lots with remaining inventory
-    const lotsWithStock = lots.filter(lot =>
+    const lotsWithStock = currentLots.filter(lot =>
       lot.items.some(color =>
         color.sizes.some(size => size.remainingQuantity > 0)
       )
     ).length;
 
+    // Balance still owed on credit sales, summed in minor units
+    const [receivables] = await Transaction.aggregate([
+      {
+        $match: {
+          tenantId: req.user.tenantId,
+          paymentStatus: { $in: ['partial', 'unpaid'] }
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: {
+              $max: [
+                0,
+                {
+                  $subtract: [
+                    {
+                      $subtract: [
+                        { $add: ['$totalRevenue', { $ifNull: ['$totalTax', 0] }] },
+                        { $add: [{ $ifNull: ['$totalRefunded', 0] }, { $ifNull: ['$taxRefunded', 0] }] }
+                      ]
+                    },
+                    { $ifNull: ['$amountPaid', 0] }
+                  ]
+                }
+              ]
+            }
+          }
+        }
+      }
+    ]);
+    const outstandingReceivables = fromMinorUnits(receivables?.total || 0);
+
+    // Taken off list prices on pieces that stayed sold; older sales have no list price to compare
+    const [discounts] = await Transaction.aggregate([
+      { $match: { tenantId: req.user.tenantId, totalDiscount: { $gt: 0 } } },
+      { $unwind: '$soldItems' },
+      { $match: { 'soldItems.listPricePerPiece': { $exists: true } } },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: {
+              $multiply: [
+                { $subtract: ['$soldItems.quantity', { $ifNull: ['$soldItems.returnedQuantity', 0] }] },
+                { $max: [0, { $subtract: ['$soldItems.listPricePerPiece', '$soldItems.sellPricePerPiece'] }] }
+              ]
+            }
+          }
+        }
+      }
+    ]);
+    const totalDiscounts = fromMinorUnits(discounts?.total || 0);
+
     res.json({
       success: true,
       data: {
         totalInvestment,
         totalRevenue,
+        outstandingReceivables,
+        totalDiscounts,
         totalProfit,
         activeLots,
         lotsWithStock
@@ -73,6 +134,7 @@ export const getRecentTransactions = async (req: Request, res: Response) => {
     })
       .sort({ createdAt: -1 })
       .limit(limit)
+      .populate('lotIds', 'lotNumber')
       .populate('lotId', 'lotNumber')
       .populate('soldBy', 'name email');
 
@@ -124,7 +186,11 @@ export const getChartData = async (req: Request, res: Response) => {
       if (!revenueByDate[date]) {
         revenueByDate[date] = { revenue: 0, transactions: 0 };
       }
-      revenueByDate[date].revenue += transaction.totalRevenue;
+      revenueByDate[date].revenue = sumMoney([
+        revenueByDate[date].revenue,
+        transaction.totalRevenue,
+        -(transaction.totalRefunded || 0)
+      ]);
       revenueByDate[date].transactions += 1;
     });
 
@@ -134,7 +200,7 @@ export const getChartData = async (req: Request, res: Response) => {
     lots.forEach(lot => {
       const date = new Date(lot.createdAt).toISOString().split('T')[0];
       if (lot.totalRevenue > 0) {
-        profitByDate[date] = (profitByDate[date] || 0) + lot.totalProfit;
+        profitByDate[date] = sumMoney([profitByDate[date] || 0, lot.totalProfit]);
       }
     });
 
@@ -157,10 +223,11 @@ export const getChartData = async (req: Request, res: Response) => {
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 10);
 
-    // Inventory status by lot
-    const inventoryStatus = lots.map(lot => {
+    // Inventory status by lot, leaving out lots in the trash
+    const inventoryStatus = lots.filter(lot => !lot.deletedAt).map(lot => {
+      // Adjusted stock isn't sold, so count it as part of what the lot holds
       const totalItems = lot.items.reduce((total, color) =>
-        total + color.sizes.reduce((sum, size) => sum + size.quantity, 0), 0
+        total + color.sizes.reduce((sum, size) => sum + size.quantity + (size.adjustedQuantity || 0), 0), 0
       );
       const remainingItems = lot.items.reduce((total, color) =>
         total + color.sizes.reduce((sum, size) => sum + size.remainingQuantity, 0), 0
@@ -1,118 +1,1379 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import Lot from '../models/Lot';
+import Lot, { ILot } from '../models/Lot';
 import Tenant from '../models/Tenant';
+import Supplier from '../models/Supplier';
+import Product from '../models/Product';
+import Transaction from '../models/Transaction';
+import StockAdjustment from '../models/StockAdjustment';
+import StockMovement from '../models/StockMovement';
+import StockTake from '../models/StockTake';
+import SupplierPayment from '../models/SupplierPayment';
+import Notification from '../models/Notification';
 import mongoose from 'mongoose';
+import { claimUnusedSequenceNumber, getSequenceCounterPath } from '../utils/sequence';
+import { readSpreadsheetRows, SpreadsheetRow } from '../utils/spreadsheet';
+import { recordAuditEvent, toLotSnapshot } from '../utils/audit';
+import { getStockChanges, getStockLevels, recordStockMovements } from '../utils/stockMovements';
+import { getVocabulary, normalizeLotItems } from '../utils/vocabulary';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+import { generateBarcode, normalizeBarcode } from '../utils/barcode';
+import { renderLabelSheetPdf } from '../utils/labels';
+import { isSupportedCurrency } from '../utils/currency';
+import { roundMoney } from '../utils/discounts';
+import { fromMinorUnits } from '../models/money';
 
 // Zod schemas for validation
+// Colors and sizes are checked against the tenant's lists once parsed
 const sizeSchema = z.object({
-  size: z.string().min(1, 'Size is required'),
+  size: z.string().trim().min(1, 'Size is required'),
   quantity: z.number().int().min(1, 'Quantity must be at least 1'),
   purchaseCostPerPiece: z.number().min(0, 'Purchase cost must be non-negative'),
-  sellCostPerPiece: z.number().min(0, 'Sell cost must be non-negative')
+  sellCostPerPiece: z.number().min(0, 'Sell cost must be non-negative'),
+  // Leave out to use the lot's threshold
+  lowStockThreshold: z.number().int().min(0, 'Low-stock threshold must be non-negative').optional()
 });
 
 const colorSchema = z.object({
-  color: z.string().min(1, 'Color is required'),
+  color: z.string().trim().min(1, 'Color is required'),
+  productId: z.string().nullable().optional(),
   sizes: z.array(sizeSchema).min(1, 'At least one size is required')
 });
 
+// Leave lotNumber out to take the next one from the tenant's sequence
 const createLotSchema = z.object({
-  lotNumber: z.string().min(1, 'Lot number is required'),
+  lotNumber: z.string().trim().optional(),
+  // null clears the supplier when editing
+  supplierId: z.string().nullable().optional(),
+  // null goes back to the tenant's default threshold
+  lowStockThreshold: z.number().int().min(0, 'Low-stock threshold must be non-negative').nullable().optional(),
   items: z.array(colorSchema).min(1, 'At least one item is required')
 });
 
+// A lot bought in another currency has its purchase costs entered in that currency and
+// converted at the rate given, in base currency units per unit of the purchase currency.
+// The rate is kept on the lot and never changes, so edits are made in the base currency.
+const purchaseCurrencySchema = z.object({
+  purchaseCurrency: z.string().trim().toUpperCase()
+    .refine(isSupportedCurrency, 'Purchase currency must be an ISO 4217 code with at most two decimal places')
+    .optional(),
+  exchangeRate: z.number().positive('Exchange rate must be greater than 0').optional()
+}).refine(
+  (purchase) => !purchase.purchaseCurrency === (purchase.exchangeRate === undefined),
+  'Purchase currency and exchange rate go together'
+);
+
+const updateLotSchema = createLotSchema.extend({
+  lotNumber: z.string().trim().min(1, 'Lot number is required')
+});
+
+// One spreadsheet row is one size of one color; a blank lot number means "number it for me"
+const importRowSchema = sizeSchema.extend({
+  lotNumber: z.string(),
+  color: colorSchema.shape.color
+});
+
+const variantSearchSchema = z.object({
+  search: z.string().trim().default(''),
+  limit: z.coerce.number().int().min(1).max(100).default(30)
+});
+
+// Spreadsheet headers accepted for each field, lowercased with punctuation and spaces removed
+const IMPORT_COLUMNS = {
+  lotNumber: ['lotnumber', 'lot', 'lotno'],
+  color: ['color', 'colour'],
+  size: ['size'],
+  quantity: ['quantity', 'qty'],
+  purchaseCostPerPiece: ['purchasecost', 'purchasecostperpiece', 'cost', 'costprice'],
+  sellCostPerPiece: ['sellprice', 'sellcostperpiece', 'sellcost', 'price']
+} as const;
+
+const IMPORT_COLUMN_LABELS: Record<keyof typeof IMPORT_COLUMNS, string> = {
+  lotNumber: 'Lot Number',
+  color: 'Color',
+  size: 'Size',
+  quantity: 'Quantity',
+  purchaseCostPerPiece: 'Purchase Cost',
+  sellCostPerPiece: 'Sell Price'
+};
+
+type LotItemsInput = z.infer<typeof createLotSchema>['items'];
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Stock starts with everything remaining; investment is what the whole lot cost to buy
+const buildLotItems = (items: LotItemsInput) => {
+  let totalInvestment = 0;
+
+  const lotItems = items.map(colorItem => {
+    const sizes = colorItem.sizes.map(sizeItem => {
+      const investment = sizeItem.quantity * sizeItem.purchaseCostPerPiece;
+      totalInvestment += investment;
+
+      return {
+        size: sizeItem.size,
+        quantity: sizeItem.quantity,
+        remainingQuantity: sizeItem.quantity,
+        adjustedQuantity: 0,
+        purchaseCostPerPiece: sizeItem.purchaseCostPerPiece,
+        sellCostPerPiece: sizeItem.sellCostPerPiece,
+        lowStockThreshold: sizeItem.lowStockThreshold,
+        barcode: generateBarcode()
+      };
+    });
+
+    return {
+      color: colorItem.color,
+      productId: colorItem.productId ? new mongoose.Types.ObjectId(colorItem.productId) : undefined,
+      sizes
+    };
+  });
+
+  return { items: lotItems, totalInvestment };
+};
+
+type LotSize = ILot['items'][number]['sizes'][number];
+
+const variantKey = (color: string, size: string) => `${color}\u0000${size}`;
+
+// Apply edited items on top of the lot's stock. Units already sold or adjusted stay that way, so
+// the remaining quantity moves with the new quantity; edits that would rewrite history return an error.
+const applyLotItemsEdit = (current: ILot['items'], items: LotItemsInput) => {
+  const existing = new Map<string, { color: string; size: LotSize }>();
+  for (const colorItem of current) {
+    for (const sizeItem of colorItem.sizes) {
+      existing.set(variantKey(colorItem.color, sizeItem.size), { color: colorItem.color, size: sizeItem });
+    }
+  }
+
+  const getHistory = (key: string) => {
+    const previous = existing.get(key)?.size;
+    if (!previous) return { sold: 0, adjusted: 0 };
+
+    const adjusted = previous.adjustedQuantity || 0;
+    return { sold: Math.max(0, previous.quantity + adjusted - previous.remainingQuantity), adjusted };
+  };
+
+  const submitted = new Set<string>();
+  for (const colorItem of items) {
+    for (const sizeItem of colorItem.sizes) {
+      const key = variantKey(colorItem.color, sizeItem.size);
+      const label = `${colorItem.color} - ${sizeItem.size}`;
+
+      if (submitted.has(key)) {
+        return { error: `${label} is listed more than once` };
+      }
+      submitted.add(key);
+
+      const { sold, adjusted } = getHistory(key);
+      if (sold === 0 && adjusted === 0) continue;
+
+      // Units that have left stock through sales or write-offs
+      const used = sold - adjusted;
+      if (sizeItem.quantity < used) {
+        return { error: `${label}: quantity cannot be less than the ${used} already sold or written off` };
+      }
+      // Profit on sales and write-offs was booked at the old cost
+      if (sizeItem.purchaseCostPerPiece !== existing.get(key)!.size.purchaseCostPerPiece) {
+        return { error: `${label}: purchase cost cannot change after items have sold or been adjusted` };
+      }
+    }
+  }
+
+  for (const [key, previous] of existing) {
+    const { sold, adjusted } = getHistory(key);
+    if (!submitted.has(key) && (sold > 0 || adjusted !== 0)) {
+      return { error: `${previous.color} - ${previous.size.size} has sales or adjustments and cannot be removed` };
+    }
+  }
+
+  const { items: lotItems, totalInvestment } = buildLotItems(items);
+  for (const colorItem of lotItems) {
+    for (const sizeItem of colorItem.sizes) {
+      const key = variantKey(colorItem.color, sizeItem.size);
+      const { sold, adjusted } = getHistory(key);
+      sizeItem.remainingQuantity = sizeItem.quantity + adjusted - sold;
+      sizeItem.adjustedQuantity = adjusted;
+      // Labels already printed for the variant keep scanning
+      sizeItem.barcode = existing.get(key)?.size.barcode ?? sizeItem.barcode;
+    }
+  }
+
+  return { items: lotItems, totalInvestment };
+};
+
+// Check a supplier picked for a lot belongs to the tenant; returns an error message if not
+const validateSupplier = async (tenantId: mongoose.Types.ObjectId, supplierId?: string | null) => {
+  if (!supplierId) return null;
+  if (!mongoose.Types.ObjectId.isValid(supplierId)) return 'Invalid supplier ID';
+
+  const supplier = await Supplier.exists({ _id: supplierId, tenantId });
+  return supplier ? null : 'Supplier not found';
+};
+
+// Same check for the products lot lines are linked to
+const validateProducts = async (tenantId: mongoose.Types.ObjectId, items: LotItemsInput) => {
+  const productIds = [...new Set(items.flatMap((item) => item.productId ? [item.productId] : []))];
+  if (productIds.length === 0) return null;
+  if (productIds.some((productId) => !mongoose.Types.ObjectId.isValid(productId))) return 'Invalid product ID';
+
+  const found = await Product.countDocuments({ _id: { $in: productIds }, tenantId });
+  return found === productIds.length ? null : 'Product not found';
+};
+
+// Tenants from before the counter existed carry on from their existing lots
+const seedLotSequence = async (tenantId: mongoose.Types.ObjectId) => {
+  const counterPath = getSequenceCounterPath('lot');
+  const unseeded = await Tenant.exists({ _id: tenantId, [counterPath]: { $exists: false } });
+  if (!unseeded) return;
+
+  const [lotCount, lastLot] = await Promise.all([
+    Lot.countDocuments({ tenantId }),
+    Lot.findOne({ tenantId }).sort({ createdAt: -1 }).select('lotNumber')
+  ]);
+  const lastNumber = parseInt(lastLot?.lotNumber.match(/(\d+)$/)?.[1] ?? '0', 10);
+
+  await Tenant.updateOne(
+    { _id: tenantId, [counterPath]: { $exists: false } },
+    { $set: { [counterPath]: Math.max(lotCount, lastNumber) } }
+  );
+};
+
+// Reserve the next lot number, skipping any already used by a hand-typed lot
+const claimLotNumber = async (tenantId: mongoose.Types.ObjectId) => {
+  await seedLotSequence(tenantId);
+  return claimUnusedSequenceNumber(tenantId, 'lot', (lotNumber) => Lot.exists({ tenantId, lotNumber }));
+};
+
 export const createLot = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
         success: false,
         error: {
-          code: 'AUTH_ERROR',
-          message: 'Not authenticated'
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = createLotSchema.parse(req.body);
+    const { purchaseCurrency, exchangeRate } = purchaseCurrencySchema.parse(req.body);
+
+    if (purchaseCurrency) {
+      const tenant = await Tenant.findById(req.user.tenantId).select('settings.currency');
+      if (purchaseCurrency === tenant?.settings.currency) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Purchase currency is already the business currency'
+          }
+        });
+      }
+    }
+
+    // Check if lot number already exists for this tenant
+    const existingLot = validatedData.lotNumber && await Lot.findOne({
+      tenantId: req.user.tenantId,
+      lotNumber: validatedData.lotNumber
+    });
+
+    if (existingLot) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Lot number already exists'
+        }
+      });
+    }
+
+    const supplierError = await validateSupplier(req.user.tenantId, validatedData.supplierId);
+    if (supplierError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: supplierError
+        }
+      });
+    }
+
+    const productError = await validateProducts(req.user.tenantId, validatedData.items);
+    if (productError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: productError
+        }
+      });
+    }
+
+    const vocabulary = await getVocabulary(req.user.tenantId);
+    const normalized = normalizeLotItems(vocabulary, validatedData.items);
+    if ('error' in normalized) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: normalized.error
+        }
+      });
+    }
+
+    const { items, totalInvestment } = buildLotItems(exchangeRate === undefined
+      ? normalized.items
+      : normalized.items.map((colorItem) => ({
+        ...colorItem,
+        sizes: colorItem.sizes.map((sizeItem) => ({
+          ...sizeItem,
+          purchaseCostPerPiece: roundMoney(sizeItem.purchaseCostPerPiece * exchangeRate)
+        }))
+      })));
+
+    // Claimed only once the lot is known to be valid so rejected requests don't use up numbers
+    const lotNumber = validatedData.lotNumber || await claimLotNumber(req.user.tenantId);
+
+    // The lot and the receipt of its stock are written together
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    let lot;
+    try {
+      [lot] = await Lot.create([{
+        tenantId: req.user.tenantId,
+        lotNumber,
+        supplierId: validatedData.supplierId || undefined,
+        lowStockThreshold: validatedData.lowStockThreshold ?? undefined,
+        purchaseCurrency,
+        exchangeRate,
+        items,
+        totalInvestment,
+        totalRevenue: 0,
+        totalProfit: 0,
+        createdBy: req.user.userId
+      }], { session });
+
+      await recordStockMovements(req, getStockChanges(new Map(), lot, 'receive'), session);
+
+      await recordAuditEvent(req, {
+        action: 'lot.create',
+        entityType: 'lot',
+        entityId: lot._id,
+        entityLabel: lot.lotNumber,
+        after: toLotSnapshot(lot)
+      }, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    await refreshLowStockNotifications(req.user.tenantId, [lot._id]);
+
+    res.status(201).json({
+      success: true,
+      data: { lot }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create lot error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create lot'
+      }
+    });
+  }
+};
+
+interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+interface ImportedLot {
+  // Blank when the lot should be numbered from the sequence
+  lotNumber: string;
+  rows: number[];
+  items: LotItemsInput;
+}
+
+const REQUIRED_IMPORT_COLUMNS = ['color', 'size', 'quantity', 'purchaseCostPerPiece', 'sellCostPerPiece'] as const;
+
+const getImportCell = (row: SpreadsheetRow, field: keyof typeof IMPORT_COLUMNS) => {
+  const header = IMPORT_COLUMNS[field].find((alias) => alias in row.values);
+  return header ? row.values[header] : '';
+};
+
+// Allow "$1,250.00" style cells; blank cells become NaN so they're reported
+const toImportNumber = (value: string) => (value === '' ? NaN : Number(value.replace(/[$,]/g, '')));
+
+// Group spreadsheet rows into lots and colors, collecting a message for every row that can't be used
+const groupImportRows = (rows: SpreadsheetRow[]) => {
+  const lots = new Map<string, ImportedLot>();
+  const errors: ImportRowError[] = [];
+
+  for (const row of rows) {
+    const numbers = {
+      quantity: toImportNumber(getImportCell(row, 'quantity')),
+      purchaseCostPerPiece: toImportNumber(getImportCell(row, 'purchaseCostPerPiece')),
+      sellCostPerPiece: toImportNumber(getImportCell(row, 'sellCostPerPiece'))
+    };
+
+    const badField = (Object.keys(numbers) as (keyof typeof numbers)[]).find((field) => Number.isNaN(numbers[field]));
+    if (badField) {
+      errors.push({ row: row.rowNumber, message: `${IMPORT_COLUMN_LABELS[badField]} must be a number` });
+      continue;
+    }
+
+    const result = importRowSchema.safeParse({
+      lotNumber: getImportCell(row, 'lotNumber'),
+      color: getImportCell(row, 'color'),
+      size: getImportCell(row, 'size'),
+      ...numbers
+    });
+
+    if (!result.success) {
+      errors.push({ row: row.rowNumber, message: result.error.issues[0].message });
+      continue;
+    }
+
+    const { lotNumber, color, ...size } = result.data;
+
+    if (!lots.has(lotNumber)) {
+      lots.set(lotNumber, { lotNumber, rows: [], items: [] });
+    }
+    const lot = lots.get(lotNumber)!;
+
+    let colorItem = lot.items.find((item) => item.color === color);
+    if (!colorItem) {
+      colorItem = { color, sizes: [] };
+      lot.items.push(colorItem);
+    }
+
+    if (colorItem.sizes.some((existing) => existing.size === size.size)) {
+      errors.push({ row: row.rowNumber, message: `${color} - ${size.size} is listed more than once for this lot` });
+      continue;
+    }
+
+    colorItem.sizes.push(size);
+    lot.rows.push(row.rowNumber);
+  }
+
+  return { lots: [...lots.values()], errors };
+};
+
+export const importLots = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Upload a CSV or XLSX file'
+        }
+      });
+    }
+
+    // Multipart fields arrive as strings
+    const dryRun = req.body?.dryRun === 'true';
+    const supplierId: string | undefined = req.body?.supplierId || undefined;
+
+    const supplierError = await validateSupplier(req.user.tenantId, supplierId);
+    if (supplierError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: supplierError
+        }
+      });
+    }
+
+    let rows: SpreadsheetRow[];
+    try {
+      rows = await readSpreadsheetRows(req.file);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Could not read the file. Upload a .csv or .xlsx spreadsheet'
+        }
+      });
+    }
+
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The file has no rows to import'
+        }
+      });
+    }
+
+    const headers = Object.keys(rows[0].values);
+    const missingColumns = REQUIRED_IMPORT_COLUMNS.filter(
+      (field) => !IMPORT_COLUMNS[field].some((alias) => headers.includes(alias))
+    );
+
+    if (missingColumns.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Missing columns: ${missingColumns.map((field) => IMPORT_COLUMN_LABELS[field]).join(', ')}`
+        }
+      });
+    }
+
+    const { lots, errors } = groupImportRows(rows);
+    const vocabulary = await getVocabulary(req.user.tenantId);
+
+    // Lot numbers must be new to the tenant
+    const takenLots = await Lot.find({
+      tenantId: req.user.tenantId,
+      lotNumber: { $in: lots.map((lot) => lot.lotNumber).filter(Boolean) }
+    }).select('lotNumber');
+    const takenNumbers = new Set(takenLots.map((lot) => lot.lotNumber));
+
+    for (const lot of lots) {
+      if (takenNumbers.has(lot.lotNumber)) {
+        errors.push({ row: lot.rows[0], message: `Lot number ${lot.lotNumber} already exists` });
+        continue;
+      }
+
+      // Same rules as creating a lot by hand
+      const result = createLotSchema.safeParse({ lotNumber: lot.lotNumber || undefined, items: lot.items });
+      if (!result.success) {
+        errors.push({ row: lot.rows[0], message: result.error.issues[0].message });
+        continue;
+      }
+
+      const normalized = normalizeLotItems(vocabulary, lot.items);
+      if ('error' in normalized) {
+        errors.push({ row: lot.rows[0], message: normalized.error });
+        continue;
+      }
+      lot.items = normalized.items;
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    const preview = lots
+      .filter((lot) => lot.items.length > 0)
+      .map((lot) => {
+        const { items, totalInvestment } = buildLotItems(lot.items);
+        return {
+          lotNumber: lot.lotNumber || null,
+          rows: lot.rows,
+          items,
+          totalQuantity: items.reduce(
+            (sum, colorItem) => sum + colorItem.sizes.reduce((sizeSum, size) => sizeSum + size.quantity, 0),
+            0
+          ),
+          totalInvestment
+        };
+      });
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        data: {
+          dryRun: true,
+          rowCount: rows.length,
+          lots: preview,
+          errors
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${errors.length} ${errors.length === 1 ? 'row' : 'rows'} can't be imported`,
+          details: errors
+        }
+      });
+    }
+
+    const lotDocs = [];
+    for (const lot of preview) {
+      lotDocs.push({
+        tenantId: req.user.tenantId,
+        lotNumber: lot.lotNumber || await claimLotNumber(req.user.tenantId),
+        supplierId,
+        items: lot.items,
+        totalInvestment: lot.totalInvestment,
+        totalRevenue: 0,
+        totalProfit: 0,
+        createdBy: req.user.userId
+      });
+    }
+
+    // All or nothing, so a failed import can simply be fixed and uploaded again
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    let createdLots;
+    try {
+      createdLots = await Lot.create(lotDocs, { session, ordered: true });
+      for (const lot of createdLots) {
+        await recordStockMovements(req, getStockChanges(new Map(), lot, 'receive', 'Imported'), session);
+        await recordAuditEvent(req, {
+          action: 'lot.import',
+          entityType: 'lot',
+          entityId: lot._id,
+          entityLabel: lot.lotNumber,
+          after: toLotSnapshot(lot)
+        }, session);
+      }
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    await refreshLowStockNotifications(req.user.tenantId, createdLots.map((lot) => lot._id));
+
+    res.status(201).json({
+      success: true,
+      data: {
+        lots: createdLots.map((lot) => ({ _id: lot._id, lotNumber: lot.lotNumber }))
+      },
+      message: `Imported ${createdLots.length} ${createdLots.length === 1 ? 'lot' : 'lots'}`
+    });
+  } catch (error) {
+    // Someone created one of these lot numbers while the import was running
+    if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Lot number already exists'
+        }
+      });
+    }
+
+    console.error('Import lots error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to import lots'
+      }
+    });
+  }
+};
+
+export const getLots = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string || '';
+    const inStock = req.query.inStock === 'true';
+    const supplierId = req.query.supplierId as string;
+    // The trash lists archived lots only; everywhere else they're hidden
+    const archived = req.query.archived === 'true';
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: any = {
+      tenantId: req.user.tenantId,
+      deletedAt: archived ? { $ne: null } : null
+    };
+    if (search) {
+      query.lotNumber = { $regex: search, $options: 'i' };
+    }
+    if (inStock) {
+      query['items.sizes.remainingQuantity'] = { $gt: 0 };
+    }
+    if (supplierId && mongoose.Types.ObjectId.isValid(supplierId)) {
+      query.supplierId = supplierId;
+    }
+
+    // Execute query with pagination
+    const [lots, total] = await Promise.all([
+      Lot.find(query)
+        .sort(archived ? { deletedAt: -1 } : { createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('createdBy', 'name email')
+        .populate('supplierId', 'name')
+        .populate('items.productId', 'name sku taxRateId')
+        .populate('deletedBy', 'name email'),
+      Lot.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        lots,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get lots error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch lots'
+      }
+    });
+  }
+};
+
+// Sellable variants across every current lot, for the point of sale. Each word of the search has to
+// match the lot number, color, size, barcode or the linked product's name or SKU
+export const searchVariants = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { search, limit } = variantSearchSchema.parse(req.query);
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+
+    // Each variant is its own row so the search and the limit apply to variants, not lots
+    const variants = await Lot.aggregate([
+      // Lots being counted or in the trash can't be sold from
+      {
+        $match: {
+          tenantId: req.user.tenantId,
+          deletedAt: null,
+          stockTakeId: null,
+          'items.sizes.remainingQuantity': { $gt: 0 }
+        }
+      },
+      { $project: { lotNumber: 1, createdAt: 1, items: 1 } },
+      { $unwind: '$items' },
+      { $unwind: '$items.sizes' },
+      { $match: { 'items.sizes.remainingQuantity': { $gt: 0 } } },
+      {
+        $lookup: {
+          from: 'products',
+          localField: 'items.productId',
+          foreignField: '_id',
+          pipeline: [{ $project: { name: 1, sku: 1, taxRateId: 1 } }],
+          as: 'product'
+        }
+      },
+      { $unwind: { path: '$product', preserveNullAndEmptyArrays: true } },
+      ...(terms.length > 0 ? [{
+        $match: {
+          $and: terms.map((term) => {
+            const regex = { $regex: escapeRegex(term), $options: 'i' };
+            return {
+              $or: [
+                { lotNumber: regex },
+                { 'items.color': regex },
+                { 'items.sizes.size': regex },
+                { 'items.sizes.barcode': regex },
+                { 'product.name': regex },
+                { 'product.sku': regex }
+              ]
+            };
+          })
+        }
+      }] : []),
+      // A scanned barcode goes straight to the top
+      {
+        $addFields: {
+          isExact: search ? { $eq: [{ $toLower: '$items.sizes.barcode' }, search.toLowerCase()] } : false
+        }
+      },
+      { $sort: { isExact: -1, createdAt: -1, _id: -1 } },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          lotId: '$_id',
+          lotNumber: 1,
+          color: '$items.color',
+          size: '$items.sizes.size',
+          barcode: '$items.sizes.barcode',
+          productName: '$product.name',
+          taxRateId: '$product.taxRateId',
+          remainingQuantity: '$items.sizes.remainingQuantity',
+          sellCostPerPiece: '$items.sizes.sellCostPerPiece',
+          isExact: 1
+        }
+      }
+    ]);
+
+    const exact = variants.filter((variant) => variant.isExact);
+
+    res.json({
+      success: true,
+      data: {
+        // Aggregation skips the schema getters, so prices are still in minor units
+        variants: (exact.length > 0 ? exact : variants).map(({ isExact, sellCostPerPiece, ...variant }) => ({
+          ...variant,
+          sellCostPerPiece: fromMinorUnits(sellCostPerPiece)
+        }))
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Search variants error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to search stock'
+      }
+    });
+  }
+};
+
+export const getLot = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    // Find lot and enforce tenant isolation
+    const lot = await Lot.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    })
+      .populate('createdBy', 'name email')
+      .populate('supplierId', 'name')
+      .populate('items.productId', 'name sku taxRateId')
+      .populate('deletedBy', 'name email');
+
+    if (!lot) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { lot }
+    });
+  } catch (error) {
+    console.error('Get lot error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch lot'
+      }
+    });
+  }
+};
+
+const labelsQuerySchema = z.object({
+  // One label per variant, or one for every piece still in stock
+  copies: z.enum(['variant', 'stock']).default('variant')
+});
+
+// Most a single label sheet request will print
+const MAX_LABELS = 2000;
+
+// Give variants from before barcodes one each; only fills gaps, so concurrent prints agree
+const assignMissingBarcodes = async (lot: ILot) => {
+  const missing = lot.items.flatMap((colorItem) =>
+    colorItem.sizes
+      .filter((sizeItem) => !sizeItem.barcode)
+      .map((sizeItem) => ({ color: colorItem.color, size: sizeItem.size }))
+  );
+  if (missing.length === 0) return lot;
+
+  await Lot.bulkWrite(missing.map(({ color, size }) => ({
+    updateOne: {
+      filter: { _id: lot._id },
+      update: { $set: { 'items.$[colorItem].sizes.$[sizeItem].barcode': generateBarcode() } },
+      arrayFilters: [
+        { 'colorItem.color': color },
+        { 'sizeItem.size': size, 'sizeItem.barcode': { $exists: false } }
+      ]
+    }
+  })));
+
+  return (await Lot.findById(lot._id))!;
+};
+
+export const getLotLabels = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const { copies } = labelsQuerySchema.parse(req.query);
+
+    const [existingLot, tenant] = await Promise.all([
+      Lot.findOne({ _id: id, tenantId: req.user.tenantId }),
+      Tenant.findById(req.user.tenantId).select('businessName settings.currency settings.locale')
+    ]);
+
+    if (!existingLot || !tenant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    const lot = await assignMissingBarcodes(existingLot);
+
+    const labels = lot.items.flatMap((colorItem) =>
+      colorItem.sizes.flatMap((sizeItem) => {
+        const label = {
+          lotNumber: lot.lotNumber,
+          color: colorItem.color,
+          size: sizeItem.size,
+          sellPricePerPiece: sizeItem.sellCostPerPiece,
+          barcode: sizeItem.barcode!
+        };
+        return Array(copies === 'stock' ? sizeItem.remainingQuantity : 1).fill(label);
+      })
+    );
+
+    if (labels.length === 0 || labels.length > MAX_LABELS) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: labels.length === 0
+            ? 'This lot has no stock to label'
+            : `That would print ${labels.length} labels; print up to ${MAX_LABELS} at a time`
+        }
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="labels-${lot.lotNumber.replace(/[^\w.-]/g, '_')}.pdf"`
+    );
+
+    renderLabelSheetPdf(tenant.businessName, tenant.settings, labels, res);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get lot labels error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to generate labels'
+      }
+    });
+  }
+};
+
+// Find the variant a scanned label belongs to
+export const getVariantByBarcode = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const barcode = normalizeBarcode(String(req.params.barcode ?? ''));
+
+    const lot = barcode && await Lot.findOne({
+      tenantId: req.user.tenantId,
+      'items.sizes.barcode': barcode
+    })
+      .populate<{ items: (ILot['items'][number] & { productId?: { _id: mongoose.Types.ObjectId; taxRateId?: mongoose.Types.ObjectId } })[] }>(
+        'items.productId',
+        'taxRateId'
+      );
+
+    const colorItem = lot ? lot.items.find((item) => item.sizes.some((size) => size.barcode === barcode)) : undefined;
+    const sizeItem = colorItem?.sizes.find((size) => size.barcode === barcode);
+
+    if (!lot || !colorItem || !sizeItem) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `No item has the barcode ${barcode}`
+        }
+      });
+    }
+
+    if (lot.deletedAt || lot.stockTakeId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: lot.deletedAt
+            ? `Lot ${lot.lotNumber} is in the trash`
+            : `Lot ${lot.lotNumber} is being counted in a stock take`
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        lot: { _id: lot._id, lotNumber: lot.lotNumber },
+        color: colorItem.color,
+        size: sizeItem.size,
+        remainingQuantity: sizeItem.remainingQuantity,
+        sellCostPerPiece: sizeItem.sellCostPerPiece,
+        taxRateId: colorItem.productId?.taxRateId,
+        barcode
+      }
+    });
+  } catch (error) {
+    console.error('Get variant by barcode error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to look up barcode'
+      }
+    });
+  }
+};
+
+export const updateLot = async (req: Request, res: Response) => {
+  // The edit builds on the stock it read, so a sale committed in the meantime aborts it
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const validatedData = updateLotSchema.parse(req.body);
+
+    // Find existing lot
+    const existingLot = await Lot.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!existingLot) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    if (existingLot.deletedAt) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Restore this lot before editing it'
+        }
+      });
+    }
+
+    if (existingLot.stockTakeId) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This lot is being counted; edit it once the stock take is closed'
+        }
+      });
+    }
+
+    // Check if lot number is being changed and if new number already exists
+    if (validatedData.lotNumber !== existingLot.lotNumber) {
+      const duplicateLot = await Lot.findOne({
+        tenantId: req.user.tenantId,
+        lotNumber: validatedData.lotNumber,
+        _id: { $ne: id }
+      }).session(session);
+
+      if (duplicateLot) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Lot number already exists'
+          }
+        });
+      }
+    }
+
+    const supplierError = await validateSupplier(req.user.tenantId, validatedData.supplierId);
+    if (supplierError) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: supplierError
+        }
+      });
+    }
+
+    const productError = await validateProducts(req.user.tenantId, validatedData.items);
+    if (productError) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: productError
         }
       });
     }
 
-    const validatedData = createLotSchema.parse(req.body);
-
-    // Check if lot number already exists for this tenant
-    const existingLot = await Lot.findOne({
-      tenantId: req.user.tenantId,
-      lotNumber: validatedData.lotNumber
-    });
+    const vocabulary = await getVocabulary(req.user.tenantId);
+    const normalized = normalizeLotItems(vocabulary, validatedData.items, existingLot.items);
+    if ('error' in normalized) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: normalized.error
+        }
+      });
+    }
 
-    if (existingLot) {
+    const edit = applyLotItemsEdit(existingLot.items, normalized.items);
+    if ('error' in edit) {
+      await session.abortTransaction();
       return res.status(400).json({
         success: false,
         error: {
           code: 'VALIDATION_ERROR',
-          message: 'Lot number already exists'
+          message: edit.error
         }
       });
     }
 
-    // Calculate total investment and prepare items
-    let totalInvestment = 0;
-    const items = validatedData.items.map(colorItem => {
-      const sizes = colorItem.sizes.map(sizeItem => {
-        const investment = sizeItem.quantity * sizeItem.purchaseCostPerPiece;
-        totalInvestment += investment;
+    const before = toLotSnapshot(existingLot);
+    const stockBefore = getStockLevels(existingLot);
 
-        return {
-          size: sizeItem.size,
-          quantity: sizeItem.quantity,
-          remainingQuantity: sizeItem.quantity,
-          purchaseCostPerPiece: sizeItem.purchaseCostPerPiece,
-          sellCostPerPiece: sizeItem.sellCostPerPiece
-        };
-      });
+    // Update lot
+    existingLot.lotNumber = validatedData.lotNumber;
+    existingLot.items = edit.items;
+    existingLot.totalInvestment = edit.totalInvestment;
+    if (validatedData.supplierId !== undefined) {
+      existingLot.supplierId = validatedData.supplierId
+        ? new mongoose.Types.ObjectId(validatedData.supplierId)
+        : undefined;
+    }
+    if (validatedData.lowStockThreshold !== undefined) {
+      existingLot.lowStockThreshold = validatedData.lowStockThreshold ?? undefined;
+    }
 
-      return {
-        color: colorItem.color,
-        sizes
-      };
-    });
+    await existingLot.save({ session });
 
-    // Create lot
-    const lot = await Lot.create({
-      tenantId: req.user.tenantId,
-      lotNumber: validatedData.lotNumber,
-      items,
-      totalInvestment,
-      totalRevenue: 0,
-      totalProfit: 0,
-      createdBy: req.user.userId
-    });
+    // Changing a size's quantity receives (or un-receives) the difference
+    await recordStockMovements(req, getStockChanges(stockBefore, existingLot, 'receive', 'Lot edited'), session);
 
-    res.status(201).json({
+    await recordAuditEvent(req, {
+      action: 'lot.update',
+      entityType: 'lot',
+      entityId: existingLot._id,
+      entityLabel: existingLot.lotNumber,
+      before,
+      after: toLotSnapshot(existingLot)
+    }, session);
+
+    await session.commitTransaction();
+    // Quantities and thresholds may both have changed
+    await refreshLowStockNotifications(req.user.tenantId, [existingLot._id]);
+
+    res.json({
       success: true,
-      data: { lot }
+      data: { lot: existingLot },
+      message: 'Lot updated successfully'
     });
   } catch (error) {
+    await session.abortTransaction();
+
     if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
       return res.status(400).json({
         success: false,
         error: {
           code: 'VALIDATION_ERROR',
-          message: error.issues[0].message,
+          message: firstError.message,
           details: error.issues
         }
       });
     }
 
-    console.error('Create lot error:', error);
+    // A sale changed the lot's stock while this edit was being saved
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The lot was changed by a sale while saving. Please try again'
+        }
+      });
+    }
+
+    console.error('Update lot error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'SERVER_ERROR',
-        message: 'Failed to create lot'
+        message: 'Failed to update lot'
       }
     });
+  } finally {
+    session.endSession();
   }
 };
 
-export const getLots = async (req: Request, res: Response) => {
+export const generateLotNumber = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -124,52 +1385,26 @@ export const getLots = async (req: Request, res: Response) => {
       });
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const search = req.query.search as string || '';
-    const skip = (page - 1) * limit;
-
-    // Build query
-    const query: any = { tenantId: req.user.tenantId };
-    if (search) {
-      query.lotNumber = { $regex: search, $options: 'i' };
-    }
-
-    // Execute query with pagination
-    const [lots, total] = await Promise.all([
-      Lot.find(query)
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit)
-        .populate('createdBy', 'name email'),
-      Lot.countDocuments(query)
-    ]);
+    // Each call reserves a number, so two people generating at once never get the same one
+    const lotNumber = await claimLotNumber(req.user.tenantId);
 
     res.json({
       success: true,
-      data: {
-        lots,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages: Math.ceil(total / limit)
-        }
-      }
+      data: { lotNumber }
     });
   } catch (error) {
-    console.error('Get lots error:', error);
+    console.error('Generate lot number error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'SERVER_ERROR',
-        message: 'Failed to fetch lots'
+        message: 'Failed to generate lot number'
       }
     });
   }
 };
 
-export const getLot = async (req: Request, res: Response) => {
+export const deleteLot = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -194,11 +1429,11 @@ export const getLot = async (req: Request, res: Response) => {
       });
     }
 
-    // Find lot and enforce tenant isolation
+    // Find lot with tenant validation
     const lot = await Lot.findOne({
       _id: id,
       tenantId: req.user.tenantId
-    }).populate('createdBy', 'name email');
+    });
 
     if (!lot) {
       return res.status(404).json({
@@ -210,23 +1445,72 @@ export const getLot = async (req: Request, res: Response) => {
       });
     }
 
+    // Authorization check (admin or creator only)
+    if (req.user.role !== 'admin' && lot.createdBy.toString() !== req.user.userId.toString()) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Not authorized to delete this lot'
+        }
+      });
+    }
+
+    if (lot.deletedAt) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Lot is already in the trash'
+        }
+      });
+    }
+
+    if (lot.stockTakeId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This lot is being counted; delete it once the stock take is closed'
+        }
+      });
+    }
+
+    // Archive rather than delete so sales and returns can still show the lot
+    const before = toLotSnapshot(lot);
+    lot.deletedAt = new Date();
+    lot.deletedBy = req.user.userId;
+    await lot.save();
+
+    await recordAuditEvent(req, {
+      action: 'lot.delete',
+      entityType: 'lot',
+      entityId: lot._id,
+      entityLabel: lot.lotNumber,
+      before,
+      after: toLotSnapshot(lot)
+    });
+
+    // Lots in the trash don't raise alerts
+    await refreshLowStockNotifications(req.user.tenantId, [lot._id]);
+
     res.json({
       success: true,
-      data: { lot }
+      message: 'Lot moved to trash'
     });
   } catch (error) {
-    console.error('Get lot error:', error);
+    console.error('Delete lot error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'SERVER_ERROR',
-        message: 'Failed to fetch lot'
+        message: 'Failed to delete lot'
       }
     });
   }
 };
 
-export const updateLot = async (req: Request, res: Response) => {
+export const restoreLot = async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({
@@ -251,15 +1535,12 @@ export const updateLot = async (req: Request, res: Response) => {
       });
     }
 
-    const validatedData = createLotSchema.parse(req.body);
-
-    // Find existing lot
-    const existingLot = await Lot.findOne({
+    const lot = await Lot.findOne({
       _id: id,
       tenantId: req.user.tenantId
     });
 
-    if (!existingLot) {
+    if (!lot) {
       return res.status(404).json({
         success: false,
         error: {
@@ -269,146 +1550,67 @@ export const updateLot = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if lot number is being changed and if new number already exists
-    if (validatedData.lotNumber !== existingLot.lotNumber) {
-      const duplicateLot = await Lot.findOne({
-        tenantId: req.user.tenantId,
-        lotNumber: validatedData.lotNumber,
-        _id: { $ne: id }
-      });
-
-      if (duplicateLot) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Lot number already exists'
-          }
-        });
-      }
-    }
-
-    // Calculate total investment
-    let totalInvestment = 0;
-    const processedItems = validatedData.items.map((item: any) => {
-      const processedSizes = item.sizes.map((size: any) => {
-        const itemInvestment = size.quantity * size.purchaseCostPerPiece;
-        totalInvestment += itemInvestment;
-
-        return {
-          size: size.size,
-          quantity: size.quantity,
-          remainingQuantity: size.quantity,
-          purchaseCostPerPiece: size.purchaseCostPerPiece,
-          sellCostPerPiece: size.sellCostPerPiece
-        };
-      });
-
-      return {
-        color: item.color,
-        sizes: processedSizes
-      };
-    });
-
-    // Update lot
-    existingLot.lotNumber = validatedData.lotNumber;
-    existingLot.items = processedItems;
-    existingLot.totalInvestment = totalInvestment;
-
-    await existingLot.save();
-
-    res.json({
-      success: true,
-      data: { lot: existingLot },
-      message: 'Lot updated successfully'
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const firstError = error.issues[0];
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: firstError.message,
-          details: error.issues
-        }
-      });
-    }
-
-    console.error('Update lot error:', error);
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'SERVER_ERROR',
-        message: 'Failed to update lot'
-      }
-    });
-  }
-};
-
-export const generateLotNumber = async (req: Request, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
+    // Same rule as moving it to the trash (admin or creator only)
+    if (req.user.role !== 'admin' && lot.createdBy.toString() !== req.user.userId.toString()) {
+      return res.status(403).json({
         success: false,
         error: {
-          code: 'AUTH_ERROR',
-          message: 'Not authenticated'
+          code: 'FORBIDDEN',
+          message: 'Not authorized to restore this lot'
         }
       });
     }
 
-    // Get tenant to retrieve lot prefix
-    const tenant = await Tenant.findById(req.user.tenantId);
-    if (!tenant) {
-      return res.status(404).json({
+    if (!lot.deletedAt) {
+      return res.status(400).json({
         success: false,
         error: {
-          code: 'NOT_FOUND',
-          message: 'Tenant not found'
+          code: 'VALIDATION_ERROR',
+          message: 'Lot is not in the trash'
         }
       });
     }
 
-    const prefix = tenant.settings.lotPrefix || 'LOT-';
-
-    // Find the highest lot number for this tenant
-    const lastLot = await Lot.findOne({ tenantId: req.user.tenantId })
-      .sort({ createdAt: -1 })
-      .select('lotNumber');
+    const before = toLotSnapshot(lot);
+    lot.deletedAt = undefined;
+    lot.deletedBy = undefined;
+    await lot.save();
 
-    let nextNumber = 1;
-    if (lastLot) {
-      // Extract number from last lot number (e.g., "LOT-0005" -> 5)
-      const match = lastLot.lotNumber.match(/(\d+)$/);
-      if (match) {
-        nextNumber = parseInt(match[1], 10) + 1;
-      }
-    }
+    await recordAuditEvent(req, {
+      action: 'lot.restore',
+      entityType: 'lot',
+      entityId: lot._id,
+      entityLabel: lot.lotNumber,
+      before,
+      after: toLotSnapshot(lot)
+    });
 
-    // Format with padding (e.g., 5 -> "0005")
-    const paddedNumber = nextNumber.toString().padStart(4, '0');
-    const lotNumber = `${prefix}${paddedNumber}`;
+    await refreshLowStockNotifications(req.user.tenantId, [lot._id]);
 
     res.json({
       success: true,
-      data: { lotNumber }
+      data: { lot },
+      message: 'Lot restored successfully'
     });
   } catch (error) {
-    console.error('Generate lot number error:', error);
+    console.error('Restore lot error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'SERVER_ERROR',
-        message: 'Failed to generate lot number'
+        message: 'Failed to restore lot'
       }
     });
   }
 };
 
-export const deleteLot = async (req: Request, res: Response) => {
+export const purgeLot = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
     if (!req.user) {
+      await session.abortTransaction();
       return res.status(401).json({
         success: false,
         error: {
@@ -422,6 +1624,7 @@ export const deleteLot = async (req: Request, res: Response) => {
 
     // Validate ObjectId
     if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
       return res.status(400).json({
         success: false,
         error: {
@@ -431,13 +1634,13 @@ export const deleteLot = async (req: Request, res: Response) => {
       });
     }
 
-    // Find lot with tenant validation
     const lot = await Lot.findOne({
       _id: id,
       tenantId: req.user.tenantId
-    });
+    }).session(session);
 
     if (!lot) {
+      await session.abortTransaction();
       return res.status(404).json({
         success: false,
         error: {
@@ -447,26 +1650,76 @@ export const deleteLot = async (req: Request, res: Response) => {
       });
     }
 
-    // Authorization check (admin or creator only)
-    if (req.user.role !== 'admin' && lot.createdBy.toString() !== req.user.userId.toString()) {
-      return res.status(403).json({
+    if (!lot.deletedAt) {
+      await session.abortTransaction();
+      return res.status(400).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'Not authorized to delete this lot'
+          code: 'VALIDATION_ERROR',
+          message: 'Move the lot to the trash before deleting it permanently'
+        }
+      });
+    }
+
+    // Transactions would be left pointing at nothing; older single-lot sales only have lotId
+    const hasSales = await Transaction.exists({
+      tenantId: req.user.tenantId,
+      $or: [{ lotIds: lot._id }, { lotId: lot._id }]
+    }).session(session);
+
+    if (hasSales) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Lots with sales cannot be deleted permanently'
+        }
+      });
+    }
+
+    // Write-offs, supplier payments and counts are records of money and stock in their own right
+    const lotFilter = { tenantId: req.user.tenantId, lotId: lot._id };
+    const [hasAdjustments, hasSupplierPayments, hasStockTakes] = await Promise.all([
+      StockAdjustment.exists(lotFilter).session(session),
+      SupplierPayment.exists(lotFilter).session(session),
+      StockTake.exists({ tenantId: req.user.tenantId, lotIds: lot._id }).session(session)
+    ]);
+
+    if (hasAdjustments || hasSupplierPayments || hasStockTakes) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Lots with stock adjustments, supplier payments or stock takes cannot be deleted permanently'
         }
       });
     }
 
-    // Permanent delete
-    await Lot.findByIdAndDelete(id);
+    // The lot's stock history and low-stock alerts mean nothing without it. The ledger model
+    // refuses deletes so nothing edits history; purging the lot is the one exception.
+    await StockMovement.collection.deleteMany(lotFilter, { session });
+    await Notification.deleteMany(lotFilter, { session });
+    await Lot.deleteOne({ _id: lot._id }, { session });
+
+    await recordAuditEvent(req, {
+      action: 'lot.purge',
+      entityType: 'lot',
+      entityId: lot._id,
+      entityLabel: lot.lotNumber,
+      before: toLotSnapshot(lot)
+    }, session);
+
+    await session.commitTransaction();
 
     res.json({
       success: true,
-      message: 'Lot deleted successfully'
+      message: 'Lot deleted permanently'
     });
   } catch (error) {
-    console.error('Delete lot error:', error);
+    await session.abortTransaction();
+    console.error('Purge lot error:', error);
     res.status(500).json({
       success: false,
       error: {
@@ -474,5 +1727,7 @@ export const deleteLot = async (req: Request, res: Response) => {
         message: 'Failed to delete lot'
       }
     });
+  } finally {
+    session.endSession();
   }
 };
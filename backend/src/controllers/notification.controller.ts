@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Notification from '../models/Notification';
+
+// Zod schemas for validation
+const markReadSchema = z.object({
+  // Leave out to mark everything as read
+  ids: z.array(
+    z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), 'Invalid notification ID')
+  ).optional()
+});
+
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const userId = req.user.userId;
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find({ tenantId: req.user.tenantId })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean(),
+      // Recovered variants no longer need attention, read or not
+      Notification.countDocuments({
+        tenantId: req.user.tenantId,
+        resolvedAt: null,
+        readBy: { $ne: userId }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notifications: notifications.map(({ readBy, ...notification }) => ({
+          ...notification,
+          read: readBy.some((id) => id.equals(userId))
+        })),
+        unreadCount
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch notifications'
+      }
+    });
+  }
+};
+
+export const markNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { ids } = markReadSchema.parse(req.body ?? {});
+
+    const query: any = { tenantId: req.user.tenantId };
+    if (ids) {
+      query._id = { $in: ids };
+    }
+
+    await Notification.updateMany(query, { $addToSet: { readBy: req.user.userId } });
+
+    res.json({
+      success: true,
+      message: 'Notifications marked as read'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update notifications'
+      }
+    });
+  }
+};
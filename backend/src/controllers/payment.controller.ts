@@ -0,0 +1,287 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Payment, { PAYMENT_METHODS } from '../models/Payment';
+import Transaction from '../models/Transaction';
+import { sumMoney } from '../models/money';
+import { getBalanceDue, getNetTotal, getPaymentStatus, SETTLED_TOLERANCE } from '../utils/payments';
+
+// Zod schemas for validation
+const createPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0'),
+  method: z.enum(PAYMENT_METHODS).default('cash'),
+  paidAt: z.coerce.date().optional(),
+  note: z.string().optional()
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+const getAgingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days1to30';
+  if (daysOverdue <= 60) return 'days31to60';
+  if (daysOverdue <= 90) return 'days61to90';
+  return 'over90';
+};
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0
+});
+
+export const recordPayment = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid transaction ID'
+        }
+      });
+    }
+
+    const validatedData = createPaymentSchema.parse(req.body);
+
+    const transaction = await Transaction.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!transaction) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Transaction not found'
+        }
+      });
+    }
+
+    const balanceDue = getBalanceDue(transaction);
+
+    if (validatedData.amount > balanceDue + SETTLED_TOLERANCE) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: balanceDue > 0
+            ? `Payment is more than the balance due of ${balanceDue.toFixed(2)}`
+            : 'This sale is already paid in full'
+        }
+      });
+    }
+
+    const payment = await Payment.create([{
+      tenantId: req.user.tenantId,
+      transactionId: transaction._id,
+      customerId: transaction.customerId,
+      amount: validatedData.amount,
+      method: validatedData.method,
+      paidAt: validatedData.paidAt,
+      note: validatedData.note,
+      recordedBy: req.user.userId
+    }], { session });
+
+    transaction.amountPaid = (transaction.amountPaid || 0) + validatedData.amount;
+    transaction.paymentStatus = getPaymentStatus(transaction);
+    await transaction.save({ session });
+
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      data: {
+        payment: payment[0],
+        transaction
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Record payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to record payment'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const getPayments = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid transaction ID'
+        }
+      });
+    }
+
+    const payments = await Payment.find({
+      tenantId: req.user.tenantId,
+      transactionId: id
+    })
+      .sort({ paidAt: -1 })
+      .populate('recordedBy', 'name email');
+
+    res.json({
+      success: true,
+      data: { payments }
+    });
+  } catch (error) {
+    console.error('Get payments error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch payments'
+      }
+    });
+  }
+};
+
+export const getReceivables = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const transactions = await Transaction.find({
+      tenantId: req.user.tenantId,
+      paymentStatus: { $in: ['partial', 'unpaid'] }
+    })
+      .sort({ createdAt: 1 })
+      .populate('customerId', 'name phone');
+
+    const now = Date.now();
+    const totals = { totalDue: 0, buckets: emptyBuckets() };
+    const customers = new Map<string, {
+      customerId?: string;
+      customerName: string;
+      phone?: string;
+      totalDue: number;
+      buckets: Record<AgingBucket, number>;
+      transactions: object[];
+    }>();
+
+    for (const transaction of transactions) {
+      const balanceDue = getBalanceDue(transaction);
+      if (balanceDue <= 0) continue;
+
+      // Sales without a due date are owed from the day they were made
+      const dueDate = transaction.dueDate || transaction.createdAt;
+      const daysOverdue = Math.floor((now - dueDate.getTime()) / DAY_MS);
+      const bucket = getAgingBucket(daysOverdue);
+
+      const customer = transaction.customerId as unknown as { _id: mongoose.Types.ObjectId; name: string; phone?: string } | undefined;
+      const key = customer?._id.toString() || `name:${(transaction.customerName || '').trim().toLowerCase()}`;
+
+      if (!customers.has(key)) {
+        customers.set(key, {
+          customerId: customer?._id.toString(),
+          customerName: customer?.name || transaction.customerName || 'Unknown customer',
+          phone: customer?.phone,
+          totalDue: 0,
+          buckets: emptyBuckets(),
+          transactions: []
+        });
+      }
+
+      const entry = customers.get(key)!;
+      entry.totalDue = sumMoney([entry.totalDue, balanceDue]);
+      entry.buckets[bucket] = sumMoney([entry.buckets[bucket], balanceDue]);
+      entry.transactions.push({
+        _id: transaction._id,
+        invoiceNumber: transaction.invoiceNumber,
+        createdAt: transaction.createdAt,
+        dueDate: transaction.dueDate,
+        total: getNetTotal(transaction),
+        amountPaid: transaction.amountPaid || 0,
+        balanceDue,
+        daysOverdue: Math.max(daysOverdue, 0)
+      });
+
+      totals.totalDue = sumMoney([totals.totalDue, balanceDue]);
+      totals.buckets[bucket] = sumMoney([totals.buckets[bucket], balanceDue]);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        customers: [...customers.values()].sort((a, b) => b.totalDue - a.totalDue),
+        totals
+      }
+    });
+  } catch (error) {
+    console.error('Get receivables error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch receivables'
+      }
+    });
+  }
+};
@@ -0,0 +1,609 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Product from '../models/Product';
+import Lot from '../models/Lot';
+import Transaction from '../models/Transaction';
+import Tenant from '../models/Tenant';
+import { sumMoney } from '../models/money';
+import { getVocabulary, normalizeTerms } from '../utils/vocabulary';
+
+// Zod schemas for validation
+const nameListSchema = z.array(z.string().trim().min(1)).default([])
+  .transform((values) => [...new Set(values)]);
+
+const productSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  sku: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  colors: nameListSchema,
+  sizes: nameListSchema,
+  images: z.array(z.string().trim().url('Image must be a URL')).default([]),
+  taxRateId: z.string().trim().optional()
+});
+
+const updateProductSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  sku: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  colors: nameListSchema.optional(),
+  sizes: nameListSchema.optional(),
+  images: z.array(z.string().trim().url('Image must be a URL')).optional(),
+  taxRateId: z.string().trim().optional()
+});
+
+const salesReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  category: z.string().optional()
+});
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mongo's duplicate key error, raised here by the per-tenant SKU index
+const isDuplicateKeyError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Spell a product's default colors and sizes the way the tenant's lists do; returns an error message for unknown names
+const normalizeProductTerms = async (
+  tenantId: mongoose.Types.ObjectId,
+  terms: { colors?: string[]; sizes?: string[] }
+) => {
+  const vocabulary = await getVocabulary(tenantId);
+  const colors = terms.colors && normalizeTerms(vocabulary.colors, terms.colors, 'Color');
+  const sizes = terms.sizes && normalizeTerms(vocabulary.sizes, terms.sizes, 'Size');
+
+  const error = colors?.error ?? sizes?.error;
+  if (error) return { error };
+  return { colors: colors?.values, sizes: sizes?.values };
+};
+
+// A product can only name one of the tenant's own tax rates
+const isKnownTaxRate = async (tenantId: mongoose.Types.ObjectId, taxRateId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(taxRateId)) return false;
+  const tenant = await Tenant.findById(tenantId).select('settings.taxRates');
+  return Boolean(tenant?.settings.taxRates.some((rate) => rate._id.equals(taxRateId)));
+};
+
+interface ProductStock {
+  lotCount: number;
+  unitsReceived: number;
+  unitsSold: number;
+  totalRemaining: number;
+  variants: { color: string; size: string; remainingQuantity: number; unitsSold: number }[];
+  lots: { _id: mongoose.Types.ObjectId; lotNumber: string; createdAt: Date; remainingQuantity: number }[];
+}
+
+const emptyStock = (): ProductStock => ({
+  lotCount: 0,
+  unitsReceived: 0,
+  unitsSold: 0,
+  totalRemaining: 0,
+  variants: [],
+  lots: []
+});
+
+// Stock of each product summed over every current lot line that references it
+const getProductStock = async (tenantId: mongoose.Types.ObjectId, productIds?: mongoose.Types.ObjectId[]) => {
+  const productFilter = productIds ? { $in: productIds } : { $exists: true, $ne: null };
+
+  const lots = await Lot.find({ tenantId, deletedAt: null, 'items.productId': productFilter })
+    .select('lotNumber items createdAt')
+    .sort({ createdAt: -1 });
+
+  const stock = new Map<string, ProductStock>();
+  const getEntry = (productId: string) => {
+    if (!stock.has(productId)) {
+      stock.set(productId, emptyStock());
+    }
+    return stock.get(productId)!;
+  };
+
+  for (const lot of lots) {
+    const lotTotals = new Map<string, number>();
+
+    for (const colorItem of lot.items) {
+      if (!colorItem.productId) continue;
+      const productId = colorItem.productId.toString();
+      if (productIds && !productIds.some((id) => id.equals(productId))) continue;
+
+      const entry = getEntry(productId);
+      for (const sizeItem of colorItem.sizes) {
+        const adjusted = sizeItem.adjustedQuantity || 0;
+        const sold = sizeItem.quantity + adjusted - sizeItem.remainingQuantity;
+
+        entry.unitsReceived += sizeItem.quantity;
+        entry.unitsSold += sold;
+        entry.totalRemaining += sizeItem.remainingQuantity;
+        lotTotals.set(productId, (lotTotals.get(productId) ?? 0) + sizeItem.remainingQuantity);
+
+        const variant = entry.variants.find((v) => v.color === colorItem.color && v.size === sizeItem.size);
+        if (variant) {
+          variant.remainingQuantity += sizeItem.remainingQuantity;
+          variant.unitsSold += sold;
+        } else {
+          entry.variants.push({
+            color: colorItem.color,
+            size: sizeItem.size,
+            remainingQuantity: sizeItem.remainingQuantity,
+            unitsSold: sold
+          });
+        }
+      }
+    }
+
+    for (const [productId, remainingQuantity] of lotTotals) {
+      const entry = getEntry(productId);
+      entry.lotCount += 1;
+      entry.lots.push({
+        _id: lot._id as mongoose.Types.ObjectId,
+        lotNumber: lot.lotNumber,
+        createdAt: lot.createdAt,
+        remainingQuantity
+      });
+    }
+  }
+
+  return stock;
+};
+
+export const getProducts = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string || '';
+    const category = req.query.category as string || '';
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: any = { tenantId: req.user.tenantId };
+    if (search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: searchRegex }, { sku: searchRegex }];
+    }
+    if (category) {
+      query.category = category;
+    }
+
+    // Execute query with pagination
+    const [products, total, categories] = await Promise.all([
+      Product.find(query)
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(limit),
+      Product.countDocuments(query),
+      Product.distinct('category', { tenantId: req.user.tenantId })
+    ]);
+
+    const stock = await getProductStock(
+      req.user.tenantId,
+      products.map((product) => product._id as mongoose.Types.ObjectId)
+    );
+
+    res.json({
+      success: true,
+      data: {
+        products: products.map((product) => {
+          const { lotCount, totalRemaining, unitsSold } = stock.get(product._id.toString()) ?? emptyStock();
+          return { ...product.toObject(), lotCount, totalRemaining, unitsSold };
+        }),
+        categories: categories.filter(Boolean).sort(),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get products error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch products'
+      }
+    });
+  }
+};
+
+export const createProduct = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { sku, category, taxRateId, ...validatedData } = productSchema.parse(req.body);
+
+    const terms = await normalizeProductTerms(req.user.tenantId, validatedData);
+    if (terms.error) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: terms.error
+        }
+      });
+    }
+
+    if (taxRateId && !(await isKnownTaxRate(req.user.tenantId, taxRateId))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Tax rate not found'
+        }
+      });
+    }
+
+    const product = await Product.create({
+      ...validatedData,
+      colors: terms.colors,
+      sizes: terms.sizes,
+      // Blank fields are left off so an empty SKU doesn't clash with other products
+      sku: sku || undefined,
+      category: category || undefined,
+      taxRateId: taxRateId || undefined,
+      tenantId: req.user.tenantId,
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { product }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'SKU already exists'
+        }
+      });
+    }
+
+    console.error('Create product error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create product'
+      }
+    });
+  }
+};
+
+export const getProduct = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid product ID'
+        }
+      });
+    }
+
+    const product = await Product.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Product not found'
+        }
+      });
+    }
+
+    const stock = await getProductStock(req.user.tenantId, [product._id as mongoose.Types.ObjectId]);
+
+    res.json({
+      success: true,
+      data: {
+        product,
+        stock: stock.get(product._id.toString()) ?? emptyStock()
+      }
+    });
+  } catch (error) {
+    console.error('Get product error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch product'
+      }
+    });
+  }
+};
+
+export const updateProduct = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid product ID'
+        }
+      });
+    }
+
+    const { sku, category, taxRateId, ...validatedData } = updateProductSchema.parse(req.body);
+
+    const terms = await normalizeProductTerms(req.user.tenantId, validatedData);
+    if (terms.error) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: terms.error
+        }
+      });
+    }
+
+    if (taxRateId && !(await isKnownTaxRate(req.user.tenantId, taxRateId))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Tax rate not found'
+        }
+      });
+    }
+
+    // A blank SKU, category or tax rate clears it
+    const set: Record<string, unknown> = { ...validatedData };
+    if (terms.colors) set.colors = terms.colors;
+    if (terms.sizes) set.sizes = terms.sizes;
+    const unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries({ sku, category, taxRateId })) {
+      if (value) {
+        set[field] = value;
+      } else if (value !== undefined) {
+        unset[field] = '';
+      }
+    }
+    const update = Object.keys(unset).length > 0 ? { $set: set, $unset: unset } : { $set: set };
+
+    const product = await Product.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      update,
+      { new: true, runValidators: true }
+    );
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Product not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { product }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'SKU already exists'
+        }
+      });
+    }
+
+    console.error('Update product error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update product'
+      }
+    });
+  }
+};
+
+export const getProductSalesReport = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { from, to, category } = salesReportQuerySchema.parse(req.query);
+
+    const query: any = { tenantId: req.user.tenantId };
+    if (from || to) {
+      query.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        // Include the whole "to" day
+        ...(to ? { $lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) } : {})
+      };
+    }
+
+    const transactions = await Transaction.find(query).select('lotId soldItems');
+
+    // Sold items only name a lot and color, so look up which product that lot line is.
+    // Archived lots are included since their sales still count.
+    const lotIds = [...new Set(transactions.flatMap((transaction) =>
+      transaction.soldItems.flatMap((item) => {
+        const lotId = item.lotId ?? transaction.lotId;
+        return lotId ? [lotId.toString()] : [];
+      })
+    ))];
+    const lots = await Lot.find({ _id: { $in: lotIds }, tenantId: req.user.tenantId }).select('items');
+
+    const lines = new Map<string, { productId?: string; costs: Map<string, number> }>();
+    for (const lot of lots) {
+      for (const colorItem of lot.items) {
+        lines.set(`${lot._id.toString()}\u0000${colorItem.color}`, {
+          productId: colorItem.productId?.toString(),
+          costs: new Map(colorItem.sizes.map((sizeItem) => [sizeItem.size, sizeItem.purchaseCostPerPiece]))
+        });
+      }
+    }
+
+    const rows = new Map<string, { unitsSold: number; revenue: number; discount: number; cost: number }>();
+    for (const transaction of transactions) {
+      for (const item of transaction.soldItems) {
+        const lotId = (item.lotId ?? transaction.lotId)?.toString();
+        const line = lotId ? lines.get(`${lotId}\u0000${item.color}`) : undefined;
+        // Returned pieces are taken back out of the numbers
+        const units = item.quantity - (item.returnedQuantity || 0);
+        if (units <= 0) continue;
+
+        const key = line?.productId ?? 'unassigned';
+        const row = rows.get(key) ?? { unitsSold: 0, revenue: 0, discount: 0, cost: 0 };
+        row.unitsSold += units;
+        row.revenue = sumMoney([row.revenue, units * item.sellPricePerPiece]);
+        const listPrice = item.listPricePerPiece ?? item.sellPricePerPiece;
+        row.discount = sumMoney([row.discount, units * Math.max(listPrice - item.sellPricePerPiece, 0)]);
+        row.cost = sumMoney([row.cost, units * (line?.costs.get(item.size) ?? 0)]);
+        rows.set(key, row);
+      }
+    }
+
+    const productQuery: any = {
+      _id: { $in: [...rows.keys()].filter((key) => key !== 'unassigned') },
+      tenantId: req.user.tenantId
+    };
+    if (category) {
+      productQuery.category = category;
+    }
+    const products = await Product.find(productQuery).select('name sku category');
+
+    const report = products
+      .map((product) => {
+        const row = rows.get(product._id.toString())!;
+        return {
+          productId: product._id,
+          name: product.name,
+          sku: product.sku,
+          category: product.category,
+          unitsSold: row.unitsSold,
+          revenue: row.revenue,
+          discount: row.discount,
+          profit: sumMoney([row.revenue, -row.cost])
+        };
+      })
+      .sort((a, b) => b.revenue - a.revenue);
+
+    // Sales from lot lines that aren't linked to a product, shown on their own
+    const unassigned = rows.get('unassigned');
+
+    res.json({
+      success: true,
+      data: {
+        products: report,
+        unassigned: !category && unassigned
+          ? {
+            unitsSold: unassigned.unitsSold,
+            revenue: unassigned.revenue,
+            discount: unassigned.discount,
+            profit: sumMoney([unassigned.revenue, -unassigned.cost])
+          }
+          : null
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get product sales report error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch product sales report'
+      }
+    });
+  }
+};
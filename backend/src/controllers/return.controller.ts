@@ -0,0 +1,332 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Return from '../models/Return';
+import Transaction from '../models/Transaction';
+import Lot from '../models/Lot';
+import { getPaymentStatus, getRefundShare } from '../utils/payments';
+import { roundMoney } from '../utils/discounts';
+import { recordAuditEvent } from '../utils/audit';
+import { recordStockMovements } from '../utils/stockMovements';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+
+// Zod schemas for validation
+const returnItemSchema = z.object({
+  lotId: z.string().optional(),
+  color: z.string().min(1, 'Color is required'),
+  size: z.string().min(1, 'Size is required'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1')
+});
+
+const createReturnSchema = z.object({
+  items: z.array(returnItemSchema).min(1, 'At least one item is required'),
+  reason: z.string().optional()
+});
+
+export const createReturn = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid transaction ID'
+        }
+      });
+    }
+
+    const validatedData = createReturnSchema.parse(req.body);
+
+    const transaction = await Transaction.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!transaction) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Transaction not found'
+        }
+      });
+    }
+
+    // Lines from sales recorded before multi-lot support carry no lotId of their own
+    const lineLotId = (item: { lotId?: mongoose.Types.ObjectId }) =>
+      (item.lotId || transaction.lotId)?.toString();
+
+    const lineLotIds = [...new Set(transaction.soldItems.map(lineLotId))]
+      .filter((lotId): lotId is string => !!lotId);
+    const lots = await Lot.find({
+      _id: { $in: lineLotIds },
+      tenantId: req.user.tenantId
+    }).session(session);
+    const lotsById = new Map(lots.map((lot) => [lot._id.toString(), lot]));
+    const touchedLotIds = new Set<string>();
+
+    let totalRefund = 0;
+    let totalProfitReversed = 0;
+    let totalTaxRefunded = 0;
+    const returnedItems = [];
+
+    for (const returnItem of validatedData.items) {
+      // The same variant can appear on several sold lines, so spread the return across them
+      const soldLines = transaction.soldItems.filter(
+        (item) =>
+          item.color === returnItem.color &&
+          item.size === returnItem.size &&
+          (!returnItem.lotId || lineLotId(item) === returnItem.lotId)
+      );
+
+      const returnable = soldLines.reduce(
+        (sum, item) => sum + item.quantity - (item.returnedQuantity || 0),
+        0
+      );
+
+      if (soldLines.length === 0 || returnItem.quantity > returnable) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Cannot return ${returnItem.quantity} of ${returnItem.color} - ${returnItem.size}. Returnable: ${returnable}`
+          }
+        });
+      }
+
+      let remainingToReturn = returnItem.quantity;
+      for (const soldLine of soldLines) {
+        if (remainingToReturn === 0) break;
+
+        const lineReturnable = soldLine.quantity - (soldLine.returnedQuantity || 0);
+        const quantity = Math.min(lineReturnable, remainingToReturn);
+        if (quantity === 0) continue;
+
+        const lot = lotsById.get(lineLotId(soldLine) as string);
+        if (!lot) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'The lot for this item no longer exists, so stock cannot be restored'
+            }
+          });
+        }
+
+        // Restocking mid-count would throw the counted quantities off, as a sale would
+        if (lot.stockTakeId) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Lot ${lot.lotNumber} is being counted in a stock take`
+            }
+          });
+        }
+
+        const sizeItem = lot.items
+          .find((item) => item.color === soldLine.color)
+          ?.sizes.find((s) => s.size === soldLine.size);
+
+        if (!sizeItem) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `${soldLine.color} - ${soldLine.size} no longer exists in lot ${lot.lotNumber}`
+            }
+          });
+        }
+
+        // Shares of the line's own totals, not the rounded per-piece price, so a full return gives
+        // back exactly what the line charged
+        const returnedBefore = soldLine.returnedQuantity || 0;
+        const refundAmount = getRefundShare(soldLine.totalAmount, soldLine.quantity, returnedBefore, quantity);
+        const taxRefund = getRefundShare(soldLine.taxAmount || 0, soldLine.quantity, returnedBefore, quantity);
+        const profitReversed = refundAmount - quantity * sizeItem.purchaseCostPerPiece;
+        totalRefund += refundAmount;
+        totalTaxRefunded += taxRefund;
+        totalProfitReversed += profitReversed;
+
+        // Restore stock and reverse lot financials
+        sizeItem.remainingQuantity += quantity;
+        lot.totalRevenue -= refundAmount;
+        lot.totalProfit -= profitReversed;
+        touchedLotIds.add(lot._id.toString());
+
+        returnedItems.push({
+          lotId: lot._id,
+          color: soldLine.color,
+          size: soldLine.size,
+          quantity,
+          sellPricePerPiece: soldLine.sellPricePerPiece,
+          totalAmount: refundAmount,
+          taxRate: soldLine.taxRate,
+          taxAmount: taxRefund
+        });
+
+        soldLine.returnedQuantity = (soldLine.returnedQuantity || 0) + quantity;
+        remainingToReturn -= quantity;
+      }
+    }
+
+    for (const lotId of touchedLotIds) {
+      await lotsById.get(lotId)!.save({ session });
+    }
+
+    const fullyReturned = transaction.soldItems.every(
+      (item) => (item.returnedQuantity || 0) >= item.quantity
+    );
+    totalTaxRefunded = roundMoney(totalTaxRefunded);
+    transaction.totalRefunded = (transaction.totalRefunded || 0) + totalRefund;
+    transaction.taxRefunded = roundMoney((transaction.taxRefunded || 0) + totalTaxRefunded);
+    transaction.returnStatus = fullyReturned ? 'full' : 'partial';
+    // A refund can clear what was still owed on a credit sale
+    if (transaction.paymentStatus !== 'paid') {
+      transaction.paymentStatus = getPaymentStatus(transaction);
+    }
+    await transaction.save({ session });
+
+    const returnDoc = await Return.create([{
+      tenantId: req.user.tenantId,
+      transactionId: transaction._id,
+      lotIds: [...touchedLotIds],
+      returnedItems,
+      totalRefund,
+      totalTaxRefunded,
+      totalProfitReversed,
+      reason: validatedData.reason,
+      processedBy: req.user.userId
+    }], { session });
+
+    await recordStockMovements(req, returnedItems.map((item) => ({
+      lotId: item.lotId,
+      color: item.color,
+      size: item.size,
+      type: 'return',
+      quantity: item.quantity,
+      referenceId: returnDoc[0]._id,
+      note: transaction.invoiceNumber
+    })), session);
+
+    await recordAuditEvent(req, {
+      action: 'return.create',
+      entityType: 'return',
+      entityId: returnDoc[0]._id,
+      entityLabel: transaction.invoiceNumber,
+      after: {
+        transactionId: transaction._id,
+        returnedItems,
+        totalRefund,
+        totalTaxRefunded,
+        reason: validatedData.reason
+      }
+    }, session);
+
+    await session.commitTransaction();
+    await refreshLowStockNotifications(req.user.tenantId, [...touchedLotIds]);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        return: returnDoc[0],
+        transaction
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create return error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to process return'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const getReturns = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid transaction ID'
+        }
+      });
+    }
+
+    const returns = await Return.find({
+      tenantId: req.user.tenantId,
+      transactionId: id
+    })
+      .sort({ createdAt: -1 })
+      .populate('processedBy', 'name email');
+
+    res.json({
+      success: true,
+      data: { returns }
+    });
+  } catch (error) {
+    console.error('Get returns error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch returns'
+      }
+    });
+  }
+};
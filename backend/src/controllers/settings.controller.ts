@@ -0,0 +1,239 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Tenant, { ITenant } from '../models/Tenant';
+import Lot from '../models/Lot';
+import Transaction from '../models/Transaction';
+import {
+  formatSequenceNumber,
+  getSequenceCounter,
+  getSequenceCounterPath,
+  getSequenceFormat,
+  SequenceKind
+} from '../utils/sequence';
+import { recordAuditEvent } from '../utils/audit';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+import { isSupportedCurrency, isSupportedLocale } from '../utils/currency';
+
+// Zod schemas for validation
+const formatSchema = (label: string) => z.string().trim()
+  .refine((format) => format.includes('{number}'), `${label} format must include {number}`);
+
+// Rates keep their _id when edited so products that use them stay linked
+const taxRateSchema = z.object({
+  _id: z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), 'Invalid tax rate ID').optional(),
+  name: z.string().trim().min(1, 'Tax rate name is required'),
+  rate: z.number().min(0, 'Tax rate must be non-negative').max(100, 'Tax rate cannot be more than 100%'),
+  isDefault: z.boolean().default(false)
+});
+
+const paddingSchema = z.number().int().min(1, 'Padding must be at least 1').max(10, 'Padding cannot be more than 10');
+
+const updateSettingsSchema = z.object({
+  lotPrefix: z.string().trim().optional(),
+  lotFormat: formatSchema('Lot').optional(),
+  lotPadding: paddingSchema.optional(),
+  nextLotSequence: z.number().int().min(1, 'Next lot number must be at least 1').optional(),
+  invoicePrefix: z.string().trim().optional(),
+  invoiceFormat: formatSchema('Invoice').optional(),
+  invoicePadding: paddingSchema.optional(),
+  nextInvoiceSequence: z.number().int().min(1, 'Next invoice number must be at least 1').optional(),
+  lowStockThreshold: z.number().int().min(0, 'Low-stock threshold must be non-negative').optional(),
+  maxStaffDiscountPercent: z.number()
+    .min(0, 'Maximum staff discount must be non-negative')
+    .max(100, 'Maximum staff discount cannot be more than 100%')
+    .optional(),
+  taxRates: z.array(taxRateSchema)
+    .refine((rates) => rates.filter((rate) => rate.isDefault).length <= 1, 'Only one tax rate can be the default')
+    .refine(
+      (rates) => new Set(rates.map((rate) => rate.name.toLowerCase())).size === rates.length,
+      'Tax rate names must be unique'
+    )
+    .optional(),
+  pricesIncludeTax: z.boolean().optional(),
+  taxRegistrationNumber: z.string().trim().optional(),
+  currency: z.string().trim().toUpperCase()
+    .refine(isSupportedCurrency, 'Currency must be an ISO 4217 code with at most two decimal places')
+    .optional(),
+  locale: z.string().trim().refine(isSupportedLocale, 'Unsupported locale').optional()
+});
+
+// The counter and a preview of what the next lot or sale will be numbered
+const describeSequence = (settings: ITenant['settings'], kind: SequenceKind) => {
+  const nextSequence = getSequenceCounter(settings, kind) + 1;
+  return {
+    nextSequence,
+    nextNumber: formatSequenceNumber(getSequenceFormat(settings, kind), nextSequence)
+  };
+};
+
+const toSettingsResponse = (tenant: ITenant) => {
+  const { lotPrefix, lotFormat, lotPadding, invoicePrefix, invoiceFormat, invoicePadding, lowStockThreshold, maxStaffDiscountPercent } = tenant.settings;
+  const { taxRates, pricesIncludeTax, taxRegistrationNumber, currency, locale } = tenant.settings;
+  const lot = describeSequence(tenant.settings, 'lot');
+  const invoice = describeSequence(tenant.settings, 'invoice');
+
+  return {
+    lotPrefix,
+    lotFormat,
+    lotPadding,
+    nextLotSequence: lot.nextSequence,
+    nextLotNumber: lot.nextNumber,
+    invoicePrefix,
+    invoiceFormat,
+    invoicePadding,
+    nextInvoiceSequence: invoice.nextSequence,
+    nextInvoiceNumber: invoice.nextNumber,
+    lowStockThreshold,
+    maxStaffDiscountPercent,
+    taxRates: taxRates.map(({ _id, name, rate, isDefault }) => ({ _id, name, rate, isDefault })),
+    pricesIncludeTax,
+    taxRegistrationNumber,
+    currency,
+    locale
+  };
+};
+
+export const getSettings = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const tenant = await Tenant.findById(req.user.tenantId);
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Tenant not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { settings: toSettingsResponse(tenant) }
+    });
+  } catch (error) {
+    console.error('Get settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch settings'
+      }
+    });
+  }
+};
+
+export const updateSettings = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = updateSettingsSchema.parse(req.body);
+    const { nextLotSequence, nextInvoiceSequence, ...fields } = validatedData;
+
+    // Set individual paths so a sale claiming a number at the same time isn't overwritten
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        update[`settings.${key}`] = value;
+      }
+    }
+    if (nextLotSequence !== undefined) {
+      update[getSequenceCounterPath('lot')] = nextLotSequence - 1;
+    }
+    if (nextInvoiceSequence !== undefined) {
+      update[getSequenceCounterPath('invoice')] = nextInvoiceSequence - 1;
+    }
+
+    const existingTenant = await Tenant.findById(req.user.tenantId);
+
+    // Stored amounts aren't converted, so the base currency is fixed once there's stock or sales
+    if (existingTenant && fields.currency && fields.currency !== existingTenant.settings.currency) {
+      const [lot, transaction] = await Promise.all([
+        Lot.exists({ tenantId: req.user.tenantId }),
+        Transaction.exists({ tenantId: req.user.tenantId })
+      ]);
+      if (lot || transaction) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The currency cannot be changed once lots or sales have been recorded'
+          }
+        });
+      }
+    }
+
+    const tenant = existingTenant && await Tenant.findOneAndUpdate(
+      { _id: req.user.tenantId },
+      { $set: update },
+      { new: true }
+    );
+
+    if (!existingTenant || !tenant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Tenant not found'
+        }
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: tenant._id,
+      before: toSettingsResponse(existingTenant),
+      after: toSettingsResponse(tenant)
+    });
+
+    // The default threshold applies across every lot without its own
+    if (tenant.settings.lowStockThreshold !== existingTenant.settings.lowStockThreshold) {
+      await refreshLowStockNotifications(req.user.tenantId);
+    }
+
+    res.json({
+      success: true,
+      data: { settings: toSettingsResponse(tenant) },
+      message: 'Settings updated successfully'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update settings'
+      }
+    });
+  }
+};
@@ -0,0 +1,482 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Size from '../models/Size';
+import SizeRun from '../models/SizeRun';
+import Lot from '../models/Lot';
+import { findTermConflict, findUnlistedTerms, getVocabulary, normalizeTerms, compareTerms, toTermKey } from '../utils/vocabulary';
+
+// Zod schemas for validation
+const aliasesSchema = z.array(z.string().trim().min(1)).default([])
+  .transform((values) => [...new Set(values)]);
+
+const sizeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  aliases: aliasesSchema
+});
+
+const updateSizeSchema = z.object({
+  name: sizeSchema.shape.name.optional(),
+  aliases: aliasesSchema.optional()
+});
+
+const reorderSchema = z.object({
+  ids: z.array(z.string()).min(1, 'At least one size is required')
+});
+
+const sizeRunSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  sizes: z.array(z.string().trim().min(1)).min(1, 'At least one size is required')
+});
+
+export const getSizes = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const [sizes, vocabulary, used] = await Promise.all([
+      Size.find({ tenantId: req.user.tenantId }).sort({ sortOrder: 1, name: 1 }),
+      getVocabulary(req.user.tenantId),
+      Lot.distinct('items.sizes.size', { tenantId: req.user.tenantId, deletedAt: null })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        sizes,
+        // Sizes on current lots that the list doesn't know, so they can be added or merged as aliases
+        unlisted: findUnlistedTerms(vocabulary.sizes, used as string[])
+      }
+    });
+  } catch (error) {
+    console.error('Get sizes error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch sizes'
+      }
+    });
+  }
+};
+
+export const createSize = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = sizeSchema.parse(req.body);
+
+    const sizes = await Size.find({ tenantId: req.user.tenantId }).select('name aliases sortOrder');
+    const conflict = findTermConflict(sizes, [validatedData.name, ...validatedData.aliases]);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${conflict.name} already uses that name`
+        }
+      });
+    }
+
+    // New sizes go to the end of the list
+    const sortOrder = sizes.reduce((max, size) => Math.max(max, size.sortOrder + 1), 0);
+
+    const size = await Size.create({
+      tenantId: req.user.tenantId,
+      name: validatedData.name,
+      key: toTermKey(validatedData.name),
+      aliases: validatedData.aliases,
+      sortOrder
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { size }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create size error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create size'
+      }
+    });
+  }
+};
+
+export const updateSize = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid size ID'
+        }
+      });
+    }
+
+    const validatedData = updateSizeSchema.parse(req.body);
+
+    const sizes = await Size.find({ tenantId: req.user.tenantId });
+    const size = sizes.find((candidate) => candidate._id.equals(id));
+
+    if (!size) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Size not found'
+        }
+      });
+    }
+
+    const name = validatedData.name ?? size.name;
+    let aliases = validatedData.aliases ?? size.aliases;
+    // Lots keep the old spelling, so it stays an alias and they still match
+    if (name !== size.name && !aliases.some((alias) => toTermKey(alias) === size.key)) {
+      aliases = [...aliases, size.name];
+    }
+    aliases = aliases.filter((alias) => toTermKey(alias) !== toTermKey(name));
+
+    const conflict = findTermConflict(sizes, [name, ...aliases], id);
+    if (conflict) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${conflict.name} already uses that name`
+        }
+      });
+    }
+
+    size.name = name;
+    size.key = toTermKey(name);
+    size.aliases = aliases;
+    await size.save();
+
+    res.json({
+      success: true,
+      data: { size }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update size error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update size'
+      }
+    });
+  }
+};
+
+// Sizes on lots are sorted in this order, e.g. S < M < L < XL
+export const reorderSizes = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { ids } = reorderSchema.parse(req.body);
+
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid size ID'
+        }
+      });
+    }
+
+    await Size.bulkWrite(ids.map((id, index) => ({
+      updateOne: {
+        filter: { _id: new mongoose.Types.ObjectId(id), tenantId: req.user!.tenantId },
+        update: { $set: { sortOrder: index } }
+      }
+    })));
+
+    const sizes = await Size.find({ tenantId: req.user.tenantId }).sort({ sortOrder: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: { sizes }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Reorder sizes error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to reorder sizes'
+      }
+    });
+  }
+};
+
+// Lots keep the size as it was spelled; it just can't be picked for new lots
+export const deleteSize = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid size ID'
+        }
+      });
+    }
+
+    const size = await Size.findOneAndDelete({ _id: id, tenantId: req.user.tenantId });
+
+    if (!size) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Size not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Size removed from the list'
+    });
+  } catch (error) {
+    console.error('Delete size error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete size'
+      }
+    });
+  }
+};
+
+export const getSizeRuns = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const sizeRuns = await SizeRun.find({ tenantId: req.user.tenantId }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { sizeRuns }
+    });
+  } catch (error) {
+    console.error('Get size runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch size runs'
+      }
+    });
+  }
+};
+
+export const createSizeRun = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = sizeRunSchema.parse(req.body);
+
+    // Runs hold the list's spelling, in the list's order
+    const vocabulary = await getVocabulary(req.user.tenantId);
+    const terms = normalizeTerms(vocabulary.sizes, validatedData.sizes, 'Size');
+    if ('error' in terms) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: terms.error
+        }
+      });
+    }
+
+    const sizeRun = await SizeRun.create({
+      tenantId: req.user.tenantId,
+      name: validatedData.name,
+      sizes: terms.values.sort((a, b) => compareTerms(vocabulary.sizes, a, b)),
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { sizeRun }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create size run error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create size run'
+      }
+    });
+  }
+};
+
+export const deleteSizeRun = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid size run ID'
+        }
+      });
+    }
+
+    const sizeRun = await SizeRun.findOneAndDelete({ _id: id, tenantId: req.user.tenantId });
+
+    if (!sizeRun) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Size run not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Size run deleted'
+    });
+  } catch (error) {
+    console.error('Delete size run error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete size run'
+      }
+    });
+  }
+};
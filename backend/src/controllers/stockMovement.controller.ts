@@ -0,0 +1,324 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Lot from '../models/Lot';
+import StockMovement from '../models/StockMovement';
+import { recordAuditEvent, toLotSnapshot } from '../utils/audit';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+import {
+  compareWithLedger,
+  getLedgerBalances,
+  getStockChanges,
+  OPENING_BALANCE_NOTE,
+  recordStockMovements
+} from '../utils/stockMovements';
+
+// Zod schemas for validation
+const movementQuerySchema = z.object({
+  color: z.string().optional(),
+  size: z.string().optional()
+});
+
+const rebuildStockSchema = z.object({
+  dryRun: z.boolean().optional()
+});
+
+export const getLotMovements = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const { color, size } = movementQuerySchema.parse(req.query);
+
+    const lot = await Lot.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!lot) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    const query: any = { tenantId: req.user.tenantId, lotId: lot._id };
+    if (color) {
+      query.color = color;
+    }
+    if (size) {
+      query.size = size;
+    }
+
+    // Oldest first so a running balance can be read straight down the list
+    const [movements, balances] = await Promise.all([
+      StockMovement.find(query)
+        .sort({ createdAt: 1, _id: 1 })
+        .populate('createdBy', 'name email'),
+      getLedgerBalances(req.user.tenantId, [lot._id as mongoose.Types.ObjectId])
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        movements,
+        mismatches: compareWithLedger(lot, balances.get(lot._id.toString()))
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get stock movements error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch stock movements'
+      }
+    });
+  }
+};
+
+export const rebuildLotStock = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID'
+        }
+      });
+    }
+
+    const { dryRun } = rebuildStockSchema.parse(req.body ?? {});
+
+    const lot = await Lot.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!lot) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    const hasHistory = await StockMovement.exists({ tenantId: req.user.tenantId, lotId: lot._id }).session(session);
+
+    // Lots from before the ledger existed start it with their current stock rather than being zeroed
+    if (!hasHistory) {
+      if (!dryRun) {
+        await recordStockMovements(req, getStockChanges(new Map(), lot, 'receive', OPENING_BALANCE_NOTE), session);
+        await session.commitTransaction();
+      } else {
+        await session.abortTransaction();
+      }
+
+      return res.json({
+        success: true,
+        data: { dryRun: Boolean(dryRun), openingBalance: true, mismatches: [], lot },
+        message: dryRun
+          ? 'This lot has no movements yet; its current stock would become the opening balance'
+          : 'Opening balance recorded from current stock'
+      });
+    }
+
+    const balances = await getLedgerBalances(req.user.tenantId, [lot._id as mongoose.Types.ObjectId]);
+    const mismatches = compareWithLedger(lot, balances.get(lot._id.toString()));
+
+    if (dryRun || mismatches.length === 0) {
+      await session.abortTransaction();
+      return res.json({
+        success: true,
+        data: { dryRun: Boolean(dryRun), openingBalance: false, mismatches, lot },
+        message: mismatches.length === 0 ? 'Stock matches the ledger' : undefined
+      });
+    }
+
+    // Without an opening balance the ledger only holds the changes since, so it would
+    // overwrite the variant's real stock
+    const unopened = mismatches.find((mismatch) => mismatch.missingOpeningBalance);
+    if (unopened) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${unopened.color} - ${unopened.size} has no opening balance in the ledger, so its stock can't be rebuilt from it`
+        }
+      });
+    }
+
+    const unfixable = mismatches.find((mismatch) =>
+      mismatch.ledgerQuantity < 0 ||
+      !lot.items.some((item) => item.color === mismatch.color && item.sizes.some((s) => s.size === mismatch.size))
+    );
+
+    if (unfixable) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `The ledger for ${unfixable.color} - ${unfixable.size} can't be applied to this lot (${unfixable.ledgerQuantity} pieces)`
+        }
+      });
+    }
+
+    const before = toLotSnapshot(lot);
+
+    for (const mismatch of mismatches) {
+      const sizeItem = lot.items
+        .find((item) => item.color === mismatch.color)!
+        .sizes.find((s) => s.size === mismatch.size)!;
+      sizeItem.remainingQuantity = mismatch.ledgerQuantity;
+    }
+
+    await lot.save({ session });
+
+    await recordAuditEvent(req, {
+      action: 'lot.rebuild_stock',
+      entityType: 'lot',
+      entityId: lot._id,
+      entityLabel: lot.lotNumber,
+      before,
+      after: toLotSnapshot(lot)
+    }, session);
+
+    await session.commitTransaction();
+    await refreshLowStockNotifications(req.user.tenantId, [lot._id]);
+
+    res.json({
+      success: true,
+      data: { dryRun: false, openingBalance: false, mismatches, lot },
+      message: `Rebuilt ${mismatches.length} ${mismatches.length === 1 ? 'variant' : 'variants'} from the ledger`
+    });
+  } catch (error) {
+    await session.abortTransaction();
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Rebuild stock error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to rebuild stock'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const getStockConsistency = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const [lots, balances] = await Promise.all([
+      Lot.find({ tenantId: req.user.tenantId }).select('lotNumber items deletedAt'),
+      getLedgerBalances(req.user.tenantId)
+    ]);
+
+    const inconsistentLots = lots
+      .map((lot) => ({
+        lotId: lot._id,
+        lotNumber: lot.lotNumber,
+        deletedAt: lot.deletedAt,
+        // Created before the ledger; rebuilding records an opening balance
+        missingHistory: !balances.has(lot._id.toString()),
+        mismatches: compareWithLedger(lot, balances.get(lot._id.toString()))
+      }))
+      .filter((lot) => lot.mismatches.length > 0);
+
+    res.json({
+      success: true,
+      data: {
+        checkedLots: lots.length,
+        lots: inconsistentLots
+      }
+    });
+  } catch (error) {
+    console.error('Stock consistency check error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to check stock consistency'
+      }
+    });
+  }
+};
@@ -0,0 +1,673 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Lot from '../models/Lot';
+import StockAdjustment from '../models/StockAdjustment';
+import StockTake, { STOCK_TAKE_STATUSES } from '../models/StockTake';
+import { recordAuditEvent, toLotSnapshot } from '../utils/audit';
+import { applyStockAdjustment } from '../utils/adjustments';
+import { recordStockMovements } from '../utils/stockMovements';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+
+// Zod schemas for validation
+const objectIdSchema = (message: string) =>
+  z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), message);
+
+const createStockTakeSchema = z.object({
+  name: z.string().trim().min(1, 'Name cannot be empty').optional(),
+  lotIds: z.array(objectIdSchema('Invalid lot ID')).min(1, 'Select at least one lot to count')
+});
+
+const recordCountsSchema = z.object({
+  counts: z.array(z.object({
+    lotId: objectIdSchema('Invalid lot ID'),
+    color: z.string().min(1, 'Color is required'),
+    size: z.string().min(1, 'Size is required'),
+    countedQuantity: z.number().int().min(0, 'Counted quantity cannot be negative')
+  })).min(1, 'At least one count is required')
+});
+
+const stockTakeQuerySchema = z.object({
+  status: z.enum(STOCK_TAKE_STATUSES).optional()
+});
+
+const isValidStockTakeId = (id: unknown): id is string =>
+  typeof id === 'string' && mongoose.Types.ObjectId.isValid(id);
+
+const populateStockTake = <T>(query: mongoose.Query<T, unknown>) =>
+  query
+    .populate('createdBy', 'name email')
+    .populate('closedBy', 'name email')
+    .populate('lines.countedBy', 'name email');
+
+export const getStockTakes = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const { status } = stockTakeQuerySchema.parse(req.query);
+
+    const query: any = { tenantId: req.user.tenantId };
+    if (status) {
+      query.status = status;
+    }
+
+    const [stockTakes, total] = await Promise.all([
+      StockTake.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('createdBy', 'name email'),
+      StockTake.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        stockTakes,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get stock takes error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch stock takes'
+      }
+    });
+  }
+};
+
+export const getStockTake = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!isValidStockTakeId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid stock take ID'
+        }
+      });
+    }
+
+    const stockTake = await populateStockTake(StockTake.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }));
+
+    if (!stockTake) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Stock take not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { stockTake }
+    });
+  } catch (error) {
+    console.error('Get stock take error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch stock take'
+      }
+    });
+  }
+};
+
+export const createStockTake = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = createStockTakeSchema.parse(req.body);
+    const lotIds = [...new Set(validatedData.lotIds)];
+
+    // Read the lots in the transaction so a sale landing at the same time conflicts instead of skewing the snapshot
+    const lots = await Lot.find({
+      _id: { $in: lotIds },
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (lots.length !== lotIds.length) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Lot not found'
+        }
+      });
+    }
+
+    const archivedLot = lots.find((lot) => lot.deletedAt);
+    if (archivedLot) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Lot ${archivedLot.lotNumber} is in the trash`
+        }
+      });
+    }
+
+    const countingLot = lots.find((lot) => lot.stockTakeId);
+    if (countingLot) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Lot ${countingLot.lotNumber} is already being counted in another stock take`
+        }
+      });
+    }
+
+    const stockTake = new StockTake({
+      tenantId: req.user.tenantId,
+      name: validatedData.name || `Stock take ${new Date().toISOString().slice(0, 10)}`,
+      lotIds: lots.map((lot) => lot._id),
+      lines: lots.flatMap((lot) =>
+        lot.items.flatMap((colorItem) =>
+          colorItem.sizes.map((sizeItem) => ({
+            lotId: lot._id,
+            lotNumber: lot.lotNumber,
+            color: colorItem.color,
+            size: sizeItem.size,
+            expectedQuantity: sizeItem.remainingQuantity
+          }))
+        )
+      ),
+      createdBy: req.user.userId
+    });
+
+    // Hold the lots until the count is approved or cancelled
+    for (const lot of lots) {
+      lot.stockTakeId = stockTake._id as mongoose.Types.ObjectId;
+      await lot.save({ session });
+    }
+
+    await stockTake.save({ session });
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      data: { stockTake },
+      message: 'Stock take started'
+    });
+  } catch (error) {
+    await session.abortTransaction();
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create stock take error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to start stock take'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const recordCounts = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!isValidStockTakeId(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid stock take ID'
+        }
+      });
+    }
+
+    const validatedData = recordCountsSchema.parse(req.body);
+
+    const stockTake = await StockTake.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!stockTake) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Stock take not found'
+        }
+      });
+    }
+
+    if (stockTake.status !== 'open') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This stock take is closed'
+        }
+      });
+    }
+
+    const unknownCount = validatedData.counts.find((count) =>
+      !stockTake.lines.some((line) =>
+        line.lotId.toString() === count.lotId && line.color === count.color && line.size === count.size
+      )
+    );
+
+    if (unknownCount) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `${unknownCount.color} - ${unknownCount.size} is not part of this stock take`
+        }
+      });
+    }
+
+    // Set each line on its own so counts sent from different devices don't overwrite each other
+    const countedAt = new Date();
+    await StockTake.bulkWrite(validatedData.counts.map((count) => ({
+      updateOne: {
+        filter: { _id: stockTake._id, status: 'open' },
+        update: {
+          $set: {
+            'lines.$[line].countedQuantity': count.countedQuantity,
+            'lines.$[line].countedBy': req.user!.userId,
+            'lines.$[line].countedAt': countedAt
+          }
+        },
+        arrayFilters: [{
+          'line.lotId': new mongoose.Types.ObjectId(count.lotId),
+          'line.color': count.color,
+          'line.size': count.size
+        }]
+      }
+    })));
+
+    const updatedStockTake = await populateStockTake(StockTake.findById(stockTake._id));
+
+    res.json({
+      success: true,
+      data: { stockTake: updatedStockTake },
+      message: 'Counts saved'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Record counts error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save counts'
+      }
+    });
+  }
+};
+
+export const approveStockTake = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!isValidStockTakeId(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid stock take ID'
+        }
+      });
+    }
+
+    const stockTake = await StockTake.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!stockTake) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Stock take not found'
+        }
+      });
+    }
+
+    if (stockTake.status !== 'open') {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This stock take is closed'
+        }
+      });
+    }
+
+    const uncounted = stockTake.lines.filter((line) => line.countedQuantity == null).length;
+    if (uncounted > 0) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${uncounted} ${uncounted === 1 ? 'line still needs' : 'lines still need'} a count`
+        }
+      });
+    }
+
+    const lots = await Lot.find({
+      _id: { $in: stockTake.lotIds },
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    let totalWriteOff = 0;
+
+    for (const lot of lots) {
+      // Sales and returns are held off counted lots, so the snapshot is still the stock on hand
+      const items = stockTake.lines
+        .filter((line) => line.lotId.toString() === lot._id.toString())
+        .map((line) => ({
+          color: line.color,
+          size: line.size,
+          quantity: (line.countedQuantity as number) - line.expectedQuantity
+        }))
+        .filter((item) => item.quantity !== 0);
+
+      const before = toLotSnapshot(lot);
+
+      if (items.length > 0) {
+        const applied = applyStockAdjustment(lot, items);
+
+        if ('error' in applied) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: applied.error
+            }
+          });
+        }
+
+        const adjustment = await StockAdjustment.create([{
+          tenantId: req.user.tenantId,
+          lotId: lot._id,
+          items: applied.items,
+          reason: 'recount',
+          note: `Stock take: ${stockTake.name}`,
+          totalWriteOff: applied.totalWriteOff,
+          adjustedBy: req.user.userId
+        }], { session });
+
+        await recordStockMovements(req, applied.items.map((item) => ({
+          lotId: lot._id,
+          color: item.color,
+          size: item.size,
+          type: 'adjustment',
+          quantity: item.quantity,
+          referenceId: adjustment[0]._id,
+          note: `Stock take: ${stockTake.name}`
+        })), session);
+
+        totalWriteOff += applied.totalWriteOff;
+      }
+
+      lot.stockTakeId = undefined;
+      await lot.save({ session });
+
+      if (items.length > 0) {
+        await recordAuditEvent(req, {
+          action: 'lot.adjust',
+          entityType: 'lot',
+          entityId: lot._id,
+          entityLabel: lot.lotNumber,
+          before,
+          after: toLotSnapshot(lot)
+        }, session);
+      }
+    }
+
+    stockTake.status = 'approved';
+    stockTake.totalWriteOff = totalWriteOff;
+    stockTake.closedBy = req.user.userId;
+    stockTake.closedAt = new Date();
+    await stockTake.save({ session });
+
+    await session.commitTransaction();
+    await refreshLowStockNotifications(req.user.tenantId, stockTake.lotIds);
+
+    res.json({
+      success: true,
+      data: { stockTake },
+      message: 'Stock take approved and differences posted'
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Approve stock take error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to approve stock take'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+export const cancelStockTake = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    if (!req.user) {
+      await session.abortTransaction();
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!isValidStockTakeId(id)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid stock take ID'
+        }
+      });
+    }
+
+    const stockTake = await StockTake.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    }).session(session);
+
+    if (!stockTake) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Stock take not found'
+        }
+      });
+    }
+
+    // Authorization check (admin or creator only)
+    if (req.user.role !== 'admin' && stockTake.createdBy.toString() !== req.user.userId.toString()) {
+      await session.abortTransaction();
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Not authorized to cancel this stock take'
+        }
+      });
+    }
+
+    if (stockTake.status !== 'open') {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'This stock take is closed'
+        }
+      });
+    }
+
+    // Release the lots without touching their stock
+    await Lot.updateMany(
+      { _id: { $in: stockTake.lotIds }, stockTakeId: stockTake._id },
+      { $unset: { stockTakeId: 1 } },
+      { session }
+    );
+
+    stockTake.status = 'cancelled';
+    stockTake.closedBy = req.user.userId;
+    stockTake.closedAt = new Date();
+    await stockTake.save({ session });
+
+    await session.commitTransaction();
+
+    res.json({
+      success: true,
+      data: { stockTake },
+      message: 'Stock take cancelled'
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Cancel stock take error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to cancel stock take'
+      }
+    });
+  } finally {
+    session.endSession();
+  }
+};
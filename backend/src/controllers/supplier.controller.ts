@@ -0,0 +1,548 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Supplier from '../models/Supplier';
+import SupplierPayment from '../models/SupplierPayment';
+import Lot from '../models/Lot';
+import { PAYMENT_METHODS } from '../models/Payment';
+import { fromMinorUnits, sumMoney } from '../models/money';
+import { SETTLED_TOLERANCE } from '../utils/payments';
+
+// Zod schemas for validation
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  phone: z.string().optional(),
+  email: z.string().email('Invalid email format').optional().or(z.literal('')),
+  address: z.string().optional(),
+  notes: z.string().optional()
+});
+
+const updateSupplierSchema = supplierSchema.partial();
+
+const createSupplierPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be greater than 0'),
+  method: z.enum(PAYMENT_METHODS).default('cash'),
+  lotId: z.string().optional(),
+  paidAt: z.coerce.date().optional(),
+  note: z.string().optional()
+});
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// What we bought from each supplier, what we've paid them, and how their lots have sold
+const getSupplierTotals = async (tenantId: mongoose.Types.ObjectId, supplierIds?: mongoose.Types.ObjectId[]) => {
+  const supplierFilter = supplierIds ? { $in: supplierIds } : { $exists: true, $ne: null };
+
+  const [lots, payments] = await Promise.all([
+    Lot.find({ tenantId, supplierId: supplierFilter })
+      .select('supplierId items totalInvestment totalRevenue totalProfit'),
+    SupplierPayment.aggregate([
+      { $match: { tenantId, supplierId: supplierFilter } },
+      { $group: { _id: '$supplierId', totalPaid: { $sum: '$amount' } } }
+    ])
+  ]);
+
+  const totals = new Map<string, {
+    lotCount: number;
+    totalPurchased: number;
+    totalPaid: number;
+    balanceDue: number;
+    totalRevenue: number;
+    totalProfit: number;
+    unitsBought: number;
+    unitsSold: number;
+  }>();
+
+  const getEntry = (supplierId: string) => {
+    if (!totals.has(supplierId)) {
+      totals.set(supplierId, {
+        lotCount: 0,
+        totalPurchased: 0,
+        totalPaid: 0,
+        balanceDue: 0,
+        totalRevenue: 0,
+        totalProfit: 0,
+        unitsBought: 0,
+        unitsSold: 0
+      });
+    }
+    return totals.get(supplierId)!;
+  };
+
+  for (const lot of lots) {
+    const entry = getEntry(lot.supplierId!.toString());
+    entry.lotCount += 1;
+    entry.totalPurchased = sumMoney([entry.totalPurchased, lot.totalInvestment]);
+    entry.totalRevenue = sumMoney([entry.totalRevenue, lot.totalRevenue]);
+    entry.totalProfit = sumMoney([entry.totalProfit, lot.totalProfit]);
+    lot.items.forEach((color) =>
+      color.sizes.forEach((size) => {
+        entry.unitsBought += size.quantity;
+        entry.unitsSold += size.quantity + (size.adjustedQuantity || 0) - size.remainingQuantity;
+      })
+    );
+  }
+
+  for (const payment of payments) {
+    // Summed in minor units by the aggregation
+    getEntry(payment._id.toString()).totalPaid = fromMinorUnits(payment.totalPaid);
+  }
+
+  for (const entry of totals.values()) {
+    entry.balanceDue = Math.max(sumMoney([entry.totalPurchased, -entry.totalPaid]), 0);
+  }
+
+  return totals;
+};
+
+const emptyTotals = {
+  lotCount: 0,
+  totalPurchased: 0,
+  totalPaid: 0,
+  balanceDue: 0,
+  totalRevenue: 0,
+  totalProfit: 0,
+  unitsBought: 0,
+  unitsSold: 0
+};
+
+export const getSuppliers = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string || '';
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: any = { tenantId: req.user.tenantId };
+    if (search.trim()) {
+      const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [{ name: searchRegex }, { phone: searchRegex }, { email: searchRegex }];
+    }
+
+    // Execute query with pagination
+    const [suppliers, total] = await Promise.all([
+      Supplier.find(query)
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(limit),
+      Supplier.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        suppliers,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get suppliers error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch suppliers'
+      }
+    });
+  }
+};
+
+export const getSupplierSummary = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const [suppliers, totals] = await Promise.all([
+      Supplier.find({ tenantId: req.user.tenantId }).sort({ name: 1 }),
+      getSupplierTotals(req.user.tenantId)
+    ]);
+
+    const summary = suppliers.map((supplier) => ({
+      supplier,
+      ...(totals.get(supplier._id.toString()) || emptyTotals)
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        suppliers: summary,
+        totals: {
+          totalPurchased: sumMoney(summary.map((entry) => entry.totalPurchased)),
+          totalPaid: sumMoney(summary.map((entry) => entry.totalPaid)),
+          balanceDue: sumMoney(summary.map((entry) => entry.balanceDue)),
+          totalProfit: sumMoney(summary.map((entry) => entry.totalProfit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier summary error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch supplier summary'
+      }
+    });
+  }
+};
+
+export const createSupplier = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = supplierSchema.parse(req.body);
+
+    const supplier = await Supplier.create({
+      ...validatedData,
+      tenantId: req.user.tenantId,
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { supplier }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create supplier error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create supplier'
+      }
+    });
+  }
+};
+
+export const getSupplier = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid supplier ID'
+        }
+      });
+    }
+
+    const supplier = await Supplier.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Supplier not found'
+        }
+      });
+    }
+
+    const totals = await getSupplierTotals(req.user.tenantId, [supplier._id as mongoose.Types.ObjectId]);
+
+    res.json({
+      success: true,
+      data: {
+        supplier,
+        stats: totals.get(supplier._id.toString()) || emptyTotals
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch supplier'
+      }
+    });
+  }
+};
+
+export const updateSupplier = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid supplier ID'
+        }
+      });
+    }
+
+    const validatedData = updateSupplierSchema.parse(req.body);
+
+    const supplier = await Supplier.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      { $set: validatedData },
+      { new: true }
+    );
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Supplier not found'
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { supplier }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update supplier error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update supplier'
+      }
+    });
+  }
+};
+
+export const getSupplierPayments = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid supplier ID'
+        }
+      });
+    }
+
+    const payments = await SupplierPayment.find({
+      tenantId: req.user.tenantId,
+      supplierId: id
+    })
+      .sort({ paidAt: -1 })
+      .populate('lotId', 'lotNumber')
+      .populate('recordedBy', 'name email');
+
+    res.json({
+      success: true,
+      data: { payments }
+    });
+  } catch (error) {
+    console.error('Get supplier payments error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch supplier payments'
+      }
+    });
+  }
+};
+
+export const recordSupplierPayment = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid supplier ID'
+        }
+      });
+    }
+
+    const validatedData = createSupplierPaymentSchema.parse(req.body);
+
+    const supplier = await Supplier.findOne({
+      _id: id,
+      tenantId: req.user.tenantId
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Supplier not found'
+        }
+      });
+    }
+
+    if (validatedData.lotId) {
+      const lot = mongoose.Types.ObjectId.isValid(validatedData.lotId)
+        ? await Lot.exists({ _id: validatedData.lotId, tenantId: req.user.tenantId, supplierId: supplier._id })
+        : null;
+
+      if (!lot) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'That lot was not bought from this supplier'
+          }
+        });
+      }
+    }
+
+    const totals = await getSupplierTotals(req.user.tenantId, [supplier._id as mongoose.Types.ObjectId]);
+    const balanceDue = totals.get(supplier._id.toString())?.balanceDue || 0;
+
+    if (validatedData.amount > balanceDue + SETTLED_TOLERANCE) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: balanceDue > 0
+            ? `Payment is more than the balance owed of ${balanceDue.toFixed(2)}`
+            : 'Nothing is owed to this supplier'
+        }
+      });
+    }
+
+    const payment = await SupplierPayment.create({
+      tenantId: req.user.tenantId,
+      supplierId: supplier._id,
+      lotId: validatedData.lotId,
+      amount: validatedData.amount,
+      method: validatedData.method,
+      paidAt: validatedData.paidAt,
+      note: validatedData.note,
+      recordedBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { payment }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Record supplier payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to record supplier payment'
+      }
+    });
+  }
+};
@@ -1,25 +1,158 @@
 import { Request, Response } from 'express';
+import { once } from 'events';
 import { z } from 'zod';
 import mongoose from 'mongoose';
-import Transaction from '../models/Transaction';
+import bcrypt from 'bcryptjs';
+import Transaction, { ApprovalReason, DISCOUNT_TYPES } from '../models/Transaction';
 import Lot from '../models/Lot';
+import User from '../models/User';
+import Product from '../models/Product';
+import Customer from '../models/Customer';
+import Payment, { PAYMENT_METHODS } from '../models/Payment';
+import Tenant from '../models/Tenant';
+import Return from '../models/Return';
+import { fromMinorUnits } from '../models/money';
+import { getBalanceDue, getNetTotal, getPaymentStatus } from '../utils/payments';
+import { renderInvoicePdf } from '../utils/invoice';
+import { toCsvRow } from '../utils/csv';
+import { claimUnusedSequenceNumber } from '../utils/sequence';
+import { recordAuditEvent } from '../utils/audit';
+import { recordStockMovements } from '../utils/stockMovements';
+import { refreshLowStockNotifications } from '../utils/lowStock';
+import { getVocabulary, isSameTerm } from '../utils/vocabulary';
+import { getDiscountAmount, getDiscountPercent, roundMoney, spreadSaleDiscount } from '../utils/discounts';
+import { applyTax, getNetPrice, resolveTaxRate } from '../utils/tax';
 
 // Zod schemas for validation
+const discountSchema = z.object({
+  type: z.enum(DISCOUNT_TYPES),
+  value: z.number().min(0, 'Discount must be non-negative')
+}).refine((discount) => discount.type !== 'percent' || discount.value <= 100, 'A percent discount cannot be more than 100');
+
 const soldItemSchema = z.object({
+  lotId: z.string().optional(),
   color: z.string().min(1, 'Color is required'),
   size: z.string().min(1, 'Size is required'),
   quantity: z.number().int().min(1, 'Quantity must be at least 1'),
-  sellPricePerPiece: z.number().min(0, 'Sell price must be non-negative')
+  // Overrides the lot's sell price for this line; any discount comes off this price
+  sellPricePerPiece: z.number().min(0, 'Sell price must be non-negative').optional(),
+  discount: discountSchema.optional()
 });
 
+// lotId on the sale is the default for items that don't name their own lot
 const createSaleSchema = z.object({
-  lotId: z.string().min(1, 'Lot ID is required'),
+  lotId: z.string().optional(),
   soldItems: z.array(soldItemSchema).min(1, 'At least one item is required'),
+  customerId: z.string().optional(),
   customerName: z.string().optional(),
-  invoiceNumber: z.string().optional()
+  // Assigned from the tenant's sequence; only admins may set one by hand
+  invoiceNumber: z.string().trim().optional(),
+  // Leave amountPaid out for a sale paid in full; anything less is a credit sale
+  amountPaid: z.number().min(0, 'Amount paid must be non-negative').optional(),
+  paymentMethod: z.enum(PAYMENT_METHODS).default('cash'),
+  dueDate: z.coerce.date().optional(),
+  // Off the whole sale, on top of any line discounts
+  discount: discountSchema.optional(),
+  // An admin signing off a staff sale that is below cost or past the discount limit
+  approval: z.object({
+    email: z.string().email('Invalid email format'),
+    password: z.string().min(1, 'Password is required')
+  }).optional()
+});
+
+// Dates are whole days; `to` includes everything sold on that day
+const exportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
 });
 
+const taxSummaryQuerySchema = exportQuerySchema.extend({
+  period: z.enum(['month', 'day']).default('month')
+});
+
+const PERIOD_FORMATS = { month: '%Y-%m', day: '%Y-%m-%d' };
+
+interface TaxTotals {
+  // Net of tax
+  taxableSales: number;
+  tax: number;
+  taxableReturns: number;
+  taxRefunded: number;
+}
+
+interface TaxPeriod extends TaxTotals {
+  // "YYYY-MM" or "YYYY-MM-DD"
+  period: string;
+  byRate: (TaxTotals & { rate: number })[];
+}
+
+const EXPORT_COLUMNS = [
+  'Date',
+  'Invoice',
+  'Customer',
+  'Seller',
+  'Approved By',
+  'Lot',
+  'Color',
+  'Size',
+  'Quantity',
+  'Returned',
+  'List Price',
+  'Unit Price',
+  'Discount',
+  'Line Total',
+  'Tax Rate',
+  'Tax',
+  'Unit Cost',
+  'Line Profit',
+  'Payment Status'
+];
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The list and the CSV export match a search the same way; it needs the lotDetails and
+// sellerDetails lookups ahead of it in the pipeline
+const getSearchMatch = (search: string) => {
+  const searchRegex = new RegExp(escapeRegex(search.trim()), 'i');
+  return {
+    $match: {
+      $or: [
+        { 'lotDetails.lotNumber': searchRegex },
+        { customerName: searchRegex },
+        { invoiceNumber: searchRegex },
+        { 'sellerDetails.name': searchRegex },
+        { 'sellerDetails.email': searchRegex }
+      ]
+    }
+  };
+};
+
+// The admin whose credentials were given to approve a sale, if they check out
+const findApprover = async (tenantId: mongoose.Types.ObjectId, credentials: { email: string; password: string }) => {
+  const admin = await User.findOne({
+    tenantId,
+    email: credentials.email.toLowerCase(),
+    role: 'admin',
+    isActive: true
+  });
+  if (!admin || !(await bcrypt.compare(credentials.password, admin.passwordHash))) {
+    return null;
+  }
+  return admin;
+};
+
+// Sales made at the same moment bump the same invoice counter (and often the same lot) inside
+// their transactions, so all but one hit a write conflict; those start over on fresh data
+const MAX_SALE_ATTEMPTS = 5;
+const RETRY_SALE = Symbol('retry sale');
+
 export const createSale = async (req: Request, res: Response) => {
+  for (let attempt = 1; ; attempt++) {
+    if (await recordSale(req, res, attempt < MAX_SALE_ATTEMPTS) !== RETRY_SALE) return;
+  }
+};
+
+const recordSale = async (req: Request, res: Response, canRetry: boolean) => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -37,25 +170,96 @@ export const createSale = async (req: Request, res: Response) => {
 
     const validatedData = createSaleSchema.parse(req.body);
 
+    if (validatedData.invoiceNumber) {
+      if (req.user.role !== 'admin') {
+        await session.abortTransaction();
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_ERROR',
+            message: 'Only admins can set invoice numbers manually'
+          }
+        });
+      }
+
+      const existingInvoice = await Transaction.exists({
+        tenantId: req.user.tenantId,
+        invoiceNumber: validatedData.invoiceNumber
+      }).session(session);
+
+      if (existingInvoice) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invoice number already exists'
+          }
+        });
+      }
+    }
+
+    const defaultLotId = validatedData.lotId || (req.params.id as string | undefined);
+
+    const soldItems = validatedData.soldItems.map((item) => ({
+      ...item,
+      lotId: item.lotId || defaultLotId
+    }));
+
     // Validate lot ID format
-    if (!mongoose.Types.ObjectId.isValid(validatedData.lotId)) {
+    if (soldItems.some((item) => !item.lotId || !mongoose.Types.ObjectId.isValid(item.lotId))) {
       await session.abortTransaction();
       return res.status(400).json({
         success: false,
         error: {
           code: 'VALIDATION_ERROR',
-          message: 'Invalid lot ID format'
+          message: 'Every item needs a valid lot ID'
         }
       });
     }
 
-    // Fetch lot with session to lock the document
-    const lot = await Lot.findOne({
-      _id: validatedData.lotId,
+    // A linked customer's name is copied onto the sale so search and history keep working
+    let customerName = validatedData.customerName;
+    if (validatedData.customerId) {
+      if (!mongoose.Types.ObjectId.isValid(validatedData.customerId)) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid customer ID'
+          }
+        });
+      }
+
+      const customer = await Customer.findOne({
+        _id: validatedData.customerId,
+        tenantId: req.user.tenantId
+      }).session(session);
+
+      if (!customer) {
+        await session.abortTransaction();
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Customer not found'
+          }
+        });
+      }
+
+      customerName = customer.name;
+    }
+
+    const lotIds = [...new Set(soldItems.map((item) => item.lotId as string))];
+
+    // Fetch every lot in the cart with session to lock the documents
+    const lots = await Lot.find({
+      _id: { $in: lotIds },
       tenantId: req.user.tenantId
     }).session(session);
 
-    if (!lot) {
+    if (lots.length !== lotIds.length) {
       await session.abortTransaction();
       return res.status(404).json({
         success: false,
@@ -66,13 +270,43 @@ export const createSale = async (req: Request, res: Response) => {
       });
     }
 
-    // Validate stock availability and calculate totals
-    let totalRevenue = 0;
-    let totalProfit = 0;
-    const processedItems = [];
+    const archivedLot = lots.find((lot) => lot.deletedAt);
+    if (archivedLot) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Lot ${archivedLot.lotNumber} is in the trash`
+        }
+      });
+    }
+
+    const countingLot = lots.find((lot) => lot.stockTakeId);
+    if (countingLot) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Lot ${countingLot.lotNumber} is being counted in a stock take`
+        }
+      });
+    }
+
+    const lotsById = new Map(lots.map((lot) => [lot._id.toString(), lot]));
+    const lotTotals = new Map<string, { revenue: number; profit: number }>();
+
+    // "black", "Black" and "BLK" all find the lot's Black
+    const vocabulary = await getVocabulary(req.user.tenantId);
 
-    for (const soldItem of validatedData.soldItems) {
-      const colorItem = lot.items.find((item: any) => item.color === soldItem.color);
+    // Validate stock availability and price each line
+    const pricedItems = [];
+
+    for (const soldItem of soldItems) {
+      const lot = lotsById.get(soldItem.lotId as string)!;
+      const colorItem = lot.items.find((item: any) => item.color === soldItem.color)
+        ?? lot.items.find((item: any) => isSameTerm(vocabulary.colors, item.color, soldItem.color));
 
       if (!colorItem) {
         await session.abortTransaction();
@@ -80,12 +314,13 @@ export const createSale = async (req: Request, res: Response) => {
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: `Color '${soldItem.color}' not found in lot`
+            message: `Color '${soldItem.color}' not found in lot ${lot.lotNumber}`
           }
         });
       }
 
-      const sizeItem = colorItem.sizes.find((s: any) => s.size === soldItem.size);
+      const sizeItem = colorItem.sizes.find((s: any) => s.size === soldItem.size)
+        ?? colorItem.sizes.find((s: any) => isSameTerm(vocabulary.sizes, s.size, soldItem.size));
 
       if (!sizeItem) {
         await session.abortTransaction();
@@ -93,7 +328,7 @@ export const createSale = async (req: Request, res: Response) => {
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: `Size '${soldItem.size}' not found for color '${soldItem.color}'`
+            message: `Size '${soldItem.size}' not found for color '${soldItem.color}' in lot ${lot.lotNumber}`
           }
         });
       }
@@ -104,49 +339,274 @@ export const createSale = async (req: Request, res: Response) => {
           success: false,
           error: {
             code: 'INSUFFICIENT_STOCK',
-            message: `Insufficient stock for ${soldItem.color} - ${soldItem.size}. Available: ${sizeItem.remainingQuantity}, Requested: ${soldItem.quantity}`
+            message: `Insufficient stock for ${colorItem.color} - ${sizeItem.size} in lot ${lot.lotNumber}. Available: ${sizeItem.remainingQuantity}, Requested: ${soldItem.quantity}`
+          }
+        });
+      }
+
+      const basePrice = soldItem.sellPricePerPiece ?? sizeItem.sellCostPerPiece;
+      const price = roundMoney(basePrice - getDiscountAmount(basePrice, soldItem.discount));
+
+      if (price < 0) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `The discount on ${colorItem.color} - ${sizeItem.size} in lot ${lot.lotNumber} is more than its price`
           }
         });
       }
 
-      const itemTotalAmount = soldItem.quantity * soldItem.sellPricePerPiece;
+      pricedItems.push({ soldItem, lot, colorItem, sizeItem, quantity: soldItem.quantity, price });
+
+      // Update remaining quantity
+      sizeItem.remainingQuantity -= soldItem.quantity;
+    }
+
+    // The sale discount is worked out on what the lines come to after their own discounts
+    const lineSubtotal = roundMoney(pricedItems.reduce((sum, item) => sum + item.quantity * item.price, 0));
+    const saleDiscountAmount = getDiscountAmount(lineSubtotal, validatedData.discount);
+
+    if (saleDiscountAmount > lineSubtotal) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The sale discount cannot be more than the sale total'
+        }
+      });
+    }
+
+    const prices = spreadSaleDiscount(pricedItems, saleDiscountAmount);
+
+    const tenant = await Tenant.findById(req.user.tenantId)
+      .select('settings.maxStaffDiscountPercent settings.taxRates settings.pricesIncludeTax')
+      .session(session);
+    const maxDiscountPercent = tenant?.settings.maxStaffDiscountPercent ?? 100;
+    const taxRates = tenant?.settings.taxRates ?? [];
+    const pricesIncludeTax = tenant?.settings.pricesIncludeTax ?? false;
+
+    // Each line is taxed at its product's rate, falling back to the tenant's default
+    const productIds = pricedItems.flatMap((item) => (item.colorItem.productId ? [item.colorItem.productId] : []));
+    const products = productIds.length > 0
+      ? await Product.find({ _id: { $in: productIds }, tenantId: req.user.tenantId })
+        .select('taxRateId')
+        .session(session)
+      : [];
+    const productTaxRates = new Map(products.map((product) => [product._id.toString(), product.taxRateId]));
+    const lineTaxRates = pricedItems.map((item) =>
+      resolveTaxRate(taxRates, productTaxRates.get(item.colorItem.productId?.toString() ?? ''))?.rate ?? 0
+    );
+
+    // Admins approve their own sales; staff need one to sign off with their password
+    const isAdmin = req.user.role === 'admin';
+
+    const flaggedItems = pricedItems.flatMap((item, index) => {
+      const reasons: ApprovalReason[] = [];
+      // Purchase costs don't include tax, so compare them with the price less tax
+      if (getNetPrice(prices[index], lineTaxRates[index], pricesIncludeTax) < item.sizeItem.purchaseCostPerPiece) {
+        reasons.push('below_cost');
+      }
+      // A hair of tolerance so a 10% discount isn't flagged as 10.0000001%
+      if (!isAdmin && getDiscountPercent(item.sizeItem.sellCostPerPiece, prices[index]) > maxDiscountPercent + 1e-6) {
+        reasons.push('over_discount_limit');
+      }
+      return reasons.length > 0
+        ? [{ lotNumber: item.lot.lotNumber, color: item.colorItem.color, size: item.sizeItem.size, reasons }]
+        : [];
+    });
+    const approvalReasons = [...new Set(flaggedItems.flatMap((item) => item.reasons))];
+
+    let approvedBy: mongoose.Types.ObjectId | undefined;
+    if (approvalReasons.length > 0) {
+      if (isAdmin) {
+        approvedBy = req.user.userId;
+      } else if (!validatedData.approval) {
+        await session.abortTransaction();
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'APPROVAL_REQUIRED',
+            message: `Admin approval is needed: ${flaggedItems.map((item) =>
+              `${item.color} - ${item.size} in lot ${item.lotNumber} ${item.reasons.map((reason) =>
+                reason === 'below_cost' ? 'is below cost' : `is discounted more than ${maxDiscountPercent}%`
+              ).join(' and ')}`
+            ).join('; ')}`,
+            details: flaggedItems
+          }
+        });
+      } else {
+        const approver = await findApprover(req.user.tenantId, validatedData.approval);
+        if (!approver) {
+          await session.abortTransaction();
+          return res.status(403).json({
+            success: false,
+            error: {
+              code: 'AUTH_ERROR',
+              message: 'Approval needs the email and password of an active admin'
+            }
+          });
+        }
+        approvedBy = approver._id;
+      }
+    }
+
+    let totalRevenue = 0;
+    let totalTax = 0;
+    let totalDiscount = 0;
+    let chargedBeforeTax = 0;
+    const processedItems = [];
+
+    for (const [index, { soldItem, lot, colorItem, sizeItem }] of pricedItems.entries()) {
+      const taxRate = lineTaxRates[index];
+      const { netPricePerPiece: sellPricePerPiece, totalAmount: itemTotalAmount, taxAmount } =
+        applyTax(soldItem.quantity, prices[index], taxRate, pricesIncludeTax);
+      const listPricePerPiece = getNetPrice(sizeItem.sellCostPerPiece, taxRate, pricesIncludeTax);
       totalRevenue += itemTotalAmount;
+      totalTax += taxAmount;
+      chargedBeforeTax += soldItem.quantity * prices[index];
+      // Prices raised above the list price aren't negative discounts
+      totalDiscount += Math.max(soldItem.quantity * (listPricePerPiece - sellPricePerPiece), 0);
 
       // Calculate profit: (quantity × sell price) - (quantity × purchase price)
-      const totalSellAmount = soldItem.quantity * soldItem.sellPricePerPiece;
       const totalPurchaseAmount = soldItem.quantity * sizeItem.purchaseCostPerPiece;
-      const itemProfit = totalSellAmount - totalPurchaseAmount;
-      totalProfit += itemProfit;
+      const itemProfit = itemTotalAmount - totalPurchaseAmount;
+
+      const totals = lotTotals.get(soldItem.lotId as string) || { revenue: 0, profit: 0 };
+      totals.revenue += itemTotalAmount;
+      totals.profit += itemProfit;
+      lotTotals.set(soldItem.lotId as string, totals);
 
+      // Recorded with the lot's spelling so returns and reports match the variant
       processedItems.push({
-        color: soldItem.color,
-        size: soldItem.size,
+        lotId: lot._id,
+        color: colorItem.color,
+        size: sizeItem.size,
         quantity: soldItem.quantity,
-        sellPricePerPiece: soldItem.sellPricePerPiece,
-        totalAmount: itemTotalAmount
+        listPricePerPiece,
+        sellPricePerPiece,
+        discount: soldItem.discount,
+        totalAmount: itemTotalAmount,
+        taxRate,
+        taxAmount
       });
+    }
 
-      // Update remaining quantity
-      sizeItem.remainingQuantity -= soldItem.quantity;
+    totalRevenue = roundMoney(totalRevenue);
+    totalTax = roundMoney(totalTax);
+    totalDiscount = roundMoney(totalDiscount);
+    const saleTotal = roundMoney(totalRevenue + totalTax);
+
+    // Update each lot's financials - accumulate profit based on actual margins, not revenue - investment
+    for (const lot of lots) {
+      const totals = lotTotals.get(lot._id.toString())!;
+      lot.totalRevenue += totals.revenue;
+      lot.totalProfit += totals.profit;
+      await lot.save({ session });
+    }
+
+    const amountPaid = validatedData.amountPaid ?? saleTotal;
+
+    if (amountPaid > saleTotal) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Amount paid cannot be more than the sale total'
+        }
+      });
+    }
+
+    const paymentStatus = getPaymentStatus({ totalRevenue, totalTax, amountPaid });
+
+    if (paymentStatus !== 'paid' && !customerName) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Credit sales need a customer so the balance can be collected'
+        }
+      });
     }
 
-    // Update lot financials - accumulate profit based on actual margins, not revenue - investment
-    lot.totalRevenue += totalRevenue;
-    lot.totalProfit += totalProfit;
-    await lot.save({ session });
+    // Claimed last so a sale rejected above never burns a number
+    const tenantId = req.user.tenantId;
+    const invoiceNumber = validatedData.invoiceNumber || await claimUnusedSequenceNumber(
+      tenantId,
+      'invoice',
+      (value) => Transaction.exists({ tenantId, invoiceNumber: value }).session(session),
+      session
+    );
 
     // Create transaction record
     const transaction = await Transaction.create([{
       tenantId: req.user.tenantId,
-      lotId: validatedData.lotId,
+      lotIds: lots.map((lot) => lot._id),
       soldItems: processedItems,
+      discount: validatedData.discount && {
+        ...validatedData.discount,
+        amount: roundMoney(lineSubtotal - chargedBeforeTax)
+      },
+      totalDiscount,
       totalRevenue,
+      totalTax,
       soldBy: req.user.userId,
-      customerName: validatedData.customerName,
-      invoiceNumber: validatedData.invoiceNumber
+      approvedBy,
+      approvalReasons,
+      customerId: validatedData.customerId,
+      customerName,
+      invoiceNumber,
+      amountPaid,
+      paymentStatus,
+      dueDate: paymentStatus === 'paid' ? undefined : validatedData.dueDate
     }], { session });
 
+    await recordStockMovements(req, processedItems.map((item) => ({
+      lotId: item.lotId,
+      color: item.color,
+      size: item.size,
+      type: 'sale',
+      quantity: -item.quantity,
+      referenceId: transaction[0]._id,
+      note: invoiceNumber
+    })), session);
+
+    if (amountPaid > 0) {
+      await Payment.create([{
+        tenantId: req.user.tenantId,
+        transactionId: transaction[0]._id,
+        customerId: validatedData.customerId,
+        amount: amountPaid,
+        method: validatedData.paymentMethod,
+        recordedBy: req.user.userId
+      }], { session });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'transaction.create',
+      entityType: 'transaction',
+      entityId: transaction[0]._id,
+      entityLabel: invoiceNumber,
+      after: {
+        invoiceNumber,
+        customerName,
+        soldItems: processedItems,
+        totalDiscount,
+        totalRevenue,
+        totalTax,
+        amountPaid,
+        paymentStatus,
+        approvedBy,
+        approvalReasons
+      }
+    }, session);
+
     await session.commitTransaction();
+    await refreshLowStockNotifications(req.user.tenantId, lots.map((lot) => lot._id));
 
     res.status(201).json({
       success: true,
@@ -166,6 +626,28 @@ export const createSale = async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      if (canRetry) return RETRY_SALE;
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Too many sales were being saved at once. Please try again'
+        }
+      });
+    }
+
+    // Two admins overriding with the same number at once get past the exists() check
+    if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invoice number already exists'
+        }
+      });
+    }
+
     console.error('Create sale error:', error);
     res.status(500).json({
       success: false,
@@ -194,27 +676,41 @@ export const getTransactions = async (req: Request, res: Response) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const lotId = req.query.lotId as string;
+    const customerId = req.query.customerId as string;
+    const paymentStatus = ['paid', 'partial', 'unpaid'].includes(req.query.paymentStatus as string)
+      ? req.query.paymentStatus as string
+      : undefined;
     const search = req.query.search as string;
     const skip = (page - 1) * limit;
 
     // If search is provided, use aggregation pipeline for better filtering
     if (search && search.trim()) {
-      const searchRegex = new RegExp(search.trim(), 'i');
-      
       const pipeline: any[] = [
         // Match by tenant
         { $match: { tenantId: req.user.tenantId } },
+
+        // Older single-lot sales only have lotId
+        {
+          $addFields: {
+            lotRefs: {
+              $cond: [
+                { $gt: [{ $size: { $ifNull: ['$lotIds', []] } }, 0] },
+                '$lotIds',
+                ['$lotId']
+              ]
+            }
+          }
+        },
         
         // Lookup lot details
         {
           $lookup: {
             from: 'lots',
-            localField: 'lotId',
+            localField: 'lotRefs',
             foreignField: '_id',
             as: 'lotDetails'
           }
         },
-        { $unwind: { path: '$lotDetails', preserveNullAndEmptyArrays: true } },
         
         // Lookup seller details
         {
@@ -226,25 +722,35 @@ export const getTransactions = async (req: Request, res: Response) => {
           }
         },
         { $unwind: { path: '$sellerDetails', preserveNullAndEmptyArrays: true } },
-        
-        // Filter by search term across multiple fields
+
+        // Lookup the admin who approved a discounted or below-cost sale
         {
-          $match: {
-            $or: [
-              { 'lotDetails.lotNumber': searchRegex },
-              { customerName: searchRegex },
-              { invoiceNumber: searchRegex },
-              { 'sellerDetails.name': searchRegex },
-              { 'sellerDetails.email': searchRegex }
-            ]
+          $lookup: {
+            from: 'users',
+            localField: 'approvedBy',
+            foreignField: '_id',
+            as: 'approverDetails'
           }
         },
+        { $unwind: { path: '$approverDetails', preserveNullAndEmptyArrays: true } },
+        
+        // Filter by search term across multiple fields
+        getSearchMatch(search),
         
         // Add filter by specific lot ID if provided
         ...(lotId && mongoose.Types.ObjectId.isValid(lotId) 
-          ? [{ $match: { lotId: new mongoose.Types.ObjectId(lotId) } }] 
+          ? [{ $match: { lotRefs: new mongoose.Types.ObjectId(lotId) } }] 
           : []
         ),
+
+        // Add filter by customer if provided
+        ...(customerId && mongoose.Types.ObjectId.isValid(customerId)
+          ? [{ $match: { customerId: new mongoose.Types.ObjectId(customerId) } }]
+          : []
+        ),
+
+        // Add filter by payment status if provided
+        ...(paymentStatus ? [{ $match: { paymentStatus } }] : []),
         
         // Sort by creation date
         { $sort: { createdAt: -1 } },
@@ -262,19 +768,44 @@ export const getTransactions = async (req: Request, res: Response) => {
                   _id: 1,
                   tenantId: 1,
                   soldItems: 1,
+                  discount: 1,
+                  totalDiscount: 1,
                   totalRevenue: 1,
+                  totalTax: 1,
+                  totalRefunded: 1,
+                  taxRefunded: 1,
+                  returnStatus: 1,
+                  amountPaid: 1,
+                  paymentStatus: 1,
+                  dueDate: 1,
+                  customerId: 1,
                   customerName: 1,
                   invoiceNumber: 1,
                   createdAt: 1,
-                  lotId: {
-                    _id: '$lotDetails._id',
-                    lotNumber: '$lotDetails.lotNumber'
+                  lotIds: {
+                    $map: {
+                      input: '$lotDetails',
+                      as: 'lot',
+                      in: { _id: '$$lot._id', lotNumber: '$$lot.lotNumber' }
+                    }
                   },
                   soldBy: {
                     _id: '$sellerDetails._id',
                     name: '$sellerDetails.name',
                     email: '$sellerDetails.email'
-                  }
+                  },
+                  approvedBy: {
+                    $cond: [
+                      { $ifNull: ['$approverDetails._id', false] },
+                      {
+                        _id: '$approverDetails._id',
+                        name: '$approverDetails.name',
+                        email: '$approverDetails.email'
+                      },
+                      '$$REMOVE'
+                    ]
+                  },
+                  approvalReasons: 1
                 }
               }
             ]
@@ -283,7 +814,14 @@ export const getTransactions = async (req: Request, res: Response) => {
       ];
 
       const result = await Transaction.aggregate(pipeline);
-      const transactions = result[0]?.data || [];
+      // Aggregation skips the schema getters, so hydrate for amounts in currency units and
+      // put back the lookups the schema would cast away
+      const transactions = (result[0]?.data || []).map((transaction: any) => ({
+        ...Transaction.hydrate(transaction).toJSON(),
+        lotIds: transaction.lotIds,
+        soldBy: transaction.soldBy,
+        approvedBy: transaction.approvedBy
+      }));
       const total = result[0]?.metadata[0]?.total || 0;
 
       return res.json({
@@ -313,7 +851,24 @@ export const getTransactions = async (req: Request, res: Response) => {
           }
         });
       }
-      query.lotId = lotId;
+      query.$or = [{ lotIds: lotId }, { lotId }];
+    }
+
+    if (customerId) {
+      if (!mongoose.Types.ObjectId.isValid(customerId)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid customer ID format'
+          }
+        });
+      }
+      query.customerId = customerId;
+    }
+
+    if (paymentStatus) {
+      query.paymentStatus = paymentStatus;
     }
 
     // Execute query with pagination
@@ -322,8 +877,10 @@ export const getTransactions = async (req: Request, res: Response) => {
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
+        .populate('lotIds', 'lotNumber')
         .populate('lotId', 'lotNumber')
-        .populate('soldBy', 'name email'),
+        .populate('soldBy', 'name email')
+        .populate('approvedBy', 'name email'),
       Transaction.countDocuments(query)
     ]);
 
@@ -381,8 +938,10 @@ export const getTransaction = async (req: Request, res: Response) => {
       _id: id,
       tenantId: req.user.tenantId
     })
+      .populate('lotIds', 'lotNumber')
       .populate('lotId', 'lotNumber')
-      .populate('soldBy', 'name email');
+      .populate('soldBy', 'name email')
+      .populate('approvedBy', 'name email');
 
     if (!transaction) {
       return res.status(404).json({
@@ -409,3 +968,401 @@ export const getTransaction = async (req: Request, res: Response) => {
     });
   }
 };
+
+export const getInvoicePdf = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid transaction ID'
+        }
+      });
+    }
+
+    const [transaction, tenant] = await Promise.all([
+      Transaction.findOne({
+        _id: id,
+        tenantId: req.user.tenantId
+      })
+        .populate<{ lotIds: { _id: mongoose.Types.ObjectId; lotNumber: string }[] }>('lotIds', 'lotNumber')
+        .populate<{ lotId?: { _id: mongoose.Types.ObjectId; lotNumber: string } }>('lotId', 'lotNumber')
+        .populate<{ soldBy?: { name: string } }>('soldBy', 'name'),
+      Tenant.findById(req.user.tenantId).select('businessName settings.taxRegistrationNumber settings.currency settings.locale')
+    ]);
+
+    if (!transaction || !tenant) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Transaction not found'
+        }
+      });
+    }
+
+    const customer = transaction.customerId
+      ? await Customer.findOne({ _id: transaction.customerId, tenantId: req.user.tenantId })
+      : null;
+
+    // Older single-lot sales only have lotId
+    const lots = transaction.lotIds.length > 0
+      ? transaction.lotIds
+      : transaction.lotId ? [transaction.lotId] : [];
+    const lotNumbers = new Map(lots.filter(Boolean).map((lot) => [lot._id.toString(), lot.lotNumber]));
+    const defaultLotNumber = lots.length === 1 ? lots[0]?.lotNumber : undefined;
+
+    const netTotal = getNetTotal(transaction);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${(transaction.invoiceNumber || transaction._id.toString()).replace(/[^\w.-]/g, '_')}.pdf"`
+    );
+
+    renderInvoicePdf({
+      businessName: tenant.businessName,
+      taxRegistrationNumber: tenant.settings.taxRegistrationNumber,
+      currency: tenant.settings.currency,
+      locale: tenant.settings.locale,
+      invoiceNumber: transaction.invoiceNumber,
+      createdAt: transaction.createdAt,
+      dueDate: transaction.dueDate,
+      customer: customer
+        ? { name: customer.name, phone: customer.phone, address: customer.address }
+        : transaction.customerName ? { name: transaction.customerName } : undefined,
+      soldBy: transaction.soldBy?.name,
+      lines: transaction.soldItems.map((item) => ({
+        lotNumber: item.lotId ? lotNumbers.get(item.lotId.toString()) : defaultLotNumber,
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+        returnedQuantity: item.returnedQuantity || 0,
+        listPricePerPiece: item.listPricePerPiece,
+        sellPricePerPiece: item.sellPricePerPiece,
+        totalAmount: item.totalAmount,
+        taxRate: item.taxRate
+      })),
+      totalDiscount: transaction.totalDiscount || 0,
+      totalRevenue: transaction.totalRevenue,
+      totalTax: transaction.totalTax || 0,
+      totalRefunded: transaction.totalRefunded || 0,
+      taxRefunded: transaction.taxRefunded || 0,
+      amountPaid: transaction.amountPaid ?? netTotal,
+      balanceDue: getBalanceDue(transaction)
+    }, res);
+  } catch (error) {
+    console.error('Get invoice PDF error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to generate invoice'
+      }
+    });
+  }
+};
+
+export const exportTransactionsCsv = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { from, to } = exportQuerySchema.parse(req.query);
+    const lotId = req.query.lotId as string;
+    const customerId = req.query.customerId as string;
+    const paymentStatus = ['paid', 'partial', 'unpaid'].includes(req.query.paymentStatus as string)
+      ? req.query.paymentStatus as string
+      : undefined;
+    const search = req.query.search as string;
+
+    if (lotId && !mongoose.Types.ObjectId.isValid(lotId)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid lot ID format'
+        }
+      });
+    }
+
+    if (customerId && !mongoose.Types.ObjectId.isValid(customerId)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid customer ID format'
+        }
+      });
+    }
+
+    const match: any = { tenantId: req.user.tenantId };
+    if (customerId) {
+      match.customerId = new mongoose.Types.ObjectId(customerId);
+    }
+    if (paymentStatus) {
+      match.paymentStatus = paymentStatus;
+    }
+    if (from || to) {
+      match.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        ...(to ? { $lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) } : {})
+      };
+    }
+
+    const pipeline: any[] = [
+      { $match: match },
+
+      // Older single-lot sales only have lotId
+      {
+        $addFields: {
+          lotRefs: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ['$lotIds', []] } }, 0] },
+              '$lotIds',
+              ['$lotId']
+            ]
+          }
+        }
+      },
+
+      ...(lotId ? [{ $match: { lotRefs: new mongoose.Types.ObjectId(lotId) } }] : []),
+
+      // Lots are needed in full for their purchase costs
+      {
+        $lookup: {
+          from: 'lots',
+          localField: 'lotRefs',
+          foreignField: '_id',
+          as: 'lotDetails'
+        }
+      },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'soldBy',
+          foreignField: '_id',
+          as: 'sellerDetails'
+        }
+      },
+      { $unwind: { path: '$sellerDetails', preserveNullAndEmptyArrays: true } },
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'approvedBy',
+          foreignField: '_id',
+          as: 'approverDetails'
+        }
+      },
+      { $unwind: { path: '$approverDetails', preserveNullAndEmptyArrays: true } }
+    ];
+
+    if (search && search.trim()) {
+      pipeline.push(getSearchMatch(search));
+    }
+
+    // Oldest first, the way a ledger reads
+    pipeline.push({ $sort: { createdAt: 1 } });
+
+    const cursor = Transaction.aggregate(pipeline).allowDiskUse(true).cursor();
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="transactions-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.write(toCsvRow(EXPORT_COLUMNS));
+
+    for await (const transaction of cursor) {
+      const lots: any[] = transaction.lotDetails;
+
+      for (const item of transaction.soldItems) {
+        // Items from before multi-lot sales don't carry their own lotId
+        const lot = item.lotId
+          ? lots.find((candidate) => candidate._id.equals(item.lotId))
+          : lots[0];
+        const unitCost = lot?.items
+          .find((colorItem: any) => colorItem.color === item.color)
+          ?.sizes.find((sizeItem: any) => sizeItem.size === item.size)
+          ?.purchaseCostPerPiece;
+        // Sales from before discounts were recorded have no list price
+        const listPrice: number | undefined = item.listPricePerPiece;
+        // Raw aggregation documents hold minor units; work in them and convert on the way out
+        const money = (minorUnits: number) => fromMinorUnits(minorUnits).toFixed(2);
+
+        const row = toCsvRow([
+          new Date(transaction.createdAt).toISOString(),
+          transaction.invoiceNumber,
+          transaction.customerName,
+          transaction.sellerDetails?.name,
+          transaction.approverDetails?.name,
+          lot?.lotNumber,
+          item.color,
+          item.size,
+          item.quantity,
+          item.returnedQuantity || 0,
+          listPrice === undefined ? undefined : money(listPrice),
+          money(item.sellPricePerPiece),
+          listPrice === undefined ? undefined : money(Math.max(item.quantity * (listPrice - item.sellPricePerPiece), 0)),
+          money(item.totalAmount),
+          item.taxRate,
+          money(item.taxAmount || 0),
+          unitCost === undefined ? undefined : money(unitCost),
+          unitCost === undefined ? undefined : money(item.totalAmount - item.quantity * unitCost),
+          transaction.paymentStatus || 'paid'
+        ]);
+
+        // Wait for the client to catch up rather than buffering the whole export
+        if (!res.write(row)) {
+          await once(res, 'drain');
+        }
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid date range',
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Export transactions error:', error);
+
+    // Once rows are streaming the status can't change, so just cut the file short
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to export transactions'
+      }
+    });
+  }
+};
+
+export const getTaxSummary = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { from, to, period } = taxSummaryQuerySchema.parse(req.query);
+
+    const match: any = { tenantId: req.user.tenantId };
+    if (from || to) {
+      match.createdAt = {
+        ...(from ? { $gte: from } : {}),
+        ...(to ? { $lt: new Date(to.getTime() + 24 * 60 * 60 * 1000) } : {})
+      };
+    }
+
+    // Sales count in the period they were made and returns in the period they came back (UTC).
+    // Lines from before tax was recorded count as untaxed.
+    const groupByRate = (items: string) => ({
+      $group: {
+        _id: {
+          period: { $dateToString: { format: PERIOD_FORMATS[period], date: '$createdAt' } },
+          rate: { $ifNull: [`$${items}.taxRate`, 0] }
+        },
+        amount: { $sum: `$${items}.totalAmount` },
+        tax: { $sum: { $ifNull: [`$${items}.taxAmount`, 0] } }
+      }
+    });
+
+    const [sales, returns] = await Promise.all([
+      Transaction.aggregate([{ $match: match }, { $unwind: '$soldItems' }, groupByRate('soldItems')]),
+      Return.aggregate([{ $match: match }, { $unwind: '$returnedItems' }, groupByRate('returnedItems')])
+    ]);
+
+    // The sums are in minor units, so they're exact until converted here
+    const periods = new Map<string, TaxPeriod>();
+    const addRow = (row: any, isReturn: boolean) => {
+      const amount = fromMinorUnits(row.amount);
+      const tax = fromMinorUnits(row.tax);
+      const entry: TaxPeriod = periods.get(row._id.period)
+        ?? { period: row._id.period, taxableSales: 0, tax: 0, taxableReturns: 0, taxRefunded: 0, byRate: [] };
+      let rate = entry.byRate.find((candidate) => candidate.rate === row._id.rate);
+      if (!rate) {
+        rate = { rate: row._id.rate, taxableSales: 0, tax: 0, taxableReturns: 0, taxRefunded: 0 };
+        entry.byRate.push(rate);
+      }
+
+      for (const totals of [entry, rate]) {
+        if (isReturn) {
+          totals.taxableReturns = roundMoney(totals.taxableReturns + amount);
+          totals.taxRefunded = roundMoney(totals.taxRefunded + tax);
+        } else {
+          totals.taxableSales = roundMoney(totals.taxableSales + amount);
+          totals.tax = roundMoney(totals.tax + tax);
+        }
+      }
+      periods.set(row._id.period, entry);
+    };
+
+    for (const row of sales) addRow(row, false);
+    for (const row of returns) addRow(row, true);
+
+    const result = [...periods.values()].sort((a, b) => b.period.localeCompare(a.period));
+    for (const entry of result) {
+      entry.byRate.sort((a, b) => b.rate - a.rate);
+    }
+
+    res.json({
+      success: true,
+      data: { period, periods: result }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Get tax summary error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch tax summary'
+      }
+    });
+  }
+};
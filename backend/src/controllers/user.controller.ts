@@ -0,0 +1,397 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import { recordAuditEvent } from '../utils/audit';
+
+// Zod schemas for validation
+const createUserSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  role: z.enum(['admin', 'staff']).default('staff')
+});
+
+const updateUserSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  role: z.enum(['admin', 'staff']).optional(),
+  isActive: z.boolean().optional()
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const USER_FIELDS = 'name email role isActive createdAt';
+
+const toUserSnapshot = (user: IUser) => ({
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  isActive: user.isActive
+});
+
+export const getUsers = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const users = await User.find({ tenantId: req.user.tenantId })
+      .select(USER_FIELDS)
+      .sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: { users }
+    });
+  } catch (error) {
+    console.error('Get users error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch users'
+      }
+    });
+  }
+};
+
+export const createUser = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const validatedData = createUserSchema.parse(req.body);
+
+    // Login looks users up by email alone, so emails must be unique across tenants
+    const existingUser = await User.findOne({ email: validatedData.email });
+    if (existingUser) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Email already registered'
+        }
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(validatedData.password, 10);
+
+    const user = await User.create({
+      tenantId: req.user.tenantId,
+      name: validatedData.name,
+      email: validatedData.email,
+      passwordHash,
+      role: validatedData.role
+    });
+
+    await recordAuditEvent(req, {
+      action: 'user.create',
+      entityType: 'user',
+      entityId: user._id,
+      entityLabel: user.email,
+      after: toUserSnapshot(user)
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          isActive: user.isActive,
+          createdAt: user.createdAt
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Create user error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create user'
+      }
+    });
+  }
+};
+
+export const updateUser = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid user ID'
+        }
+      });
+    }
+
+    const validatedData = updateUserSchema.parse(req.body);
+
+    // Admins cannot demote or deactivate themselves, so a tenant never loses its last admin by accident
+    const isSelf = id === req.user.userId.toString();
+    if (isSelf && (validatedData.role === 'staff' || validatedData.isActive === false)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'You cannot demote or deactivate your own account'
+        }
+      });
+    }
+
+    const existingUser = await User.findOne({ _id: id, tenantId: req.user.tenantId }).select(USER_FIELDS);
+
+    const user = existingUser && await User.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      { $set: validatedData },
+      { new: true }
+    ).select(USER_FIELDS);
+
+    if (!existingUser || !user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'User not found'
+        }
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'user.update',
+      entityType: 'user',
+      entityId: user._id,
+      entityLabel: user.email,
+      before: toUserSnapshot(existingUser),
+      after: toUserSnapshot(user)
+    });
+
+    res.json({
+      success: true,
+      data: { user },
+      message: 'User updated successfully'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Update user error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update user'
+      }
+    });
+  }
+};
+
+export const resetUserPassword = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid user ID'
+        }
+      });
+    }
+
+    const validatedData = resetPasswordSchema.parse(req.body);
+    const passwordHash = await bcrypt.hash(validatedData.password, 10);
+
+    const user = await User.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      { $set: { passwordHash } }
+    );
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'User not found'
+        }
+      });
+    }
+
+    // Only the fact of the reset is recorded, never the password or its hash
+    await recordAuditEvent(req, {
+      action: 'user.reset_password',
+      entityType: 'user',
+      entityId: user._id,
+      entityLabel: user.email
+    });
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+          details: error.issues
+        }
+      });
+    }
+
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to reset password'
+      }
+    });
+  }
+};
+
+export const deactivateUser = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Not authenticated'
+        }
+      });
+    }
+
+    const { id } = req.params;
+
+    // Validate ObjectId
+    if (!id || typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid user ID'
+        }
+      });
+    }
+
+    if (id === req.user.userId.toString()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'You cannot deactivate your own account'
+        }
+      });
+    }
+
+    const existingUser = await User.findOne({ _id: id, tenantId: req.user.tenantId }).select(USER_FIELDS);
+
+    // Deactivate rather than delete so lots and transactions keep their creator/seller
+    const user = existingUser && await User.findOneAndUpdate(
+      { _id: id, tenantId: req.user.tenantId },
+      { $set: { isActive: false } },
+      { new: true }
+    ).select(USER_FIELDS);
+
+    if (!existingUser || !user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'User not found'
+        }
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'user.deactivate',
+      entityType: 'user',
+      entityId: user._id,
+      entityLabel: user.email,
+      before: toUserSnapshot(existingUser),
+      after: toUserSnapshot(user)
+    });
+
+    res.json({
+      success: true,
+      data: { user },
+      message: 'User deactivated successfully'
+    });
+  } catch (error) {
+    console.error('Deactivate user error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to deactivate user'
+      }
+    });
+  }
+};
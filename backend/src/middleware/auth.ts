@@ -1,8 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
 import { Types } from 'mongoose';
+import User from '../models/User';
 
-export const authenticateToken = (
+export const authenticateToken = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -20,21 +21,51 @@ export const authenticateToken = (
     });
   }
 
+  let payload;
   try {
-    const payload = verifyToken(token);
+    payload = verifyToken(token);
+  } catch (error) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'AUTH_ERROR',
+        message: 'Invalid or expired token'
+      }
+    });
+  }
+
+  try {
+    // Tokens outlive account changes, so check the user is still active
+    // and take the role from the database rather than the token
+    const user = await User.findOne({
+      _id: payload.userId,
+      tenantId: payload.tenantId
+    }).select('role isActive');
+
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Account is deactivated or no longer exists'
+        }
+      });
+    }
+
     req.user = {
       userId: new Types.ObjectId(payload.userId),
       tenantId: new Types.ObjectId(payload.tenantId),
-      role: payload.role,
+      role: user.role,
       email: payload.email
     };
     next();
   } catch (error) {
-    return res.status(403).json({
+    console.error('Authenticate token error:', error);
+    return res.status(500).json({
       success: false,
       error: {
-        code: 'AUTH_ERROR',
-        message: 'Invalid or expired token'
+        code: 'SERVER_ERROR',
+        message: 'Failed to authenticate'
       }
     });
   }
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE }
+}).single('file');
+
+// Accept a single spreadsheet in the `file` field, reporting upload problems as validation errors
+export const uploadSpreadsheet = (req: Request, res: Response, next: NextFunction) => {
+  spreadsheetUpload(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+            ? 'File must be 5 MB or smaller'
+            : 'Could not read the uploaded file'
+        }
+      });
+    }
+
+    next();
+  });
+};
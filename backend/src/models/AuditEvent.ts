@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AuditEntityType = 'lot' | 'transaction' | 'return' | 'user' | 'settings';
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditEvent extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  // Kept alongside actorId so events stay readable after the user is removed
+  actorEmail: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: mongoose.Types.ObjectId;
+  entityLabel?: string;
+  changes: IAuditChange[];
+  ip?: string;
+  createdAt: Date;
+}
+
+const AuditChangeSchema = new Schema<IAuditChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed
+}, { _id: false });
+
+const AuditEventSchema = new Schema<IAuditEvent>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  actorEmail: {
+    type: String,
+    required: true
+  },
+  action: {
+    type: String,
+    required: true
+  },
+  entityType: {
+    type: String,
+    enum: ['lot', 'transaction', 'return', 'user', 'settings'],
+    required: true
+  },
+  entityId: {
+    type: Schema.Types.ObjectId
+  },
+  entityLabel: {
+    type: String
+  },
+  changes: {
+    type: [AuditChangeSchema],
+    default: []
+  },
+  ip: {
+    type: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// The log is append-only: refuse any query that would rewrite or remove an event
+AuditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function () {
+    throw new Error('Audit events cannot be modified');
+  }
+);
+
+AuditEventSchema.index({ tenantId: 1, createdAt: -1 });
+AuditEventSchema.index({ tenantId: 1, entityType: 1, entityId: 1, createdAt: -1 });
+AuditEventSchema.index({ tenantId: 1, actorId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IColor extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  // Canonical spelling used on lots, e.g. "Black"
+  name: string;
+  // Lowercased name, so "black" and "Black" can't both be listed
+  key: string;
+  // Other spellings that mean this color, e.g. "BLK"
+  aliases: string[];
+  // Swatch shown next to the name, e.g. "#000000"
+  hex?: string;
+  sortOrder: number;
+  createdAt: Date;
+}
+
+const ColorSchema = new Schema<IColor>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  aliases: [{
+    type: String,
+    trim: true
+  }],
+  hex: {
+    type: String,
+    trim: true
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+ColorSchema.index({ tenantId: 1, key: 1 }, { unique: true });
+ColorSchema.index({ tenantId: 1, sortOrder: 1 });
+
+export default mongoose.model<IColor>('Color', ColorSchema);
@@ -1,41 +1,70 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
 
 interface ISize {
   size: string;
   quantity: number;
   remainingQuantity: number;
+  // Net stock adjustments (negative for damage or loss), so sold = quantity + adjusted - remaining
+  adjustedQuantity: number;
   purchaseCostPerPiece: number;
   sellCostPerPiece: number;
+  // Printed on the variant's labels and scanned at the till; lots from before labels get one when first printed
+  barcode?: string;
+  // Overrides the lot's and the tenant's low-stock threshold for this variant; 0 turns alerts off
+  lowStockThreshold?: number;
 }
 
 interface IColor {
   color: string;
+  // The catalogue product this line is stock of; lots can mix products
+  productId?: mongoose.Types.ObjectId;
   sizes: ISize[];
 }
 
 export interface ILot extends Document {
   tenantId: mongoose.Types.ObjectId;
   lotNumber: string;
+  supplierId?: mongoose.Types.ObjectId;
   items: IColor[];
   totalInvestment: number;
   totalRevenue: number;
   totalProfit: number;
+  // Cost of stock written off by adjustments; already taken out of totalProfit
+  totalWriteOff: number;
   createdAt: Date;
   createdBy: mongoose.Types.ObjectId;
+  // Set when the lot is moved to the trash; archived lots keep their sales history
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  // Set while an open stock take is counting the lot; sales, edits and adjustments wait until it closes
+  stockTakeId?: mongoose.Types.ObjectId;
+  // Overrides the tenant's low-stock threshold for this lot's variants; 0 turns alerts off
+  lowStockThreshold?: number;
+  // Set when the lot was bought in another currency; purchase costs were converted to the
+  // tenant's currency at exchangeRate (base units per purchase unit) when the lot was created
+  purchaseCurrency?: string;
+  exchangeRate?: number;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
 }
 
 const SizeSchema = new Schema<ISize>({
   size: { type: String, required: true },
   quantity: { type: Number, required: true, min: 0 },
   remainingQuantity: { type: Number, required: true, min: 0 },
-  purchaseCostPerPiece: { type: Number, required: true, min: 0 },
-  sellCostPerPiece: { type: Number, required: true, min: 0 }
-}, { _id: false });
+  adjustedQuantity: { type: Number, default: 0 },
+  purchaseCostPerPiece: { ...MONEY, required: true, min: 0 },
+  sellCostPerPiece: { ...MONEY, required: true, min: 0 },
+  barcode: { type: String },
+  lowStockThreshold: { type: Number, min: 0 }
+}, { _id: false, ...MONEY_SCHEMA_OPTIONS });
 
 const ColorSchema = new Schema<IColor>({
   color: { type: String, required: true },
+  productId: { type: Schema.Types.ObjectId, ref: 'Product' },
   sizes: [SizeSchema]
-}, { _id: false });
+}, { _id: false, ...MONEY_SCHEMA_OPTIONS });
 
 const LotSchema = new Schema<ILot>({
   tenantId: {
@@ -47,17 +76,25 @@ const LotSchema = new Schema<ILot>({
     type: String,
     required: true
   },
+  supplierId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Supplier'
+  },
   items: [ColorSchema],
   totalInvestment: {
-    type: Number,
+    ...MONEY,
     default: 0
   },
   totalRevenue: {
-    type: Number,
+    ...MONEY,
     default: 0
   },
   totalProfit: {
-    type: Number,
+    ...MONEY,
+    default: 0
+  },
+  totalWriteOff: {
+    ...MONEY,
     default: 0
   },
   createdAt: {
@@ -68,11 +105,40 @@ const LotSchema = new Schema<ILot>({
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
-  }
-});
+  },
+  deletedAt: {
+    type: Date
+  },
+  deletedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  stockTakeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'StockTake'
+  },
+  lowStockThreshold: {
+    type: Number,
+    min: 0
+  },
+  purchaseCurrency: {
+    type: String,
+    uppercase: true,
+    trim: true
+  },
+  exchangeRate: {
+    type: Number,
+    min: 0
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
 
 // Compound unique index for lot number per tenant
 LotSchema.index({ lotNumber: 1, tenantId: 1 }, { unique: true });
 LotSchema.index({ tenantId: 1 });
+LotSchema.index({ tenantId: 1, deletedAt: 1 });
+LotSchema.index({ tenantId: 1, supplierId: 1 });
+LotSchema.index({ tenantId: 1, 'items.productId': 1 });
+LotSchema.index({ tenantId: 1, 'items.sizes.barcode': 1 });
 
 export default mongoose.model<ILot>('Lot', LotSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['low_stock'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface INotification extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  lotId: mongoose.Types.ObjectId;
+  // Kept alongside lotId so the notification stays readable if the lot is renumbered
+  lotNumber: string;
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  threshold: number;
+  // Users who have seen the notification; everyone else still counts it as unread
+  readBy: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  // Set once the variant is back at or above its threshold
+  resolvedAt?: Date;
+}
+
+const NotificationSchema = new Schema<INotification>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  lotId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lot',
+    required: true
+  },
+  lotNumber: {
+    type: String,
+    required: true
+  },
+  color: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: String,
+    required: true
+  },
+  remainingQuantity: {
+    type: Number,
+    required: true
+  },
+  threshold: {
+    type: Number,
+    required: true
+  },
+  readBy: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  resolvedAt: {
+    type: Date
+  }
+});
+
+NotificationSchema.index({ tenantId: 1, createdAt: -1 });
+NotificationSchema.index({ tenantId: 1, type: 1, resolvedAt: 1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+
+export const PAYMENT_METHODS = ['cash', 'bank_transfer', 'card', 'cheque', 'other'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export interface IPayment extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  transactionId: mongoose.Types.ObjectId;
+  customerId?: mongoose.Types.ObjectId;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: Date;
+  note?: string;
+  recordedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
+}
+
+const PaymentSchema = new Schema<IPayment>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  transactionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer'
+  },
+  amount: {
+    ...MONEY,
+    required: true,
+    min: 0
+  },
+  method: {
+    type: String,
+    enum: PAYMENT_METHODS,
+    default: 'cash'
+  },
+  paidAt: {
+    type: Date,
+    default: Date.now
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
+
+PaymentSchema.index({ tenantId: 1 });
+PaymentSchema.index({ transactionId: 1 });
+
+export default mongoose.model<IPayment>('Payment', PaymentSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IProduct extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  // Style name, e.g. "Slim Fit Oxford Shirt"
+  name: string;
+  sku?: string;
+  category?: string;
+  // Pre-filled into a lot when the product is picked
+  colors: string[];
+  sizes: string[];
+  // Image URLs, first one is the cover
+  images: string[];
+  // One of the tenant's tax rates; the tenant's default applies when unset
+  taxRateId?: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const ProductSchema = new Schema<IProduct>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  category: {
+    type: String,
+    trim: true
+  },
+  colors: [{
+    type: String,
+    trim: true
+  }],
+  sizes: [{
+    type: String,
+    trim: true
+  }],
+  images: [{
+    type: String,
+    trim: true
+  }],
+  taxRateId: {
+    type: Schema.Types.ObjectId
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+ProductSchema.index({ tenantId: 1, name: 1 });
+// SKUs are optional, but no two products of a tenant may share one
+ProductSchema.index(
+  { tenantId: 1, sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: 'string' } } }
+);
+
+export default mongoose.model<IProduct>('Product', ProductSchema);
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+
+interface IReturnedItem {
+  lotId: mongoose.Types.ObjectId;
+  color: string;
+  size: string;
+  quantity: number;
+  sellPricePerPiece: number;
+  totalAmount: number;
+  taxRate?: number;
+  taxAmount?: number;
+}
+
+export interface IReturn extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  transactionId: mongoose.Types.ObjectId;
+  lotIds: mongoose.Types.ObjectId[];
+  returnedItems: IReturnedItem[];
+  // Net of tax; the tax given back is totalTaxRefunded
+  totalRefund: number;
+  totalTaxRefunded: number;
+  totalProfitReversed: number;
+  reason?: string;
+  processedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
+}
+
+const ReturnedItemSchema = new Schema<IReturnedItem>({
+  lotId: { type: Schema.Types.ObjectId, ref: 'Lot', required: true },
+  color: { type: String, required: true },
+  size: { type: String, required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  sellPricePerPiece: { ...MONEY, required: true, min: 0 },
+  totalAmount: { ...MONEY, required: true, min: 0 },
+  taxRate: { type: Number, min: 0 },
+  taxAmount: { ...MONEY, min: 0 }
+}, { _id: false, ...MONEY_SCHEMA_OPTIONS });
+
+const ReturnSchema = new Schema<IReturn>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  transactionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transaction',
+    required: true
+  },
+  lotIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Lot'
+  }],
+  returnedItems: [ReturnedItemSchema],
+  totalRefund: {
+    ...MONEY,
+    required: true,
+    min: 0
+  },
+  totalTaxRefunded: {
+    ...MONEY,
+    default: 0,
+    min: 0
+  },
+  totalProfitReversed: {
+    ...MONEY,
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  processedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
+
+ReturnSchema.index({ tenantId: 1 });
+ReturnSchema.index({ transactionId: 1 });
+
+export default mongoose.model<IReturn>('Return', ReturnSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISize extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  // Canonical spelling used on lots, e.g. "XL"
+  name: string;
+  // Lowercased name, so "xl" and "XL" can't both be listed
+  key: string;
+  // Other spellings that mean this size, e.g. "Extra Large"
+  aliases: string[];
+  // Sizes are listed and sorted on lots in this order, e.g. S < M < L < XL
+  sortOrder: number;
+  createdAt: Date;
+}
+
+const SizeSchema = new Schema<ISize>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  aliases: [{
+    type: String,
+    trim: true
+  }],
+  sortOrder: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+SizeSchema.index({ tenantId: 1, key: 1 }, { unique: true });
+SizeSchema.index({ tenantId: 1, sortOrder: 1 });
+
+export default mongoose.model<ISize>('Size', SizeSchema);
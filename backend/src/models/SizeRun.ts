@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A named set of sizes added to a lot color in one go, e.g. "Adult S-XL"
+export interface ISizeRun extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  name: string;
+  sizes: string[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const SizeRunSchema = new Schema<ISizeRun>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sizes: [{
+    type: String,
+    trim: true
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+SizeRunSchema.index({ tenantId: 1, name: 1 });
+
+export default mongoose.model<ISizeRun>('SizeRun', SizeRunSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+
+export const ADJUSTMENT_REASONS = ['damage', 'loss', 'found', 'recount'] as const;
+export type AdjustmentReason = typeof ADJUSTMENT_REASONS[number];
+
+interface IAdjustedItem {
+  color: string;
+  size: string;
+  // Signed: negative takes stock out, positive puts it back
+  quantity: number;
+  purchaseCostPerPiece: number;
+  // Cost written off by this line; negative when stock is found
+  writeOff: number;
+}
+
+export interface IStockAdjustment extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  lotId: mongoose.Types.ObjectId;
+  items: IAdjustedItem[];
+  reason: AdjustmentReason;
+  note?: string;
+  totalWriteOff: number;
+  adjustedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
+}
+
+const AdjustedItemSchema = new Schema<IAdjustedItem>({
+  color: { type: String, required: true },
+  size: { type: String, required: true },
+  quantity: { type: Number, required: true },
+  purchaseCostPerPiece: { ...MONEY, required: true, min: 0 },
+  writeOff: { ...MONEY, required: true }
+}, { _id: false, ...MONEY_SCHEMA_OPTIONS });
+
+const StockAdjustmentSchema = new Schema<IStockAdjustment>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  lotId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lot',
+    required: true
+  },
+  items: [AdjustedItemSchema],
+  reason: {
+    type: String,
+    enum: ADJUSTMENT_REASONS,
+    required: true
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  totalWriteOff: {
+    ...MONEY,
+    required: true
+  },
+  adjustedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
+
+StockAdjustmentSchema.index({ tenantId: 1, createdAt: -1 });
+StockAdjustmentSchema.index({ lotId: 1, createdAt: -1 });
+
+export default mongoose.model<IStockAdjustment>('StockAdjustment', StockAdjustmentSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const STOCK_MOVEMENT_TYPES = ['receive', 'sale', 'return', 'adjustment', 'transfer'] as const;
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+export interface IStockMovement extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  lotId: mongoose.Types.ObjectId;
+  color: string;
+  size: string;
+  type: StockMovementType;
+  // Signed: positive puts stock into the lot, negative takes it out
+  quantity: number;
+  // The sale, return or adjustment that caused the movement
+  referenceId?: mongoose.Types.ObjectId;
+  note?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  lotId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lot',
+    required: true
+  },
+  color: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: STOCK_MOVEMENT_TYPES,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  referenceId: {
+    type: Schema.Types.ObjectId
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// The ledger is append-only: corrections are new movements, never edits
+StockMovementSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function () {
+    throw new Error('Stock movements cannot be modified');
+  }
+);
+
+StockMovementSchema.index({ tenantId: 1, lotId: 1, createdAt: 1 });
+StockMovementSchema.index({ lotId: 1, color: 1, size: 1 });
+
+export default mongoose.model<IStockMovement>('StockMovement', StockMovementSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+
+export const STOCK_TAKE_STATUSES = ['open', 'approved', 'cancelled'] as const;
+export type StockTakeStatus = typeof STOCK_TAKE_STATUSES[number];
+
+interface IStockTakeLine {
+  lotId: mongoose.Types.ObjectId;
+  lotNumber: string;
+  color: string;
+  size: string;
+  // remainingQuantity when the stock take was opened
+  expectedQuantity: number;
+  // Unset until someone counts the shelf
+  countedQuantity?: number;
+  countedBy?: mongoose.Types.ObjectId;
+  countedAt?: Date;
+}
+
+export interface IStockTake extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  name: string;
+  status: StockTakeStatus;
+  lotIds: mongoose.Types.ObjectId[];
+  lines: IStockTakeLine[];
+  // Net cost written off when the counts were posted; negative when more stock was found than expected
+  totalWriteOff: number;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  closedAt?: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
+}
+
+const StockTakeLineSchema = new Schema<IStockTakeLine>({
+  lotId: { type: Schema.Types.ObjectId, ref: 'Lot', required: true },
+  lotNumber: { type: String, required: true },
+  color: { type: String, required: true },
+  size: { type: String, required: true },
+  expectedQuantity: { type: Number, required: true, min: 0 },
+  countedQuantity: { type: Number, min: 0 },
+  countedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  countedAt: { type: Date }
+}, { _id: false });
+
+const StockTakeSchema = new Schema<IStockTake>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: STOCK_TAKE_STATUSES,
+    default: 'open'
+  },
+  lotIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Lot'
+  }],
+  lines: [StockTakeLineSchema],
+  totalWriteOff: {
+    ...MONEY,
+    default: 0
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  closedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  closedAt: {
+    type: Date
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
+
+StockTakeSchema.index({ tenantId: 1, status: 1, createdAt: -1 });
+
+export default mongoose.model<IStockTake>('StockTake', StockTakeSchema);
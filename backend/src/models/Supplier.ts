@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISupplier extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const SupplierSchema = new Schema<ISupplier>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  address: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+SupplierSchema.index({ tenantId: 1, name: 1 });
+
+export default mongoose.model<ISupplier>('Supplier', SupplierSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+import { PAYMENT_METHODS, PaymentMethod } from './Payment';
+
+export interface ISupplierPayment extends Document {
+  tenantId: mongoose.Types.ObjectId;
+  supplierId: mongoose.Types.ObjectId;
+  // Optional: the lot this payment settles, when paying lot by lot
+  lotId?: mongoose.Types.ObjectId;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: Date;
+  note?: string;
+  recordedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
+}
+
+const SupplierPaymentSchema = new Schema<ISupplierPayment>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  supplierId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Supplier',
+    required: true
+  },
+  lotId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lot'
+  },
+  amount: {
+    ...MONEY,
+    required: true,
+    min: 0
+  },
+  method: {
+    type: String,
+    enum: PAYMENT_METHODS,
+    default: 'cash'
+  },
+  paidAt: {
+    type: Date,
+    default: Date.now
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
+
+SupplierPaymentSchema.index({ tenantId: 1, supplierId: 1 });
+
+export default mongoose.model<ISupplierPayment>('SupplierPayment', SupplierPaymentSchema);
@@ -1,10 +1,43 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface ITaxRate {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  // Percent, e.g. 20 for 20% VAT
+  rate: number;
+  // Used for lines whose product doesn't name a rate
+  isDefault: boolean;
+}
+
 export interface ITenant extends Document {
   businessName: string;
   email: string;
   settings: {
     lotPrefix: string;
+    // Tokens: {prefix}, {year}, {number}
+    lotFormat: string;
+    lotPadding: number;
+    // Last lot number reserved; only ever changed through $inc so concurrent requests can't collide
+    lotSequence: number;
+    invoicePrefix: string;
+    invoiceFormat: string;
+    invoicePadding: number;
+    // Last invoice number issued, changed the same way
+    invoiceSequence: number;
+    // A variant is low on stock when fewer pieces than this remain; lots can override it
+    lowStockThreshold: number;
+    // Staff need an admin's approval to discount a line by more than this percent
+    maxStaffDiscountPercent: number;
+    // No rates means sales aren't taxed
+    taxRates: ITaxRate[];
+    // Whether sell prices already include tax, or tax is added on top of them
+    pricesIncludeTax: boolean;
+    // Printed on invoices, e.g. a VAT or GST number
+    taxRegistrationNumber?: string;
+    // ISO 4217 code every stored amount is in; lots bought in another currency are converted on entry
+    currency: string;
+    // BCP 47 tag amounts are formatted for, e.g. en-GB
+    locale: string;
   };
   createdAt: Date;
 }
@@ -26,6 +59,69 @@ const TenantSchema = new Schema<ITenant>({
     lotPrefix: {
       type: String,
       default: 'LOT-'
+    },
+    lotFormat: {
+      type: String,
+      default: '{prefix}{number}'
+    },
+    lotPadding: {
+      type: Number,
+      default: 4
+    },
+    lotSequence: {
+      type: Number,
+      default: 0
+    },
+    invoicePrefix: {
+      type: String,
+      default: 'INV-'
+    },
+    invoiceFormat: {
+      type: String,
+      default: '{prefix}{number}'
+    },
+    invoicePadding: {
+      type: Number,
+      default: 5
+    },
+    invoiceSequence: {
+      type: Number,
+      default: 0
+    },
+    lowStockThreshold: {
+      type: Number,
+      default: 5,
+      min: 0
+    },
+    maxStaffDiscountPercent: {
+      type: Number,
+      default: 100,
+      min: 0,
+      max: 100
+    },
+    taxRates: [new Schema<ITaxRate>({
+      name: { type: String, required: true, trim: true },
+      rate: { type: Number, required: true, min: 0, max: 100 },
+      isDefault: { type: Boolean, default: false }
+    })],
+    pricesIncludeTax: {
+      type: Boolean,
+      default: false
+    },
+    taxRegistrationNumber: {
+      type: String,
+      trim: true
+    },
+    currency: {
+      type: String,
+      default: 'USD',
+      uppercase: true,
+      trim: true
+    },
+    locale: {
+      type: String,
+      default: 'en-US',
+      trim: true
     }
   },
   createdAt: {
@@ -1,31 +1,87 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { MINOR_UNITS_MARKER, MONEY, MONEY_SCHEMA_OPTIONS } from './money';
+
+export const DISCOUNT_TYPES = ['percent', 'amount'] as const;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+// Why a sale needed an admin to sign it off
+export const APPROVAL_REASONS = ['below_cost', 'over_discount_limit'] as const;
+export type ApprovalReason = typeof APPROVAL_REASONS[number];
+
+export interface IDiscount {
+  type: DiscountType;
+  value: number;
+}
 
 interface ISoldItem {
+  lotId?: mongoose.Types.ObjectId;
   color: string;
   size: string;
   quantity: number;
+  // The lot's sell price at the time of sale; missing on sales from before discounts were recorded
+  listPricePerPiece?: number;
+  // What was actually charged per piece, after the line's discount and its share of the sale's.
+  // Like the list price, it leaves tax out even when the tenant's prices include it.
   sellPricePerPiece: number;
+  discount?: IDiscount;
   totalAmount: number;
+  // Percent charged on this line and the tax it came to; missing on sales from before tax
+  taxRate?: number;
+  taxAmount?: number;
+  returnedQuantity: number;
 }
 
 export interface ITransaction extends Document {
   tenantId: mongoose.Types.ObjectId;
-  lotId: mongoose.Types.ObjectId;
+  lotIds: mongoose.Types.ObjectId[];
+  // Single-lot sales recorded before lotIds existed
+  lotId?: mongoose.Types.ObjectId;
   soldItems: ISoldItem[];
+  // Discount on the whole sale as entered, with the amount it came to once spread over the lines
+  discount?: IDiscount & { amount: number };
+  // Everything taken off list prices, from line and sale discounts together
+  totalDiscount: number;
+  // Net of tax; the customer owes totalRevenue + totalTax
   totalRevenue: number;
+  totalTax: number;
+  totalRefunded: number;
+  // Tax given back on returns, on top of totalRefunded
+  taxRefunded: number;
+  returnStatus: 'none' | 'partial' | 'full';
+  // Sales recorded before credit sales existed have no amountPaid and count as paid
+  amountPaid?: number;
+  paymentStatus: 'paid' | 'partial' | 'unpaid';
+  dueDate?: Date;
   soldBy: mongoose.Types.ObjectId;
+  // Set when the sale went below cost or past the staff discount limit
+  approvedBy?: mongoose.Types.ObjectId;
+  approvalReasons: ApprovalReason[];
+  customerId?: mongoose.Types.ObjectId;
   customerName?: string;
   invoiceNumber?: string;
   createdAt: Date;
+  // Set on documents whose amounts are in minor units; see models/money.ts
+  amountsInMinorUnits?: boolean;
 }
 
+const DiscountSchema = {
+  type: { type: String, enum: DISCOUNT_TYPES, required: true },
+  value: { type: Number, required: true, min: 0 }
+};
+
 const SoldItemSchema = new Schema<ISoldItem>({
+  lotId: { type: Schema.Types.ObjectId, ref: 'Lot' },
   color: { type: String, required: true },
   size: { type: String, required: true },
   quantity: { type: Number, required: true, min: 1 },
-  sellPricePerPiece: { type: Number, required: true, min: 0 },
-  totalAmount: { type: Number, required: true, min: 0 }
-}, { _id: false });
+  listPricePerPiece: { ...MONEY, min: 0 },
+  sellPricePerPiece: { ...MONEY, required: true, min: 0 },
+  discount: { type: new Schema(DiscountSchema, { _id: false }) },
+  totalAmount: { ...MONEY, required: true, min: 0 },
+  taxRate: { type: Number, min: 0 },
+  taxAmount: { ...MONEY, min: 0 },
+  returnedQuantity: { type: Number, default: 0, min: 0 }
+}, { _id: false, ...MONEY_SCHEMA_OPTIONS });
 
 const TransactionSchema = new Schema<ITransaction>({
   tenantId: {
@@ -33,22 +89,80 @@ const TransactionSchema = new Schema<ITransaction>({
     ref: 'Tenant',
     required: true
   },
+  lotIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Lot'
+  }],
   lotId: {
     type: Schema.Types.ObjectId,
-    ref: 'Lot',
-    required: true
+    ref: 'Lot'
   },
   soldItems: [SoldItemSchema],
+  discount: {
+    type: new Schema({
+      ...DiscountSchema,
+      amount: { ...MONEY, required: true, min: 0 }
+    }, { _id: false, ...MONEY_SCHEMA_OPTIONS })
+  },
+  totalDiscount: {
+    ...MONEY,
+    default: 0,
+    min: 0
+  },
   totalRevenue: {
-    type: Number,
+    ...MONEY,
     required: true,
     min: 0
   },
+  totalTax: {
+    ...MONEY,
+    default: 0,
+    min: 0
+  },
+  totalRefunded: {
+    ...MONEY,
+    default: 0,
+    min: 0
+  },
+  taxRefunded: {
+    ...MONEY,
+    default: 0,
+    min: 0
+  },
+  returnStatus: {
+    type: String,
+    enum: ['none', 'partial', 'full'],
+    default: 'none'
+  },
+  amountPaid: {
+    ...MONEY,
+    min: 0
+  },
+  paymentStatus: {
+    type: String,
+    enum: ['paid', 'partial', 'unpaid'],
+    default: 'paid'
+  },
+  dueDate: {
+    type: Date
+  },
   soldBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
   },
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvalReasons: [{
+    type: String,
+    enum: APPROVAL_REASONS
+  }],
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer'
+  },
   customerName: {
     type: String,
     trim: true
@@ -60,10 +174,19 @@ const TransactionSchema = new Schema<ITransaction>({
   createdAt: {
     type: Date,
     default: Date.now
-  }
-});
+  },
+  amountsInMinorUnits: MINOR_UNITS_MARKER
+}, MONEY_SCHEMA_OPTIONS);
 
 TransactionSchema.index({ tenantId: 1 });
+TransactionSchema.index({ lotIds: 1 });
 TransactionSchema.index({ lotId: 1 });
+TransactionSchema.index({ tenantId: 1, customerId: 1 });
+TransactionSchema.index({ tenantId: 1, paymentStatus: 1 });
+// Older sales may have no invoice number, so only enforce uniqueness where one is set
+TransactionSchema.index(
+  { tenantId: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } }
+);
 
 export default mongoose.model<ITransaction>('Transaction', TransactionSchema);
@@ -6,6 +6,7 @@ export interface IUser extends Document {
   email: string;
   passwordHash: string;
   role: 'admin' | 'staff';
+  isActive: boolean;
   createdAt: Date;
 }
 
@@ -35,6 +36,10 @@ const UserSchema = new Schema<IUser>({
     enum: ['admin', 'staff'],
     default: 'staff'
   },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
   createdAt: {
     type: Date,
     default: Date.now
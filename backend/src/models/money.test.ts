@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { fromMinorUnits, MONEY, sumMoney, toMinorUnits } from './money';
+
+describe('toMinorUnits', () => {
+  it('scales amounts to whole minor units', () => {
+    expect(toMinorUnits(12.34)).toBe(1234);
+    expect(toMinorUnits(0)).toBe(0);
+    expect(toMinorUnits(-5.5)).toBe(-550);
+  });
+
+  it('rounds away floating-point error and sub-cent amounts', () => {
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+    expect(toMinorUnits(1.005 * 1000)).toBe(100500);
+    expect(toMinorUnits(2.675)).toBe(268);
+  });
+});
+
+describe('fromMinorUnits', () => {
+  it('scales minor units back to currency units', () => {
+    expect(fromMinorUnits(1234)).toBe(12.34);
+    expect(fromMinorUnits(-550)).toBe(-5.5);
+  });
+
+  it('round-trips amounts to the cent', () => {
+    for (const amount of [0.01, 0.07, 19.99, 1234.56, 99999.99]) {
+      expect(fromMinorUnits(toMinorUnits(amount))).toBe(amount);
+    }
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds amounts without floating-point drift', () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+  });
+
+  it('is zero for no amounts', () => {
+    expect(sumMoney([])).toBe(0);
+  });
+});
+
+describe('MONEY', () => {
+  it('stores minor units and reads currency units, passing missing values through', () => {
+    expect(MONEY.set(19.99)).toBe(1999);
+    expect(MONEY.get(1999)).toBe(19.99);
+    expect(MONEY.get(undefined as unknown as number)).toBeUndefined();
+    expect(MONEY.set(null as unknown as number)).toBeNull();
+  });
+});
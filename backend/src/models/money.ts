@@ -0,0 +1,41 @@
+// Amounts are stored as whole minor units (hundredths of the tenant's currency) so sums
+// never pick up floating point drift. Documents still read and write them in currency
+// units through the getters and setters below; aggregation pipelines see the stored value.
+export const MINOR_UNITS_PER_UNIT = 100;
+
+export const toMinorUnits = (amount: number) => Math.round(amount * MINOR_UNITS_PER_UNIT);
+
+export const fromMinorUnits = (minorUnits: number) => minorUnits / MINOR_UNITS_PER_UNIT;
+
+// Adds currency amounts in minor units, for totals across documents
+export const sumMoney = (amounts: number[]) =>
+  fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount), 0));
+
+// Spread into a schema path, e.g. { ...MONEY, required: true, min: 0 }
+export const MONEY = {
+  type: Number,
+  // Optional amounts pass through unset
+  get: (value: number) => (value == null ? value : fromMinorUnits(value)),
+  set: (value: number) => (value == null ? value : toMinorUnits(value))
+};
+
+// Marks documents whose amounts are already in minor units. New documents get it by default
+// and the migration sets it as it converts older ones, so a rerun never scales an amount twice.
+// Each top-level schema with money paths declares it as amountsInMinorUnits.
+export const MINOR_UNITS_MARKER = {
+  type: Boolean,
+  default: true,
+  select: false
+};
+
+// Schemas with money paths need these so API responses carry currency units, not minor units,
+// and the marker above stays out of them
+const hideMarker = (_doc: unknown, ret: Record<string, unknown>) => {
+  delete ret.amountsInMinorUnits;
+  return ret;
+};
+
+export const MONEY_SCHEMA_OPTIONS = {
+  toJSON: { getters: true, virtuals: false, transform: hideMarker },
+  toObject: { getters: true, virtuals: false, transform: hideMarker }
+};
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getShrinkageReport } from '../controllers/adjustment.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All adjustment routes require authentication
+router.use(authenticateToken);
+
+router.get('/shrinkage', getShrinkageReport);
+
+export default router;
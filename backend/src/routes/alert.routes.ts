@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getLowStockAlerts } from '../controllers/alert.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All alert routes require authentication
+router.use(authenticateToken);
+
+router.get('/low-stock', getLowStockAlerts);
+
+export default router;
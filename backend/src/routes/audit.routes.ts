@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getAuditEvents } from '../controllers/audit.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// The audit log is admin-only and read-only
+router.use(authenticateToken, requireRole(['admin']));
+
+router.get('/', getAuditEvents);
+
+export default router;
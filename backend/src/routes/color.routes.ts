@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getColors,
+  createColor,
+  reorderColors,
+  updateColor,
+  deleteColor
+} from '../controllers/color.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All color routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getColors);
+router.post('/', createColor);
+router.put('/order', requireRole(['admin']), reorderColors);
+router.patch('/:id', requireRole(['admin']), updateColor);
+router.delete('/:id', requireRole(['admin']), deleteColor);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getCustomers,
+  createCustomer,
+  getCustomer,
+  updateCustomer,
+  migrateCustomerNames
+} from '../controllers/customer.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getCustomers);
+router.post('/', createCustomer);
+router.post('/migrate', requireRole(['admin']), migrateCustomerNames);
+router.get('/:id', getCustomer);
+router.patch('/:id', updateCustomer);
+
+export default router;
@@ -5,10 +5,19 @@ import {
   getLot,
   updateLot,
   generateLotNumber,
-  deleteLot
+  deleteLot,
+  restoreLot,
+  purgeLot,
+  importLots,
+  getLotLabels,
+  getVariantByBarcode,
+  searchVariants
 } from '../controllers/lot.controller';
 import { createSale } from '../controllers/transaction.controller';
-import { authenticateToken } from '../middleware/auth';
+import { createAdjustment, getLotAdjustments } from '../controllers/adjustment.controller';
+import { getLotMovements, rebuildLotStock } from '../controllers/stockMovement.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { uploadSpreadsheet } from '../middleware/upload';
 
 const router = Router();
 
@@ -17,10 +26,20 @@ router.use(authenticateToken);
 
 router.post('/', createLot);
 router.get('/', getLots);
+router.post('/import', uploadSpreadsheet, importLots);
+router.get('/variants', searchVariants);
+router.get('/barcode/:barcode', getVariantByBarcode);
 router.get('/:id', getLot);
+router.get('/:id/labels.pdf', getLotLabels);
 router.put('/:id', updateLot);
 router.delete('/:id', deleteLot);
+router.post('/:id/restore', restoreLot);
+router.delete('/:id/purge', requireRole(['admin']), purgeLot);
 router.post('/generate-number', generateLotNumber);
 router.post('/:id/sell', createSale);
+router.get('/:id/adjustments', getLotAdjustments);
+router.post('/:id/adjustments', createAdjustment);
+router.get('/:id/movements', getLotMovements);
+router.post('/:id/movements/rebuild', requireRole(['admin']), rebuildLotStock);
 
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getNotifications, markNotificationsRead } from '../controllers/notification.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getNotifications);
+router.post('/read', markNotificationsRead);
+
+export default router;
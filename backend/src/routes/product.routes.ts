@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getProducts,
+  createProduct,
+  getProductSalesReport,
+  getProduct,
+  updateProduct
+} from '../controllers/product.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All product routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getProducts);
+router.post('/', createProduct);
+router.get('/sales-report', getProductSalesReport);
+router.get('/:id', getProduct);
+router.patch('/:id', updateProduct);
+
+export default router;
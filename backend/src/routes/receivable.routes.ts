@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getReceivables } from '../controllers/payment.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All receivable routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getReceivables);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getSettings, updateSettings } from '../controllers/settings.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getSettings);
+router.patch('/', requireRole(['admin']), updateSettings);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  getSizes,
+  createSize,
+  reorderSizes,
+  updateSize,
+  deleteSize,
+  getSizeRuns,
+  createSizeRun,
+  deleteSizeRun
+} from '../controllers/size.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All size routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getSizes);
+router.post('/', createSize);
+router.put('/order', requireRole(['admin']), reorderSizes);
+router.get('/runs', getSizeRuns);
+router.post('/runs', createSizeRun);
+router.delete('/runs/:id', requireRole(['admin']), deleteSizeRun);
+router.patch('/:id', requireRole(['admin']), updateSize);
+router.delete('/:id', requireRole(['admin']), deleteSize);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getStockConsistency } from '../controllers/stockMovement.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Ledger checks are admin-only
+router.use(authenticateToken, requireRole(['admin']));
+
+router.get('/consistency', getStockConsistency);
+
+export default router;
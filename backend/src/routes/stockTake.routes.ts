@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getStockTakes,
+  getStockTake,
+  createStockTake,
+  recordCounts,
+  approveStockTake,
+  cancelStockTake
+} from '../controllers/stockTake.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All stock take routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getStockTakes);
+router.post('/', createStockTake);
+router.get('/:id', getStockTake);
+router.patch('/:id/counts', recordCounts);
+router.post('/:id/approve', requireRole(['admin']), approveStockTake);
+router.post('/:id/cancel', cancelStockTake);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  getSuppliers,
+  getSupplierSummary,
+  createSupplier,
+  getSupplier,
+  updateSupplier,
+  getSupplierPayments,
+  recordSupplierPayment
+} from '../controllers/supplier.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// All supplier routes require authentication
+router.use(authenticateToken);
+
+router.get('/', getSuppliers);
+router.post('/', createSupplier);
+router.get('/summary', getSupplierSummary);
+router.get('/:id', getSupplier);
+router.patch('/:id', updateSupplier);
+router.get('/:id/payments', getSupplierPayments);
+router.post('/:id/payments', recordSupplierPayment);
+
+export default router;
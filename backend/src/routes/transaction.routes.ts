@@ -2,8 +2,13 @@ import { Router } from 'express';
 import {
   createSale,
   getTransactions,
-  getTransaction
+  getTransaction,
+  getInvoicePdf,
+  exportTransactionsCsv,
+  getTaxSummary
 } from '../controllers/transaction.controller';
+import { createReturn, getReturns } from '../controllers/return.controller';
+import { recordPayment, getPayments } from '../controllers/payment.controller';
 import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
@@ -13,6 +18,14 @@ router.use(authenticateToken);
 
 router.post('/', createSale);
 router.get('/', getTransactions);
+// Before /:id so "export.csv" isn't taken for an ID
+router.get('/export.csv', exportTransactionsCsv);
+router.get('/tax-summary', getTaxSummary);
 router.get('/:id', getTransaction);
+router.get('/:id/invoice.pdf', getInvoicePdf);
+router.get('/:id/returns', getReturns);
+router.post('/:id/returns', createReturn);
+router.get('/:id/payments', getPayments);
+router.post('/:id/payments', recordPayment);
 
 export default router;
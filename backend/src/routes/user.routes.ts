@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getUsers,
+  createUser,
+  updateUser,
+  resetUserPassword,
+  deactivateUser
+} from '../controllers/user.controller';
+import { authenticateToken, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// User management is admin-only
+router.use(authenticateToken, requireRole(['admin']));
+
+router.get('/', getUsers);
+router.post('/', createUser);
+router.patch('/:id', updateUser);
+router.post('/:id/reset-password', resetUserPassword);
+router.delete('/:id', deactivateUser);
+
+export default router;
@@ -6,14 +6,31 @@ dotenv.config();
 import express from 'express';
 import cors from 'cors';
 import { connectDB } from './config/database';
+import { runMigrations } from './config/migrations';
 import authRoutes from './routes/auth.routes';
 import lotRoutes from './routes/lot.routes';
 import transactionRoutes from './routes/transaction.routes';
 import dashboardRoutes from './routes/dashboard.routes';
+import userRoutes from './routes/user.routes';
+import customerRoutes from './routes/customer.routes';
+import receivableRoutes from './routes/receivable.routes';
+import supplierRoutes from './routes/supplier.routes';
+import settingsRoutes from './routes/settings.routes';
+import auditRoutes from './routes/audit.routes';
+import adjustmentRoutes from './routes/adjustment.routes';
+import stockTakeRoutes from './routes/stockTake.routes';
+import stockMovementRoutes from './routes/stockMovement.routes';
+import alertRoutes from './routes/alert.routes';
+import notificationRoutes from './routes/notification.routes';
+import productRoutes from './routes/product.routes';
+import colorRoutes from './routes/color.routes';
+import sizeRoutes from './routes/size.routes';
 
 const startServer = async () => {
   // Connect to MongoDB first
   await connectDB();
+  // Bring stored data up to date before serving requests that read it
+  await runMigrations();
 
   const app = express();
   const PORT = process.env.PORT || 5000;
@@ -23,6 +40,9 @@ const startServer = async () => {
     credentials: true
   }));
 
+  // Deployed behind a proxy; take the client address from X-Forwarded-For for audit events
+  app.set('trust proxy', 1);
+
   app.use(express.json());
 
   app.get('/health', (req, res) => {
@@ -34,6 +54,20 @@ const startServer = async () => {
   app.use('/api/lots', lotRoutes);
   app.use('/api/transactions', transactionRoutes);
   app.use('/api/dashboard', dashboardRoutes);
+  app.use('/api/users', userRoutes);
+  app.use('/api/customers', customerRoutes);
+  app.use('/api/receivables', receivableRoutes);
+  app.use('/api/suppliers', supplierRoutes);
+  app.use('/api/settings', settingsRoutes);
+  app.use('/api/audit', auditRoutes);
+  app.use('/api/adjustments', adjustmentRoutes);
+  app.use('/api/stock-takes', stockTakeRoutes);
+  app.use('/api/stock-movements', stockMovementRoutes);
+  app.use('/api/alerts', alertRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/products', productRoutes);
+  app.use('/api/colors', colorRoutes);
+  app.use('/api/sizes', sizeRoutes);
 
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
@@ -0,0 +1,52 @@
+import { ILot } from '../models/Lot';
+
+interface AdjustmentInput {
+  color: string;
+  size: string;
+  // Signed: negative takes stock out, positive puts it back
+  quantity: number;
+}
+
+// Apply signed stock changes to a lot in place and take the cost of anything written off out of its profit.
+// Returns the lines to record on the StockAdjustment, or an error if a variant is missing or would go negative.
+export const applyStockAdjustment = (lot: ILot, items: AdjustmentInput[]) => {
+  let totalWriteOff = 0;
+  const adjustedItems = [];
+
+  for (const item of items) {
+    const sizeItem = lot.items
+      .find((colorItem) => colorItem.color === item.color)
+      ?.sizes.find((s) => s.size === item.size);
+
+    if (!sizeItem) {
+      return { error: `${item.color} - ${item.size} not found in lot ${lot.lotNumber}`, notFound: true };
+    }
+
+    if (sizeItem.remainingQuantity + item.quantity < 0) {
+      return {
+        error: `Cannot remove ${-item.quantity} of ${item.color} - ${item.size}. In stock: ${sizeItem.remainingQuantity}`,
+        notFound: false
+      };
+    }
+
+    // Written off at what the stock cost; stock that turns up again reverses that
+    const writeOff = -item.quantity * sizeItem.purchaseCostPerPiece;
+    totalWriteOff += writeOff;
+
+    sizeItem.remainingQuantity += item.quantity;
+    sizeItem.adjustedQuantity = (sizeItem.adjustedQuantity || 0) + item.quantity;
+
+    adjustedItems.push({
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity,
+      purchaseCostPerPiece: sizeItem.purchaseCostPerPiece,
+      writeOff
+    });
+  }
+
+  lot.totalWriteOff = (lot.totalWriteOff || 0) + totalWriteOff;
+  lot.totalProfit -= totalWriteOff;
+
+  return { items: adjustedItems, totalWriteOff };
+};
@@ -0,0 +1,114 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuditEvent, { AuditEntityType, IAuditChange } from '../models/AuditEvent';
+import { ILot } from '../models/Lot';
+
+export type AuditSnapshot = Record<string, unknown>;
+
+export interface AuditInput {
+  // "<entity>.<verb>", e.g. "lot.update"
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: mongoose.Types.ObjectId | string;
+  entityLabel?: string;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  !(value instanceof Date) && !(value instanceof mongoose.Types.ObjectId);
+
+// ObjectIds and dates are stored as strings so events compare and display the same way
+const toAuditValue = (value: unknown): unknown => {
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toAuditValue(entry)]));
+  }
+  return value;
+};
+
+// Nested objects become dotted paths; arrays are compared as a whole
+const flattenSnapshot = (snapshot: AuditSnapshot, prefix = '', output: AuditSnapshot = {}) => {
+  for (const [key, value] of Object.entries(snapshot)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenSnapshot(value, path, output);
+    } else if (value !== undefined) {
+      output[path] = toAuditValue(value);
+    }
+  }
+  return output;
+};
+
+// Field-level changes between two snapshots; a missing side records a create or delete
+export const diffSnapshots = (before?: AuditSnapshot | null, after?: AuditSnapshot | null): IAuditChange[] => {
+  const flatBefore = before ? flattenSnapshot(before) : {};
+  const flatAfter = after ? flattenSnapshot(after) : {};
+  const fields = new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]);
+
+  const changes: IAuditChange[] = [];
+  for (const field of fields) {
+    if (JSON.stringify(flatBefore[field]) !== JSON.stringify(flatAfter[field])) {
+      changes.push({ field, before: flatBefore[field], after: flatAfter[field] });
+    }
+  }
+  return changes;
+};
+
+// Key variants by "color / size" so a price change reads as one field rather than an array index
+export const toLotSnapshot = (lot: ILot): AuditSnapshot => ({
+  lotNumber: lot.lotNumber,
+  supplierId: lot.supplierId,
+  totalInvestment: lot.totalInvestment,
+  lowStockThreshold: lot.lowStockThreshold,
+  deletedAt: lot.deletedAt,
+  items: Object.fromEntries(
+    lot.items.flatMap((item) =>
+      item.sizes.map((size) => [
+        `${item.color} / ${size.size}`,
+        {
+          quantity: size.quantity,
+          remainingQuantity: size.remainingQuantity,
+          adjustedQuantity: size.adjustedQuantity,
+          purchaseCostPerPiece: size.purchaseCostPerPiece,
+          sellCostPerPiece: size.sellCostPerPiece,
+          lowStockThreshold: size.lowStockThreshold
+        }
+      ])
+    )
+  )
+});
+
+// Append an event for a change made by the current user. Pass the caller's session so the
+// event commits or rolls back with the change itself.
+export const recordAuditEvent = async (req: Request, input: AuditInput, session?: mongoose.ClientSession) => {
+  if (!req.user) return;
+
+  const event = {
+    tenantId: req.user.tenantId,
+    actorId: req.user.userId,
+    actorEmail: req.user.email,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    entityLabel: input.entityLabel,
+    changes: diffSnapshots(input.before, input.after),
+    ip: req.ip
+  };
+
+  if (session) {
+    await AuditEvent.create([event], { session });
+    return;
+  }
+
+  // Without a session the change is already saved, so a failed write is logged
+  // rather than turned into a failed request
+  try {
+    await AuditEvent.create(event);
+  } catch (error) {
+    console.error('Record audit event error:', error);
+  }
+};
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+// Bar and space widths of every Code 128 symbol, in modules; 104 is Start B, 106 is Stop
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const STOP = 106;
+
+// No 0/O or 1/I, so a code read out loud or typed by hand can't be mistaken
+const BARCODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const BARCODE_LENGTH = 10;
+
+// A new variant barcode; random rather than derived from the lot, color or size so it survives renames
+export const generateBarcode = () =>
+  Array.from(crypto.randomBytes(BARCODE_LENGTH), (byte) => BARCODE_ALPHABET[byte % BARCODE_ALPHABET.length]).join('');
+
+// Scanners type whatever case the keyboard is in
+export const normalizeBarcode = (value: string) => value.trim().toUpperCase();
+
+// Alternating bar/space widths (bar first) for printable ASCII text in Code 128 set B
+export const encodeCode128 = (text: string) => {
+  const values = [...text].map((char) => {
+    const value = char.charCodeAt(0) - 32;
+    if (value < 0 || value > 95) {
+      throw new Error(`Cannot encode "${char}" in Code 128`);
+    }
+    return value;
+  });
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), START_B) % 103;
+  const symbols = [START_B, ...values, checksum, STOP];
+
+  return symbols.flatMap((symbol) => [...CODE128_PATTERNS[symbol]].map(Number));
+};
@@ -0,0 +1,28 @@
+// Amounts are stored in hundredths, so only currencies with at most two decimal places fit.
+// Any well-formed ISO 4217 code Intl can format is accepted.
+export const isSupportedCurrency = (currency: string) => {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    const format = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+    return (format.resolvedOptions().maximumFractionDigits ?? 0) <= 2;
+  } catch (error) {
+    return false;
+  }
+};
+
+// A BCP 47 tag, e.g. en-GB, that Intl can format numbers for
+export const isSupportedLocale = (locale: string) => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch (error) {
+    return false;
+  }
+};
+
+export interface CurrencyFormat {
+  currency: string;
+  locale: string;
+}
+
+export const formatMoney = (amount: number, { currency, locale }: CurrencyFormat) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
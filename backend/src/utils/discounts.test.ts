@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getDiscountAmount, getDiscountPercent, spreadSaleDiscount } from './discounts';
+
+describe('getDiscountAmount', () => {
+  it('takes a percent of the price, rounded to the cent', () => {
+    expect(getDiscountAmount(19.99, { type: 'percent', value: 15 })).toBe(3);
+  });
+
+  it('takes an amount as given', () => {
+    expect(getDiscountAmount(50, { type: 'amount', value: 7.5 })).toBe(7.5);
+  });
+
+  it('is nothing without a discount', () => {
+    expect(getDiscountAmount(50)).toBe(0);
+  });
+});
+
+describe('spreadSaleDiscount', () => {
+  it('shares the discount across lines in proportion to their value', () => {
+    const prices = spreadSaleDiscount([{ quantity: 1, price: 100 }, { quantity: 3, price: 50 }], 25);
+    expect(prices).toEqual([90, 45]);
+  });
+
+  it('rounds each price to the cent', () => {
+    expect(spreadSaleDiscount([{ quantity: 3, price: 10 }], 10)).toEqual([6.67]);
+  });
+
+  it('never takes a price below zero', () => {
+    expect(spreadSaleDiscount([{ quantity: 2, price: 10 }], 50)).toEqual([0]);
+  });
+
+  it('leaves prices alone without a discount or a subtotal', () => {
+    expect(spreadSaleDiscount([{ quantity: 2, price: 10 }], 0)).toEqual([10]);
+    expect(spreadSaleDiscount([{ quantity: 2, price: 0 }], 5)).toEqual([0]);
+  });
+});
+
+describe('getDiscountPercent', () => {
+  it('is how far the price is below the list price', () => {
+    expect(getDiscountPercent(80, 60)).toBe(25);
+  });
+
+  it('is zero for free items', () => {
+    expect(getDiscountPercent(0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,25 @@
+import { IDiscount } from '../models/Transaction';
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// A line's amount discount comes off each piece; the sale's comes off the whole subtotal
+export const getDiscountAmount = (price: number, discount?: IDiscount) => {
+  if (!discount) return 0;
+  return roundMoney(discount.type === 'percent' ? price * discount.value / 100 : discount.value);
+};
+
+// The sale discount is shared across lines in proportion to their value, so returns,
+// lot profit and reports keep working from each line's own price. Prices are rounded
+// to the cent, which can move the discount actually given by a cent or two.
+export const spreadSaleDiscount = (prices: { quantity: number; price: number }[], discountAmount: number) => {
+  const subtotal = prices.reduce((sum, line) => sum + line.quantity * line.price, 0);
+  if (subtotal <= 0 || discountAmount <= 0) {
+    return prices.map((line) => line.price);
+  }
+
+  const factor = Math.max(subtotal - discountAmount, 0) / subtotal;
+  return prices.map((line) => roundMoney(line.price * factor));
+};
+
+export const getDiscountPercent = (listPrice: number, price: number) =>
+  listPrice > 0 ? (listPrice - price) / listPrice * 100 : 0;
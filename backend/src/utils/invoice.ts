@@ -0,0 +1,185 @@
+import PDFDocument from 'pdfkit';
+import { CurrencyFormat, formatMoney } from './currency';
+
+export interface InvoiceLine {
+  lotNumber?: string;
+  color: string;
+  size: string;
+  quantity: number;
+  returnedQuantity: number;
+  listPricePerPiece?: number;
+  sellPricePerPiece: number;
+  totalAmount: number;
+  taxRate?: number;
+}
+
+// Amounts are printed in the tenant's currency and locale
+export interface InvoiceData extends CurrencyFormat {
+  businessName: string;
+  taxRegistrationNumber?: string;
+  invoiceNumber?: string;
+  createdAt: Date;
+  dueDate?: Date;
+  customer?: {
+    name: string;
+    phone?: string;
+    address?: string;
+  };
+  soldBy?: string;
+  lines: InvoiceLine[];
+  // Taken off list prices by line and sale discounts; already out of totalRevenue
+  totalDiscount: number;
+  // Prices and totalRevenue leave tax out; it's added back as its own line
+  totalRevenue: number;
+  totalTax: number;
+  totalRefunded: number;
+  taxRefunded: number;
+  amountPaid: number;
+  balanceDue: number;
+}
+
+const PAGE_MARGIN = 50;
+
+// Left edge and width of each column in the items table
+const COLUMNS = {
+  item: { x: PAGE_MARGIN, width: 200 },
+  quantity: { x: 250, width: 60 },
+  price: { x: 320, width: 100 },
+  total: { x: 430, width: 115 }
+};
+
+const formatDate = (date: Date, locale: string) =>
+  date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Write an invoice (or a receipt, once it's fully paid) to the given stream
+export const renderInvoicePdf = (invoice: InvoiceData, output: NodeJS.WritableStream) => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+  doc.pipe(output);
+
+  const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+  const isPaid = invoice.balanceDue <= 0;
+
+  // Header
+  doc.font('Helvetica-Bold').fontSize(20).text(invoice.businessName, PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica-Bold').fontSize(16)
+    .text(isPaid ? 'RECEIPT' : 'INVOICE', PAGE_MARGIN, PAGE_MARGIN, { width: pageWidth, align: 'right' });
+
+  doc.moveDown(2);
+  const detailsTop = doc.y;
+
+  // Bill to
+  doc.font('Helvetica-Bold').fontSize(10).text('Bill To', PAGE_MARGIN, detailsTop);
+  doc.font('Helvetica').fontSize(10);
+  if (invoice.customer) {
+    doc.text(invoice.customer.name);
+    if (invoice.customer.phone) doc.text(invoice.customer.phone);
+    if (invoice.customer.address) doc.text(invoice.customer.address);
+  } else {
+    doc.text('Walk-in customer');
+  }
+  const billToBottom = doc.y;
+
+  // Invoice details
+  const details: [string, string][] = [
+    ['Invoice #', invoice.invoiceNumber || '—'],
+    ['Date', formatDate(invoice.createdAt, invoice.locale)]
+  ];
+  if (invoice.dueDate && !isPaid) {
+    details.push(['Due', formatDate(invoice.dueDate, invoice.locale)]);
+  }
+  if (invoice.soldBy) {
+    details.push(['Sold By', invoice.soldBy]);
+  }
+  if (invoice.taxRegistrationNumber) {
+    details.push(['Tax Reg. No.', invoice.taxRegistrationNumber]);
+  }
+
+  doc.y = detailsTop;
+  for (const [label, value] of details) {
+    const y = doc.y;
+    doc.font('Helvetica-Bold').text(label, 330, y, { width: 80 });
+    doc.font('Helvetica').text(value, 410, y, { width: pageWidth + PAGE_MARGIN - 410, align: 'right' });
+  }
+
+  doc.y = Math.max(doc.y, billToBottom) + 30;
+
+  // Items table
+  const drawRow = (cells: Record<keyof typeof COLUMNS, string>, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(cells.item, COLUMNS.item.x, y, { width: COLUMNS.item.width });
+    const itemBottom = doc.y;
+    doc.text(cells.quantity, COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+    doc.text(cells.price, COLUMNS.price.x, y, { width: COLUMNS.price.width, align: 'right' });
+    doc.text(cells.total, COLUMNS.total.x, y, { width: COLUMNS.total.width, align: 'right' });
+    doc.y = Math.max(itemBottom, doc.y) + 6;
+  };
+
+  const drawRule = () => {
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + pageWidth, doc.y).strokeColor('#d1d5db').stroke();
+    doc.y += 6;
+  };
+
+  drawRow({ item: 'Item', quantity: 'Qty', price: 'Unit Price', total: 'Amount' }, true);
+  drawRule();
+
+  for (const line of invoice.lines) {
+    // Start a new page rather than splitting a row across pages
+    if (doc.y > doc.page.height - PAGE_MARGIN - 120) {
+      doc.addPage();
+    }
+
+    const label = `${line.color} - ${line.size}${line.lotNumber ? ` (${line.lotNumber})` : ''}`;
+    const notes = [];
+    if (line.listPricePerPiece !== undefined && line.listPricePerPiece > line.sellPricePerPiece) {
+      notes.push(`List ${formatMoney(line.listPricePerPiece, invoice)}`);
+    }
+    if (line.taxRate) {
+      notes.push(`Tax ${line.taxRate}%`);
+    }
+    if (line.returnedQuantity > 0) {
+      notes.push(`${line.returnedQuantity} returned`);
+    }
+    drawRow({
+      item: [label, ...notes].join('\n'),
+      quantity: line.quantity.toString(),
+      price: formatMoney(line.sellPricePerPiece, invoice),
+      total: formatMoney(line.totalAmount, invoice)
+    });
+  }
+
+  drawRule();
+
+  // Totals
+  const totals: [string, string][] = [];
+  if (invoice.totalDiscount > 0) {
+    totals.push(['List Total', formatMoney(invoice.totalRevenue + invoice.totalDiscount, invoice)]);
+    totals.push(['Discount', `-${formatMoney(invoice.totalDiscount, invoice)}`]);
+  }
+  totals.push(['Subtotal', formatMoney(invoice.totalRevenue, invoice)]);
+  if (invoice.totalTax > 0) {
+    totals.push(['Tax', formatMoney(invoice.totalTax, invoice)]);
+  }
+  const refunded = invoice.totalRefunded + invoice.taxRefunded;
+  if (refunded > 0) {
+    totals.push(['Refunded', `-${formatMoney(refunded, invoice)}`]);
+  }
+  totals.push(['Total', formatMoney(invoice.totalRevenue + invoice.totalTax - refunded, invoice)]);
+  totals.push(['Paid', formatMoney(invoice.amountPaid, invoice)]);
+  totals.push(['Balance Due', formatMoney(invoice.balanceDue, invoice)]);
+
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    const bold = label === 'Total' || label === 'Balance Due';
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(label, COLUMNS.price.x, y, { width: COLUMNS.price.width, align: 'right' });
+    doc.text(value, COLUMNS.total.x, y, { width: COLUMNS.total.width, align: 'right' });
+    doc.y += 4;
+  }
+
+  doc.moveDown(3);
+  doc.font('Helvetica').fontSize(9).fillColor('#6b7280')
+    .text('Thank you for your business.', PAGE_MARGIN, doc.y, { width: pageWidth, align: 'center' });
+
+  doc.end();
+};
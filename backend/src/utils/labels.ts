@@ -0,0 +1,72 @@
+import PDFDocument from 'pdfkit';
+import { encodeCode128 } from './barcode';
+import { CurrencyFormat, formatMoney } from './currency';
+
+export interface Label {
+  lotNumber: string;
+  color: string;
+  size: string;
+  sellPricePerPiece: number;
+  barcode: string;
+}
+
+// A4 sheet of 3 x 8 labels, the common 70 x 37mm sticker layout
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_PADDING = 8;
+// Blank modules either side of the bars so scanners find where the code starts
+const QUIET_ZONE = 10;
+
+const drawBarcode = (doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number, height: number) => {
+  const widths = encodeCode128(text);
+  const modules = widths.reduce((sum, value) => sum + value, 0) + QUIET_ZONE * 2;
+  const moduleWidth = width / modules;
+
+  let cursor = x + QUIET_ZONE * moduleWidth;
+  widths.forEach((value, index) => {
+    // Even positions are bars, odd positions the spaces between them
+    if (index % 2 === 0) {
+      doc.rect(cursor, y, value * moduleWidth, height).fill('#000000');
+    }
+    cursor += value * moduleWidth;
+  });
+};
+
+// Write a sheet of price labels, each with its variant's Code 128 barcode, to the given stream
+export const renderLabelSheetPdf = (
+  businessName: string,
+  currency: CurrencyFormat,
+  labels: Label[],
+  output: NodeJS.WritableStream
+) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 0 });
+  doc.pipe(output);
+
+  const labelWidth = doc.page.width / COLUMNS;
+  const labelHeight = doc.page.height / ROWS;
+  const innerWidth = labelWidth - LABEL_PADDING * 2;
+
+  labels.forEach((label, index) => {
+    const position = index % (COLUMNS * ROWS);
+    if (index > 0 && position === 0) {
+      doc.addPage();
+    }
+
+    const x = (position % COLUMNS) * labelWidth + LABEL_PADDING;
+    const y = Math.floor(position / COLUMNS) * labelHeight + LABEL_PADDING;
+
+    doc.fillColor('#666666').font('Helvetica').fontSize(7)
+      .text(`${businessName} • ${label.lotNumber}`, x, y, { width: innerWidth, lineBreak: false, ellipsis: true });
+    doc.fillColor('#000000').font('Helvetica-Bold').fontSize(10)
+      .text(`${label.color} / ${label.size}`, x, y + 10, { width: innerWidth * 0.65, lineBreak: false, ellipsis: true });
+    doc.font('Helvetica-Bold').fontSize(10)
+      .text(formatMoney(label.sellPricePerPiece, currency), x, y + 10, { width: innerWidth, align: 'right', lineBreak: false });
+
+    drawBarcode(doc, label.barcode, x, y + 26, innerWidth, labelHeight - LABEL_PADDING * 2 - 38);
+
+    doc.fillColor('#000000').font('Courier').fontSize(8)
+      .text(label.barcode, x, y + labelHeight - LABEL_PADDING * 2 - 9, { width: innerWidth, align: 'center', lineBreak: false });
+  });
+
+  doc.end();
+};
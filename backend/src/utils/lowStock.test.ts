@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getLowStockThreshold } from './lowStock';
+
+describe('getLowStockThreshold', () => {
+  it("takes the variant's own threshold first", () => {
+    expect(getLowStockThreshold({ lowStockThreshold: 10 }, { lowStockThreshold: 2 }, 5)).toBe(2);
+  });
+
+  it("falls back to the lot's, then the tenant default", () => {
+    expect(getLowStockThreshold({ lowStockThreshold: 10 }, {}, 5)).toBe(10);
+    expect(getLowStockThreshold({}, {}, 5)).toBe(5);
+  });
+
+  it('keeps a threshold of 0, which turns alerts off', () => {
+    expect(getLowStockThreshold({ lowStockThreshold: 10 }, { lowStockThreshold: 0 }, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import Lot, { ILot } from '../models/Lot';
+import Notification from '../models/Notification';
+import Tenant from '../models/Tenant';
+
+export interface LowStockAlert {
+  lotId: mongoose.Types.ObjectId;
+  lotNumber: string;
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  threshold: number;
+}
+
+const alertKey = (lotId: mongoose.Types.ObjectId | string, color: string, size: string) =>
+  `${lotId.toString()}\u0000${color}\u0000${size}`;
+
+// A variant's own threshold wins over its lot's, and the lot's over the tenant default
+export const getLowStockThreshold = (
+  lot: Pick<ILot, 'lowStockThreshold'>,
+  sizeItem: { lowStockThreshold?: number },
+  defaultThreshold: number
+) => sizeItem.lowStockThreshold ?? lot.lowStockThreshold ?? defaultThreshold;
+
+// Variants of current lots with fewer pieces left than their threshold, emptiest first. Pass
+// lotIds to only look at those lots.
+export const findLowStock = async (
+  tenantId: mongoose.Types.ObjectId,
+  defaultThreshold: number,
+  lotIds?: mongoose.Types.ObjectId[]
+): Promise<LowStockAlert[]> => {
+  const lots = await Lot.find({ tenantId, deletedAt: null, ...(lotIds && { _id: { $in: lotIds } }) })
+    .select('lotNumber items lowStockThreshold');
+
+  const alerts: LowStockAlert[] = [];
+  for (const lot of lots) {
+    // A sold-out lot is finished stock, not stock about to run out
+    if (lot.items.every((colorItem) => colorItem.sizes.every((sizeItem) => sizeItem.remainingQuantity === 0))) {
+      continue;
+    }
+
+    for (const colorItem of lot.items) {
+      for (const sizeItem of colorItem.sizes) {
+        const threshold = getLowStockThreshold(lot, sizeItem, defaultThreshold);
+        if (sizeItem.remainingQuantity < threshold) {
+          alerts.push({
+            lotId: lot._id as mongoose.Types.ObjectId,
+            lotNumber: lot.lotNumber,
+            color: colorItem.color,
+            size: sizeItem.size,
+            remainingQuantity: sizeItem.remainingQuantity,
+            threshold
+          });
+        }
+      }
+    }
+  }
+
+  return alerts.sort((a, b) =>
+    a.remainingQuantity - b.remainingQuantity || a.lotNumber.localeCompare(b.lotNumber)
+  );
+};
+
+// Open a notification for every variant that has newly gone low and resolve the ones that have
+// recovered, within lotIds when given. Stock changes on many paths, so this reconciles against
+// current levels instead of each of them raising alerts itself.
+const syncLowStockNotifications = async (
+  tenantId: mongoose.Types.ObjectId,
+  alerts: LowStockAlert[],
+  lotIds?: mongoose.Types.ObjectId[]
+) => {
+  const open = await Notification.find({
+    tenantId,
+    type: 'low_stock',
+    resolvedAt: null,
+    ...(lotIds && { lotId: { $in: lotIds } })
+  }).select('lotId color size');
+  const current = new Set(alerts.map((alert) => alertKey(alert.lotId, alert.color, alert.size)));
+
+  const recovered = open
+    .filter((notification) => !current.has(alertKey(notification.lotId, notification.color, notification.size)))
+    .map((notification) => notification._id);
+
+  if (recovered.length > 0) {
+    await Notification.updateMany({ _id: { $in: recovered } }, { $set: { resolvedAt: new Date() } });
+  }
+
+  if (alerts.length === 0) return;
+
+  // Existing notifications only have their counts refreshed, so they keep their read state
+  await Notification.bulkWrite(alerts.map((alert) => ({
+    updateOne: {
+      filter: {
+        tenantId,
+        type: 'low_stock',
+        lotId: alert.lotId,
+        color: alert.color,
+        size: alert.size,
+        resolvedAt: null
+      },
+      update: {
+        $set: {
+          lotNumber: alert.lotNumber,
+          remainingQuantity: alert.remainingQuantity,
+          threshold: alert.threshold
+        },
+        $setOnInsert: {
+          readBy: [],
+          createdAt: new Date()
+        }
+      },
+      upsert: true
+    }
+  })));
+};
+
+// Bring notifications up to date after stock, thresholds or lots change: for lotIds, or every
+// lot of the tenant when left out. Call it once the change has committed. A failure is only
+// logged, since the change itself went through and the lot's next change catches up.
+export const refreshLowStockNotifications = async (
+  tenantId: mongoose.Types.ObjectId,
+  lotIds?: (mongoose.Types.ObjectId | string)[]
+) => {
+  try {
+    const tenant = await Tenant.findById(tenantId).select('settings.lowStockThreshold');
+    if (!tenant) return;
+
+    const ids = lotIds?.map((lotId) => new mongoose.Types.ObjectId(lotId.toString()));
+    const alerts = await findLowStock(tenantId, tenant.settings.lowStockThreshold, ids);
+    await syncLowStockNotifications(tenantId, alerts, ids);
+  } catch (error) {
+    console.error('Low-stock notification refresh error:', error);
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { applyTax } from './tax';
+import { getBalanceDue, getNetTotal, getPaymentStatus, getRefundShare } from './payments';
+
+describe('getRefundShare', () => {
+  it('refunds in proportion to the pieces returned', () => {
+    expect(getRefundShare(6, 3, 0, 1)).toBe(2);
+  });
+
+  it('gives back exactly the line amount over several returns', () => {
+    const refunds = [getRefundShare(1, 3, 0, 1), getRefundShare(1, 3, 1, 1), getRefundShare(1, 3, 2, 1)];
+    expect(refunds).toEqual([0.33, 0.34, 0.33]);
+    expect(refunds.reduce((sum, refund) => sum + refund, 0)).toBeCloseTo(1, 10);
+  });
+
+  it('refunds the whole amount when everything comes back at once', () => {
+    expect(getRefundShare(4.99, 3, 0, 3)).toBe(4.99);
+  });
+
+  it('gives back the quoted total on a full return of a tax-inclusive line', () => {
+    // 3 at 10.00 including 20% tax: the net per piece rounds to 8.33, but the line is 20.83 + 4.17
+    const line = applyTax(3, 10, 20, true);
+    const net = getRefundShare(line.totalAmount, 3, 0, 3);
+    const tax = getRefundShare(line.taxAmount, 3, 0, 3);
+
+    expect(net).toBe(line.totalAmount);
+    expect(tax).toBe(line.taxAmount);
+    expect(net + tax).toBeCloseTo(30, 10);
+    expect(getPaymentStatus({
+      totalRevenue: line.totalAmount,
+      totalTax: line.taxAmount,
+      totalRefunded: net,
+      taxRefunded: tax,
+      amountPaid: 0
+    })).toBe('paid');
+  });
+});
+
+describe('getBalanceDue', () => {
+  it('takes refunds and payments off the charged total', () => {
+    const transaction = { totalRevenue: 100, totalTax: 20, totalRefunded: 10, taxRefunded: 2, amountPaid: 50 };
+    expect(getNetTotal(transaction)).toBe(108);
+    expect(getBalanceDue(transaction)).toBe(58);
+    expect(getPaymentStatus(transaction)).toBe('partial');
+  });
+
+  it('treats sales without a recorded payment as paid in full', () => {
+    expect(getBalanceDue({ totalRevenue: 0.1, totalTax: 0.2 })).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { sumMoney } from '../models/money';
+import { roundMoney } from './discounts';
+
+// Floating point money can leave a fraction of a cent behind
+export const SETTLED_TOLERANCE = 0.005;
+
+interface PayableTransaction {
+  totalRevenue: number;
+  totalTax?: number;
+  totalRefunded?: number;
+  taxRefunded?: number;
+  amountPaid?: number;
+}
+
+// What the customer was charged, tax included, less what was refunded
+export const getNetTotal = (transaction: PayableTransaction) => sumMoney([
+  transaction.totalRevenue,
+  transaction.totalTax || 0,
+  -(transaction.totalRefunded || 0),
+  -(transaction.taxRefunded || 0)
+]);
+
+// What the customer still owes once refunds and payments are taken off
+export const getBalanceDue = (transaction: PayableTransaction) => {
+  const netTotal = getNetTotal(transaction);
+  const amountPaid = transaction.amountPaid ?? netTotal;
+  return Math.max(sumMoney([netTotal, -amountPaid]), 0);
+};
+
+export const getPaymentStatus = (transaction: PayableTransaction): 'paid' | 'partial' | 'unpaid' => {
+  if (getBalanceDue(transaction) <= SETTLED_TOLERANCE) return 'paid';
+  return (transaction.amountPaid || 0) > 0 ? 'partial' : 'unpaid';
+};
+
+// The part of a line amount, net or tax, given back when some of its pieces are returned. It's
+// worked out on the running total rather than a per-piece price, so returning every piece, over
+// any number of returns, gives back exactly the line's amount.
+export const getRefundShare = (lineAmount: number, quantitySold: number, returnedBefore: number, quantity: number) =>
+  roundMoney(
+    roundMoney(lineAmount * (returnedBefore + quantity) / quantitySold) - roundMoney(lineAmount * returnedBefore / quantitySold)
+  );
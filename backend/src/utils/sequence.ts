@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import Tenant, { ITenant } from '../models/Tenant';
+
+interface SequenceFormat {
+  format: string;
+  prefix: string;
+  padding: number;
+}
+
+// Where each numbered sequence keeps its pattern and counter in tenant settings
+const SEQUENCE_FIELDS = {
+  invoice: {
+    prefix: 'invoicePrefix',
+    format: 'invoiceFormat',
+    padding: 'invoicePadding',
+    counter: 'invoiceSequence'
+  },
+  lot: {
+    prefix: 'lotPrefix',
+    format: 'lotFormat',
+    padding: 'lotPadding',
+    counter: 'lotSequence'
+  }
+} as const;
+
+export type SequenceKind = keyof typeof SEQUENCE_FIELDS;
+
+// Fill in {prefix}, {year} and {number} (e.g., "{prefix}{year}-{number}" -> "INV-2025-00042")
+export const formatSequenceNumber = (
+  { format, prefix, padding }: SequenceFormat,
+  value: number,
+  date: Date = new Date()
+) =>
+  format
+    .replace(/\{prefix\}/g, prefix)
+    .replace(/\{year\}/g, date.getFullYear().toString())
+    .replace(/\{number\}/g, value.toString().padStart(padding, '0'));
+
+export const getSequenceFormat = (settings: ITenant['settings'], kind: SequenceKind): SequenceFormat => {
+  const fields = SEQUENCE_FIELDS[kind];
+  return {
+    format: settings[fields.format],
+    prefix: settings[fields.prefix],
+    padding: settings[fields.padding]
+  };
+};
+
+// Last number handed out, so the next one is this + 1
+export const getSequenceCounter = (settings: ITenant['settings'], kind: SequenceKind) =>
+  settings[SEQUENCE_FIELDS[kind].counter] || 0;
+
+export const getSequenceCounterPath = (kind: SequenceKind) => `settings.${SEQUENCE_FIELDS[kind].counter}`;
+
+// Atomically claim the tenant's next number. Pass the caller's session to roll the
+// counter back with it, which is what keeps invoice numbers gap-free; concurrent
+// transactions then conflict on the counter, so the caller has to retry them.
+export const claimSequenceNumber = async (
+  tenantId: mongoose.Types.ObjectId,
+  kind: SequenceKind,
+  session?: mongoose.ClientSession
+) => {
+  const tenant = await Tenant.findOneAndUpdate(
+    { _id: tenantId },
+    { $inc: { [getSequenceCounterPath(kind)]: 1 } },
+    { new: true, session }
+  );
+
+  if (!tenant) {
+    throw new Error('Tenant not found');
+  }
+
+  return formatSequenceNumber(
+    getSequenceFormat(tenant.settings, kind),
+    getSequenceCounter(tenant.settings, kind)
+  );
+};
+
+// Numbers typed by hand (or issued before the sequence existed) can land on the sequence,
+// so keep claiming until one is free; give up after this many taken numbers in a row
+const MAX_CLAIM_ATTEMPTS = 100;
+
+export const claimUnusedSequenceNumber = async (
+  tenantId: mongoose.Types.ObjectId,
+  kind: SequenceKind,
+  isTaken: (value: string) => Promise<unknown>,
+  session?: mongoose.ClientSession
+) => {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const value = await claimSequenceNumber(tenantId, kind, session);
+    if (!(await isTaken(value))) {
+      return value;
+    }
+  }
+
+  throw new Error(`No free ${kind} number found`);
+};
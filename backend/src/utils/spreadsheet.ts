@@ -0,0 +1,59 @@
+import ExcelJS from 'exceljs';
+import { parseCsv } from './csv';
+
+export interface SpreadsheetFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+// Header-keyed rows plus the sheet row number of each, for error reporting
+export interface SpreadsheetRow {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+// "Purchase Cost / Piece" -> "purchasecostpiece"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const readXlsx = async (buffer: Buffer) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = cell.text;
+    });
+    rows.push(Array.from(cells, (cell) => cell ?? ''));
+  });
+  return rows;
+};
+
+// Read the first sheet of a CSV or XLSX upload; throws for other file types or unreadable files
+export const readSpreadsheetRows = async (file: SpreadsheetFile): Promise<SpreadsheetRow[]> => {
+  const extension = file.originalname.toLowerCase().split('.').pop();
+
+  let rows: string[][];
+  if (extension === 'xlsx') {
+    rows = await readXlsx(file.buffer);
+  } else if (extension === 'csv') {
+    rows = parseCsv(file.buffer.toString('utf8'));
+  } else {
+    throw new Error(`Unsupported file type: ${extension}`);
+  }
+
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map((header) => normalizeHeader(header));
+
+  return dataRows
+    .map((cells, index) => ({
+      rowNumber: index + 2,
+      values: Object.fromEntries(headers.map((header, column) => [header, (cells[column] ?? '').trim()]))
+    }))
+    // Trailing blank lines are common in exported sheets
+    .filter((row) => Object.values(row.values).some((value) => value !== ''));
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ILot } from '../models/Lot';
+import { compareWithLedger, LedgerBalance } from './stockMovements';
+
+const lot = {
+  items: [{ color: 'Black', sizes: [{ size: 'M', remainingQuantity: 8 }, { size: 'L', remainingQuantity: 5 }] }]
+} as unknown as ILot;
+
+const ledger = (entries: [string, LedgerBalance][]) =>
+  new Map(entries.map(([variant, balance]) => [variant.replace(' ', '\u0000'), balance]));
+
+describe('compareWithLedger', () => {
+  it('finds nothing when the ledger adds up to the stock', () => {
+    const balances = ledger([
+      ['Black M', { quantity: 8, hasOpeningBalance: true }],
+      ['Black L', { quantity: 5, hasOpeningBalance: true }]
+    ]);
+    expect(compareWithLedger(lot, balances)).toEqual([]);
+  });
+
+  it('reports variants whose stock differs from the ledger', () => {
+    const balances = ledger([
+      ['Black M', { quantity: 6, hasOpeningBalance: true }],
+      ['Black L', { quantity: 5, hasOpeningBalance: true }]
+    ]);
+    expect(compareWithLedger(lot, balances)).toEqual([
+      { color: 'Black', size: 'M', remainingQuantity: 8, ledgerQuantity: 6 }
+    ]);
+  });
+
+  it('flags variants with no opening balance instead of reading them as empty', () => {
+    const balances = ledger([['Black M', { quantity: -2, hasOpeningBalance: false }]]);
+    expect(compareWithLedger(lot, balances)).toEqual([
+      { color: 'Black', size: 'M', remainingQuantity: 8, ledgerQuantity: -2, missingOpeningBalance: true },
+      { color: 'Black', size: 'L', remainingQuantity: 5, ledgerQuantity: 0, missingOpeningBalance: true }
+    ]);
+  });
+
+  it('reports movements for variants the lot no longer has', () => {
+    const balances = ledger([
+      ['Black M', { quantity: 8, hasOpeningBalance: true }],
+      ['Black L', { quantity: 5, hasOpeningBalance: true }],
+      ['Black S', { quantity: 3, hasOpeningBalance: true }]
+    ]);
+    expect(compareWithLedger(lot, balances)).toEqual([
+      { color: 'Black', size: 'S', remainingQuantity: 0, ledgerQuantity: 3 }
+    ]);
+  });
+});
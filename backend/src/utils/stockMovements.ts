@@ -0,0 +1,161 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { ILot } from '../models/Lot';
+import StockMovement, { StockMovementType } from '../models/StockMovement';
+
+export interface StockMovementInput {
+  lotId: mongoose.Types.ObjectId | string;
+  color: string;
+  size: string;
+  type: StockMovementType;
+  // Signed: positive puts stock into the lot, negative takes it out
+  quantity: number;
+  referenceId?: mongoose.Types.ObjectId | string;
+  note?: string;
+}
+
+export interface LedgerMismatch {
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  ledgerQuantity: number;
+  // The variant's ledger doesn't start with a receive, so its sum isn't a stock level
+  missingOpeningBalance?: boolean;
+}
+
+export interface LedgerBalance {
+  quantity: number;
+  // Every variant's history starts with the stock it was received with. One that doesn't was
+  // stocked before the ledger existed and needs an opening balance; see config/migrations.ts
+  hasOpeningBalance: boolean;
+}
+
+export const OPENING_BALANCE_NOTE = 'Opening balance';
+
+const stockKey = (color: string, size: string) => `${color}\u0000${size}`;
+
+// Current remaining quantity of every variant, keyed by color and size
+export const getStockLevels = (lot: ILot) => {
+  const levels = new Map<string, { color: string; size: string; quantity: number }>();
+  for (const colorItem of lot.items) {
+    for (const sizeItem of colorItem.sizes) {
+      levels.set(stockKey(colorItem.color, sizeItem.size), {
+        color: colorItem.color,
+        size: sizeItem.size,
+        quantity: sizeItem.remainingQuantity
+      });
+    }
+  }
+  return levels;
+};
+
+// Movements that take a lot from the stock levels it had before a change to the ones it has now.
+// A brand new lot passes an empty map, so every variant is received in full.
+export const getStockChanges = (
+  before: ReturnType<typeof getStockLevels>,
+  lot: ILot,
+  type: StockMovementType,
+  note?: string
+): StockMovementInput[] => {
+  const after = getStockLevels(lot);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+
+  return [...keys].map((key) => {
+    const variant = (after.get(key) ?? before.get(key))!;
+    return {
+      lotId: lot._id as mongoose.Types.ObjectId,
+      color: variant.color,
+      size: variant.size,
+      type,
+      quantity: (after.get(key)?.quantity ?? 0) - (before.get(key)?.quantity ?? 0),
+      note
+    };
+  });
+};
+
+// Append ledger entries for a stock change made by the current user; zero quantities are skipped.
+// Pass the caller's session so the ledger commits or rolls back with the counters it explains.
+export const recordStockMovements = async (
+  req: Request,
+  movements: StockMovementInput[],
+  session?: mongoose.ClientSession
+) => {
+  if (!req.user) return;
+
+  const docs = movements
+    .filter((movement) => movement.quantity !== 0)
+    .map((movement) => ({
+      ...movement,
+      tenantId: req.user!.tenantId,
+      createdBy: req.user!.userId
+    }));
+
+  if (docs.length === 0) return;
+
+  await StockMovement.insertMany(docs, { session });
+};
+
+// Net ledger quantity per lot and variant, keyed by lot ID then color and size
+export const getLedgerBalances = async (
+  tenantId: mongoose.Types.ObjectId,
+  lotIds?: mongoose.Types.ObjectId[]
+) => {
+  const match: any = { tenantId };
+  if (lotIds) {
+    match.lotId = { $in: lotIds };
+  }
+
+  const rows = await StockMovement.aggregate([
+    { $match: match },
+    { $sort: { createdAt: 1, _id: 1 } },
+    {
+      $group: {
+        _id: { lotId: '$lotId', color: '$color', size: '$size' },
+        quantity: { $sum: '$quantity' },
+        firstType: { $first: '$type' }
+      }
+    }
+  ]);
+
+  const balances = new Map<string, Map<string, LedgerBalance>>();
+  for (const row of rows) {
+    const lotId = row._id.lotId.toString();
+    const lotBalances = balances.get(lotId) ?? new Map<string, LedgerBalance>();
+    lotBalances.set(stockKey(row._id.color, row._id.size), {
+      quantity: row.quantity,
+      hasOpeningBalance: row.firstType === 'receive'
+    });
+    balances.set(lotId, lotBalances);
+  }
+  return balances;
+};
+
+// Variants whose remainingQuantity disagrees with the ledger
+export const compareWithLedger = (lot: ILot, ledger: Map<string, LedgerBalance> = new Map()): LedgerMismatch[] => {
+  const mismatches: LedgerMismatch[] = [];
+  const levels = getStockLevels(lot);
+
+  for (const [key, variant] of levels) {
+    const balance = ledger.get(key);
+    const ledgerQuantity = balance?.quantity ?? 0;
+    if (ledgerQuantity !== variant.quantity) {
+      mismatches.push({
+        color: variant.color,
+        size: variant.size,
+        remainingQuantity: variant.quantity,
+        ledgerQuantity,
+        ...(!balance?.hasOpeningBalance && { missingOpeningBalance: true })
+      });
+    }
+  }
+
+  // Movements for a variant the lot no longer has
+  for (const [key, balance] of ledger) {
+    if (!levels.has(key) && balance.quantity !== 0) {
+      const [color, size] = key.split('\u0000');
+      mismatches.push({ color, size, remainingQuantity: 0, ledgerQuantity: balance.quantity });
+    }
+  }
+
+  return mismatches;
+};
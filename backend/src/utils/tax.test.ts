@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { applyTax, getNetPrice } from './tax';
+
+describe('getNetPrice', () => {
+  it('takes the tax out of inclusive prices', () => {
+    expect(getNetPrice(12, 20, true)).toBe(10);
+  });
+
+  it('leaves exclusive and untaxed prices alone', () => {
+    expect(getNetPrice(12, 20, false)).toBe(12);
+    expect(getNetPrice(12, 0, true)).toBe(12);
+  });
+});
+
+describe('applyTax', () => {
+  it('adds tax on top of exclusive prices', () => {
+    expect(applyTax(3, 9.99, 20, false)).toEqual({ netPricePerPiece: 9.99, totalAmount: 29.97, taxAmount: 5.99 });
+  });
+
+  it('splits the line total of inclusive prices, not the rounded piece price', () => {
+    expect(applyTax(1000, 10, 20, true)).toEqual({ netPricePerPiece: 8.33, totalAmount: 8333.33, taxAmount: 1666.67 });
+  });
+
+  it('keeps inclusive lines at exactly the quoted total', () => {
+    const { totalAmount, taxAmount } = applyTax(7, 3.99, 17.5, true);
+    expect(totalAmount + taxAmount).toBeCloseTo(27.93, 10);
+  });
+
+  it('charges no tax at a zero rate', () => {
+    expect(applyTax(2, 5, 0, true)).toEqual({ netPricePerPiece: 5, totalAmount: 10, taxAmount: 0 });
+    expect(applyTax(2, 5, 0, false)).toEqual({ netPricePerPiece: 5, totalAmount: 10, taxAmount: 0 });
+  });
+});
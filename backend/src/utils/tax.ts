@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+import { ITaxRate } from '../models/Tenant';
+import { roundMoney } from './discounts';
+
+// A line takes its product's rate, or the tenant's default; no rate means it isn't taxed
+export const resolveTaxRate = (rates: ITaxRate[], taxRateId?: mongoose.Types.ObjectId | null) =>
+  (taxRateId && rates.find((rate) => rate._id.equals(taxRateId))) || rates.find((rate) => rate.isDefault);
+
+// The part of a price that isn't tax
+export const getNetPrice = (price: number, rate: number, pricesIncludeTax: boolean) =>
+  pricesIncludeTax && rate > 0 ? roundMoney(price / (1 + rate / 100)) : price;
+
+// Splits a line into its net total and tax. When prices include tax, the line total is
+// split rather than the per-piece price, so rounding one piece isn't multiplied by the
+// quantity and the line still comes to exactly what the customer was quoted.
+export const applyTax = (quantity: number, price: number, rate: number, pricesIncludeTax: boolean) => {
+  const netPricePerPiece = getNetPrice(price, rate, pricesIncludeTax);
+  if (pricesIncludeTax) {
+    const totalAmount = roundMoney(quantity * price / (1 + rate / 100));
+    return { netPricePerPiece, totalAmount, taxAmount: roundMoney(roundMoney(quantity * price) - totalAmount) };
+  }
+
+  const totalAmount = roundMoney(quantity * price);
+  return { netPricePerPiece, totalAmount, taxAmount: roundMoney(totalAmount * rate / 100) };
+};
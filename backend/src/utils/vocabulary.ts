@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import Color from '../models/Color';
+import Size from '../models/Size';
+
+// A tenant's color or size list, looked up by any spelling
+export interface TermList {
+  // Canonical name by lowercased name or alias
+  names: Map<string, string>;
+  // Position of each canonical name in the tenant's ordering
+  order: Map<string, number>;
+}
+
+export interface Vocabulary {
+  colors: TermList;
+  sizes: TermList;
+}
+
+interface TermDoc {
+  name: string;
+  aliases: string[];
+}
+
+export const toTermKey = (value: string) => value.trim().toLowerCase();
+
+const buildTermList = (terms: TermDoc[]): TermList => {
+  const names = new Map<string, string>();
+  const order = new Map<string, number>();
+
+  terms.forEach((term, index) => {
+    names.set(toTermKey(term.name), term.name);
+    for (const alias of term.aliases) {
+      names.set(toTermKey(alias), term.name);
+    }
+    order.set(term.name, index);
+  });
+
+  return { names, order };
+};
+
+export const getVocabulary = async (tenantId: mongoose.Types.ObjectId): Promise<Vocabulary> => {
+  const [colors, sizes] = await Promise.all([
+    Color.find({ tenantId }).sort({ sortOrder: 1, name: 1 }).select('name aliases'),
+    Size.find({ tenantId }).sort({ sortOrder: 1, name: 1 }).select('name aliases')
+  ]);
+
+  return { colors: buildTermList(colors), sizes: buildTermList(sizes) };
+};
+
+// Canonical spelling of a color or size; names the list doesn't know come back trimmed as typed
+export const resolveTerm = (list: TermList, value: string) =>
+  list.names.get(toTermKey(value)) ?? value.trim();
+
+// Whether two spellings name the same color or size, e.g. "black", "Black" and "BLK"
+export const isSameTerm = (list: TermList, a: string, b: string) =>
+  toTermKey(resolveTerm(list, a)) === toTermKey(resolveTerm(list, b));
+
+// An empty list accepts anything, so tenants that haven't set one up keep typing freely
+const isKnownTerm = (list: TermList, value: string) =>
+  list.names.size === 0 || list.names.has(toTermKey(value));
+
+// Listed sizes in the tenant's order, anything unlisted after them
+export const compareTerms = (list: TermList, a: string, b: string) =>
+  (list.order.get(a) ?? Infinity) - (list.order.get(b) ?? Infinity) || 0;
+
+// Resolve a product's default colors or sizes; returns an error message for unknown names
+export const normalizeTerms = (list: TermList, values: string[], label: 'Color' | 'Size') => {
+  const unknown = values.find((value) => !isKnownTerm(list, value));
+  if (unknown) return { error: `${label} "${unknown.trim()}" is not in the ${label.toLowerCase()} list` };
+
+  const resolved = values.map((value) => resolveTerm(list, value));
+  return { values: resolved.filter((value, index) => resolved.findIndex((other) => toTermKey(other) === toTermKey(value)) === index) };
+};
+
+interface LotItemInput {
+  color: string;
+  sizes: { size: string }[];
+}
+
+interface CurrentLotItem {
+  color: string;
+  sizes: { size: string }[];
+}
+
+// Spell lot colors and sizes the way the tenant's lists do, with sizes in list order.
+// Variants already on the lot being edited keep their spelling, so their history still matches,
+// and may stay even if they were never added to the lists.
+export const normalizeLotItems = <T extends LotItemInput>(
+  vocabulary: Vocabulary,
+  items: T[],
+  current: CurrentLotItem[] = []
+): { items: T[] } | { error: string } => {
+  const normalized: T[] = [];
+  const seenColors = new Set<string>();
+
+  for (const colorItem of items) {
+    const currentColor = current.find((item) => item.color === colorItem.color)
+      ?? current.find((item) => isSameTerm(vocabulary.colors, item.color, colorItem.color));
+    if (!currentColor && !isKnownTerm(vocabulary.colors, colorItem.color)) {
+      return { error: `Color "${colorItem.color.trim()}" is not in the color list` };
+    }
+
+    const color = currentColor?.color ?? resolveTerm(vocabulary.colors, colorItem.color);
+    // Lots from before the lists may hold "black" and "Black" apart; those stay distinct
+    const colorKey = currentColor ? color : toTermKey(color);
+    if (seenColors.has(colorKey)) {
+      return { error: `${color} is listed more than once` };
+    }
+    seenColors.add(colorKey);
+
+    const sizes = [];
+    const seenSizes = new Set<string>();
+    for (const sizeItem of colorItem.sizes) {
+      const currentSize = currentColor?.sizes.find((item) => item.size === sizeItem.size)
+        ?? currentColor?.sizes.find((item) => isSameTerm(vocabulary.sizes, item.size, sizeItem.size));
+      if (!currentSize && !isKnownTerm(vocabulary.sizes, sizeItem.size)) {
+        return { error: `Size "${sizeItem.size.trim()}" is not in the size list` };
+      }
+
+      const size = currentSize?.size ?? resolveTerm(vocabulary.sizes, sizeItem.size);
+      const sizeKey = currentSize ? size : toTermKey(size);
+      if (seenSizes.has(sizeKey)) {
+        return { error: `${color} - ${size} is listed more than once` };
+      }
+      seenSizes.add(sizeKey);
+      sizes.push({ ...sizeItem, size });
+    }
+
+    sizes.sort((a, b) => compareTerms(vocabulary.sizes, a.size, b.size));
+    normalized.push({ ...colorItem, color, sizes });
+  }
+
+  return { items: normalized };
+};
+
+interface ListedTerm extends TermDoc {
+  _id: mongoose.Types.ObjectId;
+}
+
+// The listed term that already answers to one of these spellings, if any
+export const findTermConflict = (terms: ListedTerm[], spellings: string[], excludeId?: string) => {
+  const keys = new Set(spellings.map(toTermKey));
+  return terms.find((term) =>
+    !(excludeId && term._id.equals(excludeId)) &&
+    [term.name, ...term.aliases].some((spelling) => keys.has(toTermKey(spelling)))
+  );
+};
+
+// Spellings used on current lots that aren't in the list yet
+export const findUnlistedTerms = (list: TermList, used: string[]) =>
+  [...new Set(used.map((value) => value.trim()))]
+    .filter((value) => value && !list.names.has(toTermKey(value)))
+    .sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,271 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionRowSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { AuditEntityType, AuditEvent, TenantUser } from '@/types';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const ANY = 'any';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  lot: 'Lots',
+  transaction: 'Sales',
+  return: 'Returns',
+  user: 'Users',
+  settings: 'Settings',
+};
+
+// "user.reset_password" -> "User reset password"
+const formatAction = (action: string) => {
+  const text = action.replace(/[._]/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLogPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [users, setUsers] = useState<TenantUser[]>([]);
+  const [actorId, setActorId] = useState('');
+  const [entityType, setEntityType] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers();
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchEvents(currentPage);
+    }
+  }, [isAdmin, currentPage, actorId, entityType, from, to]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await api.get('/users');
+      setUsers(response.data.data.users);
+    } catch (error) {
+      console.error('Failed to load users');
+    }
+  };
+
+  const fetchEvents = async (page: number) => {
+    try {
+      setLoading(true);
+      const response = await api.get('/audit', {
+        params: {
+          page,
+          limit: 25,
+          actorId: actorId || undefined,
+          entityType: entityType || undefined,
+          from: from || undefined,
+          to: to || undefined,
+        },
+      });
+      setEvents(response.data.data.events);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  if (user && !isAdmin) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Admins only</h3>
+            <p className="text-gray-600 mb-6">Ask an administrator to review the audit log.</p>
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="modern-btn-primary px-6 py-3"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Audit Log</h1>
+          <p className="text-sm sm:text-base text-gray-600">Every change to lots, sales, returns, users and settings</p>
+        </div>
+
+        {/* Filters */}
+        <div className="modern-card mb-8 animate-fade-in-up stagger-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">User</Label>
+              <Select
+                value={actorId || ANY}
+                onValueChange={(value) => updateFilter(setActorId)(value === ANY ? '' : value)}
+              >
+                <SelectTrigger className="modern-input">
+                  <SelectValue placeholder="Any user" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any user</SelectItem>
+                  {users.map((tenantUser) => (
+                    <SelectItem key={tenantUser._id} value={tenantUser._id}>
+                      {tenantUser.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Entity</Label>
+              <Select
+                value={entityType || ANY}
+                onValueChange={(value) => updateFilter(setEntityType)(value === ANY ? '' : value)}
+              >
+                <SelectTrigger className="modern-input">
+                  <SelectValue placeholder="Everything" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Everything</SelectItem>
+                  {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ENTITY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">From</Label>
+              <Input
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">To</Label>
+              <Input
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <TransactionRowSkeleton key={i} />
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No events found</h3>
+            <p className="text-gray-600">Try widening the filters.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 animate-fade-in-up stagger-2">
+              {events.map((event) => (
+                <div key={event._id} className="modern-card">
+                  <button
+                    onClick={() => setExpandedId(expandedId === event._id ? null : event._id)}
+                    className="w-full text-left flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                  >
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {formatAction(event.action)}
+                        {event.entityLabel && <span className="text-purple-600"> {event.entityLabel}</span>}
+                      </p>
+                      <p className="text-xs sm:text-sm text-gray-500">
+                        {event.actorId?.name || event.actorEmail} · {new Date(event.createdAt).toLocaleString()}
+                        {event.ip && ` · ${event.ip}`}
+                      </p>
+                    </div>
+                    <span className="stat-badge whitespace-nowrap">
+                      {event.changes.length} {event.changes.length === 1 ? 'change' : 'changes'}
+                    </span>
+                  </button>
+
+                  {expandedId === event._id && event.changes.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-100 overflow-x-auto">
+                      <table className="w-full text-xs sm:text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1 pr-4 font-semibold">Field</th>
+                            <th className="py-1 pr-4 font-semibold">Before</th>
+                            <th className="py-1 font-semibold">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {event.changes.map((change) => (
+                            <tr key={change.field} className="border-t border-gray-100 align-top">
+                              <td className="py-1 pr-4 font-medium text-gray-700">{change.field}</td>
+                              <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                              <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
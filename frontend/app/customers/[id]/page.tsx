@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pagination } from '@/components/ui/pagination';
+import { StatCardSkeleton, TransactionRowSkeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api from '@/lib/api';
+import { getNetTotal, getTransactionLotLabel } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
+import { Customer, CustomerStats, Transaction } from '@/types';
+import { toast } from 'sonner';
+
+export default function CustomerDetailsPage() {
+  const formatMoney = useFormatMoney();
+  const params = useParams();
+  const router = useRouter();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [stats, setStats] = useState<CustomerStats | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [editOpen, setEditOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', phone: '', address: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [params.id]);
+
+  useEffect(() => {
+    fetchTransactions(currentPage);
+  }, [params.id, currentPage]);
+
+  const fetchCustomer = async () => {
+    try {
+      const response = await api.get(`/customers/${params.id}`);
+      setCustomer(response.data.data.customer);
+      setStats(response.data.data.stats);
+    } catch (error) {
+      toast.error('Failed to load customer');
+      router.push('/customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTransactions = async (page: number) => {
+    try {
+      const response = await api.get('/transactions', {
+        params: { customerId: params.id, page, limit: 10 },
+      });
+      setTransactions(response.data.data.transactions);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      console.error('Failed to load transactions');
+    }
+  };
+
+  const openEdit = () => {
+    if (!customer) return;
+    setForm({
+      name: customer.name,
+      phone: customer.phone || '',
+      address: customer.address || '',
+      notes: customer.notes || '',
+    });
+    setEditOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await api.patch(`/customers/${params.id}`, form);
+      setCustomer(response.data.data.customer);
+      toast.success('Customer updated');
+      setEditOpen(false);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to update customer'
+        : 'Failed to update customer';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <button
+              onClick={() => router.push('/customers')}
+              className="text-xs sm:text-sm text-gray-600 hover:text-gray-900 font-semibold mb-3 sm:mb-4 flex items-center gap-2"
+            >
+              ← Back to Customers
+            </button>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">{loading ? '...' : customer?.name}</h1>
+            <p className="text-sm sm:text-base text-gray-600">
+              {loading
+                ? 'Loading...'
+                : [customer?.phone, customer?.address].filter(Boolean).join(' • ') || 'No contact details'}
+            </p>
+            {customer?.notes && <p className="text-sm text-gray-500 mt-1">{customer.notes}</p>}
+          </div>
+          {!loading && customer && (
+            <button
+              onClick={openEdit}
+              className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Edit Customer
+            </button>
+          )}
+        </div>
+
+        {/* Stats Grid */}
+        {loading ? (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <StatCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : stats && (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            <div className="gradient-card-success animate-fade-in-up stagger-1">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Revenue</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 mb-1">
+                {formatMoney(stats.totalRevenue)}
+              </p>
+              <p className="text-xs sm:text-sm text-white/80">
+                {stats.outstandingBalance > 0
+                  ? `${formatMoney(stats.outstandingBalance)} still owed`
+                  : 'Lifetime sales, net of refunds'}
+              </p>
+            </div>
+
+            <div className="gradient-card-primary animate-fade-in-up stagger-2">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Profit</span>
+              <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 mb-1 ${
+                stats.totalProfit >= 0 ? '' : 'text-red-200'
+              }`}>
+                {formatMoney(stats.totalProfit)}
+              </p>
+              <p className="text-xs sm:text-sm text-white/80">Margin earned from this customer</p>
+            </div>
+
+            <div className="modern-card animate-fade-in-up stagger-3">
+              <span className="stat-badge text-xs">Sales</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4 mb-1">
+                {stats.transactionCount}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-500">Transactions recorded</p>
+            </div>
+
+            <div className="modern-card animate-fade-in-up stagger-4">
+              <span className="stat-badge-success text-xs">Last Purchase</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4 mb-1">
+                {stats.lastPurchaseAt ? new Date(stats.lastPurchaseAt).toLocaleDateString() : '—'}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-500">Most recent sale</p>
+            </div>
+          </div>
+        )}
+
+        {/* Transaction History */}
+        <div className="modern-card-lg animate-fade-in-up stagger-5">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Purchase History</h2>
+          {loading ? (
+            <div className="space-y-4 sm:space-y-5">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="p-4 sm:p-6">
+                  <TransactionRowSkeleton />
+                </div>
+              ))}
+            </div>
+          ) : transactions.length === 0 ? (
+            <div className="text-center py-12 sm:py-16">
+              <p className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">No purchases yet</p>
+              <p className="text-sm sm:text-base text-gray-500">Sales linked to this customer will appear here</p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-4 sm:space-y-5 lg:space-y-6">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction._id}
+                    className="p-4 sm:p-6 lg:p-8 rounded-xl border-2 border-gray-100 bg-white hover:border-purple-200 hover:shadow-md transition-all"
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4 sm:mb-5">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-base sm:text-lg font-bold text-gray-900 mb-2 sm:mb-3">
+                          {new Date(transaction.createdAt).toLocaleString()}
+                        </p>
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 text-sm sm:text-base text-gray-600">
+                          <span>Lot: <span className="font-semibold text-gray-900">{getTransactionLotLabel(transaction)}</span></span>
+                          <span className="hidden sm:inline text-gray-400">•</span>
+                          <span className="font-medium">Sold by <span className="font-semibold text-gray-900">{transaction.soldBy?.name}</span></span>
+                          {transaction.invoiceNumber && (
+                            <>
+                              <span className="hidden sm:inline text-gray-400">•</span>
+                              <span>Invoice: <span className="font-semibold text-gray-900">{transaction.invoiceNumber}</span></span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-left sm:text-right flex-shrink-0">
+                        <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-1">Total</p>
+                        <p className="text-2xl sm:text-3xl font-bold text-green-600">
+                          {formatMoney(getNetTotal(transaction))}
+                        </p>
+                        {(transaction.totalRefunded || 0) > 0 && (
+                          <p className="text-xs text-red-600">{formatMoney(transaction.totalRefunded! + (transaction.taxRefunded || 0))} refunded</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 sm:gap-3 pt-4 border-t border-gray-100">
+                      {transaction.soldItems.map((item, idx) => (
+                        <span
+                          key={idx}
+                          className="px-3 sm:px-4 py-2 rounded-lg bg-purple-50 text-purple-700 text-sm sm:text-base font-semibold border border-purple-100"
+                        >
+                          {item.color} - {item.size} × {item.quantity}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-8">
+                <Pagination
+                  currentPage={currentPage}
+                  totalPages={totalPages}
+                  onPageChange={setCurrentPage}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Edit Customer Dialog */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Customer</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Phone</Label>
+              <Input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Address</Label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Notes</Label>
+              <Input
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setEditOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
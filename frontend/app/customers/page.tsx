@@ -0,0 +1,344 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LotCardSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { Customer } from '@/types';
+import { toast } from 'sonner';
+
+interface MigrationResult {
+  name: string;
+  isNew: boolean;
+  spellings: string[];
+  transactionCount: number;
+}
+
+const emptyForm = { name: '', phone: '', address: '', notes: '' };
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof AxiosError ? error.response?.data?.error?.message || fallback : fallback;
+
+export default function CustomersPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [addOpen, setAddOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [migrateOpen, setMigrateOpen] = useState(false);
+  const [migrationPreview, setMigrationPreview] = useState<MigrationResult[] | null>(null);
+  const [migrating, setMigrating] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      // Reset to page 1 when search changes
+      if (currentPage !== 1) {
+        setCurrentPage(1);
+      } else {
+        fetchCustomers(1, search);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    fetchCustomers(currentPage, search);
+  }, [currentPage]);
+
+  const fetchCustomers = async (page: number, searchQuery: string) => {
+    try {
+      setLoading(true);
+      const response = await api.get('/customers', {
+        params: {
+          page,
+          limit: 10,
+          search: searchQuery || undefined
+        },
+      });
+      setCustomers(response.data.data.customers);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      toast.error('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.post('/customers', {
+        name: form.name,
+        phone: form.phone || undefined,
+        address: form.address || undefined,
+        notes: form.notes || undefined,
+      });
+      toast.success('Customer added');
+      setAddOpen(false);
+      setForm(emptyForm);
+      router.push(`/customers/${response.data.data.customer._id}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to add customer'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenMigrate = async () => {
+    setMigrateOpen(true);
+    setMigrationPreview(null);
+    try {
+      const response = await api.post('/customers/migrate', { dryRun: true });
+      setMigrationPreview(response.data.data.results);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to preview migration'));
+      setMigrateOpen(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    setMigrating(true);
+    try {
+      const response = await api.post('/customers/migrate', { dryRun: false });
+      const { customersCreated, transactionsLinked } = response.data.data;
+      toast.success(`Linked ${transactionsLinked} sales and created ${customersCreated} customers`);
+      setMigrateOpen(false);
+      fetchCustomers(1, search);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Migration failed'));
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Customers</h1>
+            <p className="text-sm sm:text-base text-gray-600">Everyone you sell to and what they have bought</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+            {user?.role === 'admin' && (
+              <button
+                onClick={handleOpenMigrate}
+                className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+              >
+                Import Names From Sales
+              </button>
+            )}
+            <button
+              onClick={() => setAddOpen(true)}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + Add Customer
+            </button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="mb-8 animate-fade-in-up stagger-1">
+          <div className="relative max-w-md">
+            <svg className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <Input
+              placeholder="Search by name or phone..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="modern-input pl-12"
+            />
+          </div>
+        </div>
+
+        {loading && (
+          <div className="grid grid-cols-1 gap-6 animate-fade-in-up">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <LotCardSkeleton key={i} />
+            ))}
+          </div>
+        )}
+
+        {!loading && customers.length === 0 && (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No customers found</h3>
+            <p className="text-gray-600">
+              {search ? 'Try adjusting your search' : 'Add a customer or pick one when making a sale'}
+            </p>
+          </div>
+        )}
+
+        {!loading && customers.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 gap-4 animate-fade-in-up stagger-2">
+              {customers.map((customer) => (
+                <div
+                  key={customer._id}
+                  className="modern-card hover:shadow-lg transition-all cursor-pointer flex items-center gap-4 sm:gap-6"
+                  onClick={() => router.push(`/customers/${customer._id}`)}
+                >
+                  <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-xl bg-gradient-to-br from-green-400 to-green-500 flex items-center justify-center text-white font-bold text-lg sm:text-xl flex-shrink-0">
+                    {customer.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">{customer.name}</h3>
+                    <p className="text-xs sm:text-sm text-gray-500 truncate">
+                      {[customer.phone, customer.address].filter(Boolean).join(' • ') || 'No contact details'}
+                    </p>
+                  </div>
+                  <span className="text-xs sm:text-sm text-gray-500 hidden sm:block">
+                    Added {new Date(customer.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Add Customer Dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Customer</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Phone (Optional)</Label>
+              <Input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Address (Optional)</Label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Notes (Optional)</Label>
+              <Input
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setAddOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {saving ? 'Saving...' : 'Add Customer'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Migrate Free-Text Names Dialog */}
+      <Dialog open={migrateOpen} onOpenChange={setMigrateOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Import Customer Names From Sales</DialogTitle>
+            <DialogDescription>
+              Sales with a typed-in customer name are grouped by name (ignoring case and spacing) and linked to a customer record.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="overflow-y-auto flex-1 min-h-0 space-y-2 py-2">
+            {migrationPreview === null ? (
+              <p className="text-center text-gray-600 text-sm py-8">Checking past sales...</p>
+            ) : migrationPreview.length === 0 ? (
+              <p className="text-center text-gray-600 text-sm py-8">Every named sale is already linked to a customer</p>
+            ) : (
+              migrationPreview.map((result) => (
+                <div key={result.name} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-gray-100">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">
+                      {result.name}
+                      {result.isNew && <span className="ml-2 text-xs text-purple-600">New</span>}
+                    </p>
+                    {result.spellings.length > 1 && (
+                      <p className="text-xs text-gray-500 truncate">Also written as: {result.spellings.join(', ')}</p>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-600 flex-shrink-0">{result.transactionCount} sales</span>
+                </div>
+              ))
+            )}
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setMigrateOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleMigrate}
+              disabled={migrating || !migrationPreview || migrationPreview.length === 0}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed sm:ml-3"
+            >
+              {migrating ? 'Importing...' : 'Import'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
@@ -2,18 +2,23 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/protected-route';
 import Navbar from '@/components/navbar';
 import { StatCardSkeleton, ChartSkeleton, TransactionRowSkeleton } from '@/components/ui/skeleton';
 import api from '@/lib/api';
-import { DashboardStats, Transaction, ChartData } from '@/types';
+import { getTransactionLots, getTransactionLotLabel } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
+import { DashboardStats, Transaction, ChartData, LowStockAlert } from '@/types';
 import { toast } from 'sonner';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 export default function DashboardPage() {
+  const formatMoney = useFormatMoney();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
   const [chartData, setChartData] = useState<ChartData | null>(null);
+  const [lowStock, setLowStock] = useState<LowStockAlert[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -25,14 +30,16 @@ export default function DashboardPage() {
   const fetchDashboardData = async () => {
     try {
       setError(null);
-      const [statsRes, transactionsRes, chartRes] = await Promise.all([
+      const [statsRes, transactionsRes, chartRes, lowStockRes] = await Promise.all([
         api.get('/dashboard/stats'),
         api.get('/dashboard/recent-transactions?limit=10'),
         api.get('/dashboard/chart-data'),
+        api.get('/alerts/low-stock'),
       ]);
       setStats(statsRes.data.data);
       setRecentTransactions(transactionsRes.data.data.transactions);
       setChartData(chartRes.data.data);
+      setLowStock(lowStockRes.data.data.alerts);
     } catch (error: any) {
       const errorMessage = 'Failed to load dashboard data';
       setError(errorMessage);
@@ -80,13 +87,13 @@ export default function DashboardPage() {
 
         {/* Stats Grid */}
         {loading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
-            {Array.from({ length: 4 }).map((_, i) => (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6 mb-12">
+            {Array.from({ length: 5 }).map((_, i) => (
               <StatCardSkeleton key={i} />
             ))}
           </div>
         ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-8 sm:mb-12">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 sm:gap-6 mb-8 sm:mb-12">
           {/* Investment Card */}
           <div className="modern-card animate-fade-in-up stagger-1">
             <div className="flex items-center justify-between mb-3 sm:mb-4">
@@ -96,7 +103,7 @@ export default function DashboardPage() {
               </svg>
             </div>
             <p className="text-2xl sm:text-3xl font-bold text-gray-900 mb-1">
-              ${stats?.totalInvestment?.toFixed(2) ?? '0.00'}
+              {formatMoney(stats?.totalInvestment ?? 0)}
             </p>
             <p className="text-xs sm:text-sm text-gray-500">Total capital invested</p>
           </div>
@@ -110,11 +117,29 @@ export default function DashboardPage() {
               </svg>
             </div>
             <p className="text-2xl sm:text-3xl font-bold mb-1">
-              ${stats?.totalRevenue?.toFixed(2) ?? '0.00'}
+              {formatMoney(stats?.totalRevenue ?? 0)}
+            </p>
+            <p className="text-xs sm:text-sm text-white/80">
+              {stats?.totalDiscounts
+                ? `After ${formatMoney(stats.totalDiscounts)} in discounts`
+                : 'Total sales generated'}
             </p>
-            <p className="text-xs sm:text-sm text-white/80">Total sales generated</p>
           </div>
 
+          {/* Receivables Card */}
+          <Link href="/receivables" className="modern-card hover:shadow-lg transition-all animate-fade-in-up stagger-2">
+            <div className="flex items-center justify-between mb-3 sm:mb-4">
+              <span className="stat-badge text-xs">Receivables</span>
+              <svg className="w-6 h-6 sm:w-8 sm:h-8 text-yellow-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <p className="text-2xl sm:text-3xl font-bold text-gray-900 mb-1">
+              {formatMoney(stats?.outstandingReceivables ?? 0)}
+            </p>
+            <p className="text-xs sm:text-sm text-gray-500">Still owed on credit sales</p>
+          </Link>
+
           {/* Profit Card */}
           <div className="gradient-card-primary animate-fade-in-up stagger-3">
             <div className="flex items-center justify-between mb-3 sm:mb-4">
@@ -124,7 +149,7 @@ export default function DashboardPage() {
               </svg>
             </div>
             <p className="text-2xl sm:text-3xl font-bold mb-1">
-              ${stats?.totalProfit?.toFixed(2) ?? '0.00'}
+              {formatMoney(stats?.totalProfit ?? 0)}
             </p>
             <p className="text-xs sm:text-sm text-white/80">Net margin on sales</p>
           </div>
@@ -145,6 +170,38 @@ export default function DashboardPage() {
         </div>
         )}
 
+        {/* Low Stock */}
+        {!loading && lowStock.length > 0 && (
+          <div className="modern-card-lg mb-8 sm:mb-12 border-l-4 border-amber-500 animate-fade-in-up stagger-4">
+            <div className="flex items-center justify-between mb-4 sm:mb-6">
+              <div>
+                <h2 className="text-xl sm:text-2xl font-bold mb-1">Low Stock</h2>
+                <p className="text-gray-600 text-xs sm:text-sm">
+                  {lowStock.length} {lowStock.length === 1 ? 'variant is' : 'variants are'} below the reorder threshold
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {lowStock.slice(0, 8).map((alert) => (
+                <Link
+                  key={`${alert.lotId}-${alert.color}-${alert.size}`}
+                  href={`/lots/${alert.lotId}`}
+                  className="p-3 rounded-xl bg-amber-50 border border-amber-100 hover:bg-amber-100 transition-all"
+                >
+                  <p className="font-semibold text-gray-900 text-sm">{alert.color} / {alert.size}</p>
+                  <p className="text-xs text-gray-600">{alert.lotNumber}</p>
+                  <p className={`text-xs font-semibold mt-1 ${alert.remainingQuantity === 0 ? 'text-red-600' : 'text-amber-700'}`}>
+                    {alert.remainingQuantity === 0 ? 'Sold out' : `${alert.remainingQuantity} left`} · alert below {alert.threshold}
+                  </p>
+                </Link>
+              ))}
+            </div>
+            {lowStock.length > 8 && (
+              <p className="text-xs sm:text-sm text-gray-500 mt-4">And {lowStock.length - 8} more</p>
+            )}
+          </div>
+        )}
+
         {/* Charts Section */}
         {loading ? (
           <div className="space-y-6 mb-12">
@@ -175,7 +232,7 @@ export default function DashboardPage() {
                     <YAxis
                       stroke="#718096"
                       style={{ fontSize: '12px' }}
-                      tickFormatter={(value) => `$${value}`}
+                      tickFormatter={(value) => formatMoney(Number(value))}
                     />
                     <Tooltip
                       contentStyle={{
@@ -184,7 +241,7 @@ export default function DashboardPage() {
                         borderRadius: '12px',
                         boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)'
                       }}
-                      formatter={(value: any) => [`$${Number(value).toFixed(2)}`]}
+                      formatter={(value?: number) => [formatMoney(value ?? 0)]}
                       labelFormatter={(label) => new Date(label).toLocaleDateString()}
                     />
                     <Legend
@@ -238,7 +295,7 @@ export default function DashboardPage() {
                       <YAxis
                         stroke="#718096"
                         style={{ fontSize: '12px' }}
-                        tickFormatter={(value) => `$${value}`}
+                        tickFormatter={(value) => formatMoney(Number(value))}
                       />
                       <Tooltip
                         contentStyle={{
@@ -247,7 +304,7 @@ export default function DashboardPage() {
                           borderRadius: '12px',
                           boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)'
                         }}
-                        formatter={(value: any) => [`$${Number(value).toFixed(2)}`]}
+                        formatter={(value?: number) => [formatMoney(value ?? 0)]}
                       />
                       <Legend
                         wrapperStyle={{ paddingTop: '20px' }}
@@ -391,11 +448,11 @@ export default function DashboardPage() {
                 >
                   <div className="flex items-center gap-3 sm:gap-4 flex-1 min-w-0">
                     <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg sm:rounded-xl bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-white font-bold text-sm sm:text-base flex-shrink-0">
-                      {transaction.lotId?.lotNumber?.substring(0, 2) || 'LT'}
+                      {getTransactionLots(transaction)[0]?.lotNumber?.substring(0, 2) || 'LT'}
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="font-semibold text-sm sm:text-base text-gray-900 mb-0.5 truncate">
-                        {transaction.lotId?.lotNumber || 'Unknown Lot'}
+                        {getTransactionLotLabel(transaction)}
                       </p>
                       <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 text-xs sm:text-sm text-gray-500">
                         <span className="truncate">Sold by {transaction.soldBy.name}</span>
@@ -410,7 +467,7 @@ export default function DashboardPage() {
                   </div>
                   <div className="text-right flex-shrink-0">
                     <p className="text-base sm:text-xl font-bold text-green-600 mb-0.5">
-                      ${transaction.totalRevenue.toFixed(2)}
+                      {formatMoney(transaction.totalRevenue)}
                     </p>
                     <p className="text-xs text-gray-500">
                       {new Date(transaction.createdAt).toLocaleDateString()}
@@ -7,9 +7,14 @@ import ProtectedRoute from '@/components/protected-route';
 import Navbar from '@/components/navbar';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import SupplierSelect from '@/components/supplier-select';
+import TermSelect from '@/components/term-select';
+import SizeRunSelect from '@/components/size-run-select';
 import api from '@/lib/api';
+import { useVocabulary } from '@/lib/vocabulary';
+import { useFormatMoney } from '@/lib/money';
 import { toast } from 'sonner';
-import { Lot } from '@/types';
+import { Lot, SizeRun } from '@/types';
 
 interface Size {
   id: string;
@@ -17,24 +22,38 @@ interface Size {
   quantity: string;
   purchaseCostPerPiece: string;
   sellCostPerPiece: string;
+  lowStockThreshold: string;
+  // Units already sold from this variant; 0 for sizes added in this edit
+  sold: number;
+  // Net stock adjustments (negative for write-offs); 0 for sizes added in this edit
+  adjusted: number;
 }
 
 interface Color {
   id: string;
   color: string;
+  // The catalogue product the color is linked to
+  product?: {
+    _id: string;
+    name: string;
+  };
   sizes: Size[];
 }
 
 export default function EditLotPage() {
+  const formatMoney = useFormatMoney();
   const params = useParams();
   const lotId = params.id as string;
   const [lot, setLot] = useState<Lot | null>(null);
   const [lotNumber, setLotNumber] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [lowStockThreshold, setLowStockThreshold] = useState('');
   const [colors, setColors] = useState<Color[]>([]);
   const [loading, setLoading] = useState(false);
   const [fetchLoading, setFetchLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const vocabulary = useVocabulary();
 
   useEffect(() => {
     fetchLot();
@@ -46,17 +65,23 @@ export default function EditLotPage() {
       const lotData: Lot = response.data.data.lot;
       setLot(lotData);
       setLotNumber(lotData.lotNumber);
+      setSupplierId(lotData.supplierId?._id ?? '');
+      setLowStockThreshold(lotData.lowStockThreshold?.toString() ?? '');
 
       // Convert lot data to form state
       const formattedColors: Color[] = lotData.items.map((item) => ({
         id: crypto.randomUUID(),
         color: item.color,
+        product: item.productId ? { _id: item.productId._id, name: item.productId.name } : undefined,
         sizes: item.sizes.map((size) => ({
           id: crypto.randomUUID(),
           size: size.size,
           quantity: size.quantity.toString(),
           purchaseCostPerPiece: size.purchaseCostPerPiece.toString(),
           sellCostPerPiece: size.sellCostPerPiece.toString(),
+          lowStockThreshold: size.lowStockThreshold?.toString() ?? '',
+          sold: size.quantity + (size.adjustedQuantity ?? 0) - size.remainingQuantity,
+          adjusted: size.adjustedQuantity ?? 0,
         })),
       }));
 
@@ -82,12 +107,26 @@ export default function EditLotPage() {
             quantity: '',
             purchaseCostPerPiece: '',
             sellCostPerPiece: '',
+            lowStockThreshold: '',
+            sold: 0,
+            adjusted: 0,
           },
         ],
       },
     ]);
   };
 
+  // Variants with sales or adjustments keep their name and cost, can't drop below what left the lot,
+  // and can't be removed
+  const hasHistory = (size: Size) => size.sold > 0 || size.adjusted !== 0;
+  const hasSales = (color: Color) => color.sizes.some(hasHistory);
+  // Found stock offsets what was sold or written off
+  const used = (size: Size) => size.sold - size.adjusted;
+
+  const unlinkProduct = (colorId: string) => {
+    setColors(colors.map((c) => (c.id === colorId ? { ...c, product: undefined } : c)));
+  };
+
   const removeColor = (colorId: string) => {
     if (colors.length === 1) {
       toast.error('At least one color is required');
@@ -116,6 +155,9 @@ export default function EditLotPage() {
                   quantity: '',
                   purchaseCostPerPiece: '',
                   sellCostPerPiece: '',
+                  lowStockThreshold: '',
+                  sold: 0,
+                  adjusted: 0,
                 },
               ],
             }
@@ -124,6 +166,30 @@ export default function EditLotPage() {
     );
   };
 
+  // Adds the run's sizes the color doesn't have yet, in place of a blank size row
+  const applySizeRun = (colorId: string, sizeRun: SizeRun) => {
+    setColors(
+      colors.map((c) => {
+        if (c.id !== colorId) return c;
+
+        const kept = c.sizes.filter((s) => s.size || s.quantity || hasHistory(s));
+        const added = sizeRun.sizes
+          .filter((size) => !kept.some((s) => s.size === size))
+          .map((size) => ({
+            id: crypto.randomUUID(),
+            size,
+            quantity: '',
+            purchaseCostPerPiece: '',
+            sellCostPerPiece: '',
+            lowStockThreshold: '',
+            sold: 0,
+            adjusted: 0,
+          }));
+        return { ...c, sizes: [...kept, ...added] };
+      })
+    );
+  };
+
   const removeSize = (colorId: string, sizeId: string) => {
     setColors(
       colors.map((c) => {
@@ -145,7 +211,7 @@ export default function EditLotPage() {
   const updateSize = (
     colorId: string,
     sizeId: string,
-    field: keyof Size,
+    field: 'size' | 'quantity' | 'purchaseCostPerPiece' | 'sellCostPerPiece' | 'lowStockThreshold',
     value: string
   ) => {
     setColors(
@@ -204,32 +270,46 @@ export default function EditLotPage() {
         throw new Error('All size fields must be filled');
       }
 
+      const oversold = colors
+        .flatMap((color) => color.sizes.map((size) => ({ color: color.color, size })))
+        .find(({ size }) => parseInt(size.quantity) < used(size));
+      if (oversold) {
+        throw new Error(
+          `${oversold.color} - ${oversold.size.size}: quantity cannot be less than the ${used(oversold.size)} already sold or written off`
+        );
+      }
+
       // Convert to API format
       const items = colors.map((color) => ({
         color: color.color,
+        productId: color.product?._id ?? null,
         sizes: color.sizes.map((size) => ({
           size: size.size,
           quantity: parseInt(size.quantity),
           purchaseCostPerPiece: parseFloat(size.purchaseCostPerPiece),
           sellCostPerPiece: parseFloat(size.sellCostPerPiece),
+          lowStockThreshold: size.lowStockThreshold ? parseInt(size.lowStockThreshold, 10) : undefined,
         })),
       }));
 
       await api.put(`/lots/${lotId}`, {
         lotNumber: lotNumber.trim(),
+        supplierId: supplierId || null,
+        lowStockThreshold: lowStockThreshold ? parseInt(lowStockThreshold, 10) : null,
         items,
       });
 
       toast.success('Lot updated successfully!');
       router.push(`/lots/${lotId}`);
     } catch (error) {
-      if (error instanceof Error) {
-        setError(error.message);
-        toast.error(error.message);
-      } else if (error instanceof AxiosError) {
+      // AxiosError is also an Error, so check it first to show the server's message
+      if (error instanceof AxiosError) {
         const message = error.response?.data?.error?.message || 'Failed to update lot';
         setError(message);
         toast.error(message);
+      } else if (error instanceof Error) {
+        setError(error.message);
+        toast.error(error.message);
       } else {
         setError('Failed to update lot');
         toast.error('Failed to update lot');
@@ -306,15 +386,46 @@ export default function EditLotPage() {
                 placeholder="LOT-0001"
               />
             </div>
+            <div className="mt-4 sm:mt-6">
+              <Label className="floating-label text-sm">Supplier (Optional)</Label>
+              <SupplierSelect value={supplierId} onChange={setSupplierId} />
+            </div>
+            <div className="mt-4 sm:mt-6">
+              <Label htmlFor="lowStockThreshold" className="floating-label text-sm">Low-Stock Threshold (Optional)</Label>
+              <Input
+                id="lowStockThreshold"
+                type="number"
+                min="0"
+                value={lowStockThreshold}
+                onChange={(e) => setLowStockThreshold(e.target.value)}
+                className="modern-input text-sm"
+                placeholder="Leave blank to use the business default"
+              />
+            </div>
           </div>
 
           {/* Colors and Sizes */}
           {colors.map((color, colorIndex) => (
             <div key={color.id} className="modern-card-lg animate-fade-in-up" style={{animationDelay: `${(colorIndex + 2) * 0.05}s`}}>
               <div className="flex items-center justify-between mb-4 sm:mb-6">
-                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold">Color {colorIndex + 1}</h2>
+                <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+                  <h2 className="text-lg sm:text-xl lg:text-2xl font-bold">Color {colorIndex + 1}</h2>
+                  {color.product && (
+                    <span className="stat-badge text-xs truncate">
+                      {color.product.name}
+                      <button
+                        type="button"
+                        onClick={() => unlinkProduct(color.id)}
+                        className="ml-2 font-bold hover:text-red-600"
+                        aria-label="Unlink product"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )}
+                </div>
                 <div className="flex gap-2 sm:gap-3">
-                  {colors.length > 1 && (
+                  {colors.length > 1 && !hasSales(color) && (
                     <button
                       type="button"
                       onClick={() => removeColor(color.id)}
@@ -329,11 +440,13 @@ export default function EditLotPage() {
               <div className="space-y-4 sm:space-y-6">
                 <div>
                   <Label className="floating-label text-sm">Color Name</Label>
-                  <Input
+                  <TermSelect
                     value={color.color}
-                    onChange={(e) => updateColor(color.id, e.target.value)}
-                    required
-                    className="modern-input text-sm"
+                    onChange={(value) => updateColor(color.id, value)}
+                    options={vocabulary.colorNames}
+                    onCreate={vocabulary.addColor}
+                    noun="color"
+                    readOnly={hasSales(color)}
                     placeholder="e.g., Navy Blue"
                   />
                 </div>
@@ -341,13 +454,19 @@ export default function EditLotPage() {
                 <div>
                   <div className="flex items-center justify-between mb-3 sm:mb-4">
                     <Label className="text-xs sm:text-sm font-semibold text-gray-700">Sizes</Label>
-                    <button
-                      type="button"
-                      onClick={() => addSize(color.id)}
-                      className="px-3 sm:px-4 py-2 rounded-xl bg-purple-50 text-purple-600 font-semibold text-xs sm:text-sm hover:bg-purple-100 transition-all"
-                    >
-                      + Add Size
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <SizeRunSelect
+                        sizeRuns={vocabulary.sizeRuns}
+                        onSelect={(sizeRun) => applySizeRun(color.id, sizeRun)}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => addSize(color.id)}
+                        className="px-3 sm:px-4 py-2 rounded-xl bg-purple-50 text-purple-600 font-semibold text-xs sm:text-sm hover:bg-purple-100 transition-all"
+                      >
+                        + Add Size
+                      </button>
+                    </div>
                   </div>
                   <div className="space-y-3">
                     {color.sizes.map((size) => (
@@ -355,16 +474,28 @@ export default function EditLotPage() {
                         key={size.id}
                         className="flex flex-col gap-2 p-3 sm:p-4 border border-gray-200 rounded-xl bg-gray-50/50"
                       >
+                        {hasHistory(size) && (
+                          <div className="flex items-center gap-2">
+                            <span className="stat-badge-success">{size.sold} sold</span>
+                            {size.adjusted !== 0 && (
+                              <span className="stat-badge">{size.adjusted > 0 ? '+' : ''}{size.adjusted} adjusted</span>
+                            )}
+                            <span className="text-xs text-gray-500">
+                              {Math.max(0, (parseInt(size.quantity) || 0) - used(size))} in stock after saving
+                            </span>
+                          </div>
+                        )}
                         <div className="grid grid-cols-2 gap-2 sm:gap-3">
                           <div>
                             <Label className="text-xs text-gray-600 mb-1 block">Size</Label>
-                            <Input
-                              placeholder="e.g., L"
+                            <TermSelect
                               value={size.size}
-                              onChange={(e) =>
-                                updateSize(color.id, size.id, 'size', e.target.value)
-                              }
-                              required
+                              onChange={(value) => updateSize(color.id, size.id, 'size', value)}
+                              options={vocabulary.sizeNames}
+                              onCreate={vocabulary.addSize}
+                              noun="size"
+                              readOnly={hasHistory(size)}
+                              placeholder="e.g., L"
                               className="modern-input text-sm h-10"
                             />
                           </div>
@@ -378,7 +509,7 @@ export default function EditLotPage() {
                                 updateSize(color.id, size.id, 'quantity', e.target.value)
                               }
                               required
-                              min="1"
+                              min={Math.max(1, used(size))}
                               className="modern-input text-sm h-10"
                             />
                           </div>
@@ -401,7 +532,9 @@ export default function EditLotPage() {
                               }
                               required
                               min="0"
-                              className="modern-input text-sm h-10"
+                              readOnly={hasHistory(size)}
+                              title={hasHistory(size) ? 'Profit and write-offs already used this cost, so it can no longer change' : undefined}
+                              className="modern-input text-sm h-10 read-only:bg-gray-100 read-only:text-gray-500"
                             />
                           </div>
                           <div>
@@ -425,10 +558,23 @@ export default function EditLotPage() {
                             />
                           </div>
                         </div>
+                        <div>
+                          <Label className="text-xs text-gray-600 mb-1 block">Low-Stock Threshold (Optional)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder="Leave blank to use the lot's threshold"
+                            value={size.lowStockThreshold}
+                            onChange={(e) =>
+                              updateSize(color.id, size.id, 'lowStockThreshold', e.target.value)
+                            }
+                            className="modern-input text-sm h-10"
+                          />
+                        </div>
                         <button
                           type="button"
                           onClick={() => removeSize(color.id, size.id)}
-                          disabled={color.sizes.length === 1}
+                          disabled={color.sizes.length === 1 || hasHistory(size)}
                           className="w-full px-3 py-2 rounded-lg border border-red-200 bg-white font-semibold text-xs text-red-600 hover:bg-red-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           Remove Size
@@ -453,7 +599,7 @@ export default function EditLotPage() {
           <div className="gradient-card-primary animate-fade-in-up">
             <h2 className="text-base sm:text-lg lg:text-xl font-bold mb-2">Total Investment</h2>
             <p className="text-3xl sm:text-4xl lg:text-5xl font-bold">
-              ${calculateTotalInvestment().toFixed(2)}
+              {formatMoney(calculateTotalInvestment())}
             </p>
             <p className="text-xs sm:text-sm text-white/80 mt-2">
               Combined purchase cost across all items
@@ -2,12 +2,17 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/protected-route';
 import Navbar from '@/components/navbar';
 import SellModal from '@/components/sell-modal';
+import AdjustStockModal, { ADJUSTMENT_REASON_LABELS } from '@/components/adjust-stock-modal';
+import StockMovementHistory from '@/components/stock-movement-history';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { StatCardSkeleton, TransactionRowSkeleton } from '@/components/ui/skeleton';
 import {
   Dialog,
@@ -18,24 +23,34 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import api from '@/lib/api';
-import { Lot, Transaction } from '@/types';
+import { useAuth } from '@/lib/auth-context';
+import { getItemLotId, getTransactionLots } from '@/lib/transactions';
+import { LabelCopies, openLabelSheetPdf } from '@/lib/labels';
+import { useCurrency, useFormatMoney } from '@/lib/money';
+import { Lot, StockAdjustment, Transaction } from '@/types';
 import { toast } from 'sonner';
 import { Trash2, AlertTriangle } from 'lucide-react';
 
 export default function LotDetailsPage() {
+  const formatMoney = useFormatMoney();
+  const currency = useCurrency();
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { user } = useAuth();
   const [lot, setLot] = useState<Lot | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
   const [loading, setLoading] = useState(true);
   const [sellModalOpen, setSellModalOpen] = useState(false);
+  const [adjustModalOpen, setAdjustModalOpen] = useState(false);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
   useEffect(() => {
     fetchLotDetails();
     fetchTransactions();
+    fetchAdjustments();
 
     if (searchParams.get('sell') === 'true') {
       setSellModalOpen(true);
@@ -65,6 +80,20 @@ export default function LotDetailsPage() {
     }
   };
 
+  const fetchAdjustments = async () => {
+    try {
+      const response = await api.get(`/lots/${params.id}/adjustments`);
+      setAdjustments(response.data.data.adjustments);
+    } catch (error) {
+      console.error('Failed to load adjustments');
+    }
+  };
+
+  const handleAdjustSuccess = () => {
+    fetchLotDetails();
+    fetchAdjustments();
+  };
+
   const handleSellSuccess = () => {
     fetchLotDetails();
     fetchTransactions();
@@ -74,7 +103,7 @@ export default function LotDetailsPage() {
     setIsDeleting(true);
     try {
       await api.delete(`/lots/${params.id}`);
-      toast.success('Lot deleted successfully');
+      toast.success('Lot moved to trash');
       router.push('/lots');
     } catch (error: any) {
       toast.error(error.response?.data?.error?.message || 'Failed to delete lot');
@@ -83,6 +112,38 @@ export default function LotDetailsPage() {
     }
   };
 
+  const handleRestore = async () => {
+    try {
+      await api.post(`/lots/${params.id}/restore`);
+      toast.success('Lot restored');
+      fetchLotDetails();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to restore lot'
+        : 'Failed to restore lot';
+      toast.error(message);
+    }
+  };
+
+  const handlePrintLabels = async (copies: LabelCopies) => {
+    try {
+      await openLabelSheetPdf(params.id as string, copies);
+      // Sizes from before labels have just been given barcodes
+      fetchLotDetails();
+    } catch (error) {
+      // The PDF was requested as a blob, so the error body arrives as one too
+      const body = error instanceof AxiosError && error.response?.data instanceof Blob
+        ? await error.response.data.text().then((text) => JSON.parse(text)).catch(() => null)
+        : null;
+      toast.error(body?.error?.message || 'Failed to print labels');
+    }
+  };
+
+  // A sale can span several lots; only show the lines that came from this one
+  const getLotItems = (transaction: Transaction) => {
+    return transaction.soldItems.filter((item) => getItemLotId(transaction, item) === params.id);
+  };
+
   const getRemainingItems = () => {
     if (!lot) return 0;
     return lot.items.reduce(
@@ -109,9 +170,53 @@ export default function LotDetailsPage() {
             <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">{loading ? '...' : lot?.lotNumber}</h1>
             <p className="text-sm sm:text-base text-gray-600">
               {loading ? 'Loading...' : `Created ${new Date(lot!.createdAt).toLocaleDateString()}`}
+              {!loading && lot?.supplierId && (
+                <>
+                  {' • Supplied by '}
+                  <Link href={`/suppliers/${lot.supplierId._id}`} className="font-semibold text-purple-700 hover:underline">
+                    {lot.supplierId.name}
+                  </Link>
+                </>
+              )}
+              {!loading && lot?.purchaseCurrency && lot.exchangeRate && (
+                ` • Bought in ${lot.purchaseCurrency} at 1 ${lot.purchaseCurrency} = ${lot.exchangeRate} ${currency.currency}`
+              )}
             </p>
           </div>
-          {!loading && lot && (
+          {!loading && lot?.deletedAt && (
+            <div className="modern-card border-l-4 border-amber-500 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div>
+                <h3 className="font-semibold text-amber-900 mb-1">This lot is in the trash</h3>
+                <p className="text-amber-700 text-sm">
+                  Moved {new Date(lot.deletedAt).toLocaleDateString()}
+                  {lot.deletedBy ? ` by ${lot.deletedBy.name}` : ''}. Restore it to edit or sell from it again.
+                </p>
+              </div>
+              <button
+                onClick={handleRestore}
+                className="modern-btn-primary px-4 sm:px-5 py-2.5 text-xs sm:text-sm whitespace-nowrap"
+              >
+                Restore Lot
+              </button>
+            </div>
+          )}
+          {!loading && lot?.stockTakeId && (
+            <div className="modern-card border-l-4 border-amber-500 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div>
+                <h3 className="font-semibold text-amber-900 mb-1">This lot is being counted</h3>
+                <p className="text-amber-700 text-sm">
+                  Sales, edits and stock adjustments are paused until the stock take is approved or cancelled.
+                </p>
+              </div>
+              <button
+                onClick={() => router.push(`/lots/stock-takes/${lot.stockTakeId}`)}
+                className="px-4 sm:px-5 py-2.5 rounded-xl border border-amber-200 bg-white font-semibold text-xs sm:text-sm text-amber-800 hover:bg-amber-50 transition-all whitespace-nowrap"
+              >
+                Open Stock Take
+              </button>
+            </div>
+          )}
+          {!loading && lot && !lot.deletedAt && !lot.stockTakeId && (
             <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
               <button
                 onClick={() => setDeleteModalOpen(true)}
@@ -126,6 +231,12 @@ export default function LotDetailsPage() {
               >
                 Edit Lot
               </button>
+              <button
+                onClick={() => setAdjustModalOpen(true)}
+                className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+              >
+                Adjust Stock
+              </button>
               <button
                 onClick={() => setSellModalOpen(true)}
                 disabled={getRemainingItems() === 0}
@@ -154,7 +265,7 @@ export default function LotDetailsPage() {
               </svg>
             </div>
             <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mb-1">
-              ${lot.totalInvestment.toFixed(2)}
+              {formatMoney(lot.totalInvestment)}
             </p>
             <p className="text-xs sm:text-sm text-gray-500">Total capital invested</p>
           </div>
@@ -167,7 +278,7 @@ export default function LotDetailsPage() {
               </svg>
             </div>
             <p className="text-xl sm:text-2xl lg:text-3xl font-bold mb-1">
-              ${lot.totalRevenue.toFixed(2)}
+              {formatMoney(lot.totalRevenue)}
             </p>
             <p className="text-xs sm:text-sm text-white/80">Total sales generated</p>
           </div>
@@ -182,9 +293,13 @@ export default function LotDetailsPage() {
             <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mb-1 ${
               lot.totalProfit >= 0 ? '' : 'text-red-200'
             }`}>
-              ${lot.totalProfit.toFixed(2)}
+              {formatMoney(lot.totalProfit)}
+            </p>
+            <p className="text-xs sm:text-sm text-white/80">
+              {lot.totalWriteOff
+                ? `After ${formatMoney(lot.totalWriteOff)} written off`
+                : 'Net margin on sales'}
             </p>
-            <p className="text-xs sm:text-sm text-white/80">Net margin on sales</p>
           </div>
 
           <div className="modern-card animate-fade-in-up stagger-4">
@@ -205,11 +320,35 @@ export default function LotDetailsPage() {
         {/* Inventory Details */}
         {!loading && lot && (
         <div className="modern-card-lg mb-8 sm:mb-12 animate-fade-in-up stagger-5">
-          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Inventory Details</h2>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6 sm:mb-8">
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold">Inventory Details</h2>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all">
+                  Print Labels
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="rounded-xl">
+                <DropdownMenuItem className="cursor-pointer" onClick={() => handlePrintLabels('variant')}>
+                  One label per size
+                </DropdownMenuItem>
+                <DropdownMenuItem className="cursor-pointer" onClick={() => handlePrintLabels('stock')}>
+                  One label per piece in stock
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
           <div className="space-y-8 sm:space-y-10">
             {lot.items.map((colorItem) => (
               <div key={colorItem.color} className="border-b border-gray-100 pb-6 sm:pb-8 last:border-b-0 last:pb-0">
-                <h3 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-5 sm:mb-6">{colorItem.color}</h3>
+                <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-5 sm:mb-6">
+                  <h3 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900">{colorItem.color}</h3>
+                  {colorItem.productId && (
+                    <Link href={`/products/${colorItem.productId._id}`} className="stat-badge text-xs hover:underline">
+                      {colorItem.productId.name}
+                    </Link>
+                  )}
+                </div>
                 <div className="grid grid-cols-1 gap-4 sm:gap-5">
                   {colorItem.sizes.map((size) => (
                     <div
@@ -225,16 +364,19 @@ export default function LotDetailsPage() {
                           <p className="text-base sm:text-lg lg:text-xl font-bold text-gray-900">
                             {size.remainingQuantity} / {size.quantity}
                           </p>
+                          {size.barcode && (
+                            <p className="text-xs text-gray-400 font-mono mt-1">{size.barcode}</p>
+                          )}
                         </div>
                       </div>
                       <div className="flex gap-6 sm:gap-8 lg:gap-12 ml-auto sm:ml-0 border-t sm:border-t-0 border-gray-100 pt-4 sm:pt-0">
                         <div className="text-left sm:text-right flex-1 sm:flex-none">
                           <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-2">Purchase</p>
-                          <p className="text-base sm:text-lg lg:text-xl font-bold text-gray-900">${size.purchaseCostPerPiece.toFixed(2)}</p>
+                          <p className="text-base sm:text-lg lg:text-xl font-bold text-gray-900">{formatMoney(size.purchaseCostPerPiece)}</p>
                         </div>
                         <div className="text-left sm:text-right flex-1 sm:flex-none">
                           <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-2">Sell</p>
-                          <p className="text-base sm:text-lg lg:text-xl font-bold text-green-600">${size.sellCostPerPiece.toFixed(2)}</p>
+                          <p className="text-base sm:text-lg lg:text-xl font-bold text-green-600">{formatMoney(size.sellCostPerPiece)}</p>
                         </div>
                       </div>
                     </div>
@@ -246,6 +388,54 @@ export default function LotDetailsPage() {
         </div>
         )}
 
+        {/* Stock Adjustments */}
+        {!loading && adjustments.length > 0 && (
+        <div className="modern-card-lg mb-8 sm:mb-12 animate-fade-in-up stagger-5">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Stock Adjustments</h2>
+          <div className="space-y-4 sm:space-y-5">
+            {adjustments.map((adjustment) => (
+              <div
+                key={adjustment._id}
+                className="p-4 sm:p-6 rounded-xl border-2 border-gray-100 bg-white"
+              >
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+                  <div className="min-w-0">
+                    <p className="text-base sm:text-lg font-bold text-gray-900 mb-1">
+                      {ADJUSTMENT_REASON_LABELS[adjustment.reason]}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {new Date(adjustment.createdAt).toLocaleString()} • {adjustment.adjustedBy.name}
+                    </p>
+                    {adjustment.note && <p className="text-sm text-gray-500 mt-1">{adjustment.note}</p>}
+                  </div>
+                  <div className="text-left sm:text-right flex-shrink-0">
+                    <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-1">Write-off</p>
+                    <p className={`text-xl sm:text-2xl font-bold ${adjustment.totalWriteOff > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {adjustment.totalWriteOff < 0 ? '-' : ''}{formatMoney(Math.abs(adjustment.totalWriteOff))}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2 sm:gap-3 pt-4 border-t border-gray-100">
+                  {adjustment.items.map((item) => (
+                    <span
+                      key={`${item.color}-${item.size}`}
+                      className="px-3 sm:px-4 py-2 rounded-lg bg-gray-50 text-gray-700 text-sm font-semibold border border-gray-100"
+                    >
+                      {item.color} - {item.size} {item.quantity > 0 ? '+' : ''}{item.quantity}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        )}
+
+        {/* Stock Movements */}
+        {!loading && lot && (
+          <StockMovementHistory lot={lot} isAdmin={user?.role === 'admin'} onRebuilt={fetchLotDetails} />
+        )}
+
         {/* Transaction History */}
         <div className="modern-card-lg animate-fade-in-up stagger-6">
           <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Transaction History</h2>
@@ -296,14 +486,16 @@ export default function LotDetailsPage() {
                       </div>
                     </div>
                     <div className="text-left sm:text-right flex-shrink-0">
-                      <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-1">Total Revenue</p>
+                      <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-1">
+                        {getTransactionLots(transaction).length > 1 ? 'From This Lot' : 'Total Revenue'}
+                      </p>
                       <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-green-600">
-                        ${transaction.totalRevenue.toFixed(2)}
+                        {formatMoney(getLotItems(transaction).reduce((sum, item) => sum + item.totalAmount, 0))}
                       </p>
                     </div>
                   </div>
                   <div className="flex flex-wrap gap-2 sm:gap-3 pt-4 border-t border-gray-100">
-                    {transaction.soldItems.map((item, idx) => (
+                    {getLotItems(transaction).map((item, idx) => (
                       <span
                         key={idx}
                         className="px-3 sm:px-4 py-2 rounded-lg bg-purple-50 text-purple-700 text-sm sm:text-base font-semibold border border-purple-100"
@@ -331,6 +523,15 @@ export default function LotDetailsPage() {
         />
       )}
 
+      {!loading && lot && (
+        <AdjustStockModal
+          lot={lot}
+          open={adjustModalOpen}
+          onClose={() => setAdjustModalOpen(false)}
+          onSuccess={handleAdjustSuccess}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <Dialog open={deleteModalOpen} onOpenChange={setDeleteModalOpen}>
         <DialogContent className="sm:max-w-md">
@@ -342,7 +543,7 @@ export default function LotDetailsPage() {
               <DialogTitle className="text-xl">Delete Lot</DialogTitle>
             </div>
             <DialogDescription className="text-left pt-2">
-              Are you sure you want to delete this lot permanently? Transaction history will be preserved but the lot cannot be recovered.
+              The lot will be moved to the trash and hidden from your inventory. Its sales history is kept, and it can be restored from the trash at any time.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="gap-2 sm:gap-2">
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Label } from '@/components/ui/label';
+import SupplierSelect from '@/components/supplier-select';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { LotImportPreview, LotImportRowError } from '@/types';
+import { toast } from 'sonner';
+
+const TEMPLATE_COLUMNS = ['Lot Number', 'Color', 'Size', 'Quantity', 'Purchase Cost', 'Sell Price'];
+
+export default function ImportLotsPage() {
+  const formatMoney = useFormatMoney();
+  const [file, setFile] = useState<File | null>(null);
+  const [supplierId, setSupplierId] = useState('');
+  const [preview, setPreview] = useState<LotImportPreview | null>(null);
+  const [errors, setErrors] = useState<LotImportRowError[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const router = useRouter();
+
+  const buildForm = (dryRun: boolean) => {
+    const form = new FormData();
+    form.append('file', file as File);
+    form.append('dryRun', dryRun.toString());
+    if (supplierId) {
+      form.append('supplierId', supplierId);
+    }
+    return form;
+  };
+
+  // The api client defaults to JSON, which would serialize the form
+  const uploadConfig = { headers: { 'Content-Type': 'multipart/form-data' } };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setErrors([]);
+  };
+
+  const handleCheck = async () => {
+    if (!file) return;
+
+    setChecking(true);
+    try {
+      const response = await api.post('/lots/import', buildForm(true), uploadConfig);
+      const data: LotImportPreview = response.data.data;
+      setPreview(data);
+      setErrors(data.errors);
+    } catch (error) {
+      setPreview(null);
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to read file'
+        : 'Failed to read file';
+      toast.error(message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const response = await api.post('/lots/import', buildForm(false), uploadConfig);
+      toast.success(response.data.message || 'Lots imported');
+      router.push('/lots');
+    } catch (error) {
+      if (error instanceof AxiosError) {
+        const details = error.response?.data?.error?.details;
+        if (Array.isArray(details)) {
+          setErrors(details);
+        }
+        toast.error(error.response?.data?.error?.message || 'Failed to import lots');
+      } else {
+        toast.error('Failed to import lots');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const totalInvestment = preview?.lots.reduce((sum, lot) => sum + lot.totalInvestment, 0) ?? 0;
+  const totalQuantity = preview?.lots.reduce((sum, lot) => sum + lot.totalQuantity, 0) ?? 0;
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Import Lots</h1>
+            <p className="text-sm sm:text-base text-gray-600">Create lots in bulk from a CSV or Excel sheet</p>
+          </div>
+          <button
+            onClick={() => router.push('/lots')}
+            className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+          >
+            ← Back to Lots
+          </button>
+        </div>
+
+        <div className="space-y-6 sm:space-y-8">
+          {/* Upload */}
+          <div className="modern-card-lg animate-fade-in-up stagger-1">
+            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Spreadsheet</h2>
+            <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+              One row per size with the columns {TEMPLATE_COLUMNS.join(', ')}. Rows sharing a lot number
+              become one lot; rows with no lot number become a single lot numbered automatically.
+            </p>
+            <div className="space-y-4 sm:space-y-6">
+              <div>
+                <Label htmlFor="file" className="floating-label text-sm">File (.csv or .xlsx, up to 5 MB)</Label>
+                <input
+                  id="file"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                  className="modern-input text-sm w-full file:mr-4 file:px-4 file:py-1.5 file:rounded-lg file:border-0 file:bg-purple-50 file:text-purple-600 file:font-semibold"
+                />
+              </div>
+              <div>
+                <Label className="floating-label text-sm">Supplier (Optional)</Label>
+                <SupplierSelect value={supplierId} onChange={setSupplierId} />
+              </div>
+              <button
+                onClick={handleCheck}
+                disabled={!file || checking}
+                className="modern-btn-primary px-6 sm:px-8 py-2.5 sm:py-3 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {checking ? 'Checking...' : 'Check File'}
+              </button>
+            </div>
+          </div>
+
+          {/* Row errors */}
+          {errors.length > 0 && (
+            <div className="modern-card border-l-4 border-red-500 animate-scale-in">
+              <h3 className="font-semibold text-red-900 mb-2">
+                {errors.length} {errors.length === 1 ? 'row needs' : 'rows need'} fixing before importing
+              </h3>
+              <ul className="space-y-1 text-sm text-red-700 max-h-64 overflow-y-auto">
+                {errors.map((error, index) => (
+                  <li key={`${error.row}-${index}`}>
+                    <span className="font-semibold">Row {error.row}:</span> {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="modern-card-lg animate-fade-in-up">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4 sm:mb-6">
+                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold">Preview</h2>
+                <p className="text-xs sm:text-sm text-gray-500">
+                  {preview.rowCount} rows · {preview.lots.length} lots · {totalQuantity} pieces · {formatMoney(totalInvestment)} investment
+                </p>
+              </div>
+
+              {preview.lots.length === 0 ? (
+                <p className="text-sm text-gray-500">No rows could be read from this file.</p>
+              ) : (
+                <div className="space-y-4">
+                  {preview.lots.map((lot) => (
+                    <div key={lot.lotNumber ?? 'auto'} className="p-3 sm:p-4 border border-gray-200 rounded-xl bg-gray-50/50">
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="font-bold text-gray-900">{lot.lotNumber ?? 'New lot (numbered automatically)'}</p>
+                        <span className="stat-badge">{lot.totalQuantity} pcs · {formatMoney(lot.totalInvestment)}</span>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-xs sm:text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1 pr-4 font-semibold">Color</th>
+                              <th className="py-1 pr-4 font-semibold">Size</th>
+                              <th className="py-1 pr-4 font-semibold text-right">Qty</th>
+                              <th className="py-1 pr-4 font-semibold text-right">Cost</th>
+                              <th className="py-1 font-semibold text-right">Price</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {lot.items.flatMap((item) =>
+                              item.sizes.map((size) => (
+                                <tr key={`${item.color}-${size.size}`} className="border-t border-gray-100">
+                                  <td className="py-1 pr-4">{item.color}</td>
+                                  <td className="py-1 pr-4">{size.size}</td>
+                                  <td className="py-1 pr-4 text-right">{size.quantity}</td>
+                                  <td className="py-1 pr-4 text-right">{formatMoney(size.purchaseCostPerPiece)}</td>
+                                  <td className="py-1 text-right">{formatMoney(size.sellCostPerPiece)}</td>
+                                </tr>
+                              ))
+                            )}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end mt-4 sm:mt-6">
+                <button
+                  onClick={handleImport}
+                  disabled={importing || errors.length > 0 || preview.lots.length === 0}
+                  className="modern-btn-success px-6 sm:px-8 py-2.5 sm:py-3 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing
+                    ? 'Importing...'
+                    : `Import ${preview.lots.length} ${preview.lots.length === 1 ? 'Lot' : 'Lots'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
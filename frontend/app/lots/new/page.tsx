@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { AxiosError } from 'axios';
 import ProtectedRoute from '@/components/protected-route';
 import Navbar from '@/components/navbar';
@@ -9,7 +9,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import SupplierSelect from '@/components/supplier-select';
+import ProductSelect from '@/components/product-select';
+import TermSelect from '@/components/term-select';
+import SizeRunSelect from '@/components/size-run-select';
 import api from '@/lib/api';
+import { useVocabulary } from '@/lib/vocabulary';
+import { formatMoney as formatInCurrency, useCurrency, useFormatMoney } from '@/lib/money';
+import { Product, SizeRun } from '@/types';
 import { toast } from 'sonner';
 
 interface Size {
@@ -18,16 +25,37 @@ interface Size {
   quantity: string;
   purchaseCostPerPiece: string;
   sellCostPerPiece: string;
+  lowStockThreshold: string;
 }
 
 interface Color {
   id: string;
   color: string;
+  // Set when the color was filled in from a catalogue product
+  product?: {
+    _id: string;
+    name: string;
+  };
   sizes: Size[];
 }
 
+const emptySize = (size = ''): Size => ({
+  id: crypto.randomUUID(),
+  size,
+  quantity: '',
+  purchaseCostPerPiece: '',
+  sellCostPerPiece: '',
+  lowStockThreshold: '',
+});
+
 export default function CreateLotPage() {
+  const formatMoney = useFormatMoney();
   const [lotNumber, setLotNumber] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [lowStockThreshold, setLowStockThreshold] = useState('');
+  // Blank when the lot is bought in the business's own currency
+  const [purchaseCurrency, setPurchaseCurrency] = useState('');
+  const [exchangeRate, setExchangeRate] = useState('');
   const [colors, setColors] = useState<Color[]>([
     {
       id: crypto.randomUUID(),
@@ -39,6 +67,7 @@ export default function CreateLotPage() {
           quantity: '',
           purchaseCostPerPiece: '',
           sellCostPerPiece: '',
+          lowStockThreshold: '',
         },
       ],
     },
@@ -46,6 +75,13 @@ export default function CreateLotPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const vocabulary = useVocabulary();
+  const currency = useCurrency();
+  // Only well-formed codes can be formatted; the server checks the code itself
+  const foreignCurrency = /^[A-Z]{3}$/.test(purchaseCurrency) && purchaseCurrency !== currency.currency
+    ? purchaseCurrency
+    : undefined;
 
   const handleAutoGenerate = async () => {
     try {
@@ -80,12 +116,33 @@ export default function CreateLotPage() {
             quantity: '',
             purchaseCostPerPiece: '',
             sellCostPerPiece: '',
+            lowStockThreshold: '',
           },
         ],
       },
     ]);
   };
 
+  // One color per product color, each with the product's sizes; replaces the form if it's still blank
+  const addProductLines = (product: Product) => {
+    const lines: Color[] = (product.colors.length > 0 ? product.colors : ['']).map((color) => ({
+      id: crypto.randomUUID(),
+      color,
+      product: { _id: product._id, name: product.name },
+      sizes: (product.sizes.length > 0 ? product.sizes : ['']).map((size) => emptySize(size)),
+    }));
+
+    setColors((current) => {
+      const untouched = current.length === 1 && !current[0].color && !current[0].product &&
+        current[0].sizes.every((size) => !size.size && !size.quantity);
+      return untouched ? lines : [...current, ...lines];
+    });
+  };
+
+  const unlinkProduct = (colorId: string) => {
+    setColors(colors.map((c) => (c.id === colorId ? { ...c, product: undefined } : c)));
+  };
+
   const removeColor = (colorId: string) => {
     setColors(colors.filter((c) => c.id !== colorId));
   };
@@ -110,6 +167,7 @@ export default function CreateLotPage() {
                   quantity: '',
                   purchaseCostPerPiece: '',
                   sellCostPerPiece: '',
+                  lowStockThreshold: '',
                 },
               ],
             }
@@ -118,6 +176,21 @@ export default function CreateLotPage() {
     );
   };
 
+  // Adds the run's sizes the color doesn't have yet, in place of a blank size row
+  const applySizeRun = (colorId: string, sizeRun: SizeRun) => {
+    setColors(
+      colors.map((c) => {
+        if (c.id !== colorId) return c;
+
+        const kept = c.sizes.filter((s) => s.size || s.quantity);
+        const added = sizeRun.sizes
+          .filter((size) => !kept.some((s) => s.size === size))
+          .map((size) => emptySize(size));
+        return { ...c, sizes: [...kept, ...added] };
+      })
+    );
+  };
+
   const removeSize = (colorId: string, sizeId: string) => {
     setColors(
       colors.map((c) =>
@@ -161,6 +234,9 @@ export default function CreateLotPage() {
     }, 0);
   };
 
+  // Purchase costs are typed in the purchase currency and converted by the server at this rate
+  const getExchangeRate = () => (foreignCurrency ? parseFloat(exchangeRate) || 0 : 1);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -168,14 +244,21 @@ export default function CreateLotPage() {
 
     try {
       const payload = {
-        lotNumber,
+        // Blank lets the server take the next number from the sequence
+        lotNumber: lotNumber.trim() || undefined,
+        supplierId: supplierId || undefined,
+        lowStockThreshold: lowStockThreshold ? parseInt(lowStockThreshold, 10) : undefined,
+        purchaseCurrency: purchaseCurrency.trim() || undefined,
+        exchangeRate: purchaseCurrency.trim() ? parseFloat(exchangeRate) : undefined,
         items: colors.map((color) => ({
           color: color.color,
+          productId: color.product?._id,
           sizes: color.sizes.map((size) => ({
             size: size.size,
             quantity: parseFloat(size.quantity),
             purchaseCostPerPiece: parseFloat(size.purchaseCostPerPiece),
             sellCostPerPiece: parseFloat(size.sellCostPerPiece),
+            lowStockThreshold: size.lowStockThreshold ? parseInt(size.lowStockThreshold, 10) : undefined,
           })),
         })),
       };
@@ -237,15 +320,14 @@ export default function CreateLotPage() {
             <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
               <div className="flex-1">
                 <Label htmlFor="lotNumber" className="floating-label text-sm">
-                  Lot Number
+                  Lot Number (Optional)
                 </Label>
                 <Input
                   id="lotNumber"
                   value={lotNumber}
                   onChange={(e) => setLotNumber(e.target.value)}
-                  required
                   className="modern-input text-sm"
-                  placeholder="LOT-0001"
+                  placeholder="Leave blank to number automatically"
                 />
               </div>
               <button
@@ -256,13 +338,89 @@ export default function CreateLotPage() {
                 Auto-generate
               </button>
             </div>
+            <div className="mt-4 sm:mt-6">
+              <Label className="floating-label text-sm">Supplier (Optional)</Label>
+              <SupplierSelect value={supplierId} onChange={setSupplierId} />
+            </div>
+            <div className="mt-4 sm:mt-6">
+              <Label htmlFor="lowStockThreshold" className="floating-label text-sm">Low-Stock Threshold (Optional)</Label>
+              <Input
+                id="lowStockThreshold"
+                type="number"
+                min="0"
+                value={lowStockThreshold}
+                onChange={(e) => setLowStockThreshold(e.target.value)}
+                className="modern-input text-sm"
+                placeholder="Leave blank to use the business default"
+              />
+            </div>
+            <div className="mt-4 sm:mt-6 grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <div>
+                <Label htmlFor="purchaseCurrency" className="floating-label text-sm">Purchase Currency (Optional)</Label>
+                <Input
+                  id="purchaseCurrency"
+                  value={purchaseCurrency}
+                  onChange={(e) => setPurchaseCurrency(e.target.value.toUpperCase())}
+                  maxLength={3}
+                  className="modern-input text-sm"
+                  placeholder={`Leave blank for ${currency.currency}`}
+                />
+              </div>
+              {purchaseCurrency.trim() && (
+                <div>
+                  <Label htmlFor="exchangeRate" className="floating-label text-sm">
+                    {currency.currency} per 1 {purchaseCurrency}
+                  </Label>
+                  <Input
+                    id="exchangeRate"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value)}
+                    required
+                    className="modern-input text-sm"
+                    placeholder="Exchange rate"
+                  />
+                </div>
+              )}
+            </div>
+            {purchaseCurrency.trim() && (
+              <p className="text-xs text-gray-500 mt-2">
+                Enter purchase prices in {purchaseCurrency}; they&apos;re converted to {currency.currency} at this rate when the lot is created. Sell prices are in {currency.currency}.
+              </p>
+            )}
+          </div>
+
+          {/* Product */}
+          <div className="modern-card-lg animate-fade-in-up stagger-2">
+            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Product (Optional)</h2>
+            <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+              Pick a product to fill in its colors and sizes and count this lot towards its stock
+            </p>
+            <ProductSelect onSelect={addProductLines} initialProductId={searchParams.get('productId')} />
           </div>
 
           {/* Colors */}
           {colors.map((color, colorIndex) => (
             <div key={color.id} className="modern-card-lg animate-fade-in-up" style={{animationDelay: `${(colorIndex + 2) * 0.05}s`}}>
               <div className="flex items-center justify-between mb-4 sm:mb-6">
-                <h2 className="text-lg sm:text-xl lg:text-2xl font-bold">Color {colorIndex + 1}</h2>
+                <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+                  <h2 className="text-lg sm:text-xl lg:text-2xl font-bold">Color {colorIndex + 1}</h2>
+                  {color.product && (
+                    <span className="stat-badge text-xs truncate">
+                      {color.product.name}
+                      <button
+                        type="button"
+                        onClick={() => unlinkProduct(color.id)}
+                        className="ml-2 font-bold hover:text-red-600"
+                        aria-label="Unlink product"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )}
+                </div>
                 {colors.length > 1 && (
                   <button
                     type="button"
@@ -277,11 +435,12 @@ export default function CreateLotPage() {
               <div className="space-y-4 sm:space-y-6">
                 <div>
                   <Label className="floating-label text-sm">Color Name</Label>
-                  <Input
+                  <TermSelect
                     value={color.color}
-                    onChange={(e) => updateColor(color.id, e.target.value)}
-                    required
-                    className="modern-input text-sm"
+                    onChange={(value) => updateColor(color.id, value)}
+                    options={vocabulary.colorNames}
+                    onCreate={vocabulary.addColor}
+                    noun="color"
                     placeholder="e.g., Navy Blue"
                   />
                 </div>
@@ -289,13 +448,19 @@ export default function CreateLotPage() {
                 <div>
                   <div className="flex items-center justify-between mb-3 sm:mb-4">
                     <Label className="text-xs sm:text-sm font-semibold text-gray-700">Sizes</Label>
-                    <button
-                      type="button"
-                      onClick={() => addSize(color.id)}
-                      className="px-3 sm:px-4 py-2 rounded-xl bg-purple-50 text-purple-600 font-semibold text-xs sm:text-sm hover:bg-purple-100 transition-all"
-                    >
-                      + Add Size
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <SizeRunSelect
+                        sizeRuns={vocabulary.sizeRuns}
+                        onSelect={(sizeRun) => applySizeRun(color.id, sizeRun)}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => addSize(color.id)}
+                        className="px-3 sm:px-4 py-2 rounded-xl bg-purple-50 text-purple-600 font-semibold text-xs sm:text-sm hover:bg-purple-100 transition-all"
+                      >
+                        + Add Size
+                      </button>
+                    </div>
                   </div>
                   <div className="space-y-3">
                     {color.sizes.map((size, sizeIndex) => (
@@ -303,13 +468,13 @@ export default function CreateLotPage() {
                         <div className="grid grid-cols-2 gap-2 sm:gap-3">
                           <div>
                             <Label className="text-xs text-gray-600 mb-1 block">Size</Label>
-                            <Input
-                              placeholder="e.g., L"
+                            <TermSelect
                               value={size.size}
-                              onChange={(e) =>
-                                updateSize(color.id, size.id, 'size', e.target.value)
-                              }
-                              required
+                              onChange={(value) => updateSize(color.id, size.id, 'size', value)}
+                              options={vocabulary.sizeNames}
+                              onCreate={vocabulary.addSize}
+                              noun="size"
+                              placeholder="e.g., L"
                               className="modern-input text-sm h-10"
                             />
                           </div>
@@ -330,7 +495,9 @@ export default function CreateLotPage() {
                         </div>
                         <div className="grid grid-cols-2 gap-2 sm:gap-3">
                           <div>
-                            <Label className="text-xs text-gray-600 mb-1 block">Purchase Price</Label>
+                            <Label className="text-xs text-gray-600 mb-1 block">
+                              Purchase Price{foreignCurrency ? ` (${foreignCurrency})` : ''}
+                            </Label>
                             <Input
                               type="number"
                               placeholder="0.00"
@@ -370,6 +537,19 @@ export default function CreateLotPage() {
                             />
                           </div>
                         </div>
+                        <div>
+                          <Label className="text-xs text-gray-600 mb-1 block">Low-Stock Threshold (Optional)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder="Leave blank to use the lot's threshold"
+                            value={size.lowStockThreshold}
+                            onChange={(e) =>
+                              updateSize(color.id, size.id, 'lowStockThreshold', e.target.value)
+                            }
+                            className="modern-input text-sm h-10"
+                          />
+                        </div>
                         <button
                           type="button"
                           onClick={() => removeSize(color.id, size.id)}
@@ -398,10 +578,12 @@ export default function CreateLotPage() {
           <div className="gradient-card-primary animate-fade-in-up">
             <h2 className="text-base sm:text-lg lg:text-xl font-bold mb-2">Total Investment</h2>
             <p className="text-3xl sm:text-4xl lg:text-5xl font-bold">
-              ${calculateTotalInvestment().toFixed(2)}
+              {formatMoney(calculateTotalInvestment() * getExchangeRate())}
             </p>
             <p className="text-xs sm:text-sm text-white/80 mt-2">
-              Combined purchase cost across all items
+              {foreignCurrency
+                ? `${formatInCurrency(calculateTotalInvestment(), { ...currency, currency: foreignCurrency })} at the exchange rate given`
+                : 'Combined purchase cost across all items'}
             </p>
           </div>
 
@@ -17,10 +17,12 @@ import {
 import { LotCardSkeleton } from '@/components/ui/skeleton';
 import { Pagination } from '@/components/ui/pagination';
 import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
 import { Lot } from '@/types';
 import { toast } from 'sonner';
 
 function LotsPageContent() {
+  const formatMoney = useFormatMoney();
   const [lots, setLots] = useState<Lot[]>([]);
   const [search, setSearch] = useState('');
   const [loading, setLoading] = useState(true);
@@ -107,12 +109,32 @@ function LotsPageContent() {
             <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Inventory Lots</h1>
             <p className="text-sm sm:text-base text-gray-600">Manage and track your product inventory</p>
           </div>
-          <button
-            onClick={() => router.push('/lots/new')}
-            className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
-          >
-            + Create New Lot
-          </button>
+          <div className="flex gap-2 sm:gap-3">
+            <button
+              onClick={() => router.push('/lots/trash')}
+              className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Trash
+            </button>
+            <button
+              onClick={() => router.push('/lots/stock-takes')}
+              className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Stock Takes
+            </button>
+            <button
+              onClick={() => router.push('/lots/import')}
+              className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => router.push('/lots/new')}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + Create New Lot
+            </button>
+          </div>
         </div>
 
         {/* Search */}
@@ -205,6 +227,11 @@ function LotsPageContent() {
                         <div className="flex-1 min-w-0">
                           <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-1 truncate">
                             {lot.lotNumber}
+                            {lot.stockTakeId && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-50 text-amber-700 border border-amber-200">
+                                Counting
+                              </span>
+                            )}
                           </h3>
                           <p className="text-xs sm:text-sm text-gray-500">
                             Created {new Date(lot.createdAt).toLocaleDateString()}
@@ -216,13 +243,13 @@ function LotsPageContent() {
                         <div className="text-center bg-gray-50 rounded-lg p-3">
                           <p className="text-xs text-gray-500 uppercase font-semibold mb-1">Investment</p>
                           <p className="text-sm sm:text-base font-bold text-gray-900">
-                            ${lot.totalInvestment?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalInvestment ?? 0)}
                           </p>
                         </div>
                         <div className="text-center bg-gray-50 rounded-lg p-3">
                           <p className="text-xs text-gray-500 uppercase font-semibold mb-1">Revenue</p>
                           <p className="text-sm sm:text-base font-bold text-green-600">
-                            ${lot.totalRevenue?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalRevenue ?? 0)}
                           </p>
                         </div>
                         <div className="text-center bg-gray-50 rounded-lg p-3">
@@ -230,7 +257,7 @@ function LotsPageContent() {
                           <p className={`text-sm sm:text-base font-bold ${
                             (lot.totalProfit ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            ${lot.totalProfit?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalProfit ?? 0)}
                           </p>
                         </div>
                         <div className="text-center bg-gray-50 rounded-lg p-3">
@@ -256,7 +283,7 @@ function LotsPageContent() {
                             e.stopPropagation();
                             router.push(`/lots/${lot._id}?sell=true`);
                           }}
-                          disabled={remainingItems === 0}
+                          disabled={remainingItems === 0 || Boolean(lot.stockTakeId)}
                           className="flex-1 modern-btn-primary px-4 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           Sell Items
@@ -273,6 +300,11 @@ function LotsPageContent() {
                         <div className="flex-1">
                           <h3 className="text-xl font-bold text-gray-900 mb-1">
                             {lot.lotNumber}
+                            {lot.stockTakeId && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-50 text-amber-700 border border-amber-200">
+                                Counting
+                              </span>
+                            )}
                           </h3>
                           <p className="text-sm text-gray-500">
                             Created {new Date(lot.createdAt).toLocaleDateString()}
@@ -284,13 +316,13 @@ function LotsPageContent() {
                         <div className="text-center">
                           <p className="text-xs text-gray-500 uppercase font-semibold mb-1">Investment</p>
                           <p className="text-lg font-bold text-gray-900">
-                            ${lot.totalInvestment?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalInvestment ?? 0)}
                           </p>
                         </div>
                         <div className="text-center">
                           <p className="text-xs text-gray-500 uppercase font-semibold mb-1">Revenue</p>
                           <p className="text-lg font-bold text-green-600">
-                            ${lot.totalRevenue?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalRevenue ?? 0)}
                           </p>
                         </div>
                         <div className="text-center">
@@ -298,7 +330,7 @@ function LotsPageContent() {
                           <p className={`text-lg font-bold ${
                             (lot.totalProfit ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'
                           }`}>
-                            ${lot.totalProfit?.toFixed(2) ?? '0.00'}
+                            {formatMoney(lot.totalProfit ?? 0)}
                           </p>
                         </div>
                         <div className="text-center">
@@ -324,7 +356,7 @@ function LotsPageContent() {
                             e.stopPropagation();
                             router.push(`/lots/${lot._id}?sell=true`);
                           }}
-                          disabled={remainingItems === 0}
+                          disabled={remainingItems === 0 || Boolean(lot.stockTakeId)}
                           className="modern-btn-primary px-5 py-2.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           Sell Items
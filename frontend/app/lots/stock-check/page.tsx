@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { LotCardSkeleton } from '@/components/ui/skeleton';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { StockConsistencyLot } from '@/types';
+import { toast } from 'sonner';
+
+export default function StockCheckPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [lots, setLots] = useState<StockConsistencyLot[]>([]);
+  const [checkedLots, setCheckedLots] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [rebuildingId, setRebuildingId] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchConsistency();
+    }
+  }, [isAdmin]);
+
+  const fetchConsistency = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/stock-movements/consistency');
+      setLots(response.data.data.lots);
+      setCheckedLots(response.data.data.checkedLots);
+    } catch (error) {
+      toast.error('Failed to check stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRebuild = async (lot: StockConsistencyLot) => {
+    setRebuildingId(lot.lotId);
+    try {
+      const response = await api.post(`/lots/${lot.lotId}/movements/rebuild`, {});
+      toast.success(`${lot.lotNumber}: ${response.data.message || 'stock rebuilt'}`);
+      fetchConsistency();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to rebuild stock'
+        : 'Failed to rebuild stock';
+      toast.error(message);
+    } finally {
+      setRebuildingId(null);
+    }
+  };
+
+  if (user && !isAdmin) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Admins only</h3>
+            <p className="text-gray-600 mb-6">Ask an administrator to check stock against the ledger.</p>
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="modern-btn-primary px-6 py-3"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Stock Check</h1>
+            <p className="text-sm sm:text-base text-gray-600">Lots whose stock counters disagree with the movement ledger</p>
+          </div>
+          <button
+            onClick={fetchConsistency}
+            disabled={loading}
+            className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all disabled:opacity-50"
+          >
+            Run Check Again
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <LotCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : lots.length === 0 ? (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Everything matches</h3>
+            <p className="text-gray-600">All {checkedLots} lots agree with the ledger.</p>
+          </div>
+        ) : (
+          <div className="space-y-3 animate-fade-in-up stagger-1">
+            <p className="text-sm text-gray-500">
+              {lots.length} of {checkedLots} lots need attention
+            </p>
+            {lots.map((lot) => (
+              <div key={lot.lotId} className="modern-card flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div className="min-w-0">
+                  <button
+                    onClick={() => router.push(`/lots/${lot.lotId}`)}
+                    className="font-bold text-gray-900 hover:text-purple-700"
+                  >
+                    {lot.lotNumber}
+                  </button>
+                  {lot.deletedAt && <span className="ml-2 text-xs text-gray-500">In trash</span>}
+                  {lot.missingHistory ? (
+                    <p className="text-xs sm:text-sm text-gray-500">Created before movements were recorded</p>
+                  ) : (
+                    <ul className="text-xs sm:text-sm text-gray-600 mt-1 space-y-0.5">
+                      {lot.mismatches.map((mismatch) => (
+                        <li key={`${mismatch.color}-${mismatch.size}`}>
+                          {mismatch.color} - {mismatch.size}: {mismatch.remainingQuantity} in stock, {mismatch.ledgerQuantity} in ledger
+                          {mismatch.missingOpeningBalance && ' (no opening balance)'}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleRebuild(lot)}
+                  disabled={rebuildingId !== null}
+                  className="modern-btn-primary px-4 py-2.5 text-xs sm:text-sm whitespace-nowrap disabled:opacity-50"
+                >
+                  {rebuildingId === lot.lotId
+                    ? 'Rebuilding...'
+                    : lot.missingHistory ? 'Record Opening Balance' : 'Rebuild from Ledger'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
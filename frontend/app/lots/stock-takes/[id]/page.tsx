@@ -0,0 +1,370 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { StatCardSkeleton } from '@/components/ui/skeleton';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { getLineKey, isLineCounted, STOCK_TAKE_STATUS_BADGES } from '@/lib/stock-takes';
+import { useFormatMoney } from '@/lib/money';
+import { StockTake, StockTakeLine } from '@/types';
+import { toast } from 'sonner';
+
+export default function StockTakeDetailsPage() {
+  const formatMoney = useFormatMoney();
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [stockTake, setStockTake] = useState<StockTake | null>(null);
+  // Counts typed on this device that haven't been saved yet
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'approve' | 'cancel' | null>(null);
+  const [closing, setClosing] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    fetchStockTake();
+  }, [params.id]);
+
+  const fetchStockTake = async () => {
+    try {
+      const response = await api.get(`/stock-takes/${params.id}`);
+      setStockTake(response.data.data.stockTake);
+    } catch (error) {
+      toast.error('Failed to load stock take');
+      router.push('/lots/stock-takes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCounted = (line: StockTakeLine) => {
+    const draft = drafts[getLineKey(line)];
+    if (draft !== undefined && draft !== '') return parseInt(draft);
+    return isLineCounted(line) ? line.countedQuantity : undefined;
+  };
+
+  const handleSave = async () => {
+    if (!stockTake) return;
+
+    const counts = stockTake.lines
+      .filter((line) => drafts[getLineKey(line)] !== undefined && drafts[getLineKey(line)] !== '')
+      .map((line) => ({
+        lotId: line.lotId,
+        color: line.color,
+        size: line.size,
+        countedQuantity: parseInt(drafts[getLineKey(line)]),
+      }));
+
+    if (counts.length === 0) {
+      toast.error('Enter at least one count');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.patch(`/stock-takes/${stockTake._id}/counts`, { counts });
+      setStockTake(response.data.data.stockTake);
+      setDrafts({});
+      toast.success(`${counts.length} ${counts.length === 1 ? 'count' : 'counts'} saved`);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to save counts'
+        : 'Failed to save counts';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!stockTake || !confirmAction) return;
+
+    setClosing(true);
+    try {
+      const response = await api.post(`/stock-takes/${stockTake._id}/${confirmAction}`);
+      toast.success(response.data.message);
+      setConfirmAction(null);
+      setDrafts({});
+      fetchStockTake();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to update stock take'
+        : 'Failed to update stock take';
+      toast.error(message);
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  if (loading || !stockTake) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <StatCardSkeleton />
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  const isOpen = stockTake.status === 'open';
+  const canCancel = isOpen && (isAdmin || stockTake.createdBy._id === user?.id);
+  const badge = STOCK_TAKE_STATUS_BADGES[stockTake.status];
+  const countedLines = stockTake.lines.filter(isLineCounted).length;
+  const unsavedCount = Object.values(drafts).filter((value) => value !== '').length;
+  const varianceLines = stockTake.lines.filter((line) => {
+    const counted = getCounted(line);
+    return counted !== undefined && counted !== line.expectedQuantity;
+  });
+  const netVariance = varianceLines.reduce(
+    (sum, line) => sum + (getCounted(line) as number) - line.expectedQuantity,
+    0
+  );
+
+  const lotGroups = stockTake.lotIds.map((lotId) => {
+    const lines = stockTake.lines.filter((line) => line.lotId === lotId);
+    return {
+      lotId,
+      lotNumber: lines[0]?.lotNumber ?? '',
+      lines: varianceOnly ? lines.filter((line) => varianceLines.includes(line)) : lines,
+    };
+  });
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <button
+              onClick={() => router.push('/lots/stock-takes')}
+              className="text-xs sm:text-sm text-gray-600 hover:text-gray-900 font-semibold mb-3 sm:mb-4 flex items-center gap-2"
+            >
+              ← Back to Stock Takes
+            </button>
+            <div className="flex items-center gap-3 mb-1 sm:mb-2">
+              <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold">{stockTake.name}</h1>
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${badge.className}`}>
+                {badge.label}
+              </span>
+            </div>
+            <p className="text-sm sm:text-base text-gray-600">
+              Started {new Date(stockTake.createdAt).toLocaleString()} by {stockTake.createdBy.name}
+              {stockTake.closedAt && (
+                <>
+                  {' • '}{stockTake.status === 'approved' ? 'Approved' : 'Cancelled'} {new Date(stockTake.closedAt).toLocaleString()}
+                  {stockTake.closedBy ? ` by ${stockTake.closedBy.name}` : ''}
+                </>
+              )}
+            </p>
+          </div>
+          {isOpen && (
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+              {canCancel && (
+                <button
+                  onClick={() => setConfirmAction('cancel')}
+                  className="px-4 sm:px-5 py-2.5 rounded-xl border border-red-200 bg-white font-semibold text-xs sm:text-sm text-red-600 hover:bg-red-50 transition-all"
+                >
+                  Cancel Stock Take
+                </button>
+              )}
+              <button
+                onClick={fetchStockTake}
+                className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+              >
+                Refresh Counts
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || unsavedCount === 0}
+                className="modern-btn-primary px-4 sm:px-5 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : `Save ${unsavedCount || ''} ${unsavedCount === 1 ? 'Count' : 'Counts'}`}
+              </button>
+              {isAdmin && (
+                <button
+                  onClick={() => setConfirmAction('approve')}
+                  disabled={countedLines < stockTake.lines.length || unsavedCount > 0}
+                  title={countedLines < stockTake.lines.length ? 'Every line needs a count before approving' : undefined}
+                  className="modern-btn-success px-4 sm:px-5 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Approve & Post
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+          <div className="modern-card animate-fade-in-up stagger-1">
+            <span className="stat-badge text-xs">Counted</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 mb-1">
+              {countedLines} / {stockTake.lines.length}
+            </p>
+            <p className="text-xs sm:text-sm text-gray-500">Lines with a count</p>
+          </div>
+          <div className="modern-card animate-fade-in-up stagger-2">
+            <span className="stat-badge text-xs">Variances</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 mb-1">
+              {varianceLines.length}
+            </p>
+            <p className="text-xs sm:text-sm text-gray-500">Lines that don&apos;t match</p>
+          </div>
+          <div className="modern-card animate-fade-in-up stagger-3">
+            <span className="stat-badge text-xs">Net Units</span>
+            <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mt-3 mb-1 ${
+              netVariance < 0 ? 'text-red-600' : netVariance > 0 ? 'text-green-600' : 'text-gray-900'
+            }`}>
+              {netVariance > 0 ? '+' : ''}{netVariance}
+            </p>
+            <p className="text-xs sm:text-sm text-gray-500">Counted minus expected</p>
+          </div>
+          <div className="modern-card animate-fade-in-up stagger-4">
+            <span className="stat-badge text-xs">Write-off</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 mb-1">
+              {stockTake.status === 'approved' ? formatMoney(stockTake.totalWriteOff) : '—'}
+            </p>
+            <p className="text-xs sm:text-sm text-gray-500">Posted on approval</p>
+          </div>
+        </div>
+
+        {/* Lines */}
+        <div className="modern-card-lg animate-fade-in-up stagger-5">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold">Counts</h2>
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={varianceOnly}
+                onChange={(e) => setVarianceOnly(e.target.checked)}
+                className="w-4 h-4 accent-purple-600"
+              />
+              Only show variances
+            </label>
+          </div>
+          <div className="space-y-8">
+            {lotGroups.map((group) => (
+              <div key={group.lotId}>
+                <button
+                  onClick={() => router.push(`/lots/${group.lotId}`)}
+                  className="text-lg font-bold text-gray-900 hover:text-purple-700 mb-3"
+                >
+                  {group.lotNumber}
+                </button>
+                {group.lines.length === 0 ? (
+                  <p className="text-sm text-gray-500">Every line matches.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs sm:text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 pr-4 font-semibold">Color</th>
+                          <th className="py-2 pr-4 font-semibold">Size</th>
+                          <th className="py-2 pr-4 font-semibold text-right">Expected</th>
+                          <th className="py-2 pr-4 font-semibold text-right">Counted</th>
+                          <th className="py-2 pr-4 font-semibold text-right">Variance</th>
+                          <th className="py-2 font-semibold">Counted By</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {group.lines.map((line) => {
+                          const key = getLineKey(line);
+                          const counted = getCounted(line);
+                          const variance = counted === undefined ? undefined : counted - line.expectedQuantity;
+                          return (
+                            <tr key={key} className="border-t border-gray-100">
+                              <td className="py-2 pr-4">{line.color}</td>
+                              <td className="py-2 pr-4">{line.size}</td>
+                              <td className="py-2 pr-4 text-right">{line.expectedQuantity}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {isOpen ? (
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    placeholder={isLineCounted(line) ? line.countedQuantity?.toString() : '—'}
+                                    value={drafts[key] ?? ''}
+                                    onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                                    className={`modern-input text-sm w-24 ml-auto ${drafts[key] ? 'border-purple-400' : ''}`}
+                                  />
+                                ) : (
+                                  counted ?? '—'
+                                )}
+                              </td>
+                              <td className={`py-2 pr-4 text-right font-semibold ${
+                                variance === undefined || variance === 0
+                                  ? 'text-gray-500'
+                                  : variance < 0 ? 'text-red-600' : 'text-green-600'
+                              }`}>
+                                {variance === undefined ? '—' : `${variance > 0 ? '+' : ''}${variance}`}
+                              </td>
+                              <td className="py-2 text-gray-500">{line.countedBy?.name ?? '—'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Approve / Cancel Confirmation */}
+      <Dialog open={confirmAction !== null} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {confirmAction === 'approve' ? 'Approve this stock take?' : 'Cancel this stock take?'}
+            </DialogTitle>
+            <DialogDescription>
+              {confirmAction === 'approve'
+                ? `${varianceLines.length} ${varianceLines.length === 1 ? 'difference' : 'differences'} will be posted as recount adjustments and the lots will be released for sale.`
+                : 'The counts are discarded and the lots are released for sale without changing their stock.'}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setConfirmAction(null)}
+              disabled={closing}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleClose}
+              disabled={closing}
+              className={`px-4 sm:px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3 ${
+                confirmAction === 'approve'
+                  ? 'modern-btn-success'
+                  : 'rounded-xl bg-red-600 text-white font-semibold hover:bg-red-700 transition-all'
+              }`}
+            >
+              {closing ? 'Saving...' : confirmAction === 'approve' ? 'Approve & Post' : 'Cancel Stock Take'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
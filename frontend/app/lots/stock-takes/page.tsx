@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LotCardSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import api from '@/lib/api';
+import { isLineCounted, STOCK_TAKE_STATUS_BADGES } from '@/lib/stock-takes';
+import { Lot, StockTake } from '@/types';
+import { toast } from 'sonner';
+
+export default function StockTakesPage() {
+  const router = useRouter();
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [lotSearch, setLotSearch] = useState('');
+  const [lots, setLots] = useState<Lot[]>([]);
+  const [selectedLotIds, setSelectedLotIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetchStockTakes(currentPage);
+  }, [currentPage]);
+
+  useEffect(() => {
+    if (!createOpen) return;
+
+    const timer = setTimeout(() => fetchLots(lotSearch), 300);
+    return () => clearTimeout(timer);
+  }, [createOpen, lotSearch]);
+
+  const fetchStockTakes = async (page: number) => {
+    try {
+      setLoading(true);
+      const response = await api.get('/stock-takes', {
+        params: { page, limit: 10 },
+      });
+      setStockTakes(response.data.data.stockTakes);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      toast.error('Failed to load stock takes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLots = async (search: string) => {
+    try {
+      const response = await api.get('/lots', {
+        params: { limit: 50, search: search || undefined },
+      });
+      setLots(response.data.data.lots);
+    } catch (error) {
+      console.error('Failed to load lots');
+    }
+  };
+
+  const toggleLot = (lotId: string) => {
+    setSelectedLotIds((current) =>
+      current.includes(lotId) ? current.filter((id) => id !== lotId) : [...current, lotId]
+    );
+  };
+
+  const closeCreate = () => {
+    setCreateOpen(false);
+    setName('');
+    setLotSearch('');
+    setSelectedLotIds([]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await api.post('/stock-takes', {
+        name: name.trim() || undefined,
+        lotIds: selectedLotIds,
+      });
+      toast.success('Stock take started');
+      router.push(`/lots/stock-takes/${response.data.data.stockTake._id}`);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to start stock take'
+        : 'Failed to start stock take';
+      toast.error(message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Stock Takes</h1>
+            <p className="text-sm sm:text-base text-gray-600">Count the shelves and reconcile them with your lots</p>
+          </div>
+          <div className="flex gap-2 sm:gap-3">
+            <button
+              onClick={() => router.push('/lots')}
+              className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              ← Back to Lots
+            </button>
+            <button
+              onClick={() => setCreateOpen(true)}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + New Stock Take
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <LotCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : stockTakes.length === 0 ? (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No stock takes yet</h3>
+            <p className="text-gray-600">Start one to count a few lots against what the system expects.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 animate-fade-in-up stagger-1">
+              {stockTakes.map((stockTake) => {
+                const counted = stockTake.lines.filter(isLineCounted).length;
+                const badge = STOCK_TAKE_STATUS_BADGES[stockTake.status];
+                return (
+                  <button
+                    key={stockTake._id}
+                    onClick={() => router.push(`/lots/stock-takes/${stockTake._id}`)}
+                    className="modern-card w-full text-left flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 hover:shadow-lg transition-all"
+                  >
+                    <div>
+                      <p className="font-bold text-gray-900">{stockTake.name}</p>
+                      <p className="text-xs sm:text-sm text-gray-500">
+                        Started {new Date(stockTake.createdAt).toLocaleDateString()} by {stockTake.createdBy.name}
+                        {' · '}{stockTake.lotIds.length} {stockTake.lotIds.length === 1 ? 'lot' : 'lots'}
+                        {' · '}{counted} / {stockTake.lines.length} counted
+                      </p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${badge.className}`}>
+                      {badge.label}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Pagination */}
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* New Stock Take */}
+      <Dialog open={createOpen} onOpenChange={(open) => !open && closeCreate()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>New Stock Take</DialogTitle>
+            <DialogDescription>
+              Expected quantities are taken from the selected lots now. Sales from these lots are paused until the count is approved or cancelled.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 overflow-y-auto flex-1 min-h-0">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Name (Optional)</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="modern-input text-sm"
+                placeholder="e.g., Back room, March"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Lots to Count</Label>
+              <Input
+                value={lotSearch}
+                onChange={(e) => setLotSearch(e.target.value)}
+                className="modern-input text-sm mb-2"
+                placeholder="Search by lot number..."
+              />
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {lots.map((lot) => (
+                  <label
+                    key={lot._id}
+                    className={`flex items-center gap-3 p-2 rounded-lg ${
+                      lot.stockTakeId ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedLotIds.includes(lot._id)}
+                      onChange={() => toggleLot(lot._id)}
+                      disabled={Boolean(lot.stockTakeId)}
+                      className="w-4 h-4 accent-purple-600"
+                    />
+                    <span className="text-sm font-semibold text-gray-900">{lot.lotNumber}</span>
+                    {lot.stockTakeId && <span className="text-xs text-amber-700">Already being counted</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={closeCreate}
+              disabled={creating}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={creating || selectedLotIds.length === 0}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed sm:ml-3"
+            >
+              {creating
+                ? 'Starting...'
+                : `Start Counting ${selectedLotIds.length} ${selectedLotIds.length === 1 ? 'Lot' : 'Lots'}`}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { LotCardSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { useFormatMoney } from '@/lib/money';
+import { Lot } from '@/types';
+import { toast } from 'sonner';
+
+export default function LotTrashPage() {
+  const formatMoney = useFormatMoney();
+  const { user } = useAuth();
+  const router = useRouter();
+  const [lots, setLots] = useState<Lot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [purgeTarget, setPurgeTarget] = useState<Lot | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    fetchLots(currentPage);
+  }, [currentPage]);
+
+  const fetchLots = async (page: number) => {
+    try {
+      setLoading(true);
+      const response = await api.get('/lots', {
+        params: { page, limit: 10, archived: true },
+      });
+      setLots(response.data.data.lots);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      toast.error('Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (lot: Lot) => {
+    try {
+      await api.post(`/lots/${lot._id}/restore`);
+      toast.success(`Lot ${lot.lotNumber} restored`);
+      fetchLots(currentPage);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to restore lot'
+        : 'Failed to restore lot';
+      toast.error(message);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTarget) return;
+
+    setPurging(true);
+    try {
+      await api.delete(`/lots/${purgeTarget._id}/purge`);
+      toast.success(`Lot ${purgeTarget.lotNumber} deleted permanently`);
+      setPurgeTarget(null);
+      fetchLots(currentPage);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to delete lot'
+        : 'Failed to delete lot';
+      toast.error(message);
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Trash</h1>
+            <p className="text-sm sm:text-base text-gray-600">Deleted lots keep their sales history and can be restored</p>
+          </div>
+          <button
+            onClick={() => router.push('/lots')}
+            className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+          >
+            ← Back to Lots
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <LotCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : lots.length === 0 ? (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-600">Lots you delete will appear here.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 animate-fade-in-up stagger-1">
+              {lots.map((lot) => (
+                <div
+                  key={lot._id}
+                  className="modern-card flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+                >
+                  <div>
+                    <button
+                      onClick={() => router.push(`/lots/${lot._id}`)}
+                      className="font-bold text-gray-900 hover:text-purple-700"
+                    >
+                      {lot.lotNumber}
+                    </button>
+                    <p className="text-xs sm:text-sm text-gray-500">
+                      Deleted {lot.deletedAt && new Date(lot.deletedAt).toLocaleDateString()}
+                      {lot.deletedBy ? ` by ${lot.deletedBy.name}` : ''}
+                      {' · '}{formatMoney(lot.totalRevenue)} revenue
+                    </p>
+                  </div>
+                  <div className="flex gap-2 sm:gap-3">
+                    {isAdmin && (
+                      <button
+                        onClick={() => setPurgeTarget(lot)}
+                        className="px-4 py-2.5 rounded-xl border border-red-200 bg-white font-semibold text-xs sm:text-sm text-red-600 hover:bg-red-50 transition-all"
+                      >
+                        Delete Permanently
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRestore(lot)}
+                      className="modern-btn-primary px-4 py-2.5 text-xs sm:text-sm"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Purge Confirmation */}
+      <Dialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {purgeTarget?.lotNumber} permanently?</DialogTitle>
+            <DialogDescription>
+              This cannot be undone. Only lots that were never sold from can be deleted permanently.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setPurgeTarget(null)}
+              disabled={purging}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handlePurge}
+              disabled={purging}
+              className="px-4 sm:px-6 py-2.5 rounded-xl bg-red-600 text-white font-semibold text-xs sm:text-sm hover:bg-red-700 transition-all disabled:opacity-50 sm:ml-3"
+            >
+              {purging ? 'Deleting...' : 'Delete Permanently'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,489 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import CustomerPicker from '@/components/customer-picker';
+import DiscountInput from '@/components/discount-input';
+import ApprovalDialog, { ApprovalCredentials } from '@/components/approval-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import api from '@/lib/api';
+import { getNetTotal, openInvoicePdf, PAYMENT_METHOD_LABELS } from '@/lib/transactions';
+import { DiscountDraft, EMPTY_DISCOUNT, isApprovalRequired, roundMoney, toDiscount } from '@/lib/discounts';
+import { CartLine, getCartTotals, isSameVariant } from '@/lib/pos';
+import { useTaxSettings } from '@/lib/tax';
+import { useFormatMoney } from '@/lib/money';
+import { PaymentMethod, PosVariant, Transaction } from '@/types';
+import { toast } from 'sonner';
+
+interface LastSale {
+  transaction: Transaction;
+  change: number;
+}
+
+export default function PosPage() {
+  const formatMoney = useFormatMoney();
+  const searchRef = useRef<HTMLInputElement>(null);
+  const tenderedRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<PosVariant[]>([]);
+  // The search the current results are for, so Enter knows whether they're stale
+  const [resultsFor, setResultsFor] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  // Bumped after each sale so the results show the stock that's left
+  const [resultsVersion, setResultsVersion] = useState(0);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [saleDiscount, setSaleDiscount] = useState<DiscountDraft>(EMPTY_DISCOUNT);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  // Blank means the exact amount was paid
+  const [tendered, setTendered] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [checkingOut, setCheckingOut] = useState(false);
+  // Set when the sale needs an admin to sign it off
+  const [approvalReason, setApprovalReason] = useState<string | null>(null);
+  const [lastSale, setLastSale] = useState<LastSale | null>(null);
+  const taxSettings = useTaxSettings();
+
+  useEffect(() => {
+    // Debounce lookups while the user is typing; a scanner types the whole code at once
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get('/lots/variants', {
+          params: { search: search.trim() || undefined },
+        });
+        setResults(response.data.data.variants);
+        setResultsFor(search.trim());
+        setHighlighted(0);
+      } catch (error) {
+        setResults([]);
+        setResultsFor(null);
+      }
+    }, 200);
+
+    return () => clearTimeout(timer);
+  }, [search, resultsVersion]);
+
+  const totals = getCartTotals(cart, saleDiscount, taxSettings);
+  const tenderedAmount = tendered === '' ? totals.total : parseFloat(tendered) || 0;
+  const change = roundMoney(tenderedAmount - totals.total);
+  const isPartialPayment = change < 0;
+
+  const getQuantityInCart = (variant: PosVariant) =>
+    cart.find((line) => isSameVariant(line.variant, variant))?.quantity ?? 0;
+
+  const focusSearch = () => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  };
+
+  const addToCart = (variant: PosVariant) => {
+    const label = `${variant.color} - ${variant.size}`;
+    if (getQuantityInCart(variant) >= variant.remainingQuantity) {
+      toast.error(`No more ${label} in stock in lot ${variant.lotNumber}`);
+      return;
+    }
+
+    setCart((current) => {
+      const existing = current.find((line) => isSameVariant(line.variant, variant));
+      if (existing) {
+        return current.map((line) => (line.id === existing.id ? { ...line, quantity: line.quantity + 1 } : line));
+      }
+      return [...current, { id: crypto.randomUUID(), variant, quantity: 1, discount: EMPTY_DISCOUNT }];
+    });
+    setLastSale(null);
+    setSearch('');
+    focusSearch();
+  };
+
+  const updateLine = (id: string, changes: Partial<CartLine>) => {
+    setCart((current) => current.map((line) => (line.id === id ? { ...line, ...changes } : line)));
+  };
+
+  const handleQuantityChange = (line: CartLine, value: string) => {
+    const quantity = parseInt(value) || 0;
+    if (quantity > line.variant.remainingQuantity) {
+      toast.error(`Only ${line.variant.remainingQuantity} in stock`);
+      updateLine(line.id, { quantity: line.variant.remainingQuantity });
+      return;
+    }
+    updateLine(line.id, { quantity });
+  };
+
+  const removeLine = (id: string) => {
+    setCart((current) => current.filter((line) => line.id !== id));
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      // A scanned label can beat the debounce, so look it up straight away
+      const code = search.trim();
+      if (code !== resultsFor) {
+        api.get('/lots/variants', { params: { search: code } })
+          .then((response) => {
+            const variants: PosVariant[] = response.data.data.variants;
+            if (variants.length === 0) {
+              toast.error(code ? `Nothing in stock matches "${code}"` : 'Nothing in stock');
+            } else {
+              addToCart(variants[0]);
+            }
+          })
+          .catch(() => toast.error('Search failed'));
+        return;
+      }
+      if (results[highlighted]) {
+        addToCart(results[highlighted]);
+      }
+    } else if (e.key === 'Escape') {
+      setSearch('');
+    }
+  };
+
+  const handleCheckout = async (approval?: ApprovalCredentials) => {
+    if (checkingOut) return;
+    if (cart.length === 0) {
+      toast.error('Add at least one item to sell');
+      return;
+    }
+    if (cart.some((line) => line.quantity < 1)) {
+      toast.error('Every line needs a quantity of at least 1');
+      return;
+    }
+    if (tendered !== '' && (isNaN(parseFloat(tendered)) || parseFloat(tendered) < 0)) {
+      toast.error('Enter a valid amount tendered');
+      return;
+    }
+    if (isPartialPayment && !customerName.trim()) {
+      toast.error('Choose a customer for a sale that is not paid in full');
+      return;
+    }
+
+    // Opened before the sale is posted so the browser doesn't block the receipt
+    const receiptWindow = window.open('', '_blank');
+    setCheckingOut(true);
+
+    try {
+      const response = await api.post('/transactions', {
+        soldItems: cart.map((line) => ({
+          lotId: line.variant.lotId,
+          color: line.variant.color,
+          size: line.variant.size,
+          quantity: line.quantity,
+          discount: toDiscount(line.discount),
+        })),
+        discount: toDiscount(saleDiscount),
+        customerId: customerId || undefined,
+        customerName: customerName || undefined,
+        amountPaid: isPartialPayment ? tenderedAmount : undefined,
+        paymentMethod,
+        approval,
+      });
+      const transaction: Transaction = response.data.data.transaction;
+
+      toast.success(`Sale completed - invoice ${transaction.invoiceNumber}`);
+      setApprovalReason(null);
+      setLastSale({ transaction, change: Math.max(change, 0) });
+      setCart([]);
+      setSaleDiscount(EMPTY_DISCOUNT);
+      setTendered('');
+      setPaymentMethod('cash');
+      setCustomerName('');
+      setCustomerId(null);
+      setSearch('');
+      setResultsVersion((version) => version + 1);
+
+      openInvoicePdf(transaction._id, receiptWindow).catch(() => toast.error('Failed to load receipt'));
+    } catch (error) {
+      receiptWindow?.close();
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Sale failed'
+        : 'Sale failed';
+      if (isApprovalRequired(error)) {
+        setApprovalReason(message);
+      } else {
+        toast.error(message);
+      }
+    } finally {
+      setCheckingOut(false);
+      focusSearch();
+    }
+  };
+
+  // Shortcuts work from any field so the till never needs a mouse
+  const handleShortcut = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'F2') {
+      e.preventDefault();
+      focusSearch();
+    } else if (e.key === 'F4') {
+      e.preventDefault();
+      tenderedRef.current?.focus();
+      tenderedRef.current?.select();
+    } else if (e.key === 'F9' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      handleCheckout();
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8" onKeyDown={handleShortcut}>
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1">Point of Sale</h1>
+            <p className="text-sm sm:text-base text-gray-600">Scan or search, then check out in one keystroke</p>
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+            <span className="stat-badge"><kbd className="font-mono font-bold">F2</kbd> Search</span>
+            <span className="stat-badge"><kbd className="font-mono font-bold">↑↓ Enter</kbd> Add</span>
+            <span className="stat-badge"><kbd className="font-mono font-bold">F4</kbd> Tendered</span>
+            <span className="stat-badge"><kbd className="font-mono font-bold">F9</kbd> Checkout</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+          {/* Search */}
+          <div className="md:col-span-2 modern-card !p-4 sm:!p-6 animate-fade-in-up stagger-1">
+            <Label className="floating-label text-xs sm:text-sm">Scan or Search</Label>
+            <Input
+              ref={searchRef}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              autoFocus
+              autoComplete="off"
+              className="modern-input text-base h-12"
+              placeholder="Barcode, lot, color, size or product"
+            />
+
+            <div className="mt-4 space-y-2 max-h-[60vh] overflow-y-auto" role="listbox">
+              {results.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8">No stock matches this search</p>
+              ) : (
+                results.map((variant, index) => (
+                  <button
+                    key={`${variant.lotId}-${variant.color}-${variant.size}`}
+                    type="button"
+                    role="option"
+                    aria-selected={index === highlighted}
+                    tabIndex={-1}
+                    onClick={() => addToCart(variant)}
+                    onMouseEnter={() => setHighlighted(index)}
+                    className={`w-full text-left p-3 sm:p-4 rounded-xl border transition-all ${
+                      index === highlighted
+                        ? 'border-purple-400 bg-purple-50'
+                        : 'border-gray-100 bg-white hover:border-purple-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-bold text-gray-900 truncate">
+                          {variant.color} - {variant.size}
+                        </p>
+                        <p className="text-xs sm:text-sm text-gray-600 truncate">
+                          {variant.lotNumber}
+                          {variant.productName && ` • ${variant.productName}`}
+                          {' • '}
+                          {variant.remainingQuantity - getQuantityInCart(variant)} left
+                        </p>
+                      </div>
+                      <p className="font-bold text-green-600 flex-shrink-0">{formatMoney(variant.sellCostPerPiece)}</p>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Cart & payment */}
+          <div className="md:col-span-3 space-y-6">
+            <div className="modern-card !p-4 sm:!p-6 animate-fade-in-up stagger-2">
+              <h2 className="text-base sm:text-lg font-bold text-gray-900 mb-4">Cart</h2>
+
+              {cart.length === 0 ? (
+                <div className="text-center py-8 bg-gray-50 rounded-xl border-2 border-dashed border-gray-200">
+                  <p className="text-gray-600 text-sm">Scan a label or pick an item to start a sale</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {cart.map((line, index) => (
+                    <div
+                      key={line.id}
+                      className="grid grid-cols-12 items-center gap-2 sm:gap-3 p-3 rounded-xl border border-gray-100 bg-white"
+                    >
+                      <div className="col-span-12 sm:col-span-4 min-w-0">
+                        <p className="font-bold text-gray-900 truncate">
+                          {line.variant.color} - {line.variant.size}
+                        </p>
+                        <p className="text-xs text-gray-600 truncate">
+                          {line.variant.lotNumber} • {formatMoney(line.variant.sellCostPerPiece)} each
+                        </p>
+                      </div>
+                      <div className="col-span-3 sm:col-span-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          max={line.variant.remainingQuantity}
+                          value={line.quantity || ''}
+                          onChange={(e) => handleQuantityChange(line, e.target.value)}
+                          aria-label="Quantity"
+                          className="modern-input text-sm h-10"
+                        />
+                      </div>
+                      <DiscountInput
+                        value={line.discount}
+                        onChange={(discount) => updateLine(line.id, { discount })}
+                        aria-label="Line discount"
+                        className="col-span-5 sm:col-span-3"
+                      />
+                      <p className="col-span-2 text-right font-bold text-green-600 text-sm">
+                        {formatMoney(line.quantity * totals.prices[index])}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => removeLine(line.id)}
+                        aria-label={`Remove ${line.variant.color} - ${line.variant.size}`}
+                        className="col-span-2 sm:col-span-1 p-2 rounded-lg hover:bg-red-50 text-red-600 transition-all justify-self-end"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="modern-card !p-4 sm:!p-6 animate-fade-in-up stagger-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label className="floating-label text-xs sm:text-sm">Sale Discount</Label>
+                  <DiscountInput value={saleDiscount} onChange={setSaleDiscount} aria-label="Sale discount" />
+                </div>
+                <div>
+                  <Label className="floating-label text-xs sm:text-sm">Payment Method</Label>
+                  <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                    <SelectTrigger className="modern-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="floating-label text-xs sm:text-sm">Amount Tendered</Label>
+                  <Input
+                    ref={tenderedRef}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={tendered}
+                    onChange={(e) => setTendered(e.target.value)}
+                    className="modern-input text-sm"
+                    placeholder={`Exact (${formatMoney(totals.total)})`}
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-xs sm:text-sm">
+                    Customer {isPartialPayment ? '(Required)' : '(Optional)'}
+                  </Label>
+                  <CustomerPicker
+                    customerName={customerName}
+                    customerId={customerId}
+                    onChange={(name, customer) => {
+                      setCustomerName(name);
+                      setCustomerId(customer?._id ?? null);
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="gradient-card-success !p-4 sm:!p-6 animate-fade-in-up stagger-4">
+              <div className="flex justify-between text-sm text-white/80">
+                <span>Subtotal</span>
+                <span>{formatMoney(totals.subtotal)}</span>
+              </div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between text-sm text-white/80 mt-1">
+                  <span>Discount</span>
+                  <span>-{formatMoney(totals.discount)}</span>
+                </div>
+              )}
+              {totals.tax > 0 && (
+                <div className="flex justify-between text-sm text-white/80 mt-1">
+                  <span>{taxSettings.pricesIncludeTax ? 'Includes Tax' : 'Tax'}</span>
+                  <span>{formatMoney(totals.tax)}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-end mt-3">
+                <div>
+                  <p className="text-xs sm:text-sm text-white/80">Total</p>
+                  <p className="text-3xl sm:text-4xl font-bold">{formatMoney(totals.total)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs sm:text-sm text-white/80">{isPartialPayment ? 'Balance Due' : 'Change'}</p>
+                  <p className="text-2xl sm:text-3xl font-bold">{formatMoney(Math.abs(change))}</p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleCheckout()}
+                disabled={checkingOut || cart.length === 0}
+                className="mt-4 w-full rounded-xl bg-white text-green-700 font-bold py-3 sm:py-4 text-base hover:bg-green-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {checkingOut ? 'Processing...' : 'Checkout (F9)'}
+              </button>
+            </div>
+
+            {lastSale && (
+              <div className="modern-card !p-4 sm:!p-6 flex items-center justify-between gap-4 animate-fade-in-up">
+                <div>
+                  <p className="text-xs text-gray-500 uppercase font-semibold">Last Sale</p>
+                  <p className="font-bold text-gray-900">
+                    {lastSale.transaction.invoiceNumber} • {formatMoney(getNetTotal(lastSale.transaction))}
+                  </p>
+                  <p className="text-sm text-gray-600">Change given: {formatMoney(lastSale.change)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => openInvoicePdf(lastSale.transaction._id).catch(() => toast.error('Failed to load receipt'))}
+                  className="px-4 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-sm hover:bg-gray-50 transition-all"
+                >
+                  Reprint Receipt
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ApprovalDialog
+        reason={approvalReason}
+        loading={checkingOut}
+        onCancel={() => {
+          setApprovalReason(null);
+          focusSearch();
+        }}
+        onApprove={handleCheckout}
+      />
+    </ProtectedRoute>
+  );
+}
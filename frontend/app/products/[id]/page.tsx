@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import ProductFormDialog from '@/components/product-form-dialog';
+import { StatCardSkeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import api from '@/lib/api';
+import { Product, ProductStock } from '@/types';
+import { toast } from 'sonner';
+
+export default function ProductDetailsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [stock, setStock] = useState<ProductStock | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+
+  useEffect(() => {
+    fetchProduct();
+  }, [params.id]);
+
+  const fetchProduct = async () => {
+    try {
+      const response = await api.get(`/products/${params.id}`);
+      setProduct(response.data.data.product);
+      setStock(response.data.data.stock);
+    } catch (error) {
+      toast.error('Failed to load product');
+      router.push('/products');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || !product || !stock) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <StatCardSkeleton key={i} />
+            ))}
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  // Stocked colors and sizes first in catalogue order, then any a lot added on its own
+  const colors = [...new Set([...product.colors, ...stock.variants.map((variant) => variant.color)])]
+    .filter((color) => stock.variants.some((variant) => variant.color === color));
+  const sizes = [...new Set([...product.sizes, ...stock.variants.map((variant) => variant.size)])]
+    .filter((size) => stock.variants.some((variant) => variant.size === size));
+  const getVariant = (color: string, size: string) =>
+    stock.variants.find((variant) => variant.color === color && variant.size === size);
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <Link href="/products" className="text-xs sm:text-sm font-semibold text-purple-600 hover:text-purple-700">
+              ← Products
+            </Link>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mt-2 mb-1 sm:mb-2">{product.name}</h1>
+            <p className="text-sm sm:text-base text-gray-600">
+              {[product.sku, product.category].filter(Boolean).join(' • ') || 'No SKU'}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+            <button
+              onClick={() => setEditOpen(true)}
+              className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Edit Product
+            </button>
+            <button
+              onClick={() => router.push(`/lots/new?productId=${product._id}`)}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + New Lot of This Product
+            </button>
+          </div>
+        </div>
+
+        {/* Images */}
+        {product.images.length > 0 && (
+          <div className="flex gap-3 overflow-x-auto mb-8 sm:mb-12 animate-fade-in-up stagger-1">
+            {product.images.map((url) => (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                key={url}
+                src={url}
+                alt={product.name}
+                className="w-32 h-32 sm:w-40 sm:h-40 rounded-xl object-cover flex-shrink-0 border border-gray-100"
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+          <div className="gradient-card-primary animate-fade-in-up stagger-1">
+            <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">In Stock</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4">{stock.totalRemaining}</p>
+          </div>
+          <div className="modern-card animate-fade-in-up stagger-2">
+            <span className="stat-badge-success text-xs">Sold</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4">{stock.unitsSold}</p>
+          </div>
+          <div className="modern-card animate-fade-in-up stagger-3">
+            <span className="stat-badge text-xs">Lots</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4">{stock.lotCount}</p>
+          </div>
+          <div className="gradient-card-success animate-fade-in-up stagger-4">
+            <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Sell-through</span>
+            <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4">
+              {stock.unitsReceived > 0 ? `${Math.round((stock.unitsSold / stock.unitsReceived) * 100)}%` : '—'}
+            </p>
+          </div>
+        </div>
+
+        {/* Stock by Variant */}
+        <div className="modern-card-lg mb-8 sm:mb-12 animate-fade-in-up stagger-5">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Stock by Color and Size</h2>
+          {stock.variants.length === 0 ? (
+            <p className="text-sm text-gray-500">No lots of this product are in stock.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Color</TableHead>
+                    {sizes.map((size) => (
+                      <TableHead key={size} className="text-right">{size}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {colors.map((color) => (
+                    <TableRow key={color}>
+                      <TableCell className="font-semibold">{color}</TableCell>
+                      {sizes.map((size) => {
+                        const variant = getVariant(color, size);
+                        return (
+                          <TableCell
+                            key={size}
+                            className={`text-right ${variant && variant.remainingQuantity === 0 ? 'text-red-600' : ''}`}
+                          >
+                            {variant ? variant.remainingQuantity : '—'}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right font-bold">
+                        {stock.variants
+                          .filter((variant) => variant.color === color)
+                          .reduce((sum, variant) => sum + variant.remainingQuantity, 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        {/* Lots */}
+        <div className="modern-card-lg animate-fade-in-up stagger-6">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">Lots</h2>
+          {stock.lots.length === 0 ? (
+            <p className="text-sm text-gray-500">No lots reference this product yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {stock.lots.map((lot) => (
+                <Link
+                  key={lot._id}
+                  href={`/lots/${lot._id}`}
+                  className="flex items-center justify-between p-3 rounded-xl hover:bg-gray-50 transition-all"
+                >
+                  <div>
+                    <p className="font-semibold text-gray-900">{lot.lotNumber}</p>
+                    <p className="text-xs text-gray-500">Created {new Date(lot.createdAt).toLocaleDateString()}</p>
+                  </div>
+                  <span className="text-sm font-semibold text-gray-700">{lot.remainingQuantity} in stock</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editOpen && (
+        <ProductFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          product={product}
+          onSaved={setProduct}
+        />
+      )}
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import ProductFormDialog from '@/components/product-form-dialog';
+import { Input } from '@/components/ui/input';
+import { LotCardSkeleton } from '@/components/ui/skeleton';
+import { Pagination } from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import api from '@/lib/api';
+import { ProductSummary } from '@/types';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const ALL_CATEGORIES = 'all';
+
+export default function ProductsPage() {
+  const router = useRouter();
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [addOpen, setAddOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      // Reset to page 1 when the filters change
+      if (currentPage !== 1) {
+        setCurrentPage(1);
+      } else {
+        fetchProducts(1);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [search, category]);
+
+  useEffect(() => {
+    fetchProducts(currentPage);
+  }, [currentPage]);
+
+  const fetchProducts = async (page: number) => {
+    try {
+      setLoading(true);
+      const response = await api.get('/products', {
+        params: {
+          page,
+          limit: 10,
+          search: search || undefined,
+          category: category === ALL_CATEGORIES ? undefined : category,
+        },
+      });
+      setProducts(response.data.data.products);
+      setCategories(response.data.data.categories);
+      setTotalPages(response.data.data.pagination.totalPages);
+    } catch (error) {
+      toast.error('Failed to load products');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Products</h1>
+            <p className="text-sm sm:text-base text-gray-600">Styles you stock, with their stock across every lot</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+            <button
+              onClick={() => router.push('/products/report')}
+              className="px-4 sm:px-5 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Sales by Product
+            </button>
+            <button
+              onClick={() => setAddOpen(true)}
+              className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + Add Product
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 mb-8 animate-fade-in-up stagger-1">
+          <div className="relative flex-1 max-w-md">
+            <svg className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <Input
+              placeholder="Search by name or SKU..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="modern-input pl-12"
+            />
+          </div>
+          {categories.length > 0 && (
+            <div className="w-full sm:w-56">
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="modern-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {categories.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {loading && (
+          <div className="grid grid-cols-1 gap-6 animate-fade-in-up">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <LotCardSkeleton key={i} />
+            ))}
+          </div>
+        )}
+
+        {!loading && products.length === 0 && (
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No products found</h3>
+            <p className="text-gray-600">
+              {search || category !== ALL_CATEGORIES
+                ? 'Try adjusting your filters'
+                : 'Add a product, then pick it when creating a lot'}
+            </p>
+          </div>
+        )}
+
+        {!loading && products.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 gap-4 animate-fade-in-up stagger-2">
+              {products.map((product) => (
+                <div
+                  key={product._id}
+                  className="modern-card hover:shadow-lg transition-all cursor-pointer flex items-center gap-4 sm:gap-6"
+                  onClick={() => router.push(`/products/${product._id}`)}
+                >
+                  {product.images[0] ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={product.images[0]}
+                      alt={product.name}
+                      className="w-12 h-12 sm:w-14 sm:h-14 rounded-xl object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-xl bg-gradient-to-br from-purple-400 to-purple-500 flex items-center justify-center text-white font-bold text-lg sm:text-xl flex-shrink-0">
+                      {product.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">{product.name}</h3>
+                    <p className="text-xs sm:text-sm text-gray-500 truncate">
+                      {[product.sku, product.category].filter(Boolean).join(' • ') || 'No SKU'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-base sm:text-lg font-bold text-gray-900">{product.totalRemaining} in stock</p>
+                    <p className="text-xs sm:text-sm text-gray-500">
+                      {product.lotCount} {product.lotCount === 1 ? 'lot' : 'lots'} • {product.unitsSold} sold
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-8">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {addOpen && (
+        <ProductFormDialog
+          open={addOpen}
+          onOpenChange={setAddOpen}
+          onSaved={(product) => router.push(`/products/${product._id}`)}
+        />
+      )}
+    </ProtectedRoute>
+  );
+}
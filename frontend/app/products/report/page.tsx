@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TransactionRowSkeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { ProductSalesRow } from '@/types';
+import { toast } from 'sonner';
+
+interface UnassignedSales {
+  unitsSold: number;
+  revenue: number;
+  discount: number;
+  profit: number;
+}
+
+export default function ProductSalesReportPage() {
+  const formatMoney = useFormatMoney();
+  const [rows, setRows] = useState<ProductSalesRow[]>([]);
+  const [unassigned, setUnassigned] = useState<UnassignedSales | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReport();
+  }, [from, to]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/products/sales-report', {
+        params: { from: from || undefined, to: to || undefined },
+      });
+      setRows(response.data.data.products);
+      setUnassigned(response.data.data.unassigned);
+    } catch (error) {
+      toast.error('Failed to load sales report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = [...rows, ...(unassigned ? [unassigned] : [])].reduce(
+    (sum, row) => ({
+      unitsSold: sum.unitsSold + row.unitsSold,
+      revenue: sum.revenue + row.revenue,
+      discount: sum.discount + row.discount,
+      profit: sum.profit + row.profit,
+    }),
+    { unitsSold: 0, revenue: 0, discount: 0, profit: 0 }
+  );
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <Link href="/products" className="text-xs sm:text-sm font-semibold text-purple-600 hover:text-purple-700">
+            ← Products
+          </Link>
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mt-2 mb-1 sm:mb-2">Sales by Product</h1>
+          <p className="text-sm sm:text-base text-gray-600">Units, discounts, revenue and profit per style across all of its lots, net of returns</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 mb-8 animate-fade-in-up stagger-1">
+          <div className="w-full sm:w-48">
+            <Label className="floating-label text-xs sm:text-sm">From</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="modern-input" />
+          </div>
+          <div className="w-full sm:w-48">
+            <Label className="floating-label text-xs sm:text-sm">To</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="modern-input" />
+          </div>
+        </div>
+
+        <div className="modern-card-lg animate-fade-in-up stagger-2">
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <TransactionRowSkeleton key={i} />
+              ))}
+            </div>
+          ) : rows.length === 0 && !unassigned ? (
+            <div className="text-center py-12 sm:py-16">
+              <p className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">No sales in this period</p>
+              <p className="text-sm sm:text-base text-gray-500">Sales of lots linked to a product show up here</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Units Sold</TableHead>
+                    <TableHead className="text-right">Discounts</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Profit</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.productId}>
+                      <TableCell>
+                        <Link href={`/products/${row.productId}`} className="font-semibold text-purple-700 hover:underline">
+                          {row.name}
+                        </Link>
+                        {(row.sku || row.category) && (
+                          <p className="text-xs text-gray-500">{[row.sku, row.category].filter(Boolean).join(' • ')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.unitsSold}</TableCell>
+                      <TableCell className="text-right text-gray-600">{formatMoney(row.discount)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(row.revenue)}</TableCell>
+                      <TableCell className={`text-right ${row.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(row.profit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.revenue > 0 ? `${Math.round((row.profit / row.revenue) * 100)}%` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {unassigned && (
+                    <TableRow>
+                      <TableCell className="text-gray-500 italic">Not linked to a product</TableCell>
+                      <TableCell className="text-right">{unassigned.unitsSold}</TableCell>
+                      <TableCell className="text-right text-gray-600">{formatMoney(unassigned.discount)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(unassigned.revenue)}</TableCell>
+                      <TableCell className={`text-right ${unassigned.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(unassigned.profit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {unassigned.revenue > 0 ? `${Math.round((unassigned.profit / unassigned.revenue) * 100)}%` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow className="font-bold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{totals.unitsSold}</TableCell>
+                    <TableCell className="text-right text-gray-600">{formatMoney(totals.discount)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.profit)}</TableCell>
+                    <TableCell className="text-right">
+                      {totals.revenue > 0 ? `${Math.round((totals.profit / totals.revenue) * 100)}%` : '—'}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
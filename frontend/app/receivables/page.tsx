@@ -0,0 +1,164 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { StatCardSkeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { AgingBuckets, ReceivablesReport } from '@/types';
+import { toast } from 'sonner';
+
+const BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Not Yet Due' },
+  { key: 'days1to30', label: '1-30 Days' },
+  { key: 'days31to60', label: '31-60 Days' },
+  { key: 'days61to90', label: '61-90 Days' },
+  { key: 'over90', label: '90+ Days' },
+];
+
+export default function ReceivablesPage() {
+  const formatMoney = useFormatMoney();
+  const [report, setReport] = useState<ReceivablesReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, []);
+
+  const fetchReceivables = async () => {
+    try {
+      const response = await api.get('/receivables');
+      setReport(response.data.data);
+    } catch (error) {
+      toast.error('Failed to load receivables');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Receivables</h1>
+          <p className="text-sm sm:text-base text-gray-600">Who owes what on credit sales, and how overdue it is</p>
+        </div>
+
+        {/* Aging Summary */}
+        {loading ? (
+          <div className="grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <StatCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : report && (
+          <div className="grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            <div className="gradient-card-primary animate-fade-in-up stagger-1">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Total Owed</span>
+              <p className="text-xl sm:text-2xl font-bold mt-3 sm:mt-4">{formatMoney(report.totals.totalDue)}</p>
+            </div>
+            {BUCKETS.map((bucket, index) => (
+              <div key={bucket.key} className={`modern-card animate-fade-in-up stagger-${Math.min(index + 2, 6)}`}>
+                <span className={`text-xs ${bucket.key === 'current' ? 'stat-badge-success' : 'stat-badge'}`}>
+                  {bucket.label}
+                </span>
+                <p className={`text-xl sm:text-2xl font-bold mt-3 sm:mt-4 ${
+                  bucket.key === 'over90' && report.totals.buckets.over90 > 0 ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  {formatMoney(report.totals.buckets[bucket.key])}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* By Customer */}
+        <div className="modern-card-lg animate-fade-in-up stagger-6">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">By Customer</h2>
+          {!loading && report && report.customers.length === 0 ? (
+            <div className="text-center py-12 sm:py-16">
+              <p className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">Nothing outstanding</p>
+              <p className="text-sm sm:text-base text-gray-500">Every sale has been paid in full</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    {BUCKETS.map((bucket) => (
+                      <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report?.customers.map((customer) => {
+                    const key = customer.customerId || customer.customerName;
+                    return (
+                      <Fragment key={key}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedKey(expandedKey === key ? null : key)}
+                        >
+                          <TableCell>
+                            {customer.customerId ? (
+                              <Link
+                                href={`/customers/${customer.customerId}`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="font-semibold text-purple-700 hover:underline"
+                              >
+                                {customer.customerName}
+                              </Link>
+                            ) : (
+                              <span className="font-semibold text-gray-900">{customer.customerName}</span>
+                            )}
+                            {customer.phone && <p className="text-xs text-gray-500">{customer.phone}</p>}
+                          </TableCell>
+                          {BUCKETS.map((bucket) => (
+                            <TableCell key={bucket.key} className="text-right">
+                              {customer.buckets[bucket.key] > 0 ? formatMoney(customer.buckets[bucket.key]) : '—'}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-bold">{formatMoney(customer.totalDue)}</TableCell>
+                        </TableRow>
+                        {expandedKey === key && customer.transactions.map((transaction) => (
+                          <TableRow key={transaction._id} className="bg-gray-50 text-sm">
+                            <TableCell className="pl-8 text-gray-600">
+                              {transaction.invoiceNumber || new Date(transaction.createdAt).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell colSpan={BUCKETS.length} className="text-gray-600">
+                              {formatMoney(transaction.amountPaid)} paid of {formatMoney(transaction.total)}
+                              {transaction.dueDate && ` • due ${new Date(transaction.dueDate).toLocaleDateString()}`}
+                              {transaction.daysOverdue > 0 && (
+                                <span className="ml-2 text-red-600 font-semibold">{transaction.daysOverdue} days overdue</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right font-semibold">{formatMoney(transaction.balanceDue)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,489 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StatCardSkeleton } from '@/components/ui/skeleton';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { formatMoney } from '@/lib/money';
+import { TenantSettings } from '@/types';
+import { toast } from 'sonner';
+
+// A tax rate row as typed; new rows have no _id until saved
+interface TaxRateDraft {
+  key: string;
+  _id?: string;
+  name: string;
+  rate: string;
+  isDefault: boolean;
+}
+
+// Mirrors the backend so the preview updates while typing
+const formatSequenceNumber = (format: string, prefix: string, padding: number, value: number) =>
+  format
+    .replace(/\{prefix\}/g, prefix)
+    .replace(/\{year\}/g, new Date().getFullYear().toString())
+    .replace(/\{number\}/g, value.toString().padStart(padding, '0'));
+
+export default function BusinessSettingsPage() {
+  const { user, refreshUser } = useAuth();
+  const router = useRouter();
+  const [settings, setSettings] = useState<TenantSettings | null>(null);
+  const [form, setForm] = useState({
+    lotPrefix: '',
+    lotFormat: '',
+    lotPadding: '',
+    nextLotSequence: '',
+    invoicePrefix: '',
+    invoiceFormat: '',
+    invoicePadding: '',
+    nextInvoiceSequence: '',
+    lowStockThreshold: '',
+    maxStaffDiscountPercent: '',
+    pricesIncludeTax: false,
+    taxRegistrationNumber: '',
+    currency: '',
+    locale: '',
+  });
+  const [taxRates, setTaxRates] = useState<TaxRateDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchSettings();
+    }
+  }, [isAdmin]);
+
+  const applySettings = (data: TenantSettings) => {
+    setSettings(data);
+    setForm({
+      lotPrefix: data.lotPrefix,
+      lotFormat: data.lotFormat,
+      lotPadding: data.lotPadding.toString(),
+      nextLotSequence: data.nextLotSequence.toString(),
+      invoicePrefix: data.invoicePrefix,
+      invoiceFormat: data.invoiceFormat,
+      invoicePadding: data.invoicePadding.toString(),
+      nextInvoiceSequence: data.nextInvoiceSequence.toString(),
+      lowStockThreshold: data.lowStockThreshold.toString(),
+      maxStaffDiscountPercent: data.maxStaffDiscountPercent.toString(),
+      pricesIncludeTax: data.pricesIncludeTax,
+      taxRegistrationNumber: data.taxRegistrationNumber ?? '',
+      currency: data.currency,
+      locale: data.locale,
+    });
+    setTaxRates(data.taxRates.map((rate) => ({ ...rate, key: rate._id, rate: rate.rate.toString() })));
+  };
+
+  const updateTaxRate = (key: string, changes: Partial<TaxRateDraft>) => {
+    setTaxRates((current) => current.map((rate) => (rate.key === key ? { ...rate, ...changes } : rate)));
+  };
+
+  // Only one rate can be the default; picking it again clears it
+  const toggleDefaultTaxRate = (key: string) => {
+    setTaxRates((current) => current.map((rate) => ({ ...rate, isDefault: rate.key === key && !rate.isDefault })));
+  };
+
+  const addTaxRate = () => {
+    setTaxRates((current) => [
+      ...current,
+      { key: crypto.randomUUID(), name: '', rate: '', isDefault: current.length === 0 },
+    ]);
+  };
+
+  const removeTaxRate = (key: string) => {
+    setTaxRates((current) => current.filter((rate) => rate.key !== key));
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const response = await api.get('/settings');
+      applySettings(response.data.data.settings);
+    } catch (error) {
+      toast.error('Failed to load settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const nextLotSequence = parseInt(form.nextLotSequence, 10);
+      const nextInvoiceSequence = parseInt(form.nextInvoiceSequence, 10);
+      const response = await api.patch('/settings', {
+        lotPrefix: form.lotPrefix,
+        lotFormat: form.lotFormat,
+        lotPadding: parseInt(form.lotPadding, 10),
+        invoicePrefix: form.invoicePrefix,
+        invoiceFormat: form.invoiceFormat,
+        invoicePadding: parseInt(form.invoicePadding, 10),
+        lowStockThreshold: parseInt(form.lowStockThreshold, 10),
+        maxStaffDiscountPercent: parseFloat(form.maxStaffDiscountPercent),
+        taxRates: taxRates.map((rate) => ({
+          _id: rate._id,
+          name: rate.name,
+          rate: parseFloat(rate.rate),
+          isDefault: rate.isDefault,
+        })),
+        pricesIncludeTax: form.pricesIncludeTax,
+        taxRegistrationNumber: form.taxRegistrationNumber,
+        currency: form.currency,
+        locale: form.locale,
+        // Only send counters that were changed so numbers handed out in the meantime aren't rewound
+        nextLotSequence: nextLotSequence !== settings?.nextLotSequence ? nextLotSequence : undefined,
+        nextInvoiceSequence: nextInvoiceSequence !== settings?.nextInvoiceSequence ? nextInvoiceSequence : undefined,
+      });
+      applySettings(response.data.data.settings);
+      // The signed-in user carries the currency and locale every page formats amounts with
+      await refreshUser();
+      toast.success('Settings saved');
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to save settings'
+        : 'Failed to save settings';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const lotPreview = formatSequenceNumber(
+    form.lotFormat,
+    form.lotPrefix,
+    parseInt(form.lotPadding, 10) || 1,
+    parseInt(form.nextLotSequence, 10) || 1
+  );
+
+  const invoicePreview = formatSequenceNumber(
+    form.invoiceFormat,
+    form.invoicePrefix,
+    parseInt(form.invoicePadding, 10) || 1,
+    parseInt(form.nextInvoiceSequence, 10) || 1
+  );
+
+  // Typing a code or locale goes through invalid values on the way
+  const getMoneyPreview = () => {
+    try {
+      return formatMoney(1234.5, { currency: form.currency, locale: form.locale });
+    } catch (error) {
+      return 'Unrecognized currency or locale';
+    }
+  };
+
+  if (user && !isAdmin) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Admins only</h3>
+            <p className="text-gray-600 mb-6">Ask an administrator to change business settings.</p>
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="modern-btn-primary px-6 py-3"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Business Settings</h1>
+          <p className="text-sm sm:text-base text-gray-600">How lots and invoices are numbered, and how sales are taxed</p>
+        </div>
+
+        {loading ? (
+          <StatCardSkeleton />
+        ) : (
+          <div className="space-y-6 sm:space-y-8">
+            {/* Lots */}
+            <div className="modern-card-lg animate-fade-in-up stagger-1">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Lots</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Used when a lot is created without a number. Use {'{prefix}'}, {'{year}'} and {'{number}'} in the format.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Lot Prefix</Label>
+                  <Input
+                    value={form.lotPrefix}
+                    onChange={(e) => setForm({ ...form, lotPrefix: e.target.value })}
+                    className="modern-input"
+                    placeholder="LOT-"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Format</Label>
+                  <Input
+                    value={form.lotFormat}
+                    onChange={(e) => setForm({ ...form, lotFormat: e.target.value })}
+                    className="modern-input"
+                    placeholder="{prefix}{year}-{number}"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Number Padding</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={form.lotPadding}
+                    onChange={(e) => setForm({ ...form, lotPadding: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Next Number</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={form.nextLotSequence}
+                    onChange={(e) => setForm({ ...form, nextLotSequence: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 sm:mt-6 p-4 rounded-xl bg-purple-50 border border-purple-100">
+                <p className="text-xs text-purple-700 uppercase font-semibold mb-1">Next Lot</p>
+                <p className="text-lg font-bold text-purple-900">{lotPreview}</p>
+              </div>
+            </div>
+
+            {/* Invoices */}
+            <div className="modern-card-lg animate-fade-in-up stagger-2">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Invoices</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Every sale is numbered automatically. Use {'{prefix}'}, {'{year}'} and {'{number}'} in the format.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Invoice Prefix</Label>
+                  <Input
+                    value={form.invoicePrefix}
+                    onChange={(e) => setForm({ ...form, invoicePrefix: e.target.value })}
+                    className="modern-input"
+                    placeholder="INV-"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Format</Label>
+                  <Input
+                    value={form.invoiceFormat}
+                    onChange={(e) => setForm({ ...form, invoiceFormat: e.target.value })}
+                    className="modern-input"
+                    placeholder="{prefix}{number}"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Number Padding</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={form.invoicePadding}
+                    onChange={(e) => setForm({ ...form, invoicePadding: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Next Number</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={form.nextInvoiceSequence}
+                    onChange={(e) => setForm({ ...form, nextInvoiceSequence: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 sm:mt-6 p-4 rounded-xl bg-purple-50 border border-purple-100">
+                <p className="text-xs text-purple-700 uppercase font-semibold mb-1">Next Invoice</p>
+                <p className="text-lg font-bold text-purple-900">{invoicePreview}</p>
+              </div>
+            </div>
+
+            {/* Stock Alerts */}
+            <div className="modern-card-lg animate-fade-in-up stagger-3">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Stock Alerts</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                A color and size is flagged as low once fewer pieces than this are left. Lots can set their own threshold.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Low-Stock Threshold</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={form.lowStockThreshold}
+                    onChange={(e) => setForm({ ...form, lowStockThreshold: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Discounts */}
+            <div className="modern-card-lg animate-fade-in-up stagger-4">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Discounts</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Staff need an admin to approve any line sold for more than this much below its list price, and any sale below cost.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Maximum Staff Discount (%)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={form.maxStaffDiscountPercent}
+                    onChange={(e) => setForm({ ...form, maxStaffDiscountPercent: e.target.value })}
+                    className="modern-input"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Tax */}
+            <div className="modern-card-lg animate-fade-in-up stagger-5">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Tax</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Products charge the rate set on them, or the default rate. With no rates, sales aren&apos;t taxed.
+              </p>
+              <div className="space-y-3 mb-4 sm:mb-6">
+                {taxRates.map((rate) => (
+                  <div key={rate.key} className="grid grid-cols-12 gap-2 sm:gap-3 items-center">
+                    <Input
+                      value={rate.name}
+                      onChange={(e) => updateTaxRate(rate.key, { name: e.target.value })}
+                      className="modern-input col-span-12 sm:col-span-5"
+                      placeholder="Standard VAT"
+                      aria-label="Tax rate name"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={rate.rate}
+                      onChange={(e) => updateTaxRate(rate.key, { rate: e.target.value })}
+                      className="modern-input col-span-4 sm:col-span-3"
+                      placeholder="%"
+                      aria-label="Tax rate percent"
+                    />
+                    <label className="col-span-6 sm:col-span-3 flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={rate.isDefault}
+                        onChange={() => toggleDefaultTaxRate(rate.key)}
+                        className="w-4 h-4 accent-purple-600"
+                      />
+                      Default
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeTaxRate(rate.key)}
+                      aria-label={`Remove ${rate.name || 'tax rate'}`}
+                      className="col-span-2 sm:col-span-1 p-2 rounded-lg hover:bg-red-50 text-red-600 transition-all justify-self-end"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={addTaxRate}
+                  className="px-4 py-2 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+                >
+                  + Add Tax Rate
+                </button>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Tax Registration Number</Label>
+                  <Input
+                    value={form.taxRegistrationNumber}
+                    onChange={(e) => setForm({ ...form, taxRegistrationNumber: e.target.value })}
+                    className="modern-input"
+                    placeholder="Printed on invoices"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer sm:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={form.pricesIncludeTax}
+                    onChange={(e) => setForm({ ...form, pricesIncludeTax: e.target.checked })}
+                    className="w-4 h-4 accent-purple-600"
+                  />
+                  Sell prices include tax
+                </label>
+              </div>
+            </div>
+
+            {/* Currency */}
+            <div className="modern-card-lg animate-fade-in-up stagger-6">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Currency</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Every amount is kept in this currency. It can&apos;t be changed once there are lots or sales; lots bought in another currency are converted when they&apos;re added.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+                <div>
+                  <Label className="floating-label text-sm">Currency Code</Label>
+                  <Input
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                    maxLength={3}
+                    className="modern-input"
+                    placeholder="USD"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Locale</Label>
+                  <Input
+                    value={form.locale}
+                    onChange={(e) => setForm({ ...form, locale: e.target.value })}
+                    className="modern-input"
+                    placeholder="en-US"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 sm:mt-6 p-4 rounded-xl bg-purple-50 border border-purple-100">
+                <p className="text-xs text-purple-700 uppercase font-semibold mb-1">Amounts Look Like</p>
+                <p className="text-lg font-bold text-purple-900">{getMoneyPreview()}</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="modern-btn-primary px-6 sm:px-8 py-2.5 sm:py-3 text-xs sm:text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
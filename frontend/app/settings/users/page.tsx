@@ -0,0 +1,421 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { TransactionRowSkeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { TenantUser } from '@/types';
+import { toast } from 'sonner';
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof AxiosError
+    ? error.response?.data?.error?.message || fallback
+    : fallback;
+
+export default function UsersSettingsPage() {
+  const { user: currentUser } = useAuth();
+  const router = useRouter();
+  const [users, setUsers] = useState<TenantUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteName, setInviteName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [invitePassword, setInvitePassword] = useState('');
+  const [inviteRole, setInviteRole] = useState<'admin' | 'staff'>('staff');
+  const [inviting, setInviting] = useState(false);
+
+  const [resetTarget, setResetTarget] = useState<TenantUser | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+  const [resetting, setResetting] = useState(false);
+
+  const isAdmin = currentUser?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers();
+    }
+  }, [isAdmin]);
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await api.get('/users');
+      setUsers(response.data.data.users);
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Failed to load users');
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+
+    try {
+      await api.post('/users', {
+        name: inviteName,
+        email: inviteEmail,
+        password: invitePassword,
+        role: inviteRole,
+      });
+      toast.success(`${inviteName} can now sign in`);
+      setInviteOpen(false);
+      setInviteName('');
+      setInviteEmail('');
+      setInvitePassword('');
+      setInviteRole('staff');
+      fetchUsers();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to create user'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleUpdate = async (
+    target: TenantUser,
+    changes: Partial<Pick<TenantUser, 'role' | 'isActive'>>
+  ) => {
+    try {
+      await api.patch(`/users/${target._id}`, changes);
+      toast.success('User updated successfully');
+      fetchUsers();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update user'));
+    }
+  };
+
+  const handleDeactivate = async (target: TenantUser) => {
+    try {
+      await api.delete(`/users/${target._id}`);
+      toast.success(`${target.name} has been deactivated`);
+      fetchUsers();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to deactivate user'));
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetTarget) return;
+    setResetting(true);
+
+    try {
+      await api.post(`/users/${resetTarget._id}/reset-password`, {
+        password: resetPassword,
+      });
+      toast.success(`Password reset for ${resetTarget.name}`);
+      setResetTarget(null);
+      setResetPassword('');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to reset password'));
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  if (currentUser && !isAdmin) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Admins only</h3>
+            <p className="text-gray-600 mb-6">Ask an administrator to manage user accounts.</p>
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="modern-btn-primary px-6 py-3"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Users</h1>
+            <p className="text-sm sm:text-base text-gray-600">Manage staff accounts, roles and access</p>
+          </div>
+          <button
+            onClick={() => setInviteOpen(true)}
+            className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+          >
+            + Add User
+          </button>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="modern-card mb-8 border-l-4 border-red-500 animate-scale-in">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-red-900 mb-1">Error Loading Users</h3>
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+              <button
+                onClick={fetchUsers}
+                className="text-sm font-semibold text-red-600 hover:text-red-700"
+              >
+                Retry
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="modern-card-lg animate-fade-in-up stagger-1">
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <TransactionRowSkeleton key={i} />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((member) => {
+                  const isSelf = member._id === currentUser?.id;
+                  return (
+                    <TableRow key={member._id} className={member.isActive ? '' : 'opacity-60'}>
+                      <TableCell className="font-semibold text-gray-900">
+                        {member.name}
+                        {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                      </TableCell>
+                      <TableCell className="text-gray-600">{member.email}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) =>
+                            handleUpdate(member, { role: role as TenantUser['role'] })
+                          }
+                          disabled={isSelf || !member.isActive}
+                        >
+                          <SelectTrigger className="w-28 h-9 text-sm capitalize">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="admin">Admin</SelectItem>
+                            <SelectItem value="staff">Staff</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {member.isActive ? (
+                          <Badge className="bg-green-50 text-green-700 border-green-100">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Deactivated</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setResetTarget(member)}
+                            className="px-3 py-1.5 rounded-lg border border-gray-200 bg-white font-semibold text-xs hover:bg-gray-50 transition-all"
+                          >
+                            Reset Password
+                          </button>
+                          {member.isActive ? (
+                            <button
+                              onClick={() => handleDeactivate(member)}
+                              disabled={isSelf}
+                              className="px-3 py-1.5 rounded-lg border border-red-200 bg-white font-semibold text-xs text-red-600 hover:bg-red-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Deactivate
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleUpdate(member, { isActive: true })}
+                              className="px-3 py-1.5 rounded-lg border border-green-200 bg-white font-semibold text-xs text-green-600 hover:bg-green-50 transition-all"
+                            >
+                              Reactivate
+                            </button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+
+      {/* Add User Modal */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleInvite}>
+            <DialogHeader>
+              <DialogTitle className="text-xl">Add User</DialogTitle>
+              <DialogDescription className="text-left pt-2">
+                Share the temporary password with the new user so they can sign in.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="inviteName" className="floating-label text-sm">Name</Label>
+                <Input
+                  id="inviteName"
+                  value={inviteName}
+                  onChange={(e) => setInviteName(e.target.value)}
+                  required
+                  className="modern-input text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="inviteEmail" className="floating-label text-sm">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  required
+                  className="modern-input text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="invitePassword" className="floating-label text-sm">Temporary Password</Label>
+                <Input
+                  id="invitePassword"
+                  type="password"
+                  value={invitePassword}
+                  onChange={(e) => setInvitePassword(e.target.value)}
+                  required
+                  minLength={8}
+                  className="modern-input text-sm"
+                />
+              </div>
+              <div>
+                <Label className="floating-label text-sm">Role</Label>
+                <Select
+                  value={inviteRole}
+                  onValueChange={(role) => setInviteRole(role as 'admin' | 'staff')}
+                >
+                  <SelectTrigger className="modern-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="staff">Staff</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter className="gap-2 sm:gap-2">
+              <button
+                type="button"
+                onClick={() => setInviteOpen(false)}
+                className="px-4 py-2 rounded-lg border border-gray-200 bg-white font-semibold text-sm hover:bg-gray-50 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={inviting}
+                className="modern-btn-primary px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {inviting ? 'Creating...' : 'Create User'}
+              </button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Modal */}
+      <Dialog
+        open={resetTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResetTarget(null);
+            setResetPassword('');
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleResetPassword}>
+            <DialogHeader>
+              <DialogTitle className="text-xl">Reset Password</DialogTitle>
+              <DialogDescription className="text-left pt-2">
+                Set a new password for {resetTarget?.name}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4">
+              <Label htmlFor="resetPassword" className="floating-label text-sm">New Password</Label>
+              <Input
+                id="resetPassword"
+                type="password"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(e.target.value)}
+                required
+                minLength={8}
+                className="modern-input text-sm"
+              />
+            </div>
+            <DialogFooter className="gap-2 sm:gap-2">
+              <button
+                type="button"
+                onClick={() => setResetTarget(null)}
+                className="px-4 py-2 rounded-lg border border-gray-200 bg-white font-semibold text-sm hover:bg-gray-50 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={resetting}
+                className="modern-btn-primary px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {resetting ? 'Saving...' : 'Reset Password'}
+              </button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import VocabularyList from '@/components/vocabulary-list';
+import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { SizeRun } from '@/types';
+import { toast } from 'sonner';
+
+export default function VariantSettingsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [sizeRuns, setSizeRuns] = useState<SizeRun[]>([]);
+  const [runName, setRunName] = useState('');
+  const [runSizes, setRunSizes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  const fetchSizeRuns = () =>
+    api.get('/sizes/runs')
+      .then((response) => setSizeRuns(response.data.data.sizeRuns))
+      .catch(() => toast.error('Failed to load size runs'));
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchSizeRuns();
+    }
+  }, [isAdmin]);
+
+  const handleCreateRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await api.post('/sizes/runs', {
+        name: runName,
+        sizes: runSizes.split(',').map((size) => size.trim()).filter(Boolean),
+      });
+      setRunName('');
+      setRunSizes('');
+      toast.success('Size run saved');
+      fetchSizeRuns();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to save size run'
+        : 'Failed to save size run';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRun = async (sizeRun: SizeRun) => {
+    try {
+      await api.delete(`/sizes/runs/${sizeRun._id}`);
+      fetchSizeRuns();
+    } catch (error) {
+      toast.error('Failed to delete size run');
+    }
+  };
+
+  if (user && !isAdmin) {
+    return (
+      <ProtectedRoute>
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+          <div className="modern-card-lg text-center py-16 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Admins only</h3>
+            <p className="text-gray-600 mb-6">Ask an administrator to manage colors and sizes.</p>
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="modern-btn-primary px-6 py-3"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Colors &amp; Sizes</h1>
+          <p className="text-sm sm:text-base text-gray-600">The names lots are picked from, so one variant isn&apos;t spelled three ways</p>
+        </div>
+
+        {isAdmin && (
+          <div className="space-y-6 sm:space-y-8">
+            <VocabularyList
+              kind="colors"
+              title="Colors"
+              description="Other spellings (e.g. BLK for Black) are matched to the listed name when lots are created and sold."
+              className="animate-fade-in-up stagger-1"
+            />
+
+            <VocabularyList
+              kind="sizes"
+              title="Sizes"
+              description="Sizes are sorted on lots in this order, smallest first."
+              className="animate-fade-in-up stagger-2"
+            />
+
+            {/* Size Runs */}
+            <div className="modern-card-lg animate-fade-in-up stagger-3">
+              <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">Size Runs</h2>
+              <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">
+                Sets of sizes that can be added to a lot color in one go
+              </p>
+              <form onSubmit={handleCreateRun} className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-3 sm:items-end mb-4 sm:mb-6">
+                <div>
+                  <Label className="floating-label text-sm">Name</Label>
+                  <Input
+                    value={runName}
+                    onChange={(e) => setRunName(e.target.value)}
+                    required
+                    className="modern-input text-sm"
+                    placeholder="e.g., Adult S-XL"
+                  />
+                </div>
+                <div>
+                  <Label className="floating-label text-sm">Sizes</Label>
+                  <Input
+                    value={runSizes}
+                    onChange={(e) => setRunSizes(e.target.value)}
+                    required
+                    className="modern-input text-sm"
+                    placeholder="e.g., S, M, L, XL"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="modern-btn-primary px-4 sm:px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50"
+                >
+                  Save Run
+                </button>
+              </form>
+
+              {sizeRuns.length === 0 ? (
+                <p className="text-sm text-gray-500">No size runs yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {sizeRuns.map((sizeRun) => (
+                    <li key={sizeRun._id} className="py-3 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-900">{sizeRun.name}</p>
+                        <p className="text-xs text-gray-500 truncate">{sizeRun.sizes.join(', ')}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteRun(sizeRun)}
+                        className="px-3 py-1 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
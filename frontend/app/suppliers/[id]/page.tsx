@@ -0,0 +1,465 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StatCardSkeleton, TransactionRowSkeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api from '@/lib/api';
+import { PAYMENT_METHOD_LABELS } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
+import { Lot, PaymentMethod, Supplier, SupplierPayment, SupplierStats } from '@/types';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const ANY_LOT = 'any';
+
+const emptyPaymentForm = { amount: '', method: 'cash' as PaymentMethod, lotId: '', paidAt: '', note: '' };
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof AxiosError ? error.response?.data?.error?.message || fallback : fallback;
+
+export default function SupplierDetailsPage() {
+  const formatMoney = useFormatMoney();
+  const params = useParams();
+  const router = useRouter();
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [stats, setStats] = useState<SupplierStats | null>(null);
+  const [lots, setLots] = useState<Lot[]>([]);
+  const [payments, setPayments] = useState<SupplierPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', phone: '', email: '', address: '', notes: '' });
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSupplier();
+    fetchLots();
+    fetchPayments();
+  }, [params.id]);
+
+  const fetchSupplier = async () => {
+    try {
+      const response = await api.get(`/suppliers/${params.id}`);
+      setSupplier(response.data.data.supplier);
+      setStats(response.data.data.stats);
+    } catch (error) {
+      toast.error('Failed to load supplier');
+      router.push('/suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLots = async () => {
+    try {
+      const response = await api.get('/lots', {
+        params: { supplierId: params.id, limit: 100 },
+      });
+      setLots(response.data.data.lots);
+    } catch (error) {
+      console.error('Failed to load lots');
+    }
+  };
+
+  const fetchPayments = async () => {
+    try {
+      const response = await api.get(`/suppliers/${params.id}/payments`);
+      setPayments(response.data.data.payments);
+    } catch (error) {
+      console.error('Failed to load payments');
+    }
+  };
+
+  const openEdit = () => {
+    if (!supplier) return;
+    setForm({
+      name: supplier.name,
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      notes: supplier.notes || '',
+    });
+    setEditOpen(true);
+  };
+
+  const openPayment = () => {
+    setPaymentForm({ ...emptyPaymentForm, amount: stats ? stats.balanceDue.toFixed(2) : '' });
+    setPaymentOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await api.patch(`/suppliers/${params.id}`, form);
+      setSupplier(response.data.data.supplier);
+      toast.success('Supplier updated');
+      setEditOpen(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update supplier'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    const amount = parseFloat(paymentForm.amount);
+    if (!amount || amount <= 0) {
+      toast.error('Enter an amount greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post(`/suppliers/${params.id}/payments`, {
+        amount,
+        method: paymentForm.method,
+        lotId: paymentForm.lotId || undefined,
+        paidAt: paymentForm.paidAt || undefined,
+        note: paymentForm.note || undefined,
+      });
+      toast.success('Payment recorded');
+      setPaymentOpen(false);
+      fetchSupplier();
+      fetchPayments();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to record payment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <button
+              onClick={() => router.push('/suppliers')}
+              className="text-xs sm:text-sm text-gray-600 hover:text-gray-900 font-semibold mb-3 sm:mb-4 flex items-center gap-2"
+            >
+              ← Back to Suppliers
+            </button>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">{loading ? '...' : supplier?.name}</h1>
+            <p className="text-sm sm:text-base text-gray-600">
+              {loading
+                ? 'Loading...'
+                : [supplier?.phone, supplier?.email, supplier?.address].filter(Boolean).join(' • ') || 'No contact details'}
+            </p>
+            {supplier?.notes && <p className="text-sm text-gray-500 mt-1">{supplier.notes}</p>}
+          </div>
+          {!loading && supplier && (
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+              <button
+                onClick={openEdit}
+                className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+              >
+                Edit Supplier
+              </button>
+              <button
+                onClick={openPayment}
+                disabled={!stats || stats.balanceDue <= 0}
+                className="modern-btn-success px-4 sm:px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Record Payment
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Stats Grid */}
+        {loading ? (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <StatCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : stats && (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            <div className="gradient-card-primary animate-fade-in-up stagger-1">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Purchased</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 mb-1">
+                {formatMoney(stats.totalPurchased)}
+              </p>
+              <p className="text-xs sm:text-sm text-white/80">{stats.lotCount} lots, {stats.unitsBought} pieces</p>
+            </div>
+
+            <div className="modern-card animate-fade-in-up stagger-2">
+              <span className="stat-badge text-xs">Balance Due</span>
+              <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 mb-1 ${
+                stats.balanceDue > 0 ? 'text-red-600' : 'text-gray-900'
+              }`}>
+                {formatMoney(stats.balanceDue)}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-500">{formatMoney(stats.totalPaid)} paid so far</p>
+            </div>
+
+            <div className="gradient-card-success animate-fade-in-up stagger-3">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Profit</span>
+              <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 mb-1 ${
+                stats.totalProfit >= 0 ? '' : 'text-red-200'
+              }`}>
+                {formatMoney(stats.totalProfit)}
+              </p>
+              <p className="text-xs sm:text-sm text-white/80">From {formatMoney(stats.totalRevenue)} in sales</p>
+            </div>
+
+            <div className="modern-card animate-fade-in-up stagger-4">
+              <span className="stat-badge-success text-xs">Sell-through</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4 mb-1">
+                {stats.unitsBought > 0 ? `${Math.round((stats.unitsSold / stats.unitsBought) * 100)}%` : '—'}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-500">{stats.unitsSold} of {stats.unitsBought} pieces sold</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8">
+          {/* Lots */}
+          <div className="modern-card-lg animate-fade-in-up stagger-5">
+            <h2 className="text-xl sm:text-2xl font-bold mb-6">Lots</h2>
+            {loading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <TransactionRowSkeleton key={i} />
+                ))}
+              </div>
+            ) : lots.length === 0 ? (
+              <p className="text-center text-sm sm:text-base text-gray-500 py-12">No lots from this supplier yet</p>
+            ) : (
+              <div className="space-y-3">
+                {lots.map((lot) => (
+                  <div
+                    key={lot._id}
+                    onClick={() => router.push(`/lots/${lot._id}`)}
+                    className="flex items-center justify-between gap-4 p-4 rounded-xl border-2 border-gray-100 bg-white hover:border-purple-200 hover:shadow-md transition-all cursor-pointer"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-bold text-gray-900 truncate">{lot.lotNumber}</p>
+                      <p className="text-xs text-gray-500">{new Date(lot.createdAt).toLocaleDateString()}</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="font-semibold text-gray-900">{formatMoney(lot.totalInvestment)}</p>
+                      <p className={`text-xs ${lot.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(lot.totalProfit)} profit
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Payments */}
+          <div className="modern-card-lg animate-fade-in-up stagger-6">
+            <h2 className="text-xl sm:text-2xl font-bold mb-6">Payments</h2>
+            {payments.length === 0 ? (
+              <p className="text-center text-sm sm:text-base text-gray-500 py-12">No payments recorded</p>
+            ) : (
+              <div className="space-y-3">
+                {payments.map((payment) => (
+                  <div
+                    key={payment._id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-xl border border-gray-100 bg-white text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900">
+                        {PAYMENT_METHOD_LABELS[payment.method]} • {new Date(payment.paidAt).toLocaleDateString()}
+                        {payment.lotId && <span className="text-gray-500"> • {payment.lotId.lotNumber}</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {payment.note ? `${payment.note} • ` : ''}by {payment.recordedBy?.name}
+                      </p>
+                    </div>
+                    <span className="font-bold text-green-600">{formatMoney(payment.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Edit Supplier Dialog */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Supplier</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label className="floating-label text-xs sm:text-sm">Phone</Label>
+                <Input
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className="modern-input text-sm"
+                />
+              </div>
+              <div>
+                <Label className="floating-label text-xs sm:text-sm">Email</Label>
+                <Input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className="modern-input text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Address</Label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Notes</Label>
+              <Input
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setEditOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={paymentOpen} onOpenChange={setPaymentOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            {stats && (
+              <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                You owe {supplier?.name} {formatMoney(stats.balanceDue)}
+              </p>
+            )}
+          </DialogHeader>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Amount</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={paymentForm.amount}
+                onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Method</Label>
+              <Select
+                value={paymentForm.method}
+                onValueChange={(value) => setPaymentForm({ ...paymentForm, method: value as PaymentMethod })}
+              >
+                <SelectTrigger className="modern-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Against Lot (Optional)</Label>
+              <Select
+                value={paymentForm.lotId || ANY_LOT}
+                onValueChange={(value) => setPaymentForm({ ...paymentForm, lotId: value === ANY_LOT ? '' : value })}
+              >
+                <SelectTrigger className="modern-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_LOT}>General payment</SelectItem>
+                  {lots.map((lot) => (
+                    <SelectItem key={lot._id} value={lot._id}>
+                      {lot.lotNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Date (Optional)</Label>
+              <Input
+                type="date"
+                value={paymentForm.paidAt}
+                onChange={(e) => setPaymentForm({ ...paymentForm, paidAt: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <Label className="floating-label text-xs sm:text-sm">Note (Optional)</Label>
+              <Input
+                value={paymentForm.note}
+                onChange={(e) => setPaymentForm({ ...paymentForm, note: e.target.value })}
+                className="modern-input text-sm"
+                placeholder="e.g., Bank transfer ref 8812"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setPaymentOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRecordPayment}
+              disabled={saving}
+              className="modern-btn-success px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {saving ? 'Saving...' : 'Record Payment'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
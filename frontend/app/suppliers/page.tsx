@@ -0,0 +1,273 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AxiosError } from 'axios';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StatCardSkeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { SupplierSummary } from '@/types';
+import { toast } from 'sonner';
+
+interface SupplierTotals {
+  totalPurchased: number;
+  totalPaid: number;
+  balanceDue: number;
+  totalProfit: number;
+}
+
+const emptyForm = { name: '', phone: '', email: '', address: '', notes: '' };
+
+export default function SuppliersPage() {
+  const formatMoney = useFormatMoney();
+  const router = useRouter();
+  const [suppliers, setSuppliers] = useState<SupplierSummary[]>([]);
+  const [totals, setTotals] = useState<SupplierTotals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [addOpen, setAddOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSummary();
+  }, []);
+
+  const fetchSummary = async () => {
+    try {
+      const response = await api.get('/suppliers/summary');
+      setSuppliers(response.data.data.suppliers);
+      setTotals(response.data.data.totals);
+    } catch (error) {
+      toast.error('Failed to load suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.post('/suppliers', {
+        name: form.name,
+        phone: form.phone || undefined,
+        email: form.email || undefined,
+        address: form.address || undefined,
+        notes: form.notes || undefined,
+      });
+      toast.success('Supplier added');
+      setAddOpen(false);
+      setForm(emptyForm);
+      router.push(`/suppliers/${response.data.data.supplier._id}`);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to add supplier'
+        : 'Failed to add supplier';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 sm:gap-0 mb-8 sm:mb-12 animate-fade-in-up">
+          <div>
+            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Suppliers</h1>
+            <p className="text-sm sm:text-base text-gray-600">Who you buy from, what you owe them, and how their stock sells</p>
+          </div>
+          <button
+            onClick={() => setAddOpen(true)}
+            className="modern-btn-primary px-4 sm:px-6 py-2.5 sm:py-3 text-xs sm:text-sm whitespace-nowrap"
+          >
+            + Add Supplier
+          </button>
+        </div>
+
+        {/* Totals */}
+        {loading ? (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <StatCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : totals && (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6 mb-8 sm:mb-12">
+            <div className="gradient-card-primary animate-fade-in-up stagger-1">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Purchased</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4">{formatMoney(totals.totalPurchased)}</p>
+            </div>
+            <div className="modern-card animate-fade-in-up stagger-2">
+              <span className="stat-badge-success text-xs">Paid</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mt-3 sm:mt-4">{formatMoney(totals.totalPaid)}</p>
+            </div>
+            <div className="modern-card animate-fade-in-up stagger-3">
+              <span className="stat-badge text-xs">Payable</span>
+              <p className={`text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4 ${
+                totals.balanceDue > 0 ? 'text-red-600' : 'text-gray-900'
+              }`}>
+                {formatMoney(totals.balanceDue)}
+              </p>
+            </div>
+            <div className="gradient-card-success animate-fade-in-up stagger-4">
+              <span className="bg-white/20 px-2 sm:px-3 py-1 rounded-full text-xs font-semibold">Profit</span>
+              <p className="text-xl sm:text-2xl lg:text-3xl font-bold mt-3 sm:mt-4">{formatMoney(totals.totalProfit)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* By Supplier */}
+        <div className="modern-card-lg animate-fade-in-up stagger-5">
+          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold mb-6 sm:mb-8">By Supplier</h2>
+          {!loading && suppliers.length === 0 ? (
+            <div className="text-center py-12 sm:py-16">
+              <p className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">No suppliers yet</p>
+              <p className="text-sm sm:text-base text-gray-500">Add a supplier, then pick them when creating a lot</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead className="text-right">Lots</TableHead>
+                    <TableHead className="text-right">Purchased</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance Due</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Profit</TableHead>
+                    <TableHead className="text-right">Sell-through</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((entry) => (
+                    <TableRow key={entry.supplier._id}>
+                      <TableCell>
+                        <Link
+                          href={`/suppliers/${entry.supplier._id}`}
+                          className="font-semibold text-purple-700 hover:underline"
+                        >
+                          {entry.supplier.name}
+                        </Link>
+                        {entry.supplier.phone && <p className="text-xs text-gray-500">{entry.supplier.phone}</p>}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.lotCount}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.totalPurchased)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.totalPaid)}</TableCell>
+                      <TableCell className={`text-right font-bold ${entry.balanceDue > 0 ? 'text-red-600' : ''}`}>
+                        {formatMoney(entry.balanceDue)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.totalRevenue)}</TableCell>
+                      <TableCell className={`text-right ${entry.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(entry.totalProfit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.unitsBought > 0 ? `${Math.round((entry.unitsSold / entry.unitsBought) * 100)}%` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Add Supplier Dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Supplier</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label className="floating-label text-xs sm:text-sm">Phone (Optional)</Label>
+                <Input
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className="modern-input text-sm"
+                />
+              </div>
+              <div>
+                <Label className="floating-label text-xs sm:text-sm">Email (Optional)</Label>
+                <Input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className="modern-input text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Address (Optional)</Label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Notes (Optional)</Label>
+              <Input
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setAddOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {saving ? 'Saving...' : 'Add Supplier'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ProtectedRoute>
+  );
+}
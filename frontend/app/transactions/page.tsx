@@ -4,14 +4,29 @@ import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import ProtectedRoute from '@/components/protected-route';
 import Navbar from '@/components/navbar';
+import ReturnModal from '@/components/return-modal';
+import PaymentModal from '@/components/payment-modal';
+import SellModal from '@/components/sell-modal';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { TransactionRowSkeleton } from '@/components/ui/skeleton';
 import { Pagination } from '@/components/ui/pagination';
 import api from '@/lib/api';
+import { getTransactionLots, getTransactionLotLabel, getItemLotNumber, getBalanceDue, getNetTotal, openInvoicePdf, downloadTransactionsCsv, APPROVAL_REASON_LABELS } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
 import { Transaction } from '@/types';
 import { toast } from 'sonner';
 
 function TransactionsPageContent() {
+  const formatMoney = useFormatMoney();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -20,6 +35,13 @@ function TransactionsPageContent() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
+  const [returnTarget, setReturnTarget] = useState<Transaction | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<Transaction | null>(null);
+  const [sellModalOpen, setSellModalOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exporting, setExporting] = useState(false);
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -82,6 +104,30 @@ function TransactionsPageContent() {
     setCurrentPage(page);
   };
 
+  const handlePrintInvoice = async (transactionId: string) => {
+    try {
+      await openInvoicePdf(transactionId);
+    } catch (error) {
+      toast.error('Failed to load invoice');
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await downloadTransactionsCsv({
+        search: search || undefined,
+        from: exportFrom || undefined,
+        to: exportTo || undefined,
+      });
+      setExportOpen(false);
+    } catch (error) {
+      toast.error('Failed to export transactions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const toggleExpanded = (id: string) => {
     setExpandedId(expandedId === id ? null : id);
   };
@@ -96,12 +142,32 @@ function TransactionsPageContent() {
             <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-1 sm:mb-2">Sales History</h1>
             <p className="text-sm sm:text-base text-gray-600">Complete transaction history with detailed breakdowns</p>
           </div>
-          <button
-            onClick={() => router.push('/lots')}
-            className="px-4 sm:px-5 py-2 sm:py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
-          >
-            View Lots
-          </button>
+          <div className="flex gap-2 sm:gap-3">
+            <button
+              onClick={() => router.push('/lots')}
+              className="px-4 sm:px-5 py-2 sm:py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              View Lots
+            </button>
+            <button
+              onClick={() => setExportOpen(true)}
+              className="px-4 sm:px-5 py-2 sm:py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => router.push('/transactions/tax')}
+              className="px-4 sm:px-5 py-2 sm:py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all whitespace-nowrap"
+            >
+              Tax Summary
+            </button>
+            <button
+              onClick={() => setSellModalOpen(true)}
+              className="modern-btn-primary px-4 sm:px-5 py-2 sm:py-2.5 text-xs sm:text-sm whitespace-nowrap"
+            >
+              + New Sale
+            </button>
+          </div>
         </div>
 
         {/* Error State */}
@@ -194,18 +260,27 @@ function TransactionsPageContent() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-4 sm:gap-5 mb-4">
                         <div className="w-14 h-14 sm:w-16 sm:h-16 rounded-xl bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-white font-bold text-lg sm:text-xl flex-shrink-0 shadow-sm">
-                          {transaction.lotId?.lotNumber?.substring(0, 2) || 'LT'}
+                          {getTransactionLots(transaction)[0]?.lotNumber?.substring(0, 2) || 'LT'}
                         </div>
                         <div className="flex-1 min-w-0">
                           <h3 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-2 sm:mb-3 truncate">
-                            {transaction.lotId?.lotNumber || 'Unknown Lot'}
+                            {getTransactionLotLabel(transaction)}
                           </h3>
                           <div className="flex items-center gap-2 sm:gap-3 flex-wrap">
                             <span className="px-3 py-1.5 sm:py-2 rounded-lg bg-purple-50 text-purple-700 text-xs sm:text-sm font-semibold border border-purple-100">
                               {transaction.soldItems.length} Item{transaction.soldItems.length !== 1 ? 's' : ''}
                             </span>
                             {transaction.customerName && (
-                              <span className="px-3 py-1.5 sm:py-2 rounded-lg bg-blue-50 text-blue-700 text-xs sm:text-sm font-semibold truncate max-w-[150px] sm:max-w-none border border-blue-100">
+                              <span
+                                onClick={(e) => {
+                                  if (!transaction.customerId) return;
+                                  e.stopPropagation();
+                                  router.push(`/customers/${transaction.customerId}`);
+                                }}
+                                className={`px-3 py-1.5 sm:py-2 rounded-lg bg-blue-50 text-blue-700 text-xs sm:text-sm font-semibold truncate max-w-[150px] sm:max-w-none border border-blue-100 ${
+                                  transaction.customerId ? 'hover:bg-blue-100' : ''
+                                }`}
+                              >
                                 {transaction.customerName}
                               </span>
                             )}
@@ -214,6 +289,21 @@ function TransactionsPageContent() {
                                 {transaction.invoiceNumber}
                               </span>
                             )}
+                            {!!transaction.totalDiscount && (
+                              <span className="px-3 py-1.5 sm:py-2 rounded-lg bg-green-50 text-green-700 text-xs sm:text-sm font-semibold border border-green-100">
+                                {formatMoney(transaction.totalDiscount)} off
+                              </span>
+                            )}
+                            {transaction.returnStatus && transaction.returnStatus !== 'none' && (
+                              <span className="px-3 py-1.5 sm:py-2 rounded-lg bg-red-50 text-red-700 text-xs sm:text-sm font-semibold border border-red-100">
+                                {transaction.returnStatus === 'full' ? 'Returned' : 'Partially Returned'}
+                              </span>
+                            )}
+                            {transaction.paymentStatus && transaction.paymentStatus !== 'paid' && (
+                              <span className="px-3 py-1.5 sm:py-2 rounded-lg bg-yellow-50 text-yellow-700 text-xs sm:text-sm font-semibold border border-yellow-100">
+                                {transaction.paymentStatus === 'unpaid' ? 'Unpaid' : 'Partially Paid'}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -231,11 +321,26 @@ function TransactionsPageContent() {
                     <div className="flex items-center justify-between sm:justify-end gap-4 sm:gap-6">
                       <div className="text-left sm:text-right">
                         <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-2">
-                          Total Revenue
+                          {transaction.totalRefunded ? 'Net Amount' : 'Total Revenue'}
                         </p>
                         <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-green-600">
-                          ${transaction.totalRevenue.toFixed(2)}
+                          {formatMoney(getNetTotal(transaction))}
                         </p>
+                        {!!transaction.totalTax && (
+                          <p className="text-xs sm:text-sm text-gray-500 font-semibold mt-1">
+                            Includes {formatMoney(transaction.totalTax - (transaction.taxRefunded || 0))} tax
+                          </p>
+                        )}
+                        {!!transaction.totalRefunded && (
+                          <p className="text-xs sm:text-sm text-red-600 font-semibold mt-1">
+                            {formatMoney(transaction.totalRefunded + (transaction.taxRefunded || 0))} refunded of {formatMoney(transaction.totalRevenue + (transaction.totalTax || 0))}
+                          </p>
+                        )}
+                        {getBalanceDue(transaction) > 0 && (
+                          <p className="text-xs sm:text-sm text-yellow-700 font-semibold mt-1">
+                            {formatMoney(getBalanceDue(transaction))} still owed
+                          </p>
+                        )}
                       </div>
                       <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-lg bg-gray-100 flex items-center justify-center transition-transform flex-shrink-0 ${
                         expandedId === transaction._id ? 'rotate-180' : ''
@@ -268,8 +373,26 @@ function TransactionsPageContent() {
                               <p className="font-bold text-base sm:text-lg text-gray-900 mb-2">
                                 {item.color} - Size {item.size}
                               </p>
+                              {getTransactionLots(transaction).length > 1 && (
+                                <p className="text-xs sm:text-sm text-purple-600 font-semibold mb-1">
+                                  {getItemLotNumber(transaction, item) || 'Unknown Lot'}
+                                </p>
+                              )}
                               <p className="text-sm sm:text-base text-gray-600">
-                                {item.quantity} × ${item.sellPricePerPiece.toFixed(2)}
+                                {item.quantity} × {item.listPricePerPiece !== undefined && item.listPricePerPiece > item.sellPricePerPiece && (
+                                  <span className="line-through text-gray-400 mr-1">{formatMoney(item.listPricePerPiece)}</span>
+                                )}
+                                {formatMoney(item.sellPricePerPiece)}
+                                {!!item.taxAmount && (
+                                  <span className="ml-2 text-gray-500">
+                                    + {formatMoney(item.taxAmount)} tax ({item.taxRate}%)
+                                  </span>
+                                )}
+                                {!!item.returnedQuantity && (
+                                  <span className="ml-2 text-red-600 font-semibold">
+                                    ({item.returnedQuantity} returned)
+                                  </span>
+                                )}
                               </p>
                             </div>
                           </div>
@@ -278,7 +401,7 @@ function TransactionsPageContent() {
                               Subtotal
                             </p>
                             <p className="text-xl sm:text-2xl lg:text-3xl font-bold text-orange-600">
-                              ${item.totalAmount.toFixed(2)}
+                              {formatMoney(item.totalAmount)}
                             </p>
                           </div>
                         </div>
@@ -299,6 +422,46 @@ function TransactionsPageContent() {
                         </p>
                         <p className="text-sm sm:text-base text-gray-900 break-all">{transaction.soldBy.email}</p>
                       </div>
+                      {transaction.approvedBy && (
+                        <div className="bg-white rounded-xl p-4 sm:p-5 border-2 border-gray-100 sm:col-span-2">
+                          <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-3">
+                            Approved By
+                          </p>
+                          <p className="text-sm sm:text-base text-gray-900">
+                            {transaction.approvedBy.name}
+                            {transaction.approvalReasons && transaction.approvalReasons.length > 0 && (
+                              <span className="text-gray-500">
+                                {' '}({transaction.approvalReasons.map((reason) => APPROVAL_REASON_LABELS[reason]).join(', ')})
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3 mt-6">
+                      <button
+                        onClick={() => handlePrintInvoice(transaction._id)}
+                        className="px-4 sm:px-5 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+                      >
+                        Print / Download Invoice
+                      </button>
+                      {getBalanceDue(transaction) > 0 && (
+                        <button
+                          onClick={() => setPaymentTarget(transaction)}
+                          className="modern-btn-success px-4 sm:px-5 py-2.5 text-xs sm:text-sm"
+                        >
+                          Record Payment
+                        </button>
+                      )}
+                      {transaction.returnStatus !== 'full' && (
+                        <button
+                          onClick={() => setReturnTarget(transaction)}
+                          className="px-4 sm:px-5 py-2.5 rounded-xl border border-red-200 bg-white font-semibold text-xs sm:text-sm hover:bg-red-50 text-red-600 hover:text-red-700 transition-all"
+                        >
+                          Process Return
+                        </button>
+                      )}
                     </div>
                   </div>
                 )}
@@ -317,6 +480,78 @@ function TransactionsPageContent() {
           </>
         )}
       </div>
+
+      <SellModal
+        open={sellModalOpen}
+        onClose={() => setSellModalOpen(false)}
+        onSuccess={() => fetchTransactions(1, search)}
+      />
+
+      {returnTarget && (
+        <ReturnModal
+          transaction={returnTarget}
+          open={returnTarget !== null}
+          onClose={() => setReturnTarget(null)}
+          onSuccess={() => fetchTransactions(currentPage, search)}
+        />
+      )}
+
+      {paymentTarget && (
+        <PaymentModal
+          transaction={paymentTarget}
+          open={paymentTarget !== null}
+          onClose={() => setPaymentTarget(null)}
+          onSuccess={() => fetchTransactions(currentPage, search)}
+        />
+      )}
+
+      {/* Export Dialog */}
+      <Dialog open={exportOpen} onOpenChange={setExportOpen}>
+        <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Export Transactions</DialogTitle>
+            <DialogDescription>
+              One row per sold item with cost and profit.
+              {search ? ` Only sales matching "${search}" are included.` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">From (Optional)</Label>
+              <Input
+                type="date"
+                value={exportFrom}
+                onChange={(e) => setExportFrom(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">To (Optional)</Label>
+              <Input
+                type="date"
+                value={exportTo}
+                onChange={(e) => setExportTo(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={() => setExportOpen(false)}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting}
+              className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {exporting ? 'Exporting...' : 'Download CSV'}
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </ProtectedRoute>
   );
 }
@@ -0,0 +1,182 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/protected-route';
+import Navbar from '@/components/navbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionRowSkeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { TaxPeriod, TaxTotals } from '@/types';
+import { toast } from 'sonner';
+
+type Period = 'month' | 'day';
+
+const formatPeriod = (period: string) => {
+  const [year, month, day] = period.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day || 1));
+  return date.toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'short',
+    ...(day ? { day: 'numeric' } : {}),
+  });
+};
+
+const getNetTax = (totals: TaxTotals) => totals.tax - totals.taxRefunded;
+
+export default function TaxSummaryPage() {
+  const formatMoney = useFormatMoney();
+  const [periods, setPeriods] = useState<TaxPeriod[]>([]);
+  const [period, setPeriod] = useState<Period>('month');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReport();
+  }, [period, from, to]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/transactions/tax-summary', {
+        params: { period, from: from || undefined, to: to || undefined },
+      });
+      setPeriods(response.data.data.periods);
+    } catch (error) {
+      toast.error('Failed to load tax summary');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = periods.reduce(
+    (sum, row) => ({
+      taxableSales: sum.taxableSales + row.taxableSales,
+      tax: sum.tax + row.tax,
+      taxableReturns: sum.taxableReturns + row.taxableReturns,
+      taxRefunded: sum.taxRefunded + row.taxRefunded,
+    }),
+    { taxableSales: 0, tax: 0, taxableReturns: 0, taxRefunded: 0 }
+  );
+
+  return (
+    <ProtectedRoute>
+      <Navbar />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
+        {/* Header */}
+        <div className="mb-8 sm:mb-12 animate-fade-in-up">
+          <Link href="/transactions" className="text-xs sm:text-sm font-semibold text-purple-600 hover:text-purple-700">
+            ← Sales History
+          </Link>
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mt-2 mb-1 sm:mb-2">Tax Summary</h1>
+          <p className="text-sm sm:text-base text-gray-600">Tax charged on sales and given back on returns, by rate</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 mb-8 animate-fade-in-up stagger-1">
+          <div className="w-full sm:w-48">
+            <Label className="floating-label text-xs sm:text-sm">Group By</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+              <SelectTrigger className="modern-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="day">Day</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-full sm:w-48">
+            <Label className="floating-label text-xs sm:text-sm">From</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="modern-input" />
+          </div>
+          <div className="w-full sm:w-48">
+            <Label className="floating-label text-xs sm:text-sm">To</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="modern-input" />
+          </div>
+        </div>
+
+        <div className="modern-card-lg animate-fade-in-up stagger-2">
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <TransactionRowSkeleton key={i} />
+              ))}
+            </div>
+          ) : periods.length === 0 ? (
+            <div className="text-center py-12 sm:py-16">
+              <p className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">No sales in this period</p>
+              <p className="text-sm sm:text-base text-gray-500">Tax set up under Business Settings is charged on new sales</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{period === 'month' ? 'Month' : 'Day'}</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Net Sales</TableHead>
+                    <TableHead className="text-right">Tax Charged</TableHead>
+                    <TableHead className="text-right">Net Returns</TableHead>
+                    <TableHead className="text-right">Tax Refunded</TableHead>
+                    <TableHead className="text-right">Tax Due</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periods.map((row) => (
+                    <Fragment key={row.period}>
+                      {row.byRate.map((rate, index) => (
+                        <TableRow key={rate.rate}>
+                          <TableCell className="font-semibold">{index === 0 ? formatPeriod(row.period) : ''}</TableCell>
+                          <TableCell className="text-right">{rate.rate}%</TableCell>
+                          <TableCell className="text-right">{formatMoney(rate.taxableSales)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(rate.tax)}</TableCell>
+                          <TableCell className="text-right text-gray-600">{formatMoney(rate.taxableReturns)}</TableCell>
+                          <TableCell className="text-right text-red-600">{formatMoney(rate.taxRefunded)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(getNetTax(rate))}</TableCell>
+                        </TableRow>
+                      ))}
+                      {row.byRate.length > 1 && (
+                        <TableRow className="bg-gray-50">
+                          <TableCell className="text-gray-500 italic">Period total</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{formatMoney(row.taxableSales)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(row.tax)}</TableCell>
+                          <TableCell className="text-right text-gray-600">{formatMoney(row.taxableReturns)}</TableCell>
+                          <TableCell className="text-right text-red-600">{formatMoney(row.taxRefunded)}</TableCell>
+                          <TableCell className="text-right font-semibold">{formatMoney(getNetTax(row))}</TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                  <TableRow className="font-bold">
+                    <TableCell>Total</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right">{formatMoney(totals.taxableSales)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(totals.tax)}</TableCell>
+                    <TableCell className="text-right text-gray-600">{formatMoney(totals.taxableReturns)}</TableCell>
+                    <TableCell className="text-right text-red-600">{formatMoney(totals.taxRefunded)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(getNetTax(totals))}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
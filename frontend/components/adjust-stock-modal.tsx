@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AdjustmentReason, Lot } from '@/types';
+import api from '@/lib/api';
+import { useFormatMoney } from '@/lib/money';
+import { toast } from 'sonner';
+
+interface AdjustStockModalProps {
+  lot: Lot;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  damage: 'Damaged',
+  loss: 'Lost',
+  found: 'Found',
+  recount: 'Recount',
+};
+
+const QUANTITY_HINTS: Record<AdjustmentReason, string> = {
+  damage: 'Pieces to write off',
+  loss: 'Pieces to write off',
+  found: 'Pieces to put back',
+  recount: 'Change (e.g. -2 or 3)',
+};
+
+// Damage and loss take stock out and found stock puts it back, so only a recount is entered signed
+const toSignedQuantity = (reason: AdjustmentReason, value: string) => {
+  const quantity = parseInt(value) || 0;
+  if (reason === 'damage' || reason === 'loss') return -Math.abs(quantity);
+  if (reason === 'found') return Math.abs(quantity);
+  return quantity;
+};
+
+export default function AdjustStockModal({ lot, open, onClose, onSuccess }: AdjustStockModalProps) {
+  const formatMoney = useFormatMoney();
+  const [reason, setReason] = useState<AdjustmentReason>('damage');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const variants = lot.items.flatMap((item) =>
+    item.sizes.map((size) => ({
+      key: `${item.color}::${size.size}`,
+      color: item.color,
+      size: size.size,
+      remainingQuantity: size.remainingQuantity,
+      purchaseCostPerPiece: size.purchaseCostPerPiece,
+    }))
+  );
+
+  const getWriteOffTotal = () => {
+    return variants.reduce(
+      (total, variant) =>
+        total - toSignedQuantity(reason, quantities[variant.key] ?? '') * variant.purchaseCostPerPiece,
+      0
+    );
+  };
+
+  const handleSubmit = async () => {
+    const items = variants
+      .map((variant) => ({
+        color: variant.color,
+        size: variant.size,
+        quantity: toSignedQuantity(reason, quantities[variant.key] ?? ''),
+      }))
+      .filter((item) => item.quantity !== 0);
+
+    if (items.length === 0) {
+      toast.error('Enter a quantity for at least one item');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.post(`/lots/${lot._id}/adjustments`, {
+        items,
+        reason,
+        note: note || undefined,
+      });
+
+      toast.success('Stock adjusted');
+      setQuantities({});
+      setNote('');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Adjustment failed'
+        : 'Adjustment failed';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const writeOffTotal = getWriteOffTotal();
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col w-[calc(100vw-2rem)] sm:w-full">
+        <DialogHeader className="border-b pb-4 sm:pb-6 flex-shrink-0">
+          <DialogTitle className="text-xl sm:text-2xl font-bold">Adjust Stock</DialogTitle>
+          <p className="text-xs sm:text-sm text-gray-600 mt-1">
+            Record damaged, lost or found pieces, or correct a miscount
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-3 py-4 sm:py-6 overflow-y-auto flex-1 min-h-0">
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as AdjustmentReason)}>
+              <SelectTrigger className="modern-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ADJUSTMENT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {variants.map((variant) => (
+            <div
+              key={variant.key}
+              className="flex items-center justify-between gap-4 p-3 sm:p-4 rounded-xl border border-gray-100 bg-white"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="font-bold text-gray-900 text-sm sm:text-base truncate">
+                  {variant.color} - {variant.size}
+                </p>
+                <p className="text-xs sm:text-sm text-gray-600">
+                  In stock: {variant.remainingQuantity} • Cost {formatMoney(variant.purchaseCostPerPiece)}
+                </p>
+              </div>
+              <Input
+                type="number"
+                min={reason === 'recount' ? undefined : '0'}
+                max={reason === 'damage' || reason === 'loss' ? variant.remainingQuantity : undefined}
+                placeholder="0"
+                title={QUANTITY_HINTS[reason]}
+                value={quantities[variant.key] ?? ''}
+                onChange={(e) =>
+                  setQuantities({ ...quantities, [variant.key]: e.target.value })
+                }
+                className="modern-input text-sm w-24"
+              />
+            </div>
+          ))}
+
+          <div className="pt-2">
+            <Label className="floating-label text-xs sm:text-sm">Note (Optional)</Label>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="modern-input text-sm"
+              placeholder="e.g., Water damage in storage"
+            />
+          </div>
+        </div>
+
+        <div className="gradient-card-primary !p-4 sm:!p-6 flex-shrink-0">
+          <p className="text-xs sm:text-sm text-white/80 mb-2">
+            {writeOffTotal < 0 ? 'Cost Recovered' : 'Write-off'}
+          </p>
+          <p className="text-2xl sm:text-4xl font-bold">{formatMoney(Math.abs(writeOffTotal))}</p>
+        </div>
+
+        <DialogFooter className="border-t pt-4 sm:pt-6 flex-shrink-0 gap-3 sm:gap-0">
+          <button onClick={onClose} className="px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all flex-1 sm:flex-none">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className="modern-btn-primary px-6 sm:px-8 py-2.5 sm:py-3 disabled:opacity-50 disabled:cursor-not-allowed text-xs sm:text-sm flex-1 sm:flex-none sm:ml-3"
+          >
+            {loading ? (
+              <span className="flex items-center justify-center gap-2">
+                <div className="spinner w-4 h-4 border-2"></div>
+                Saving...
+              </span>
+            ) : (
+              'Save Adjustment'
+            )}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
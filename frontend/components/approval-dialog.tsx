@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export interface ApprovalCredentials {
+  email: string;
+  password: string;
+}
+
+interface ApprovalDialogProps {
+  // Why the server asked for approval; the dialog is open while this is set
+  reason: string | null;
+  loading: boolean;
+  onCancel: () => void;
+  onApprove: (credentials: ApprovalCredentials) => void;
+}
+
+// An admin signs off a sale on the seller's device with their own login
+export default function ApprovalDialog({ reason, loading, onCancel, onApprove }: ApprovalDialogProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleClose = () => {
+    setPassword('');
+    onCancel();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApprove({ email: email.trim(), password });
+    setPassword('');
+  };
+
+  return (
+    <Dialog open={reason !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md w-[calc(100vw-2rem)] sm:w-full">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold">Admin Approval Needed</DialogTitle>
+            <DialogDescription className="text-sm text-gray-600">{reason}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label className="floating-label text-sm">Admin Email</Label>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+                autoComplete="off"
+                required
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-sm">Admin Password</Label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="off"
+                required
+                className="modern-input text-sm"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-sm hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="modern-btn-success px-6 py-2.5 text-sm disabled:opacity-50 sm:ml-3"
+            >
+              {loading ? 'Approving...' : 'Approve Sale'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import { Input } from '@/components/ui/input';
+import { Customer } from '@/types';
+import api from '@/lib/api';
+import { toast } from 'sonner';
+
+interface CustomerPickerProps {
+  customerName: string;
+  customerId: string | null;
+  // customer is null while the name is free text that hasn't been linked to the directory
+  onChange: (customerName: string, customer: Customer | null) => void;
+}
+
+export default function CustomerPicker({ customerName, customerId, onChange }: CustomerPickerProps) {
+  const [suggestions, setSuggestions] = useState<Customer[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (customerId || !customerName.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Debounce lookups while the user is typing
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api.get('/customers', {
+          params: { search: customerName.trim(), limit: 5 },
+        });
+        setSuggestions(response.data.data.customers);
+      } catch (error) {
+        setSuggestions([]);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [customerName, customerId]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await api.post('/customers', { name: customerName.trim() });
+      const customer: Customer = response.data.data.customer;
+      onChange(customer.name, customer);
+      setShowSuggestions(false);
+      toast.success(`${customer.name} added to customers`);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to add customer'
+        : 'Failed to add customer';
+      toast.error(message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const exactMatch = suggestions.some(
+    (customer) => customer.name.toLowerCase() === customerName.trim().toLowerCase()
+  );
+
+  return (
+    <div className="relative">
+      <Input
+        value={customerName}
+        onChange={(e) => {
+          onChange(e.target.value, null);
+          setShowSuggestions(true);
+        }}
+        onFocus={() => setShowSuggestions(true)}
+        onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
+        className="modern-input text-sm"
+        placeholder="Search or add a customer"
+      />
+      {customerId && (
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-semibold text-green-600">
+          Linked
+        </span>
+      )}
+
+      {showSuggestions && !customerId && customerName.trim() && (
+        <div className="absolute z-50 mt-1 w-full rounded-xl border border-gray-100 bg-white shadow-xl overflow-hidden">
+          {suggestions.map((customer) => (
+            <button
+              key={customer._id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onChange(customer.name, customer);
+                setShowSuggestions(false);
+              }}
+              className="w-full text-left px-4 py-2.5 text-sm hover:bg-purple-50 transition-all"
+            >
+              <span className="font-semibold text-gray-900">{customer.name}</span>
+              {customer.phone && <span className="text-gray-500 ml-2">{customer.phone}</span>}
+            </button>
+          ))}
+          {!exactMatch && (
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={handleCreate}
+              disabled={creating}
+              className="w-full text-left px-4 py-2.5 text-sm font-semibold text-purple-700 hover:bg-purple-50 border-t border-gray-100 transition-all disabled:opacity-50"
+            >
+              {creating ? 'Adding...' : `+ Add "${customerName.trim()}" as a new customer`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
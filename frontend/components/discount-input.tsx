@@ -0,0 +1,41 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { DiscountDraft } from '@/lib/discounts';
+import { getCurrencySymbol, useCurrency } from '@/lib/money';
+
+interface DiscountInputProps {
+  value: DiscountDraft;
+  onChange: (value: DiscountDraft) => void;
+  className?: string;
+  'aria-label'?: string;
+}
+
+// A number with a button that flips between percent and a money amount
+export default function DiscountInput({ value, onChange, className, 'aria-label': ariaLabel }: DiscountInputProps) {
+  const currency = useCurrency();
+
+  return (
+    <div className={`flex gap-1 ${className ?? ''}`}>
+      <Input
+        type="number"
+        min="0"
+        max={value.type === 'percent' ? '100' : undefined}
+        step={value.type === 'percent' ? '0.5' : '0.01'}
+        value={value.value}
+        onChange={(e) => onChange({ ...value, value: e.target.value })}
+        aria-label={ariaLabel}
+        placeholder="0"
+        className="modern-input text-sm h-10 min-w-0"
+      />
+      <button
+        type="button"
+        onClick={() => onChange({ ...value, type: value.type === 'percent' ? 'amount' : 'percent' })}
+        title={value.type === 'percent' ? 'Percent off - switch to an amount' : 'Amount off - switch to a percent'}
+        className="w-10 flex-shrink-0 rounded-lg border border-gray-200 bg-white font-bold text-sm text-purple-700 hover:bg-purple-50 transition-all"
+      >
+        {value.type === 'percent' ? '%' : getCurrencySymbol(currency)}
+      </button>
+    </div>
+  );
+}
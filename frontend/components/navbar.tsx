@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import NotificationCenter from '@/components/notification-center';
 
 export default function Navbar() {
   const { user, logout } = useAuth();
@@ -40,13 +41,217 @@ export default function Navbar() {
             </div>
           </Link>
 
-          {/* Desktop Navigation */}
-          <div className="hidden md:flex items-center gap-6 lg:gap-8">
-            {/* Navigation Links */}
-            <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {/* Desktop Navigation */}
+            <div className="hidden md:flex items-center gap-6 lg:gap-8">
+              {/* Navigation Links */}
+              <div className="flex gap-2">
+                <Link
+                  href="/dashboard"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/dashboard')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Dashboard
+                </Link>
+                <Link
+                  href="/lots"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/lots') || pathname?.startsWith('/lots/')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Lots
+                </Link>
+                <Link
+                  href="/products"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/products') || pathname?.startsWith('/products/')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Products
+                </Link>
+                <Link
+                  href="/pos"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/pos')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  POS
+                </Link>
+                <Link
+                  href="/transactions"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/transactions')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Sales
+                </Link>
+                <Link
+                  href="/customers"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/customers') || pathname?.startsWith('/customers/')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Customers
+                </Link>
+                <Link
+                  href="/suppliers"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/suppliers') || pathname?.startsWith('/suppliers/')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Suppliers
+                </Link>
+                <Link
+                  href="/receivables"
+                  className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/receivables')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Receivables
+                </Link>
+              </div>
+
+              {/* User Menu */}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="flex items-center gap-2 lg:gap-3 px-2 lg:px-3 py-2 rounded-xl hover:bg-gray-50 transition-all">
+                    <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-green-400 to-green-500 flex items-center justify-center text-white font-semibold text-sm">
+                      {user?.name?.charAt(0) || 'U'}
+                    </div>
+                    <span className="text-sm font-semibold text-gray-700 hidden lg:block">{user?.name}</span>
+                    <svg className="w-4 h-4 text-gray-400 hidden lg:block" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  align="end"
+                  className="w-64 rounded-xl border border-gray-100 shadow-xl mt-2"
+                >
+                  <DropdownMenuLabel className="py-3">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-400 to-green-500 flex items-center justify-center text-white font-semibold">
+                        {user?.name?.charAt(0) || 'U'}
+                      </div>
+                      <div>
+                        <p className="font-semibold text-gray-900">{user?.name}</p>
+                        <p className="text-xs text-gray-500 font-normal capitalize">{user?.role}</p>
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-500 font-normal mt-2">
+                      {user?.email}
+                    </div>
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator className="bg-gray-100" />
+                  {user?.role === 'admin' && (
+                    <DropdownMenuItem asChild className="py-2.5 font-semibold cursor-pointer">
+                      <Link href="/settings/users">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                        </svg>
+                        Manage Users
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {user?.role === 'admin' && (
+                    <DropdownMenuItem asChild className="py-2.5 font-semibold cursor-pointer">
+                      <Link href="/settings/business">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        </svg>
+                        Business Settings
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {user?.role === 'admin' && (
+                    <DropdownMenuItem asChild className="py-2.5 font-semibold cursor-pointer">
+                      <Link href="/settings/variants">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                        </svg>
+                        Colors & Sizes
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {user?.role === 'admin' && (
+                    <DropdownMenuItem asChild className="py-2.5 font-semibold cursor-pointer">
+                      <Link href="/audit">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                        </svg>
+                        Audit Log
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {user?.role === 'admin' && (
+                    <DropdownMenuItem asChild className="py-2.5 font-semibold cursor-pointer">
+                      <Link href="/lots/stock-check">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                        </svg>
+                        Stock Check
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem
+                    onClick={logout}
+                    className="py-2.5 text-red-600 font-semibold cursor-pointer hover:bg-red-50"
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                    </svg>
+                    Logout
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            <NotificationCenter />
+
+            {/* Mobile Menu Button */}
+            <button
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+              className="md:hidden p-2 rounded-lg hover:bg-gray-100 transition-all"
+            >
+              {mobileMenuOpen ? (
+                <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              ) : (
+                <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Mobile Menu */}
+        {mobileMenuOpen && (
+          <div className="md:hidden border-t border-gray-100 py-4 animate-fade-in">
+            <div className="flex flex-col space-y-2">
               <Link
                 href="/dashboard"
-                className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                onClick={() => setMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
                   isActive('/dashboard')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
@@ -56,7 +261,8 @@ export default function Navbar() {
               </Link>
               <Link
                 href="/lots"
-                className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                onClick={() => setMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
                   isActive('/lots') || pathname?.startsWith('/lots/')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
@@ -64,9 +270,32 @@ export default function Navbar() {
               >
                 Lots
               </Link>
+              <Link
+                href="/products"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                  isActive('/products') || pathname?.startsWith('/products/')
+                    ? 'bg-purple-50 text-purple-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                Products
+              </Link>
+              <Link
+                href="/pos"
+                onClick={() => setMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                  isActive('/pos')
+                    ? 'bg-purple-50 text-purple-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                POS
+              </Link>
               <Link
                 href="/transactions"
-                className={`px-3 lg:px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                onClick={() => setMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
                   isActive('/transactions')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
@@ -74,107 +303,104 @@ export default function Navbar() {
               >
                 Sales
               </Link>
-            </div>
-
-            {/* User Menu */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <button className="flex items-center gap-2 lg:gap-3 px-2 lg:px-3 py-2 rounded-xl hover:bg-gray-50 transition-all">
-                  <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-green-400 to-green-500 flex items-center justify-center text-white font-semibold text-sm">
-                    {user?.name?.charAt(0) || 'U'}
-                  </div>
-                  <span className="text-sm font-semibold text-gray-700 hidden lg:block">{user?.name}</span>
-                  <svg className="w-4 h-4 text-gray-400 hidden lg:block" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent
-                align="end"
-                className="w-64 rounded-xl border border-gray-100 shadow-xl mt-2"
-              >
-                <DropdownMenuLabel className="py-3">
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-green-400 to-green-500 flex items-center justify-center text-white font-semibold">
-                      {user?.name?.charAt(0) || 'U'}
-                    </div>
-                    <div>
-                      <p className="font-semibold text-gray-900">{user?.name}</p>
-                      <p className="text-xs text-gray-500 font-normal capitalize">{user?.role}</p>
-                    </div>
-                  </div>
-                  <div className="text-xs text-gray-500 font-normal mt-2">
-                    {user?.email}
-                  </div>
-                </DropdownMenuLabel>
-                <DropdownMenuSeparator className="bg-gray-100" />
-                <DropdownMenuItem
-                  onClick={logout}
-                  className="py-2.5 text-red-600 font-semibold cursor-pointer hover:bg-red-50"
-                >
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
-                  </svg>
-                  Logout
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
-
-          {/* Mobile Menu Button */}
-          <button
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-            className="md:hidden p-2 rounded-lg hover:bg-gray-100 transition-all"
-          >
-            {mobileMenuOpen ? (
-              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            ) : (
-              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-              </svg>
-            )}
-          </button>
-        </div>
-
-        {/* Mobile Menu */}
-        {mobileMenuOpen && (
-          <div className="md:hidden border-t border-gray-100 py-4 animate-fade-in">
-            <div className="flex flex-col space-y-2">
               <Link
-                href="/dashboard"
+                href="/customers"
                 onClick={() => setMobileMenuOpen(false)}
                 className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
-                  isActive('/dashboard')
+                  isActive('/customers') || pathname?.startsWith('/customers/')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                 }`}
               >
-                Dashboard
+                Customers
               </Link>
               <Link
-                href="/lots"
+                href="/suppliers"
                 onClick={() => setMobileMenuOpen(false)}
                 className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
-                  isActive('/lots') || pathname?.startsWith('/lots/')
+                  isActive('/suppliers') || pathname?.startsWith('/suppliers/')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                 }`}
               >
-                Lots
+                Suppliers
               </Link>
               <Link
-                href="/transactions"
+                href="/receivables"
                 onClick={() => setMobileMenuOpen(false)}
                 className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
-                  isActive('/transactions')
+                  isActive('/receivables')
                     ? 'bg-purple-50 text-purple-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                 }`}
               >
-                Sales
+                Receivables
               </Link>
+              {user?.role === 'admin' && (
+                <Link
+                  href="/settings/users"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/settings/users')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Users
+                </Link>
+              )}
+              {user?.role === 'admin' && (
+                <Link
+                  href="/settings/business"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/settings/business')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Business Settings
+                </Link>
+              )}
+              {user?.role === 'admin' && (
+                <Link
+                  href="/settings/variants"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/settings/variants')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Colors & Sizes
+                </Link>
+              )}
+              {user?.role === 'admin' && (
+                <Link
+                  href="/audit"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/audit')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Audit Log
+                </Link>
+              )}
+              {user?.role === 'admin' && (
+                <Link
+                  href="/lots/stock-check"
+                  onClick={() => setMobileMenuOpen(false)}
+                  className={`px-4 py-3 rounded-lg text-sm font-semibold transition-all ${
+                    isActive('/lots/stock-check')
+                      ? 'bg-purple-50 text-purple-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  Stock Check
+                </Link>
+              )}
 
               <div className="border-t border-gray-100 my-2 pt-4">
                 <div className="flex items-center gap-3 px-4 py-2 mb-2">
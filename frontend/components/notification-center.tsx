@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import api from '@/lib/api';
+import { AppNotification } from '@/types';
+
+// How often to look for new alerts while a page is open
+const POLL_INTERVAL_MS = 60_000;
+
+export default function NotificationCenter() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // State is only set once the request settles, so the polling effect below can call this directly
+  const fetchNotifications = () =>
+    api.get('/notifications')
+      .then((response) => {
+        setNotifications(response.data.data.notifications);
+        setUnreadCount(response.data.data.unreadCount);
+      })
+      .catch(() => console.error('Failed to load notifications'));
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await api.post('/notifications/read', { ids });
+      fetchNotifications();
+    } catch (error) {
+      console.error('Failed to update notifications');
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <button className="relative p-2 rounded-xl hover:bg-gray-50 transition-all" aria-label="Notifications">
+          <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-80 rounded-xl border border-gray-100 shadow-xl mt-2"
+      >
+        <DropdownMenuLabel className="py-3 flex items-center justify-between">
+          <span className="font-semibold text-gray-900">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markRead()}
+              className="text-xs font-semibold text-purple-600 hover:text-purple-700"
+            >
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-gray-100" />
+        {notifications.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-gray-500">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem key={notification._id} asChild className="py-2.5 cursor-pointer">
+                <Link
+                  href={`/lots/${notification.lotId}`}
+                  onClick={() => !notification.read && markRead([notification._id])}
+                  className="flex items-start gap-2"
+                >
+                  <span
+                    className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                      !notification.read && !notification.resolvedAt ? 'bg-red-500' : 'bg-transparent'
+                    }`}
+                  />
+                  <div className={notification.resolvedAt ? 'text-gray-400' : ''}>
+                    <p className="text-sm font-semibold">
+                      {notification.color} / {notification.size} is low in {notification.lotNumber}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {notification.resolvedAt
+                        ? 'Restocked'
+                        : `${notification.remainingQuantity} left · alert below ${notification.threshold}`}
+                      {' · '}
+                      {new Date(notification.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
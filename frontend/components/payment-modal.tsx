@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PaymentMethod, Transaction, TransactionPayment } from '@/types';
+import api from '@/lib/api';
+import { getBalanceDue, PAYMENT_METHOD_LABELS } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
+import { toast } from 'sonner';
+
+interface PaymentModalProps {
+  transaction: Transaction;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function PaymentModal({ transaction, open, onClose, onSuccess }: PaymentModalProps) {
+  const formatMoney = useFormatMoney();
+  const balanceDue = getBalanceDue(transaction);
+  const [payments, setPayments] = useState<TransactionPayment[]>([]);
+  const [amount, setAmount] = useState(balanceDue.toFixed(2));
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [paidAt, setPaidAt] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAmount(balanceDue.toFixed(2));
+      fetchPayments();
+    }
+  }, [open, transaction._id]);
+
+  const fetchPayments = async () => {
+    try {
+      const response = await api.get(`/transactions/${transaction._id}/payments`);
+      setPayments(response.data.data.payments);
+    } catch (error) {
+      toast.error('Failed to load payments');
+    }
+  };
+
+  const handleSubmit = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast.error('Enter an amount greater than 0');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.post(`/transactions/${transaction._id}/payments`, {
+        amount: value,
+        method,
+        paidAt: paidAt || undefined,
+        note: note || undefined,
+      });
+
+      toast.success('Payment recorded');
+      setPaidAt('');
+      setNote('');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to record payment'
+        : 'Failed to record payment';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col w-[calc(100vw-2rem)] sm:w-full">
+        <DialogHeader className="border-b pb-4 sm:pb-6 flex-shrink-0">
+          <DialogTitle className="text-xl sm:text-2xl font-bold">Record Payment</DialogTitle>
+          <p className="text-xs sm:text-sm text-gray-600 mt-1">
+            {transaction.customerName || 'Customer'} owes {formatMoney(balanceDue)}
+            {transaction.dueDate && ` • due ${new Date(transaction.dueDate).toLocaleDateString()}`}
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4 sm:py-6 overflow-y-auto flex-1 min-h-0">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Amount</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                max={balanceDue}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger className="modern-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Date (Optional)</Label>
+              <Input
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Note (Optional)</Label>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="modern-input text-sm"
+                placeholder="e.g., Cheque #1042"
+              />
+            </div>
+          </div>
+
+          {payments.length > 0 && (
+            <div className="pt-2">
+              <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-3">Payments So Far</p>
+              <div className="space-y-2">
+                {payments.map((payment) => (
+                  <div
+                    key={payment._id}
+                    className="flex items-center justify-between gap-4 p-3 rounded-xl border border-gray-100 bg-white text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900">
+                        {PAYMENT_METHOD_LABELS[payment.method]} • {new Date(payment.paidAt).toLocaleDateString()}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {payment.note ? `${payment.note} • ` : ''}by {payment.recordedBy?.name}
+                      </p>
+                    </div>
+                    <span className="font-bold text-green-600">{formatMoney(payment.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="border-t pt-4 sm:pt-6 flex-shrink-0 gap-3 sm:gap-0">
+          <button onClick={onClose} className="px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all flex-1 sm:flex-none">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading || balanceDue <= 0}
+            className="modern-btn-success px-6 sm:px-8 py-2.5 sm:py-3 disabled:opacity-50 disabled:cursor-not-allowed text-xs sm:text-sm flex-1 sm:flex-none sm:ml-3"
+          >
+            {loading ? (
+              <span className="flex items-center justify-center gap-2">
+                <div className="spinner w-4 h-4 border-2"></div>
+                Saving...
+              </span>
+            ) : (
+              'Record Payment'
+            )}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import api from '@/lib/api';
+import { useTaxSettings } from '@/lib/tax';
+import { Product } from '@/types';
+import { toast } from 'sonner';
+
+// Mount the dialog when opening it so the form starts from the product's current values
+interface ProductFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Leave out to create a new product
+  product?: Product;
+  onSaved: (product: Product) => void;
+}
+
+// Select items can't have an empty value, so "use the default rate" gets its own
+const DEFAULT_TAX_RATE = 'default';
+
+// Colors and sizes are typed as comma-separated lists
+const splitList = (value: string) =>
+  value.split(',').map((entry) => entry.trim()).filter(Boolean);
+
+const toForm = (product?: Product) => ({
+  name: product?.name ?? '',
+  sku: product?.sku ?? '',
+  category: product?.category ?? '',
+  colors: product?.colors.join(', ') ?? '',
+  sizes: product?.sizes.join(', ') ?? '',
+  images: product?.images.join('\n') ?? '',
+  taxRateId: product?.taxRateId ?? DEFAULT_TAX_RATE,
+});
+
+export default function ProductFormDialog({ open, onOpenChange, product, onSaved }: ProductFormDialogProps) {
+  const [form, setForm] = useState(() => toForm(product));
+  const [saving, setSaving] = useState(false);
+  const { taxRates } = useTaxSettings();
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: form.name,
+        sku: form.sku,
+        category: form.category,
+        colors: splitList(form.colors),
+        sizes: splitList(form.sizes),
+        images: form.images.split('\n').map((url) => url.trim()).filter(Boolean),
+        // Blank clears it
+        taxRateId: form.taxRateId === DEFAULT_TAX_RATE ? '' : form.taxRateId,
+      };
+      const response = product
+        ? await api.patch(`/products/${product._id}`, payload)
+        : await api.post('/products', payload);
+      toast.success(product ? 'Product updated' : 'Product added');
+      onOpenChange(false);
+      onSaved(response.data.data.product);
+    } catch (error) {
+      const fallback = product ? 'Failed to update product' : 'Failed to add product';
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || fallback
+        : fallback;
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{product ? 'Edit Product' : 'Add Product'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Style Name</Label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="modern-input text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">SKU (Optional)</Label>
+              <Input
+                value={form.sku}
+                onChange={(e) => setForm({ ...form, sku: e.target.value })}
+                className="modern-input text-sm"
+              />
+            </div>
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Category (Optional)</Label>
+              <Input
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className="modern-input text-sm"
+                placeholder="Shirts"
+              />
+            </div>
+          </div>
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Default Colors</Label>
+            <Input
+              value={form.colors}
+              onChange={(e) => setForm({ ...form, colors: e.target.value })}
+              className="modern-input text-sm"
+              placeholder="Black, White, Navy"
+            />
+          </div>
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Default Sizes</Label>
+            <Input
+              value={form.sizes}
+              onChange={(e) => setForm({ ...form, sizes: e.target.value })}
+              className="modern-input text-sm"
+              placeholder="S, M, L, XL"
+            />
+          </div>
+          {taxRates.length > 0 && (
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Tax Rate</Label>
+              <Select value={form.taxRateId} onValueChange={(taxRateId) => setForm({ ...form, taxRateId })}>
+                <SelectTrigger className="modern-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TAX_RATE}>Business default</SelectItem>
+                  {taxRates.map((rate) => (
+                    <SelectItem key={rate._id} value={rate._id}>
+                      {rate.name} ({rate.rate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Image URLs (One per Line)</Label>
+            <textarea
+              value={form.images}
+              onChange={(e) => setForm({ ...form, images: e.target.value })}
+              rows={3}
+              className="modern-input text-sm w-full"
+              placeholder="https://..."
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-3 sm:gap-0">
+          <button
+            onClick={() => onOpenChange(false)}
+            className="px-4 sm:px-6 py-2.5 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="modern-btn-primary px-6 py-2.5 text-xs sm:text-sm disabled:opacity-50 sm:ml-3"
+          >
+            {saving ? 'Saving...' : product ? 'Save Changes' : 'Add Product'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
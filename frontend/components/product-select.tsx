@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Product } from '@/types';
+import api from '@/lib/api';
+
+// Radix Select can't use an empty string as an item value
+const NO_PRODUCT = 'none';
+
+interface ProductSelectProps {
+  onSelect: (product: Product) => void;
+  // Picked as soon as the products load, e.g. when coming from a product's page
+  initialProductId?: string | null;
+}
+
+// Picks a product to copy from; the select itself always goes back to empty
+export default function ProductSelect({ onSelect, initialProductId }: ProductSelectProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      try {
+        const response = await api.get('/products', { params: { limit: 100 } });
+        const loaded: Product[] = response.data.data.products;
+        setProducts(loaded);
+
+        const initialProduct = loaded.find((product) => product._id === initialProductId);
+        if (initialProduct) {
+          onSelect(initialProduct);
+        }
+      } catch (error) {
+        console.error('Failed to load products');
+      }
+    };
+
+    fetchProducts();
+  }, []);
+
+  return (
+    <Select
+      value={NO_PRODUCT}
+      onValueChange={(productId) => {
+        const product = products.find((p) => p._id === productId);
+        if (product) {
+          onSelect(product);
+        }
+      }}
+    >
+      <SelectTrigger className="modern-input">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PRODUCT}>
+          {products.length === 0 ? 'No products in the catalogue' : 'Add colors and sizes from a product...'}
+        </SelectItem>
+        {products.map((product) => (
+          <SelectItem key={product._id} value={product._id}>
+            {product.name}{product.sku ? ` (${product.sku})` : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
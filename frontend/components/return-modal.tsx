@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Transaction } from '@/types';
+import api from '@/lib/api';
+import { getItemLotId, getItemLotNumber } from '@/lib/transactions';
+import { useFormatMoney } from '@/lib/money';
+import { toast } from 'sonner';
+
+interface ReturnableVariant {
+  key: string;
+  lotId?: string;
+  lotNumber?: string;
+  color: string;
+  size: string;
+  returnable: number;
+  sellPricePerPiece: number;
+  // The line's total and tax shared over its pieces; that's what the server refunds
+  refundPerPiece: number;
+}
+
+interface ReturnModalProps {
+  transaction: Transaction;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const getReturnableVariants = (transaction: Transaction): ReturnableVariant[] => {
+  const variants = new Map<string, ReturnableVariant>();
+
+  transaction.soldItems.forEach((item) => {
+    const lotId = getItemLotId(transaction, item);
+    const key = `${lotId}::${item.color}::${item.size}`;
+    const returnable = item.quantity - (item.returnedQuantity || 0);
+    const existing = variants.get(key);
+
+    if (existing) {
+      existing.returnable += returnable;
+    } else {
+      variants.set(key, {
+        key,
+        lotId,
+        lotNumber: getItemLotNumber(transaction, item),
+        color: item.color,
+        size: item.size,
+        returnable,
+        sellPricePerPiece: item.sellPricePerPiece,
+        refundPerPiece: (item.totalAmount + (item.taxAmount || 0)) / item.quantity,
+      });
+    }
+  });
+
+  return Array.from(variants.values()).filter((variant) => variant.returnable > 0);
+};
+
+export default function ReturnModal({ transaction, open, onClose, onSuccess }: ReturnModalProps) {
+  const formatMoney = useFormatMoney();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const variants = getReturnableVariants(transaction);
+
+  const getRefundTotal = () => {
+    return variants.reduce(
+      (total, variant) =>
+        total + (parseInt(quantities[variant.key]) || 0) * variant.refundPerPiece,
+      0
+    );
+  };
+
+  const handleSubmit = async () => {
+    const items = variants
+      .map((variant) => ({
+        lotId: variant.lotId,
+        color: variant.color,
+        size: variant.size,
+        quantity: parseInt(quantities[variant.key]) || 0,
+      }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast.error('Enter a quantity for at least one item');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.post(`/transactions/${transaction._id}/returns`, {
+        items,
+        reason: reason || undefined,
+      });
+
+      toast.success('Return processed and stock restored');
+      setQuantities({});
+      setReason('');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Return failed'
+        : 'Return failed';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col w-[calc(100vw-2rem)] sm:w-full">
+        <DialogHeader className="border-b pb-4 sm:pb-6 flex-shrink-0">
+          <DialogTitle className="text-xl sm:text-2xl font-bold">Process Return</DialogTitle>
+          <p className="text-xs sm:text-sm text-gray-600 mt-1">
+            Choose how many pieces of each item the customer is returning
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-3 py-4 sm:py-6 overflow-y-auto flex-1 min-h-0">
+          {variants.length === 0 ? (
+            <p className="text-center text-gray-600 text-sm py-8">Every item on this sale has already been returned</p>
+          ) : (
+            variants.map((variant) => (
+              <div
+                key={variant.key}
+                className="flex items-center justify-between gap-4 p-3 sm:p-4 rounded-xl border border-gray-100 bg-white"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="font-bold text-gray-900 text-sm sm:text-base truncate">
+                    {variant.color} - {variant.size}
+                  </p>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    {variant.lotNumber && `${variant.lotNumber} • `}Returnable: {variant.returnable} × {formatMoney(variant.sellPricePerPiece)}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={variant.returnable}
+                  placeholder="0"
+                  value={quantities[variant.key] ?? ''}
+                  onChange={(e) =>
+                    setQuantities({ ...quantities, [variant.key]: e.target.value })
+                  }
+                  className="modern-input text-sm w-24"
+                />
+              </div>
+            ))
+          )}
+
+          <div className="pt-2">
+            <Label className="floating-label text-xs sm:text-sm">Reason (Optional)</Label>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="modern-input text-sm"
+              placeholder="e.g., Wrong size"
+            />
+          </div>
+        </div>
+
+        <div className="gradient-card-primary !p-4 sm:!p-6 flex-shrink-0">
+          <p className="text-xs sm:text-sm text-white/80 mb-2">Refund Amount</p>
+          <p className="text-2xl sm:text-4xl font-bold">{formatMoney(getRefundTotal())}</p>
+        </div>
+
+        <DialogFooter className="border-t pt-4 sm:pt-6 flex-shrink-0 gap-3 sm:gap-0">
+          <button onClick={onClose} className="px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all flex-1 sm:flex-none">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading || variants.length === 0}
+            className="modern-btn-primary px-6 sm:px-8 py-2.5 sm:py-3 disabled:opacity-50 disabled:cursor-not-allowed text-xs sm:text-sm flex-1 sm:flex-none sm:ml-3"
+          >
+            {loading ? (
+              <span className="flex items-center justify-center gap-2">
+                <div className="spinner w-4 h-4 border-2"></div>
+                Processing...
+              </span>
+            ) : (
+              'Confirm Return'
+            )}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
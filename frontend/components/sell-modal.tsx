@@ -1,57 +1,141 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Lot } from '@/types';
+import { Lot, PaymentMethod, ScannedVariant, Transaction } from '@/types';
 import api from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { getNetTotal, openInvoicePdf, PAYMENT_METHOD_LABELS } from '@/lib/transactions';
+import { getTaxTotals, useTaxSettings } from '@/lib/tax';
 import { toast } from 'sonner';
+import CustomerPicker from '@/components/customer-picker';
+import DiscountInput from '@/components/discount-input';
+import ApprovalDialog, { ApprovalCredentials } from '@/components/approval-dialog';
+import {
+  DiscountDraft,
+  EMPTY_DISCOUNT,
+  getDiscountAmount,
+  isApprovalRequired,
+  roundMoney,
+  spreadSaleDiscount,
+  toDiscount,
+} from '@/lib/discounts';
+import { useFormatMoney } from '@/lib/money';
 
 interface SellItem {
   id: string;
+  lotId: string;
+  lotNumber: string;
   color: string;
   size: string;
   quantity: number;
   sellPricePerPiece: number;
+  taxRateId?: string;
 }
 
 interface SellModalProps {
-  lot: Lot;
+  // Lot to start selling from; items from any other lot with stock can be added to the cart
+  lot?: Lot;
   open: boolean;
   onClose: () => void;
   onSuccess: () => void;
 }
 
 export default function SellModal({ lot, open, onClose, onSuccess }: SellModalProps) {
+  const formatMoney = useFormatMoney();
+  const { user } = useAuth();
+  const [lots, setLots] = useState<Lot[]>(lot ? [lot] : []);
+  const [selectedLotId, setSelectedLotId] = useState(lot?._id ?? '');
   const [selectedColor, setSelectedColor] = useState('');
   const [selectedSize, setSelectedSize] = useState('');
   const [quantity, setQuantity] = useState('1');
+  // What the barcode scanner has typed so far; scanners end each code with Enter
+  const [scanCode, setScanCode] = useState('');
   const [sellItems, setSellItems] = useState<SellItem[]>([]);
   const [customerName, setCustomerName] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  // Admin-only override; otherwise the server numbers the invoice
   const [invoiceNumber, setInvoiceNumber] = useState('');
+  // Blank means the customer paid the full amount
+  const [amountPaid, setAmountPaid] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [dueDate, setDueDate] = useState('');
+  const [saleDiscount, setSaleDiscount] = useState<DiscountDraft>(EMPTY_DISCOUNT);
+  // Set when the sale needs an admin to sign it off
+  const [approvalReason, setApprovalReason] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Set once the sale goes through so the invoice can be printed before closing
+  const [completedSale, setCompletedSale] = useState<Transaction | null>(null);
+  const taxSettings = useTaxSettings();
+
+  useEffect(() => {
+    if (open) {
+      fetchLots();
+    }
+  }, [open]);
+
+  const fetchLots = async () => {
+    try {
+      const response = await api.get('/lots', {
+        params: { limit: 100, inStock: true },
+      });
+      const stockedLots: Lot[] = response.data.data.lots;
+      // Keep the starting lot selectable even if it fell outside the first page
+      setLots(
+        lot && !stockedLots.some((l) => l._id === lot._id)
+          ? [lot, ...stockedLots]
+          : stockedLots
+      );
+    } catch (error) {
+      toast.error('Failed to load lots');
+    }
+  };
+
+  const selectedLot = lots.find((l) => l._id === selectedLotId);
+
+  const getQuantityInCart = (lotId: string, color: string, size: string) => {
+    return sellItems
+      .filter((item) => item.lotId === lotId && item.color === color && item.size === size)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  };
+
+  const getAvailable = (color: string, size: { size: string; remainingQuantity: number }) => {
+    return size.remainingQuantity - getQuantityInCart(selectedLotId, color, size.size);
+  };
+
+  const availableColors = selectedLot
+    ? selectedLot.items.filter((item) =>
+        item.sizes.some((size) => getAvailable(item.color, size) > 0)
+      )
+    : [];
 
   const availableSizes = selectedColor
-    ? lot.items
+    ? selectedLot?.items
         .find((item) => item.color === selectedColor)
-        ?.sizes.filter((size) => size.remainingQuantity > 0) || []
+        ?.sizes.filter((size) => getAvailable(selectedColor, size) > 0) || []
     : [];
 
   const selectedSizeData = availableSizes.find((s) => s.size === selectedSize);
-  const maxQuantity = selectedSizeData?.remainingQuantity || 0;
+  const maxQuantity = selectedSizeData ? getAvailable(selectedColor, selectedSizeData) : 0;
 
-  useEffect(() => {
-    if (!availableSizes.find((s) => s.size === selectedSize)) {
-      setSelectedSize('');
-    }
-  }, [selectedColor, availableSizes, selectedSize]);
+  const handleLotChange = (lotId: string) => {
+    setSelectedLotId(lotId);
+    setSelectedColor('');
+    setSelectedSize('');
+  };
+
+  const handleColorChange = (color: string) => {
+    setSelectedColor(color);
+    setSelectedSize('');
+  };
 
   const handleAddItem = () => {
-    if (!selectedColor || !selectedSize || !quantity) {
-      toast.error('Please select color, size, and quantity');
+    if (!selectedLot || !selectedColor || !selectedSize || !quantity) {
+      toast.error('Please select lot, color, size, and quantity');
       return;
     }
 
@@ -62,15 +146,19 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
     }
 
     const sizeData = selectedSizeData!;
+    const product = selectedLot.items.find((item) => item.color === selectedColor)?.productId;
 
     setSellItems([
       ...sellItems,
       {
         id: crypto.randomUUID(),
+        lotId: selectedLot._id,
+        lotNumber: selectedLot.lotNumber,
         color: selectedColor,
         size: selectedSize,
         quantity: qty,
         sellPricePerPiece: sizeData.sellCostPerPiece,
+        taxRateId: product?.taxRateId,
       },
     ]);
 
@@ -79,57 +167,231 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
     setQuantity('1');
   };
 
+  // The loaded lots usually hold the variant; anything else is looked up by the server
+  const findScannedVariant = async (barcode: string): Promise<ScannedVariant> => {
+    for (const l of lots) {
+      for (const item of l.items) {
+        const size = item.sizes.find((s) => s.barcode === barcode);
+        if (size) {
+          return {
+            lot: { _id: l._id, lotNumber: l.lotNumber },
+            color: item.color,
+            size: size.size,
+            remainingQuantity: size.remainingQuantity,
+            sellCostPerPiece: size.sellCostPerPiece,
+            taxRateId: item.productId?.taxRateId,
+            barcode,
+          };
+        }
+      }
+    }
+
+    const response = await api.get(`/lots/barcode/${encodeURIComponent(barcode)}`);
+    return response.data.data;
+  };
+
+  // Each scan adds one piece; scanning the same label again adds to its line
+  const handleScan = async () => {
+    const barcode = scanCode.trim().toUpperCase();
+    setScanCode('');
+    if (!barcode) return;
+
+    try {
+      const variant = await findScannedVariant(barcode);
+      const label = `${variant.color} - ${variant.size}`;
+
+      if (variant.remainingQuantity - getQuantityInCart(variant.lot._id, variant.color, variant.size) < 1) {
+        toast.error(`No more ${label} in stock in lot ${variant.lot.lotNumber}`);
+        return;
+      }
+
+      setSellItems((current) => {
+        const existing = current.find((item) =>
+          item.lotId === variant.lot._id && item.color === variant.color && item.size === variant.size
+        );
+        if (existing) {
+          return current.map((item) => (item.id === existing.id ? { ...item, quantity: item.quantity + 1 } : item));
+        }
+        return [
+          ...current,
+          {
+            id: crypto.randomUUID(),
+            lotId: variant.lot._id,
+            lotNumber: variant.lot.lotNumber,
+            color: variant.color,
+            size: variant.size,
+            quantity: 1,
+            sellPricePerPiece: variant.sellCostPerPiece,
+            taxRateId: variant.taxRateId,
+          },
+        ];
+      });
+      toast.success(`Added ${label}`);
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Barcode not recognised'
+        : 'Barcode not recognised';
+      toast.error(message);
+    }
+  };
+
   const handleRemoveItem = (id: string) => {
     setSellItems(sellItems.filter((item) => item.id !== id));
   };
 
-  const getTotalRevenue = () => {
+  const getSubtotal = () => {
     return sellItems.reduce(
       (total, item) => total + item.quantity * item.sellPricePerPiece,
       0
     );
   };
 
-  const handleSubmit = async () => {
+  // Each item's price once the sale discount is shared over the items, as the server will work it out
+  const getDiscountedPrices = () => {
+    const subtotal = getSubtotal();
+    const discountAmount = Math.min(getDiscountAmount(subtotal, toDiscount(saleDiscount)), subtotal);
+    return spreadSaleDiscount(
+      sellItems.map((item) => ({ quantity: item.quantity, price: item.sellPricePerPiece })),
+      discountAmount
+    );
+  };
+
+  const getDiscountedSubtotal = () => {
+    const prices = getDiscountedPrices();
+    return roundMoney(sellItems.reduce((total, item, index) => total + item.quantity * prices[index], 0));
+  };
+
+  // What the customer pays, tax included
+  const getSaleTotals = () => {
+    const prices = getDiscountedPrices();
+    return getTaxTotals(
+      sellItems.map((item, index) => ({ quantity: item.quantity, price: prices[index], taxRateId: item.taxRateId })),
+      taxSettings
+    );
+  };
+
+  const handleSubmit = async (approval?: ApprovalCredentials) => {
     if (sellItems.length === 0) {
       toast.error('Add at least one item to sell');
       return;
     }
 
+    const paid = amountPaid === '' ? undefined : parseFloat(amountPaid);
+    const saleTotal = getSaleTotals().total;
+    const isCreditSale = paid !== undefined && paid < saleTotal;
+
+    if (paid !== undefined && (isNaN(paid) || paid < 0 || paid > saleTotal)) {
+      toast.error('Amount paid must be between 0 and the sale total');
+      return;
+    }
+
+    if (isCreditSale && !customerName.trim()) {
+      toast.error('Choose a customer for a sale that is not paid in full');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      await api.post(`/lots/${lot._id}/sell`, {
-        lotId: lot._id,
+      const response = await api.post('/transactions', {
         soldItems: sellItems.map((item) => ({
+          lotId: item.lotId,
           color: item.color,
           size: item.size,
           quantity: item.quantity,
           sellPricePerPiece: item.sellPricePerPiece,
         })),
+        customerId: customerId || undefined,
         customerName: customerName || undefined,
         invoiceNumber: invoiceNumber || undefined,
+        amountPaid: paid,
+        paymentMethod,
+        dueDate: isCreditSale && dueDate ? dueDate : undefined,
+        discount: toDiscount(saleDiscount),
+        approval,
       });
 
-      toast.success('Sale completed successfully');
+      toast.success(`Sale completed - invoice ${response.data.data.transaction.invoiceNumber}`);
+      setCompletedSale(response.data.data.transaction);
+      setApprovalReason(null);
       setSellItems([]);
       setCustomerName('');
+      setCustomerId(null);
       setInvoiceNumber('');
+      setAmountPaid('');
+      setPaymentMethod('cash');
+      setDueDate('');
+      setSaleDiscount(EMPTY_DISCOUNT);
       onSuccess();
-      onClose();
-    } catch (error: any) {
-      toast.error(error.response?.data?.error?.message || 'Sale failed');
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Sale failed'
+        : 'Sale failed';
+      if (isApprovalRequired(error)) {
+        setApprovalReason(message);
+      } else {
+        toast.error(message);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleClose = () => {
+    setCompletedSale(null);
+    onClose();
+  };
+
+  const handlePrintInvoice = async (transactionId: string) => {
+    try {
+      await openInvoicePdf(transactionId);
+    } catch (error) {
+      toast.error('Failed to load invoice');
+    }
+  };
+
+  const lotCount = new Set(sellItems.map((item) => item.lotId)).size;
+
+  if (completedSale) {
+    return (
+      <Dialog open={open} onOpenChange={handleClose}>
+        <DialogContent className="max-w-md w-[calc(100vw-2rem)] sm:w-full">
+          <DialogHeader>
+            <DialogTitle className="text-xl sm:text-2xl font-bold">Sale Complete</DialogTitle>
+          </DialogHeader>
+          <div className="text-center py-6">
+            <p className="text-xs sm:text-sm text-gray-500 uppercase font-semibold mb-1">Invoice</p>
+            <p className="text-2xl font-bold text-gray-900 mb-4">{completedSale.invoiceNumber}</p>
+            <p className="text-3xl sm:text-4xl font-bold text-green-600">{formatMoney(getNetTotal(completedSale))}</p>
+            {completedSale.customerName && (
+              <p className="text-sm text-gray-600 mt-2">Sold to {completedSale.customerName}</p>
+            )}
+          </div>
+          <DialogFooter className="gap-3 sm:gap-0">
+            <button
+              onClick={handleClose}
+              className="px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all flex-1 sm:flex-none"
+            >
+              Done
+            </button>
+            <button
+              onClick={() => handlePrintInvoice(completedSale._id)}
+              className="modern-btn-primary px-6 sm:px-8 py-2.5 sm:py-3 text-xs sm:text-sm flex-1 sm:flex-none sm:ml-3"
+            >
+              Print / Download Invoice
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col w-[calc(100vw-2rem)] sm:w-full">
         <DialogHeader className="border-b pb-4 sm:pb-6 flex-shrink-0">
-          <DialogTitle className="text-xl sm:text-2xl font-bold">Sell Items from {lot.lotNumber}</DialogTitle>
-          <p className="text-xs sm:text-sm text-gray-600 mt-1">Select items to add to this sale</p>
+          <DialogTitle className="text-xl sm:text-2xl font-bold">New Sale</DialogTitle>
+          <p className="text-xs sm:text-sm text-gray-600 mt-1">Add items from any lot with stock to this sale</p>
         </DialogHeader>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8 py-4 sm:py-6 overflow-y-auto flex-1 min-h-0">
@@ -145,24 +407,56 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
             </div>
 
             <div>
-              <Label className="floating-label text-xs sm:text-sm">Color</Label>
-              <Select value={selectedColor} onValueChange={setSelectedColor}>
+              <Label className="floating-label text-xs sm:text-sm">Scan Barcode</Label>
+              <Input
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleScan();
+                  }
+                }}
+                autoFocus
+                autoComplete="off"
+                className="modern-input text-sm font-mono"
+                placeholder="Scan a label, or pick the item below"
+              />
+            </div>
+
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Lot</Label>
+              <Select value={selectedLotId} onValueChange={handleLotChange}>
                 <SelectTrigger className="modern-input">
-                  <SelectValue placeholder="Select color" />
+                  <SelectValue placeholder="Select lot" />
                 </SelectTrigger>
                 <SelectContent>
-                  {lot.items
-                    .filter((item) =>
-                      item.sizes.some((size) => size.remainingQuantity > 0)
-                    )
-                    .map((item) => (
+                  {lots.map((l) => (
+                    <SelectItem key={l._id} value={l._id}>
+                      {l.lotNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedLot && (
+              <div>
+                <Label className="floating-label text-xs sm:text-sm">Color</Label>
+                <Select value={selectedColor} onValueChange={handleColorChange}>
+                  <SelectTrigger className="modern-input">
+                    <SelectValue placeholder="Select color" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableColors.map((item) => (
                       <SelectItem key={item.color} value={item.color}>
                         {item.color}
                       </SelectItem>
                     ))}
-                </SelectContent>
-              </Select>
-            </div>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             {selectedColor && (
               <div>
@@ -174,7 +468,7 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
                   <SelectContent>
                     {availableSizes.map((size) => (
                       <SelectItem key={size.size} value={size.size}>
-                        {size.size} (Available: {size.remainingQuantity})
+                        {size.size} (Available: {getAvailable(selectedColor, size)})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -210,6 +504,11 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
                 </svg>
               </div>
               <h3 className="text-base sm:text-lg font-bold text-gray-900">Cart</h3>
+              {lotCount > 1 && (
+                <span className="px-2 py-1 rounded-lg bg-purple-50 text-purple-700 text-xs font-semibold border border-purple-100">
+                  {lotCount} lots
+                </span>
+              )}
             </div>
 
             {sellItems.length === 0 ? (
@@ -235,13 +534,13 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
                           {item.color} - {item.size}
                         </p>
                         <p className="text-xs sm:text-sm text-gray-600">
-                          {item.quantity} × ${item.sellPricePerPiece.toFixed(2)}
+                          {item.lotNumber} • {item.quantity} × {formatMoney(item.sellPricePerPiece)}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
                       <p className="font-bold text-green-600 text-sm sm:text-base">
-                        ${(item.quantity * item.sellPricePerPiece).toFixed(2)}
+                        {formatMoney(item.quantity * item.sellPricePerPiece)}
                       </p>
                       <button
                         onClick={() => handleRemoveItem(item.id)}
@@ -258,33 +557,91 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
             )}
 
             <div className="gradient-card-success !p-4 sm:!p-6 flex-shrink-0">
-              <p className="text-xs sm:text-sm text-white/80 mb-2">Total Revenue</p>
+              <p className="text-xs sm:text-sm text-white/80 mb-2">Total</p>
               <p className="text-2xl sm:text-4xl font-bold">
-                ${getTotalRevenue().toFixed(2)}
+                {formatMoney(getSaleTotals().total)}
               </p>
+              {getDiscountedSubtotal() < getSubtotal() && (
+                <p className="text-xs sm:text-sm text-white/80 mt-1">
+                  {formatMoney(getSubtotal() - getDiscountedSubtotal())} off {formatMoney(getSubtotal())}
+                </p>
+              )}
+              {getSaleTotals().tax > 0 && (
+                <p className="text-xs sm:text-sm text-white/80 mt-1">
+                  {taxSettings.pricesIncludeTax ? 'Includes' : 'Plus'} {formatMoney(getSaleTotals().tax)} tax
+                </p>
+              )}
             </div>
           </div>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6 border-t pt-4 sm:pt-6 flex-shrink-0">
           <div>
-            <Label className="floating-label text-xs sm:text-sm">Customer Name (Optional)</Label>
-            <Input
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              className="modern-input text-sm"
-              placeholder="Enter customer name"
+            <Label className="floating-label text-xs sm:text-sm">Customer (Optional)</Label>
+            <CustomerPicker
+              customerName={customerName}
+              customerId={customerId}
+              onChange={(name, customer) => {
+                setCustomerName(name);
+                setCustomerId(customer?._id ?? null);
+              }}
             />
           </div>
+          {user?.role === 'admin' && (
+            <div>
+              <Label className="floating-label text-xs sm:text-sm">Invoice Number (Override)</Label>
+              <Input
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+                className="modern-input text-sm"
+                placeholder="Leave blank to number automatically"
+              />
+            </div>
+          )}
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Sale Discount</Label>
+            <DiscountInput value={saleDiscount} onChange={setSaleDiscount} aria-label="Sale discount" />
+          </div>
           <div>
-            <Label className="floating-label text-xs sm:text-sm">Invoice Number (Optional)</Label>
+            <Label className="floating-label text-xs sm:text-sm">Amount Paid</Label>
             <Input
-              value={invoiceNumber}
-              onChange={(e) => setInvoiceNumber(e.target.value)}
+              type="number"
+              min="0"
+              step="0.01"
+              value={amountPaid}
+              onChange={(e) => setAmountPaid(e.target.value)}
               className="modern-input text-sm"
-              placeholder="Enter invoice number"
+              placeholder={`Paid in full (${formatMoney(getSaleTotals().total)})`}
             />
           </div>
+          <div>
+            <Label className="floating-label text-xs sm:text-sm">Payment Method</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+              <SelectTrigger className="modern-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {amountPaid !== '' && parseFloat(amountPaid) < getSaleTotals().total && (
+            <div className="sm:col-span-2">
+              <Label className="floating-label text-xs sm:text-sm">
+                Balance of {formatMoney(getSaleTotals().total - (parseFloat(amountPaid) || 0))} Due By (Optional)
+              </Label>
+              <Input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="modern-input text-sm"
+              />
+            </div>
+          )}
         </div>
 
         <DialogFooter className="border-t pt-4 sm:pt-6 flex-shrink-0 gap-3 sm:gap-0">
@@ -292,7 +649,7 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
             Cancel
           </button>
           <button
-            onClick={handleSubmit}
+            onClick={() => handleSubmit()}
             disabled={loading || sellItems.length === 0}
             className="modern-btn-success px-6 sm:px-8 py-2.5 sm:py-3 disabled:opacity-50 disabled:cursor-not-allowed text-xs sm:text-sm flex-1 sm:flex-none"
           >
@@ -306,6 +663,13 @@ export default function SellModal({ lot, open, onClose, onSuccess }: SellModalPr
             )}
           </button>
         </DialogFooter>
+
+        <ApprovalDialog
+          reason={approvalReason}
+          loading={loading}
+          onCancel={() => setApprovalReason(null)}
+          onApprove={handleSubmit}
+        />
       </DialogContent>
     </Dialog>
   );
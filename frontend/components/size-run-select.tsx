@@ -0,0 +1,41 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SizeRun } from '@/types';
+
+// Radix Select can't use an empty string as an item value
+const NO_RUN = 'none';
+
+interface SizeRunSelectProps {
+  sizeRuns: SizeRun[];
+  onSelect: (sizeRun: SizeRun) => void;
+}
+
+// Adds every size of a run to a color; the select itself always goes back to empty
+export default function SizeRunSelect({ sizeRuns, onSelect }: SizeRunSelectProps) {
+  if (sizeRuns.length === 0) return null;
+
+  return (
+    <Select
+      value={NO_RUN}
+      onValueChange={(runId) => {
+        const sizeRun = sizeRuns.find((run) => run._id === runId);
+        if (sizeRun) {
+          onSelect(sizeRun);
+        }
+      }}
+    >
+      <SelectTrigger className="modern-input text-xs sm:text-sm h-9 w-auto">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_RUN}>Apply size run...</SelectItem>
+        {sizeRuns.map((sizeRun) => (
+          <SelectItem key={sizeRun._id} value={sizeRun._id}>
+            {sizeRun.name} ({sizeRun.sizes.join(', ')})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
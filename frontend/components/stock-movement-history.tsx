@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AxiosError } from 'axios';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import api from '@/lib/api';
+import { LedgerMismatch, Lot, StockMovement, StockMovementType } from '@/types';
+import { toast } from 'sonner';
+
+interface StockMovementHistoryProps {
+  lot: Lot;
+  isAdmin: boolean;
+  // Called after a rebuild changes the lot's counters
+  onRebuilt: () => void;
+}
+
+// Radix Select can't use an empty string as an item value
+const ALL = 'all';
+
+export const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  receive: 'Received',
+  sale: 'Sold',
+  return: 'Returned',
+  adjustment: 'Adjusted',
+  transfer: 'Transferred',
+};
+
+const variantKey = (color: string, size: string) => `${color} / ${size}`;
+
+export default function StockMovementHistory({ lot, isAdmin, onRebuilt }: StockMovementHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [mismatches, setMismatches] = useState<LedgerMismatch[]>([]);
+  const [variant, setVariant] = useState(ALL);
+  const [rebuilding, setRebuilding] = useState(false);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [lot]);
+
+  const fetchMovements = async () => {
+    try {
+      const response = await api.get(`/lots/${lot._id}/movements`);
+      setMovements(response.data.data.movements);
+      setMismatches(response.data.data.mismatches);
+    } catch (error) {
+      console.error('Failed to load stock movements');
+    }
+  };
+
+  const handleRebuild = async () => {
+    setRebuilding(true);
+    try {
+      const response = await api.post(`/lots/${lot._id}/movements/rebuild`, {});
+      toast.success(response.data.message || 'Stock rebuilt from the ledger');
+      onRebuilt();
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || 'Failed to rebuild stock'
+        : 'Failed to rebuild stock';
+      toast.error(message);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  // Running balance per variant, oldest first, then shown newest first
+  const balances = new Map<string, number>();
+  const rows = movements
+    .map((movement) => {
+      const key = variantKey(movement.color, movement.size);
+      const balance = (balances.get(key) ?? 0) + movement.quantity;
+      balances.set(key, balance);
+      return { movement, key, balance };
+    })
+    .filter((row) => variant === ALL || row.key === variant)
+    .reverse();
+
+  const variants = lot.items.flatMap((item) => item.sizes.map((size) => variantKey(item.color, size.size)));
+
+  return (
+    <div className="modern-card-lg mb-8 sm:mb-12 animate-fade-in-up stagger-5">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6 sm:mb-8">
+        <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold">Stock Movements</h2>
+        <div className="w-full sm:w-56">
+          <Label className="floating-label text-xs sm:text-sm">Variant</Label>
+          <Select value={variant} onValueChange={setVariant}>
+            <SelectTrigger className="modern-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All variants</SelectItem>
+              {variants.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {key}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {mismatches.length > 0 && (
+        <div className="modern-card border-l-4 border-amber-500 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-amber-900 mb-1">
+              {movements.length === 0 ? 'No movement history yet' : 'Stock disagrees with the ledger'}
+            </h3>
+            <p className="text-amber-700 text-sm">
+              {movements.length === 0
+                ? 'This lot was created before movements were recorded.'
+                : mismatches
+                    .map((mismatch) => `${mismatch.color} - ${mismatch.size}: ${mismatch.remainingQuantity} in stock, ${mismatch.ledgerQuantity} in ledger${mismatch.missingOpeningBalance ? ' (no opening balance)' : ''}`)
+                    .join(' • ')}
+            </p>
+          </div>
+          {isAdmin && (
+            <button
+              onClick={handleRebuild}
+              disabled={rebuilding}
+              className="px-4 sm:px-5 py-2.5 rounded-xl border border-amber-200 bg-white font-semibold text-xs sm:text-sm text-amber-800 hover:bg-amber-50 transition-all whitespace-nowrap disabled:opacity-50"
+            >
+              {rebuilding
+                ? 'Rebuilding...'
+                : movements.length === 0 ? 'Record Opening Balance' : 'Rebuild from Ledger'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No movements recorded.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-semibold">Date</th>
+                <th className="py-2 pr-4 font-semibold">Variant</th>
+                <th className="py-2 pr-4 font-semibold">Type</th>
+                <th className="py-2 pr-4 font-semibold text-right">Change</th>
+                <th className="py-2 pr-4 font-semibold text-right">Balance</th>
+                <th className="py-2 pr-4 font-semibold">Note</th>
+                <th className="py-2 font-semibold">By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ movement, key, balance }) => (
+                <tr key={movement._id} className="border-t border-gray-100">
+                  <td className="py-2 pr-4 whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{key}</td>
+                  <td className="py-2 pr-4">{MOVEMENT_TYPE_LABELS[movement.type]}</td>
+                  <td className={`py-2 pr-4 text-right font-semibold ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{balance}</td>
+                  <td className="py-2 pr-4 text-gray-500">{movement.note || '—'}</td>
+                  <td className="py-2 text-gray-500">{movement.createdBy?.name ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Supplier } from '@/types';
+import api from '@/lib/api';
+
+// Radix Select can't use an empty string as an item value
+const NO_SUPPLIER = 'none';
+
+interface SupplierSelectProps {
+  // Empty string means no supplier
+  value: string;
+  onChange: (supplierId: string) => void;
+}
+
+export default function SupplierSelect({ value, onChange }: SupplierSelectProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        const response = await api.get('/suppliers', { params: { limit: 100 } });
+        setSuppliers(response.data.data.suppliers);
+      } catch (error) {
+        console.error('Failed to load suppliers');
+      }
+    };
+
+    fetchSuppliers();
+  }, []);
+
+  return (
+    <Select
+      value={value || NO_SUPPLIER}
+      onValueChange={(supplierId) => onChange(supplierId === NO_SUPPLIER ? '' : supplierId)}
+    >
+      <SelectTrigger className="modern-input">
+        <SelectValue placeholder="Select supplier" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+        {suppliers.map((supplier) => (
+          <SelectItem key={supplier._id} value={supplier._id}>
+            {supplier.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
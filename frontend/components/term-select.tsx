@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { AxiosError } from 'axios';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+
+// Radix Select can't use an empty string as an item value
+const NEW_TERM = '__new';
+
+interface TermSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  // The tenant's list in its order; while it's empty any name can be typed
+  options: string[];
+  // Adds a name to the list and resolves to it as listed
+  onCreate: (name: string) => Promise<string>;
+  noun: 'color' | 'size';
+  placeholder?: string;
+  // Variants with sales keep their name
+  readOnly?: boolean;
+  className?: string;
+}
+
+// Picks a color or size from the tenant's list, with a way to add one that's missing
+export default function TermSelect({
+  value,
+  onChange,
+  options,
+  onCreate,
+  noun,
+  placeholder,
+  readOnly,
+  className = 'modern-input text-sm',
+}: TermSelectProps) {
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (readOnly || options.length === 0) {
+    return (
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        required
+        readOnly={readOnly}
+        className={`${className} read-only:bg-gray-100 read-only:text-gray-500`}
+        placeholder={placeholder}
+      />
+    );
+  }
+
+  const handleCreate = async () => {
+    if (!draft.trim()) return;
+
+    setSaving(true);
+    try {
+      onChange(await onCreate(draft.trim()));
+      setCreating(false);
+      setDraft('');
+    } catch (error) {
+      const message = error instanceof AxiosError
+        ? error.response?.data?.error?.message || `Failed to add ${noun}`
+        : `Failed to add ${noun}`;
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (creating) {
+    return (
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          autoFocus
+          className={className}
+          placeholder={`New ${noun}`}
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={saving || !draft.trim()}
+          className="px-3 rounded-xl bg-purple-50 text-purple-600 font-semibold text-xs hover:bg-purple-100 transition-all disabled:opacity-50"
+        >
+          Add
+        </button>
+        <button
+          type="button"
+          onClick={() => setCreating(false)}
+          className="px-3 rounded-xl border border-gray-200 bg-white font-semibold text-xs hover:bg-gray-50 transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  // A name the list doesn't know, e.g. from a lot created before the list, is still shown
+  const items = value && !options.includes(value) ? [value, ...options] : options;
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(picked) => (picked === NEW_TERM ? setCreating(true) : onChange(picked))}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {items.map((item) => (
+          <SelectItem key={item} value={item}>
+            {item}
+          </SelectItem>
+        ))}
+        <SelectItem value={NEW_TERM}>+ New {noun}...</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AxiosError } from 'axios';
+import { Input } from '@/components/ui/input';
+import api from '@/lib/api';
+import { VocabularyColor } from '@/types';
+import { toast } from 'sonner';
+
+interface VocabularyListProps {
+  kind: 'colors' | 'sizes';
+  title: string;
+  description: string;
+  className?: string;
+}
+
+// Sizes carry no swatch, so a color covers both shapes
+type Term = VocabularyColor;
+
+const toNames = (value: string) =>
+  value.split(',').map((name) => name.trim()).filter(Boolean);
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof AxiosError ? error.response?.data?.error?.message || fallback : fallback;
+
+// One of the tenant's color or size lists: add, rename, alias, reorder and remove
+export default function VocabularyList({ kind, title, description, className }: VocabularyListProps) {
+  const noun = kind === 'colors' ? 'color' : 'size';
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [unlisted, setUnlisted] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', aliases: '', hex: '' });
+  const [saving, setSaving] = useState(false);
+
+  const fetchTerms = () =>
+    api.get(`/${kind}`)
+      .then((response) => {
+        setTerms(response.data.data[kind]);
+        setUnlisted(response.data.data.unlisted);
+      })
+      .catch(() => toast.error(`Failed to load ${kind}`))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    fetchTerms();
+  }, [kind]);
+
+  const handleAdd = async (name: string) => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await api.post(`/${kind}`, { name: name.trim() });
+      setNewName('');
+      fetchTerms();
+    } catch (error) {
+      toast.error(errorMessage(error, `Failed to add ${noun}`));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (term: Term) => {
+    setEditingId(term._id);
+    setDraft({ name: term.name, aliases: term.aliases.join(', '), hex: term.hex ?? '' });
+  };
+
+  const handleSave = async (term: Term) => {
+    setSaving(true);
+    try {
+      await api.patch(`/${kind}/${term._id}`, {
+        name: draft.name,
+        aliases: toNames(draft.aliases),
+        ...(kind === 'colors' && { hex: draft.hex }),
+      });
+      setEditingId(null);
+      fetchTerms();
+    } catch (error) {
+      toast.error(errorMessage(error, `Failed to update ${noun}`));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const reordered = [...terms];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setTerms(reordered);
+
+    try {
+      await api.put(`/${kind}/order`, { ids: reordered.map((term) => term._id) });
+    } catch (error) {
+      toast.error(errorMessage(error, `Failed to reorder ${kind}`));
+      fetchTerms();
+    }
+  };
+
+  const handleRemove = async (term: Term) => {
+    try {
+      await api.delete(`/${kind}/${term._id}`);
+      fetchTerms();
+    } catch (error) {
+      toast.error(errorMessage(error, `Failed to remove ${noun}`));
+    }
+  };
+
+  return (
+    <div className={`modern-card-lg ${className ?? ''}`}>
+      <h2 className="text-lg sm:text-xl lg:text-2xl font-bold mb-1">{title}</h2>
+      <p className="text-xs sm:text-sm text-gray-500 mb-4 sm:mb-6">{description}</p>
+
+      <div className="flex gap-2 mb-4 sm:mb-6">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd(newName);
+            }
+          }}
+          className="modern-input text-sm"
+          placeholder={kind === 'colors' ? 'e.g., Navy Blue' : 'e.g., XL'}
+        />
+        <button
+          type="button"
+          onClick={() => handleAdd(newName)}
+          disabled={saving || !newName.trim()}
+          className="modern-btn-primary px-4 sm:px-6 text-xs sm:text-sm whitespace-nowrap disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : terms.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No {kind} listed yet, so any {noun} can be typed on a lot.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {terms.map((term, index) => (
+            <li key={term._id} className="py-3">
+              {editingId === term._id ? (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="modern-input text-sm"
+                    placeholder="Name"
+                  />
+                  <Input
+                    value={draft.aliases}
+                    onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                    className="modern-input text-sm"
+                    placeholder="Other spellings, comma separated"
+                  />
+                  {kind === 'colors' && (
+                    <Input
+                      value={draft.hex}
+                      onChange={(e) => setDraft({ ...draft, hex: e.target.value })}
+                      className="modern-input text-sm"
+                      placeholder="Swatch, e.g. #1F2A44"
+                    />
+                  )}
+                  <div className="flex gap-2 sm:col-span-3">
+                    <button
+                      type="button"
+                      onClick={() => handleSave(term)}
+                      disabled={saving || !draft.name.trim()}
+                      className="modern-btn-primary px-4 py-2 text-xs sm:text-sm disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-4 py-2 rounded-xl border border-gray-200 bg-white font-semibold text-xs sm:text-sm hover:bg-gray-50 transition-all"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {term.hex && (
+                      <span
+                        className="w-5 h-5 rounded-md border border-gray-200 flex-shrink-0"
+                        style={{ backgroundColor: term.hex }}
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900">{term.name}</p>
+                      {term.aliases.length > 0 && (
+                        <p className="text-xs text-gray-500 truncate">Also: {term.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === terms.length - 1}
+                      className="px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEditing(term)}
+                      className="px-3 py-1 rounded-lg text-xs font-semibold text-purple-600 hover:bg-purple-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(term)}
+                      className="px-3 py-1 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unlisted.length > 0 && (
+        <div className="mt-4 sm:mt-6 pt-4 border-t border-gray-100">
+          <p className="text-xs sm:text-sm text-gray-500 mb-2">
+            Used on lots but not listed. Add them, or add them as another spelling of a listed {noun}.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {unlisted.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => handleAdd(name)}
+                disabled={saving}
+                className="stat-badge text-xs hover:bg-purple-100 disabled:opacity-50"
+              >
+                + {name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { AxiosError } from 'axios';
+import { Discount, DiscountType } from '@/types';
+
+// A discount as typed into a form, before it's been checked
+export interface DiscountDraft {
+  type: DiscountType;
+  value: string;
+}
+
+export const EMPTY_DISCOUNT: DiscountDraft = { type: 'percent', value: '' };
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Blank or zero means no discount; percents are capped so a typo can't give stock away
+export const toDiscount = (draft: DiscountDraft): Discount | undefined => {
+  const value = parseFloat(draft.value);
+  if (!(value > 0)) return undefined;
+  return { type: draft.type, value: draft.type === 'percent' ? Math.min(value, 100) : value };
+};
+
+// These mirror the server so the cart shows what the sale will actually come to.
+// A line's amount discount comes off each piece; the sale's comes off the whole subtotal.
+export const getDiscountAmount = (price: number, discount?: Discount) => {
+  if (!discount) return 0;
+  return roundMoney(discount.type === 'percent' ? price * discount.value / 100 : discount.value);
+};
+
+// The sale discount is shared across lines in proportion to their value
+export const spreadSaleDiscount = (prices: { quantity: number; price: number }[], discountAmount: number) => {
+  const subtotal = prices.reduce((sum, line) => sum + line.quantity * line.price, 0);
+  if (subtotal <= 0 || discountAmount <= 0) {
+    return prices.map((line) => line.price);
+  }
+
+  const factor = Math.max(subtotal - discountAmount, 0) / subtotal;
+  return prices.map((line) => roundMoney(line.price * factor));
+};
+
+// Sales below cost or past the staff discount limit come back asking for an admin
+export const isApprovalRequired = (error: unknown) =>
+  error instanceof AxiosError && error.response?.data?.error?.code === 'APPROVAL_REQUIRED';
@@ -0,0 +1,29 @@
+import api from '@/lib/api';
+
+// One label per variant, or one for every piece still in stock
+export type LabelCopies = 'variant' | 'stock';
+
+// Same blob approach as invoices, since the label sheet needs the auth header too
+export const openLabelSheetPdf = async (lotId: string, copies: LabelCopies) => {
+  const labelWindow = window.open('', '_blank');
+
+  try {
+    const response = await api.get(`/lots/${lotId}/labels.pdf`, { params: { copies }, responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+
+    if (labelWindow) {
+      labelWindow.location.href = url;
+    } else {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `labels-${lotId}.pdf`;
+      link.click();
+    }
+
+    // Give the tab time to load before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (error) {
+    labelWindow?.close();
+    throw error;
+  }
+};
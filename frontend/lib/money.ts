@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAuth } from '@/lib/auth-context';
+
+// Every amount the server sends is in the tenant's currency, formatted for its locale
+export interface CurrencyFormat {
+  currency: string;
+  locale: string;
+}
+
+export const DEFAULT_CURRENCY_FORMAT: CurrencyFormat = { currency: 'USD', locale: 'en-US' };
+
+export const formatMoney = (amount: number, { currency, locale }: CurrencyFormat) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+// e.g. "$" or "€", for labelling amount inputs
+export const getCurrencySymbol = ({ currency, locale }: CurrencyFormat) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+export function useCurrency(): CurrencyFormat {
+  const { user } = useAuth();
+  return {
+    currency: user?.currency ?? DEFAULT_CURRENCY_FORMAT.currency,
+    locale: user?.locale ?? DEFAULT_CURRENCY_FORMAT.locale,
+  };
+}
+
+// Formats amounts in the signed-in tenant's currency
+export function useFormatMoney() {
+  const { currency, locale } = useCurrency();
+  return useCallback((amount: number) => formatMoney(amount, { currency, locale }), [currency, locale]);
+}
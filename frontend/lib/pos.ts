@@ -0,0 +1,36 @@
+import { PosVariant } from '@/types';
+import { DiscountDraft, getDiscountAmount, roundMoney, spreadSaleDiscount, toDiscount } from '@/lib/discounts';
+import { getTaxTotals, TaxSettings } from '@/lib/tax';
+
+export interface CartLine {
+  id: string;
+  variant: PosVariant;
+  quantity: number;
+  discount: DiscountDraft;
+}
+
+// Each piece's price after the line's own discount
+export const getLinePrice = (line: CartLine) => {
+  const listPrice = line.variant.sellCostPerPiece;
+  return Math.max(roundMoney(listPrice - getDiscountAmount(listPrice, toDiscount(line.discount))), 0);
+};
+
+// prices are per piece once the sale discount has been shared out, in cart order, and
+// priced the way the tenant enters them; total is what the customer pays, tax included
+export const getCartTotals = (lines: CartLine[], saleDiscount: DiscountDraft, taxSettings: TaxSettings) => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.variant.sellCostPerPiece, 0));
+  const linePrices = lines.map((line) => ({ quantity: line.quantity, price: getLinePrice(line) }));
+  const lineTotal = linePrices.reduce((sum, line) => sum + line.quantity * line.price, 0);
+  const saleDiscountAmount = Math.min(getDiscountAmount(lineTotal, toDiscount(saleDiscount)), lineTotal);
+  const prices = spreadSaleDiscount(linePrices, saleDiscountAmount);
+  const discounted = roundMoney(lines.reduce((sum, line, index) => sum + line.quantity * prices[index], 0));
+  const { tax, total } = getTaxTotals(
+    lines.map((line, index) => ({ quantity: line.quantity, price: prices[index], taxRateId: line.variant.taxRateId })),
+    taxSettings
+  );
+
+  return { subtotal, discount: roundMoney(subtotal - discounted), tax, total, prices };
+};
+
+export const isSameVariant = (a: PosVariant, b: PosVariant) =>
+  a.lotId === b.lotId && a.color === b.color && a.size === b.size;
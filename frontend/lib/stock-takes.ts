@@ -0,0 +1,12 @@
+import { StockTakeLine, StockTakeStatus } from '@/types';
+
+export const STOCK_TAKE_STATUS_BADGES: Record<StockTakeStatus, { label: string; className: string }> = {
+  open: { label: 'Counting', className: 'bg-amber-50 text-amber-700 border border-amber-200' },
+  approved: { label: 'Approved', className: 'bg-green-50 text-green-700 border border-green-200' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-600 border border-gray-200' },
+};
+
+export const getLineKey = (line: StockTakeLine) => `${line.lotId}::${line.color}::${line.size}`;
+
+export const isLineCounted = (line: StockTakeLine) =>
+  line.countedQuantity !== undefined && line.countedQuantity !== null;
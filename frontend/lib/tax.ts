@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import api from '@/lib/api';
+import { roundMoney } from '@/lib/discounts';
+import { TaxRate, TenantSettings } from '@/types';
+
+export type TaxSettings = Pick<TenantSettings, 'taxRates' | 'pricesIncludeTax'>;
+
+export const NO_TAX: TaxSettings = { taxRates: [], pricesIncludeTax: false };
+
+// The tenant's tax rates, for showing what a sale comes to before it's made
+export function useTaxSettings() {
+  const [settings, setSettings] = useState<TaxSettings>(NO_TAX);
+
+  useEffect(() => {
+    api.get('/settings')
+      .then((response) => {
+        const { taxRates, pricesIncludeTax } = response.data.data.settings;
+        setSettings({ taxRates, pricesIncludeTax });
+      })
+      .catch(() => console.error('Failed to load tax settings'));
+  }, []);
+
+  return settings;
+}
+
+// These mirror the server. A line takes its product's rate, or the tenant's default.
+export const resolveTaxRate = (rates: TaxRate[], taxRateId?: string) =>
+  (taxRateId && rates.find((rate) => rate._id === taxRateId)) || rates.find((rate) => rate.isDefault);
+
+// Splits a line into its net total and tax; with inclusive prices the line total is split,
+// not the per-piece price, so the line comes to exactly what the customer was quoted
+export const applyTax = (quantity: number, price: number, rate: number, pricesIncludeTax: boolean) => {
+  const netPricePerPiece = pricesIncludeTax && rate > 0 ? roundMoney(price / (1 + rate / 100)) : price;
+  if (pricesIncludeTax) {
+    const totalAmount = roundMoney(quantity * price / (1 + rate / 100));
+    return { netPricePerPiece, totalAmount, taxAmount: roundMoney(roundMoney(quantity * price) - totalAmount) };
+  }
+
+  const totalAmount = roundMoney(quantity * price);
+  return { netPricePerPiece, totalAmount, taxAmount: roundMoney(totalAmount * rate / 100) };
+};
+
+// Tax on a cart and what the customer pays, tax included
+export const getTaxTotals = (
+  lines: { quantity: number; price: number; taxRateId?: string }[],
+  settings: TaxSettings
+) => {
+  let net = 0;
+  let tax = 0;
+  for (const line of lines) {
+    const rate = resolveTaxRate(settings.taxRates, line.taxRateId)?.rate ?? 0;
+    const amounts = applyTax(line.quantity, line.price, rate, settings.pricesIncludeTax);
+    net += amounts.totalAmount;
+    tax += amounts.taxAmount;
+  }
+
+  return { tax: roundMoney(tax), total: roundMoney(net + tax) };
+};
@@ -0,0 +1,100 @@
+import { ApprovalReason, PaymentMethod, Transaction, TransactionLot } from '@/types';
+import api from '@/lib/api';
+
+type SoldItem = Transaction['soldItems'][number];
+
+// Sales made before multi-lot support only reference a single lotId
+export const getTransactionLots = (transaction: Transaction): TransactionLot[] => {
+  if (transaction.lotIds && transaction.lotIds.length > 0) {
+    return transaction.lotIds.filter(Boolean);
+  }
+  return transaction.lotId ? [transaction.lotId] : [];
+};
+
+export const getTransactionLotLabel = (transaction: Transaction) => {
+  const lots = getTransactionLots(transaction);
+  return lots.length > 0 ? lots.map((lot) => lot.lotNumber).join(', ') : 'Unknown Lot';
+};
+
+export const getItemLotId = (transaction: Transaction, item: SoldItem) => {
+  return item.lotId ?? getTransactionLots(transaction)[0]?._id;
+};
+
+export const getItemLotNumber = (transaction: Transaction, item: SoldItem) => {
+  const lotId = getItemLotId(transaction, item);
+  return getTransactionLots(transaction).find((lot) => lot._id === lotId)?.lotNumber;
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  card: 'Card',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+export const APPROVAL_REASON_LABELS: Record<ApprovalReason, string> = {
+  below_cost: 'below cost',
+  over_discount_limit: 'over the staff discount limit',
+};
+
+// What the customer was charged, tax included, less refunds
+export const getNetTotal = (transaction: Transaction) =>
+  transaction.totalRevenue + (transaction.totalTax || 0)
+    - (transaction.totalRefunded || 0) - (transaction.taxRefunded || 0);
+
+// Sales without amountPaid predate credit sales and were paid in full
+export const getBalanceDue = (transaction: Transaction) => {
+  const netTotal = getNetTotal(transaction);
+  return Math.max(netTotal - (transaction.amountPaid ?? netTotal), 0);
+};
+
+// The PDF needs the auth header, so fetch it as a blob instead of linking to it.
+// The tab is opened up front because browsers block popups opened after an await; callers
+// that await something else first (like the sale itself) open it themselves and pass it in.
+export const openInvoicePdf = async (
+  transactionId: string,
+  invoiceWindow: Window | null = window.open('', '_blank')
+) => {
+  try {
+    const response = await api.get(`/transactions/${transactionId}/invoice.pdf`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+
+    if (invoiceWindow) {
+      invoiceWindow.location.href = url;
+    } else {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${transactionId}.pdf`;
+      link.click();
+    }
+
+    // Give the tab time to load before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (error) {
+    invoiceWindow?.close();
+    throw error;
+  }
+};
+
+export interface TransactionExportFilters {
+  search?: string;
+  from?: string;
+  to?: string;
+}
+
+// Same blob approach as invoices since the export needs the auth header too
+export const downloadTransactionsCsv = async (filters: TransactionExportFilters) => {
+  const response = await api.get('/transactions/export.csv', {
+    params: filters,
+    responseType: 'blob',
+  });
+  const url = URL.createObjectURL(response.data);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transactions-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import api from '@/lib/api';
+import { SizeRun, VocabularyColor, VocabularySize } from '@/types';
+
+// The tenant's color and size lists and size runs, for picking variants on the lot forms
+export function useVocabulary() {
+  const [colors, setColors] = useState<VocabularyColor[]>([]);
+  const [sizes, setSizes] = useState<VocabularySize[]>([]);
+  const [sizeRuns, setSizeRuns] = useState<SizeRun[]>([]);
+
+  useEffect(() => {
+    Promise.all([api.get('/colors'), api.get('/sizes'), api.get('/sizes/runs')])
+      .then(([colorsResponse, sizesResponse, runsResponse]) => {
+        setColors(colorsResponse.data.data.colors);
+        setSizes(sizesResponse.data.data.sizes);
+        setSizeRuns(runsResponse.data.data.sizeRuns);
+      })
+      .catch(() => console.error('Failed to load colors and sizes'));
+  }, []);
+
+  // Add a name typed on the form to the list; resolves to the name as listed
+  const addColor = async (name: string) => {
+    const response = await api.post('/colors', { name });
+    const color: VocabularyColor = response.data.data.color;
+    setColors((current) => [...current, color]);
+    return color.name;
+  };
+
+  const addSize = async (name: string) => {
+    const response = await api.post('/sizes', { name });
+    const size: VocabularySize = response.data.data.size;
+    setSizes((current) => [...current, size]);
+    return size.name;
+  };
+
+  return {
+    colorNames: colors.map((color) => color.name),
+    sizeNames: sizes.map((size) => size.name),
+    sizeRuns,
+    addColor,
+    addSize,
+  };
+}
@@ -5,6 +5,52 @@ export interface User {
   role: 'admin' | 'staff';
   tenantId: string;
   businessName: string;
+  // The tenant's base currency and the locale amounts are formatted for
+  currency: string;
+  locale: string;
+}
+
+export interface TenantUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'admin' | 'staff';
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface TaxRate {
+  _id: string;
+  name: string;
+  // Percent, e.g. 20 for 20% VAT
+  rate: number;
+  isDefault: boolean;
+}
+
+export interface TenantSettings {
+  lotPrefix: string;
+  lotFormat: string;
+  lotPadding: number;
+  nextLotSequence: number;
+  nextLotNumber: string;
+  invoicePrefix: string;
+  invoiceFormat: string;
+  invoicePadding: number;
+  nextInvoiceSequence: number;
+  nextInvoiceNumber: string;
+  // Variants with fewer pieces left than this are low on stock
+  lowStockThreshold: number;
+  // Staff need an admin's approval to discount a line by more than this percent
+  maxStaffDiscountPercent: number;
+  // No rates means sales aren't taxed
+  taxRates: TaxRate[];
+  // Whether sell prices already include tax, or tax is added on top
+  pricesIncludeTax: boolean;
+  taxRegistrationNumber?: string;
+  // ISO 4217 code every amount is in; fixed once there are lots or sales
+  currency: string;
+  // e.g. en-GB, for formatting amounts
+  locale: string;
 }
 
 export interface AuthResponse {
@@ -15,52 +61,535 @@ export interface AuthResponse {
 export interface Lot {
   _id: string;
   lotNumber: string;
+  supplierId?: {
+    _id: string;
+    name: string;
+  } | null;
   items: {
     color: string;
+    // The catalogue product this line is stock of
+    productId?: {
+      _id: string;
+      name: string;
+      sku?: string;
+      taxRateId?: string;
+    } | null;
     sizes: {
       size: string;
       quantity: number;
       remainingQuantity: number;
+      // Net stock adjustments; negative when stock was damaged or lost
+      adjustedQuantity?: number;
       purchaseCostPerPiece: number;
       sellCostPerPiece: number;
+      // Printed on labels and scanned to sell; lots from before labels get one when first printed
+      barcode?: string;
+      // Overrides the lot's low-stock threshold for this variant
+      lowStockThreshold?: number;
     }[];
   }[];
   totalInvestment: number;
   totalRevenue: number;
   totalProfit: number;
+  totalWriteOff?: number;
   createdAt: string;
   createdBy: {
     name: string;
     email: string;
   };
+  // Set while the lot is in the trash
+  deletedAt?: string;
+  deletedBy?: {
+    name: string;
+    email: string;
+  } | null;
+  // Set while an open stock take is counting the lot; sales and edits are blocked until it closes
+  stockTakeId?: string;
+  // Overrides the tenant's low-stock threshold; absent means the default applies
+  lowStockThreshold?: number;
+  // Set when the lot was bought in another currency; costs were converted at this rate on entry
+  purchaseCurrency?: string;
+  exchangeRate?: number;
 }
 
-export interface Transaction {
+// The lot variant a scanned barcode belongs to
+export interface ScannedVariant {
+  lot: {
+    _id: string;
+    lotNumber: string;
+  };
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  sellCostPerPiece: number;
+  // The product's tax rate, when it names one
+  taxRateId?: string;
+  barcode: string;
+}
+
+// A sellable color/size of a lot, as found by the point-of-sale search
+export interface PosVariant {
+  lotId: string;
+  lotNumber: string;
+  color: string;
+  size: string;
+  barcode?: string;
+  productName?: string;
+  taxRateId?: string;
+  remainingQuantity: number;
+  sellCostPerPiece: number;
+}
+
+export interface Product {
+  _id: string;
+  name: string;
+  sku?: string;
+  category?: string;
+  colors: string[];
+  sizes: string[];
+  images: string[];
+  // The tenant's default rate applies when unset
+  taxRateId?: string;
+  createdAt: string;
+}
+
+// A product in the catalogue list, with its stock across current lots
+export interface ProductSummary extends Product {
+  lotCount: number;
+  totalRemaining: number;
+  unitsSold: number;
+}
+
+export interface ProductStock {
+  lotCount: number;
+  unitsReceived: number;
+  unitsSold: number;
+  totalRemaining: number;
+  variants: {
+    color: string;
+    size: string;
+    remainingQuantity: number;
+    unitsSold: number;
+  }[];
+  lots: {
+    _id: string;
+    lotNumber: string;
+    createdAt: string;
+    remainingQuantity: number;
+  }[];
+}
+
+export interface ProductSalesRow {
+  productId: string;
+  name: string;
+  sku?: string;
+  category?: string;
+  unitsSold: number;
+  revenue: number;
+  // Taken off list prices on the units sold
+  discount: number;
+  profit: number;
+}
+
+export interface VocabularyColor {
+  _id: string;
+  name: string;
+  // Other spellings that mean this color, e.g. "BLK"
+  aliases: string[];
+  hex?: string;
+  sortOrder: number;
+}
+
+export interface VocabularySize {
+  _id: string;
+  name: string;
+  aliases: string[];
+  sortOrder: number;
+}
+
+export interface SizeRun {
+  _id: string;
+  name: string;
+  sizes: string[];
+}
+
+export interface LowStockAlert {
+  lotId: string;
+  lotNumber: string;
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  threshold: number;
+}
+
+export type NotificationType = 'low_stock';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  lotId: string;
+  lotNumber: string;
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  threshold: number;
+  read: boolean;
+  createdAt: string;
+  // Set once the variant is restocked
+  resolvedAt?: string;
+}
+
+export type AdjustmentReason = 'damage' | 'loss' | 'found' | 'recount';
+
+export interface StockAdjustment {
+  _id: string;
+  lotId: string;
+  items: {
+    color: string;
+    size: string;
+    quantity: number;
+    purchaseCostPerPiece: number;
+    writeOff: number;
+  }[];
+  reason: AdjustmentReason;
+  note?: string;
+  totalWriteOff: number;
+  adjustedBy: {
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+}
+
+export type StockMovementType = 'receive' | 'sale' | 'return' | 'adjustment' | 'transfer';
+
+export interface StockMovement {
+  _id: string;
+  lotId: string;
+  color: string;
+  size: string;
+  type: StockMovementType;
+  // Signed: positive puts stock into the lot, negative takes it out
+  quantity: number;
+  referenceId?: string;
+  note?: string;
+  createdBy: {
+    name: string;
+    email: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface LedgerMismatch {
+  color: string;
+  size: string;
+  remainingQuantity: number;
+  ledgerQuantity: number;
+  // Stocked before the ledger existed; it can't be rebuilt from the ledger
+  missingOpeningBalance?: boolean;
+}
+
+export interface StockConsistencyLot {
+  lotId: string;
+  lotNumber: string;
+  deletedAt?: string;
+  missingHistory: boolean;
+  mismatches: LedgerMismatch[];
+}
+
+export type StockTakeStatus = 'open' | 'approved' | 'cancelled';
+
+export interface StockTakeLine {
+  lotId: string;
+  lotNumber: string;
+  color: string;
+  size: string;
+  expectedQuantity: number;
+  countedQuantity?: number;
+  countedBy?: {
+    name: string;
+    email: string;
+  };
+  countedAt?: string;
+}
+
+export interface StockTake {
   _id: string;
-  lotId: {
+  name: string;
+  status: StockTakeStatus;
+  lotIds: string[];
+  lines: StockTakeLine[];
+  totalWriteOff: number;
+  createdBy: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+  closedBy?: {
+    name: string;
+    email: string;
+  };
+  closedAt?: string;
+}
+
+export interface LotImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface LotImportPreview {
+  dryRun: true;
+  rowCount: number;
+  lots: {
+    // Null when the lot will be numbered automatically
+    lotNumber: string | null;
+    rows: number[];
+    items: Lot['items'];
+    totalQuantity: number;
+    totalInvestment: number;
+  }[];
+  errors: LotImportRowError[];
+}
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface SupplierStats {
+  lotCount: number;
+  totalPurchased: number;
+  totalPaid: number;
+  balanceDue: number;
+  totalRevenue: number;
+  totalProfit: number;
+  unitsBought: number;
+  unitsSold: number;
+}
+
+export interface SupplierSummary extends SupplierStats {
+  supplier: Supplier;
+}
+
+export interface SupplierPayment {
+  _id: string;
+  amount: number;
+  method: PaymentMethod;
+  lotId?: {
     _id: string;
     lotNumber: string;
+  } | null;
+  paidAt: string;
+  note?: string;
+  recordedBy: {
+    name: string;
+    email: string;
   };
+  createdAt: string;
+}
+
+export interface TransactionLot {
+  _id: string;
+  lotNumber: string;
+}
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+}
+
+export type ApprovalReason = 'below_cost' | 'over_discount_limit';
+
+export interface Transaction {
+  _id: string;
+  lotIds?: TransactionLot[];
+  // Only set on single-lot sales recorded before multi-lot support
+  lotId?: TransactionLot | null;
   soldItems: {
+    lotId?: string;
     color: string;
     size: string;
     quantity: number;
+    // Missing on sales from before discounts were recorded
+    listPricePerPiece?: number;
+    // Prices and totals leave tax out
     sellPricePerPiece: number;
+    discount?: Discount;
     totalAmount: number;
+    // Missing on sales from before tax was recorded
+    taxRate?: number;
+    taxAmount?: number;
+    returnedQuantity?: number;
   }[];
+  // The sale discount as entered, with what it came to
+  discount?: Discount & { amount: number };
+  totalDiscount?: number;
   totalRevenue: number;
+  totalTax?: number;
+  totalRefunded?: number;
+  taxRefunded?: number;
+  returnStatus?: 'none' | 'partial' | 'full';
+  // Missing on sales recorded before credit sales, which were all paid in full
+  amountPaid?: number;
+  paymentStatus?: 'paid' | 'partial' | 'unpaid';
+  dueDate?: string;
   soldBy: {
     name: string;
     email: string;
   };
+  approvedBy?: {
+    name: string;
+    email: string;
+  };
+  approvalReasons?: ApprovalReason[];
+  customerId?: string;
   customerName?: string;
   invoiceNumber?: string;
   createdAt: string;
 }
 
+export interface TaxTotals {
+  taxableSales: number;
+  tax: number;
+  taxableReturns: number;
+  taxRefunded: number;
+}
+
+// One month or day of the tax summary report
+export interface TaxPeriod extends TaxTotals {
+  period: string;
+  byRate: (TaxTotals & { rate: number })[];
+}
+
+export interface Customer {
+  _id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CustomerStats {
+  totalRevenue: number;
+  totalProfit: number;
+  outstandingBalance: number;
+  transactionCount: number;
+  lastPurchaseAt: string | null;
+}
+
+export interface TransactionReturn {
+  _id: string;
+  transactionId: string;
+  returnedItems: {
+    lotId: string;
+    color: string;
+    size: string;
+    quantity: number;
+    sellPricePerPiece: number;
+    totalAmount: number;
+    taxRate?: number;
+    taxAmount?: number;
+  }[];
+  totalRefund: number;
+  totalTaxRefunded?: number;
+  reason?: string;
+  processedBy: {
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+}
+
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'cheque' | 'other';
+
+export interface TransactionPayment {
+  _id: string;
+  transactionId: string;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: string;
+  note?: string;
+  recordedBy: {
+    name: string;
+    email: string;
+  };
+  createdAt: string;
+}
+
+export interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+export interface CustomerReceivable {
+  customerId?: string;
+  customerName: string;
+  phone?: string;
+  totalDue: number;
+  buckets: AgingBuckets;
+  transactions: {
+    _id: string;
+    invoiceNumber?: string;
+    createdAt: string;
+    dueDate?: string;
+    total: number;
+    amountPaid: number;
+    balanceDue: number;
+    daysOverdue: number;
+  }[];
+}
+
+export interface ReceivablesReport {
+  customers: CustomerReceivable[];
+  totals: {
+    totalDue: number;
+    buckets: AgingBuckets;
+  };
+}
+
+export type AuditEntityType = 'lot' | 'transaction' | 'return' | 'user' | 'settings';
+
+export interface AuditEvent {
+  _id: string;
+  tenantId: string;
+  // Null once the user no longer exists; actorEmail still identifies them
+  actorId: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  actorEmail: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string;
+  entityLabel?: string;
+  changes: {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+  }[];
+  ip?: string;
+  createdAt: string;
+}
+
 export interface DashboardStats {
   totalInvestment: number;
   totalRevenue: number;
+  outstandingReceivables: number;
+  // Taken off list prices on pieces that stayed sold
+  totalDiscounts: number;
   totalProfit: number;
   activeLots: number;
   lotsWithStock: number;